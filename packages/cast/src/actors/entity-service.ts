@@ -17,8 +17,34 @@ import type {
   EntityRole,
   ServiceType,
   PersonaManifest,
+  ActorRpcContract,
+  LLMBudget,
+  LLMBudgetStatus,
+  TokenUsage,
+  PatientRecord,
+  PatientRecordDraft,
+  PendingAction,
+  PendingActionDecision,
+  PendingActionStatus,
+} from '@healthos/shared';
+import {
+  ActorRpcError,
+  EntityActorRpc,
+  ServiceActorRpc,
+  PatientActorRpc,
+  addTokenUsage,
+  decidePendingAction,
+  emptyTokenUsage,
 } from '@healthos/shared';
 import { BaseActor, ActorState } from './patient';
+import type { PatientActor } from './patient';
+import { createAuditChain, verifyAuditChain } from '../audit';
+import type { AuditEntryInput, AuditChainState, AuditChainVerification } from '../audit';
+import type { StateMigration } from '../storage';
+import { connectActor } from '../rpc';
+import type { PatientActorClient, ServiceActorClient } from '../rpc';
+import { sealRecordFields } from '../crypto';
+import type { CompartmentType } from '../crypto';
 
 // =============================================================================
 // ENTITY ACTOR
@@ -27,6 +53,9 @@ import { BaseActor, ActorState } from './patient';
 export interface EntityState extends ActorState {
   type: 'entity';
   
+  /** Nome de exibição (relatórios de transparência do paciente) */
+  name: string;
+  
   /** Papel do profissional */
   role: EntityRole;
   
@@ -47,6 +76,9 @@ export interface EntityState extends ActorState {
   
   /** Preferências do profissional */
   preferences: EntityPreferences;
+  
+  /** Inbox de validação - ações dos Stages aguardando (ou com) decisão */
+  pendingActions: PendingAction[];
 }
 
 export interface EntityCredential {
@@ -58,6 +90,12 @@ export interface EntityCredential {
   verified: boolean;
 }
 
+/** Dados públicos do Entity (consultados pelo PatientActor) */
+export interface EntityProfile {
+  name: string;
+  role: EntityRole;
+}
+
 export interface EntitySession {
   id: SessionId;
   stageId: StageId;
@@ -92,6 +130,10 @@ export interface EntityPreferences {
  */
 export class EntityActor extends BaseActor<EntityState> {
   
+  protected getRpcContract(): ActorRpcContract {
+    return EntityActorRpc;
+  }
+  
   protected initializeState(id: ActorId): EntityState {
     return {
       id,
@@ -99,6 +141,7 @@ export class EntityActor extends BaseActor<EntityState> {
       createdAt: new Date(),
       updatedAt: new Date(),
       metadata: {},
+      name: '',
       role: 'physician',
       credentials: [],
       linkedServices: [],
@@ -114,6 +157,7 @@ export class EntityActor extends BaseActor<EntityState> {
           systemAlerts: true,
         },
       },
+      pendingActions: [],
     };
   }
 
@@ -127,6 +171,7 @@ export class EntityActor extends BaseActor<EntityState> {
   async setCredentials(credentials: EntityCredential[]): Promise<void> {
     this.state.credentials = credentials;
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /**
@@ -135,6 +180,30 @@ export class EntityActor extends BaseActor<EntityState> {
   async setRole(role: EntityRole): Promise<void> {
     this.state.role = role;
     this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Retorna o papel do profissional
+   */
+  getRole(): EntityRole {
+    return this.state.role;
+  }
+
+  /**
+   * Define o nome de exibição
+   */
+  async setName(name: string): Promise<void> {
+    this.state.name = name;
+    this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Retorna o perfil do profissional
+   */
+  getProfile(): EntityProfile {
+    return { name: this.state.name, role: this.state.role };
   }
 
   /**
@@ -144,9 +213,17 @@ export class EntityActor extends BaseActor<EntityState> {
     if (!this.state.linkedServices.includes(serviceActorId)) {
       this.state.linkedServices.push(serviceActorId);
       this.state.updatedAt = new Date();
+      await this.persist();
     }
   }
 
+  /**
+   * Verifica o vínculo do lado do Entity (o Service sozinho não o cria)
+   */
+  isLinkedToService(serviceActorId: ActorId): boolean {
+    return this.state.linkedServices.includes(serviceActorId);
+  }
+
   /**
    * Desvincula de um ServiceActor
    */
@@ -155,6 +232,7 @@ export class EntityActor extends BaseActor<EntityState> {
     if (index > -1) {
       this.state.linkedServices.splice(index, 1);
       this.state.updatedAt = new Date();
+      await this.persist();
     }
   }
 
@@ -172,12 +250,12 @@ export class EntityActor extends BaseActor<EntityState> {
   ): Promise<EntitySession> {
     // Verifica se está vinculado ao service
     if (!this.state.linkedServices.includes(serviceActorId)) {
-      throw new Error('Entity not linked to this service');
+      throw new ActorRpcError('forbidden', 'Entity not linked to this service');
     }
     
     // Verifica se persona está disponível
     if (!this.state.availablePersonas.includes(personaId)) {
-      throw new Error('Persona not available for this entity');
+      throw new ActorRpcError('forbidden', 'Persona not available for this entity');
     }
     
     // Encerra sessão anterior se existir
@@ -196,6 +274,7 @@ export class EntityActor extends BaseActor<EntityState> {
     this.state.activeSession = session;
     this.state.activePersona = personaId;
     this.state.updatedAt = new Date();
+    await this.persist();
     
     return session;
   }
@@ -208,12 +287,13 @@ export class EntityActor extends BaseActor<EntityState> {
     accessGrant: AccessGrant
   ): Promise<void> {
     if (!this.state.activeSession) {
-      throw new Error('No active session');
+      throw new ActorRpcError('precondition_failed', 'No active session');
     }
     
     this.state.activeSession.patientActorId = patientActorId;
     this.state.activeSession.accessGrant = accessGrant;
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /**
@@ -229,6 +309,7 @@ export class EntityActor extends BaseActor<EntityState> {
     this.state.activeSession = undefined;
     this.state.activePersona = undefined;
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /**
@@ -248,6 +329,7 @@ export class EntityActor extends BaseActor<EntityState> {
   async setAvailablePersonas(personaIds: PersonaId[]): Promise<void> {
     this.state.availablePersonas = personaIds;
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /**
@@ -255,16 +337,17 @@ export class EntityActor extends BaseActor<EntityState> {
    */
   async switchPersona(personaId: PersonaId): Promise<void> {
     if (!this.state.activeSession) {
-      throw new Error('No active session');
+      throw new ActorRpcError('precondition_failed', 'No active session');
     }
     
     if (!this.state.availablePersonas.includes(personaId)) {
-      throw new Error('Persona not available');
+      throw new ActorRpcError('forbidden', 'Persona not available');
     }
     
     this.state.activePersona = personaId;
     this.state.activeSession.personaId = personaId;
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /**
@@ -274,11 +357,78 @@ export class EntityActor extends BaseActor<EntityState> {
     return this.state.availablePersonas;
   }
 
+  // ---------------------------------------------------------------------------
+  // VALIDAÇÃO
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Deposita uma ação aguardando decisão do profissional
+   * A mesma id de novo (retomada de Script) devolve a existente
+   */
+  async submitPendingAction(action: PendingAction): Promise<PendingAction> {
+    if (action.entityActorId !== this.state.id) {
+      throw new ActorRpcError('forbidden', 'Pending action belongs to another entity');
+    }
+    
+    const existing = this.state.pendingActions.find((a) => a.id === action.id);
+    if (existing) {
+      return existing;
+    }
+    
+    this.state.pendingActions.push(action);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    return action;
+  }
+
+  /**
+   * Lista a inbox, mais antigas primeiro
+   */
+  listPendingActions(status?: PendingActionStatus): PendingAction[] {
+    return this.state.pendingActions.filter((a) => !status || a.status === status);
+  }
+
+  getPendingAction(actionId: string): PendingAction | undefined {
+    return this.state.pendingActions.find((a) => a.id === actionId);
+  }
+
+  /**
+   * Grava a decisão (o Stage já executou a versão aprovada)
+   * A decisão, com as diferenças entre rascunho e versão final, é auditada no
+   * ServiceActor antes de gravada - não há decisão sem registro
+   */
+  async decidePendingAction(
+    actionId: string,
+    decision: PendingActionDecision,
+    result?: unknown
+  ): Promise<PendingAction> {
+    const stored = this.getPendingAction(actionId);
+    if (!stored) {
+      throw new ActorRpcError('not_found', 'Pending action not found');
+    }
+    
+    const decided = decidePendingAction(structuredClone(stored), decision, result);
+    await this.getServiceClient(decided.serviceActorId).recordActionDecision(decided);
+    
+    Object.assign(stored, decided);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    return stored;
+  }
+
+  private getServiceClient(serviceActorId: ActorId): ServiceActorClient {
+    const namespace = (this.env as { SERVICE_ACTORS?: DurableObjectNamespace }).SERVICE_ACTORS;
+    if (!namespace) {
+      throw new ActorRpcError('internal', 'SERVICE_ACTORS Durable Object binding not configured');
+    }
+    return connectActor<ServiceActor, typeof ServiceActorRpc>(namespace, serviceActorId, ServiceActorRpc);
+  }
+
   // ---------------------------------------------------------------------------
   // AUDITORIA
   // ---------------------------------------------------------------------------
 
-  protected async logAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> {
+  protected async logAudit(entry: AuditEntryInput): Promise<void> {
     // EntityActor não mantém log próprio - logs vão para PatientActor e ServiceActor
   }
 }
@@ -302,6 +452,9 @@ export interface ServiceState extends ActorState {
   /** Localização */
   location: ServiceLocation;
   
+  /** Encarregado de dados (LGPD) - notificado em acessos break-glass */
+  privacyOfficer?: PrivacyOfficer;
+  
   /** Entities vinculados */
   linkedEntities: ActorId[];
   
@@ -311,11 +464,20 @@ export interface ServiceState extends ActorState {
   /** Sessões ativas */
   activeSessions: Map<SessionId, ServiceSession>;
   
-  /** Log de auditoria do Service */
+  /** Log de auditoria do Service - entradas recentes */
   auditLog: AuditEntry[];
   
+  /** Estado da cadeia de hashes, checkpoints e segmentos arquivados */
+  auditChain: AuditChainState;
+  
   /** Configurações do Service */
   config: ServiceConfig;
+  
+  /** Consumo de LLM no período corrente do orçamento */
+  llmUsage?: {
+    periodStart: Date;
+    usage: TokenUsage;
+  };
 }
 
 export interface ServiceLocation {
@@ -326,6 +488,22 @@ export interface ServiceLocation {
   coordinates?: { lat: number; lng: number };
 }
 
+export interface PrivacyOfficer {
+  name: string;
+  email: string;
+  phone: string;
+  /** EntityActor do encarregado - revisa acessos break-glass do Service */
+  actorId?: ActorId;
+}
+
+/** Dados públicos do Service (consultados pelo PatientActor) */
+export interface ServiceProfile {
+  name: string;
+  serviceType: ServiceType;
+  cnes?: string;
+  privacyOfficer?: PrivacyOfficer;
+}
+
 export interface ServiceSession {
   id: SessionId;
   entityActorId: ActorId;
@@ -333,8 +511,20 @@ export interface ServiceSession {
   stageId: StageId;
   startedAt: Date;
   accessGrant?: AccessGrant;
+  /** Solicitação aguardando consentimento do paciente */
+  pendingAccess?: {
+    requestId: string;
+    patientActorId: ActorId;
+    requestedAt: Date;
+  };
 }
 
+/** Resultado de uma solicitação de acesso a paciente */
+export type PatientAccessResult =
+  | { status: 'granted'; grant: AccessGrant }
+  | { status: 'pending'; requestId: string }
+  | { status: 'denied'; requestId: string; reason?: string };
+
 export interface ServiceConfig {
   /** Horário de funcionamento */
   operatingHours: {
@@ -349,6 +539,24 @@ export interface ServiceConfig {
   
   /** Tempo máximo de sessão (segundos) */
   maxSessionDuration: number;
+  
+  /** Orçamento de LLM (sem ele, o consumo é só registrado) */
+  llmBudget?: LLMBudget;
+}
+
+/**
+ * Migrações do ServiceState gravado (versão 1 = formato atual)
+ * activeSessions é um Map - a camada de storage o revive sem migração
+ */
+const SERVICE_STATE_MIGRATIONS: StateMigration[] = [];
+
+/**
+ * Início (UTC) do período de orçamento que contém `now`
+ */
+function budgetPeriodStart(period: LLMBudget['period'], now: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
 }
 
 /**
@@ -365,6 +573,14 @@ export interface ServiceConfig {
  */
 export class ServiceActor extends BaseActor<ServiceState> {
   
+  protected getStateMigrations(): StateMigration[] {
+    return SERVICE_STATE_MIGRATIONS;
+  }
+  
+  protected getRpcContract(): ActorRpcContract {
+    return ServiceActorRpc;
+  }
+  
   protected initializeState(id: ActorId): ServiceState {
     return {
       id,
@@ -384,6 +600,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
       enabledStages: [],
       activeSessions: new Map(),
       auditLog: [],
+      auditChain: createAuditChain(),
       config: {
         operatingHours: {},
         specialties: [],
@@ -405,12 +622,27 @@ export class ServiceActor extends BaseActor<ServiceState> {
     serviceType: ServiceType;
     cnes?: string;
     location: ServiceLocation;
+    privacyOfficer?: PrivacyOfficer;
   }): Promise<void> {
     this.state.name = config.name;
     this.state.serviceType = config.serviceType;
     this.state.cnes = config.cnes;
     this.state.location = config.location;
+    this.state.privacyOfficer = config.privacyOfficer;
     this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Retorna o perfil do Service
+   */
+  getProfile(): ServiceProfile {
+    return {
+      name: this.state.name,
+      serviceType: this.state.serviceType,
+      cnes: this.state.cnes,
+      privacyOfficer: this.state.privacyOfficer,
+    };
   }
 
   /**
@@ -420,6 +652,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
     if (!this.state.enabledStages.includes(stageId)) {
       this.state.enabledStages.push(stageId);
       this.state.updatedAt = new Date();
+      await this.persist();
     }
   }
 
@@ -431,6 +664,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
     if (index > -1) {
       this.state.enabledStages.splice(index, 1);
       this.state.updatedAt = new Date();
+      await this.persist();
     }
   }
 
@@ -445,6 +679,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
     if (!this.state.linkedEntities.includes(entityActorId)) {
       this.state.linkedEntities.push(entityActorId);
       this.state.updatedAt = new Date();
+      await this.persist();
       
       await this.logAudit({
         actorId: entityActorId,
@@ -466,6 +701,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
     if (index > -1) {
       this.state.linkedEntities.splice(index, 1);
       this.state.updatedAt = new Date();
+      await this.persist();
     }
   }
 
@@ -485,20 +721,21 @@ export class ServiceActor extends BaseActor<ServiceState> {
    */
   async startSession(
     entityActorId: ActorId,
-    stageId: StageId
+    stageId: StageId,
+    sessionId?: SessionId
   ): Promise<ServiceSession> {
     // Valida que Entity está vinculado
     if (!this.isEntityLinked(entityActorId)) {
-      throw new Error('Entity not linked to this service');
+      throw new ActorRpcError('forbidden', 'Entity not linked to this service');
     }
     
     // Valida que Stage está habilitado
     if (!this.state.enabledStages.includes(stageId)) {
-      throw new Error('Stage not enabled for this service');
+      throw new ActorRpcError('forbidden', 'Stage not enabled for this service');
     }
     
     const session: ServiceSession = {
-      id: crypto.randomUUID() as SessionId,
+      id: sessionId ?? (crypto.randomUUID() as SessionId),
       entityActorId,
       stageId,
       startedAt: new Date(),
@@ -506,6 +743,7 @@ export class ServiceActor extends BaseActor<ServiceState> {
     
     this.state.activeSessions.set(session.id, session);
     this.state.updatedAt = new Date();
+    await this.persist();
     
     await this.logAudit({
       actorId: entityActorId,
@@ -527,39 +765,289 @@ export class ServiceActor extends BaseActor<ServiceState> {
   async requestPatientAccess(
     sessionId: SessionId,
     patientActorId: ActorId,
-    scope: AccessScope,
-    patientActorStub: any // Referência ao PatientActor DO
-  ): Promise<AccessGrant> {
+    scope: AccessScope
+  ): Promise<PatientAccessResult> {
     const session = this.state.activeSessions.get(sessionId);
     if (!session) {
-      throw new Error('Session not found');
+      throw new ActorRpcError('not_found', 'Session not found');
     }
     
     // Solicita acesso ao PatientActor
-    const result = await patientActorStub.requestAccess(
+    const result = await this.getPatientClient(patientActorId).requestAccess(
       session.entityActorId,
       this.state.id,
-      scope
+      scope,
+      { sessionId, stageId: session.stageId }
     );
     
     if (result.status === 'auto_approved') {
-      // Acesso já foi concedido (emergência ou pré-autorizado)
-      const grant = await patientActorStub.getGrant(result.requestId);
+      // Acesso já foi concedido (emergência ou política permanente do paciente)
+      // O grant volta completo apenas aqui - o PatientActor não guarda a chave de sessão
+      await this.attachGrant(session, patientActorId, result.grant);
+      
+      if (scope.breakGlass) {
+        await this.logAudit({
+          actorId: session.entityActorId,
+          targetActorId: patientActorId,
+          action: 'break_glass_access',
+          scope,
+          serviceActorId: this.state.id,
+          stageId: session.stageId,
+          flaggedForReview: true,
+          metadata: { sessionId, grantId: result.grant.id },
+        });
+      }
       
-      session.patientActorId = patientActorId;
-      session.accessGrant = grant;
-      this.state.activeSessions.set(sessionId, session);
+      return { status: 'granted', grant: result.grant };
+    }
+    
+    if (result.status === 'denied') {
+      // Negado por política permanente do paciente - não há o que aguardar
+      await this.logAudit({
+        actorId: session.entityActorId,
+        targetActorId: patientActorId,
+        action: 'patient_consent_denied',
+        scope,
+        serviceActorId: this.state.id,
+        stageId: session.stageId,
+        metadata: { sessionId, requestId: result.requestId, status: 'denied' },
+      });
       
-      return grant;
+      return { status: 'denied', requestId: result.requestId, reason: result.reason };
     }
     
-    // Aguarda aprovação do paciente
-    // Em produção, isso seria um webhook ou polling
-    throw new Error('Patient approval required - not yet implemented');
+    // Aguarda consentimento do paciente (retomado via completePatientAccess)
+    session.pendingAccess = {
+      requestId: result.requestId,
+      patientActorId,
+      requestedAt: new Date(),
+    };
+    this.state.activeSessions.set(sessionId, session);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: session.entityActorId,
+      targetActorId: patientActorId,
+      action: 'patient_consent_pending',
+      scope,
+      serviceActorId: this.state.id,
+      stageId: session.stageId,
+      metadata: { sessionId, requestId: result.requestId },
+    });
+    
+    return { status: 'pending', requestId: result.requestId };
+  }
+
+  /**
+   * Retoma uma solicitação pendente após decisão do paciente
+   */
+  async completePatientAccess(sessionId: SessionId): Promise<PatientAccessResult> {
+    const session = this.state.activeSessions.get(sessionId);
+    if (!session) {
+      throw new ActorRpcError('not_found', 'Session not found');
+    }
+    
+    if (!session.pendingAccess) {
+      if (session.accessGrant) {
+        return { status: 'granted', grant: session.accessGrant };
+      }
+      throw new ActorRpcError('precondition_failed', 'No pending access request for this session');
+    }
+    
+    const { requestId, patientActorId } = session.pendingAccess;
+    const result = await this.getPatientClient(patientActorId).getRequestDecision(requestId, this.state.id);
+    
+    if (result.status === 'pending') {
+      return { status: 'pending', requestId };
+    }
+    if (result.status === 'approved') {
+      // A aprovação só é registrada depois da entrega (deliverGrant)
+      throw new ActorRpcError('conflict', 'Approved grant was not delivered to this session');
+    }
+    
+    session.pendingAccess = undefined;
+    this.state.activeSessions.set(sessionId, session);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: session.entityActorId,
+      targetActorId: patientActorId,
+      action: 'patient_consent_denied',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'consent' },
+      serviceActorId: this.state.id,
+      stageId: session.stageId,
+      metadata: { sessionId, requestId, status: result.status },
+    });
+    
+    return { status: 'denied', requestId, reason: result.denialReason ?? result.status };
+  }
+
+  /**
+   * Recebe o grant de uma solicitação aprovada (entregue pelo PatientActor)
+   * A chave de sessão só existe aqui - o PatientActor guarda apenas o hash
+   */
+  async deliverGrant(requestId: string, grant: AccessGrant): Promise<void> {
+    const session = [...this.state.activeSessions.values()].find(
+      (s) =>
+        s.pendingAccess?.requestId === requestId &&
+        s.pendingAccess.patientActorId === grant.patientActorId
+    );
+    if (!session || grant.serviceActorId !== this.state.id) {
+      throw new ActorRpcError('precondition_failed', 'No pending access request for this grant');
+    }
+    
+    session.pendingAccess = undefined;
+    await this.attachGrant(session, grant.patientActorId, grant);
+  }
+  
+  /**
+   * Associa o grant recebido à sessão
+   */
+  private async attachGrant(
+    session: ServiceSession,
+    patientActorId: ActorId,
+    grant: AccessGrant
+  ): Promise<void> {
+    session.patientActorId = patientActorId;
+    session.accessGrant = grant;
+    this.state.activeSessions.set(session.id, session);
+    this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Renova o grant da sessão (limites definidos pelo paciente)
+   */
+  async renewPatientAccess(
+    sessionId: SessionId,
+    extensionSeconds: number
+  ): Promise<AccessGrant> {
+    const session = this.getSessionWithGrant(sessionId);
+    const renewed = await this.getPatientClient(session.accessGrant.patientActorId).renewGrant(
+      session.accessGrant.id,
+      this.state.id,
+      extensionSeconds
+    );
+    
+    session.accessGrant = { ...session.accessGrant, expiresAt: renewed.expiresAt };
+    this.state.activeSessions.set(sessionId, session);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    return session.accessGrant;
+  }
+
+  /**
+   * Estreita o escopo do grant da sessão (ex.: profissional não precisa mais de um compartimento)
+   */
+  async narrowPatientAccess(
+    sessionId: SessionId,
+    scope: AccessScope
+  ): Promise<AccessGrant> {
+    const session = this.getSessionWithGrant(sessionId);
+    const narrowed = await this.getPatientClient(session.accessGrant.patientActorId).narrowGrant(
+      session.accessGrant.id,
+      scope,
+      this.state.id
+    );
+    
+    session.accessGrant = {
+      ...session.accessGrant,
+      scope: narrowed.scope,
+      wrappedKeys: narrowed.wrappedKeys,
+      expiresAt: narrowed.expiresAt,
+    };
+    this.state.activeSessions.set(sessionId, session);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    return session.accessGrant;
+  }
+
+  /**
+   * Acrescenta um registro ao paciente da sessão (ex.: save_to dos Scripts)
+   * Os valores chegam em claro e são selados aqui, com o grant da sessão
+   */
+  async appendPatientRecord(
+    sessionId: SessionId,
+    dataType: CompartmentType,
+    draft: PatientRecordDraft
+  ): Promise<PatientRecord> {
+    const { accessGrant: grant } = this.getSessionWithGrant(sessionId);
+    if (!grant.wrappedKeys[dataType]) {
+      throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+    }
+    
+    const id = crypto.randomUUID();
+    const fields = await sealRecordFields(grant, dataType, id, draft.values);
+    return this.getPatientClient(grant.patientActorId).appendRecord(grant.id, dataType, {
+      id,
+      recordType: draft.recordType,
+      recordedAt: draft.recordedAt ?? new Date(),
+      tags: draft.tags,
+      fields,
+    });
+  }
+
+  /**
+   * Audita a decisão da inbox de validação de um Entity vinculado
+   * Vai junto o que mudou entre o rascunho e a versão aprovada
+   */
+  async recordActionDecision(action: PendingAction): Promise<void> {
+    if (!this.state.linkedEntities.includes(action.entityActorId)) {
+      throw new ActorRpcError('forbidden', 'Entity not linked to this service');
+    }
+    if (action.status === 'pending') {
+      throw new ActorRpcError('precondition_failed', 'Pending action has no decision');
+    }
+    
+    await this.logAudit({
+      actorId: action.decidedBy ?? action.entityActorId,
+      targetActorId: action.patientActorId ?? action.entityActorId,
+      action: action.status === 'approved' ? 'action_approved' : 'action_rejected',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'action_validation' },
+      serviceActorId: this.state.id,
+      stageId: action.stageId,
+      metadata: {
+        pendingActionId: action.id,
+        action: action.action,
+        level: action.level,
+        source: action.source,
+        sessionId: action.sessionId,
+        executionId: action.executionId,
+        stepId: action.stepId,
+        edited: (action.changes?.length ?? 0) > 0,
+        changes: action.changes,
+        signature: action.signature,
+        reason: action.rejectionReason,
+      },
+    });
+  }
+
+  private getPatientClient(patientActorId: ActorId): PatientActorClient {
+    const namespace = (this.env as { PATIENT_ACTORS?: DurableObjectNamespace }).PATIENT_ACTORS;
+    if (!namespace) {
+      throw new ActorRpcError('internal', 'PATIENT_ACTORS Durable Object binding not configured');
+    }
+    return connectActor<PatientActor, typeof PatientActorRpc>(namespace, patientActorId, PatientActorRpc);
+  }
+
+  private getSessionWithGrant(sessionId: SessionId): ServiceSession & { accessGrant: AccessGrant } {
+    const session = this.state.activeSessions.get(sessionId);
+    if (!session) {
+      throw new ActorRpcError('not_found', 'Session not found');
+    }
+    if (!session.accessGrant) {
+      throw new ActorRpcError('precondition_failed', 'Session has no patient access grant');
+    }
+    return session as ServiceSession & { accessGrant: AccessGrant };
   }
 
   /**
    * Encerra uma sessão
+   * O grant da sessão é revogado imediatamente no PatientActor
    */
   async endSession(sessionId: SessionId): Promise<void> {
     const session = this.state.activeSessions.get(sessionId);
@@ -567,11 +1055,20 @@ export class ServiceActor extends BaseActor<ServiceState> {
       return;
     }
     
-    // Se tinha acesso a paciente, notifica para revogar
-    // (em produção, chamaria patientActor.revokeAccess)
+    if (session.accessGrant) {
+      try {
+        await this.getPatientClient(session.accessGrant.patientActorId).revokeAccess(session.accessGrant.id, {
+          revokedBy: this.state.id,
+          reason: 'session_ended',
+        });
+      } catch {
+        // Grant já expirado ou revogado pelo paciente
+      }
+    }
     
     this.state.activeSessions.delete(sessionId);
     this.state.updatedAt = new Date();
+    await this.persist();
     
     await this.logAudit({
       actorId: session.entityActorId,
@@ -598,6 +1095,55 @@ export class ServiceActor extends BaseActor<ServiceState> {
     return Array.from(this.state.activeSessions.values());
   }
 
+  // ---------------------------------------------------------------------------
+  // ORÇAMENTO DE LLM
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Define (ou remove, sem argumento) o orçamento de LLM do Service
+   */
+  async setLLMBudget(budget?: LLMBudget): Promise<void> {
+    if (budget?.onExceeded === 'downgrade' && !budget.downgradeModel) {
+      throw new ActorRpcError('invalid_request', 'Budget downgrade requires downgradeModel');
+    }
+    
+    this.state.config.llmBudget = budget;
+    this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Consumo do período corrente comparado ao orçamento
+   */
+  getLLMBudgetStatus(): LLMBudgetStatus {
+    const budget = this.state.config.llmBudget;
+    const periodStart = budgetPeriodStart(budget?.period ?? 'month', new Date());
+    const current = this.state.llmUsage;
+    const usage = current && current.periodStart >= periodStart ? current.usage : emptyTokenUsage();
+    
+    return {
+      budget,
+      periodStart,
+      usage,
+      exceeded: budget !== undefined && usage.costUsd >= budget.limitUsd,
+    };
+  }
+
+  /**
+   * Soma o consumo de uma requisição (Persona ou orquestrador) ao período corrente
+   * Um novo período começa zerado
+   */
+  async recordLLMUsage(usage: TokenUsage): Promise<LLMBudgetStatus> {
+    const status = this.getLLMBudgetStatus();
+    this.state.llmUsage = {
+      periodStart: status.periodStart,
+      usage: addTokenUsage({ ...status.usage }, usage),
+    };
+    await this.persist();
+    
+    return this.getLLMBudgetStatus();
+  }
+
   // ---------------------------------------------------------------------------
   // AUDITORIA
   // ---------------------------------------------------------------------------
@@ -609,16 +1155,21 @@ export class ServiceActor extends BaseActor<ServiceState> {
     return this.state.auditLog.slice(-limit);
   }
 
-  protected async logAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> {
-    this.state.auditLog.push({
-      ...entry,
-      id: crypto.randomUUID(),
-      timestamp: new Date(),
-    });
-    
-    // Mantém apenas últimos 10000 registros
-    if (this.state.auditLog.length > 10000) {
-      this.state.auditLog = this.state.auditLog.slice(-10000);
-    }
+  /**
+   * Verifica a cadeia de auditoria do Service
+   */
+  async verifyAuditChain(
+    options: { includeArchives?: boolean } = {}
+  ): Promise<AuditChainVerification> {
+    return verifyAuditChain(
+      this.state.auditLog,
+      this.state.auditChain,
+      this.getAuditTrailContext(),
+      options
+    );
+  }
+
+  protected async logAudit(entry: AuditEntryInput): Promise<void> {
+    await this.appendToAuditTrail(this.state.auditLog, this.state.auditChain, entry);
   }
 }
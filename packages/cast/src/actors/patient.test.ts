@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AccessScope, ActorId, SessionId, StageId } from '@healthos/shared';
+import { Cast } from '../cast';
+import { createLocalRuntime, seedLocalRuntime } from '../local/node';
+import type { PatientActorClient, ServiceActorClient } from '../rpc';
+import type { ConsentPolicyInput } from '../consent';
+import type { ProxyDelegationInput } from '../delegation';
+
+const PATIENT = 'patient-ana' as ActorId;
+const PROXY = 'patient-bia' as ActorId;
+const ENTITY = 'entity-joao' as ActorId;
+const SERVICE = 'service-ubs' as ActorId;
+const STAGE = 'clinica' as StageId;
+const PASSWORD = 'senha-da-ana';
+const PROXY_PASSWORD = 'senha-da-bia';
+
+const scope: AccessScope = {
+  dataTypes: ['consultations'],
+  actions: ['read'],
+  durationSeconds: 3600,
+  reason: 'Consulta de retorno',
+};
+
+const delegation: ProxyDelegationInput = {
+  proxyActorId: PROXY,
+  relationship: 'caregiver',
+  powers: ['approve_access'],
+  dataTypes: ['consultations'],
+  contact: { name: 'Bia' },
+  endsAtMajority: false,
+};
+
+let patient: PatientActorClient;
+let service: ServiceActorClient;
+
+/** Cast com os bindings em memoria do runtime local - cada teste comeca do zero */
+beforeEach(async () => {
+  const runtime = createLocalRuntime();
+  const cast = new Cast(runtime.env);
+  await cast.initialize();
+  await seedLocalRuntime(cast, {
+    services: [
+      {
+        id: SERVICE,
+        name: 'UBS Centro',
+        serviceType: 'ubs',
+        location: { address: 'Rua A, 1', city: 'Recife', state: 'PE', country: 'BR' },
+        stages: [STAGE],
+      },
+    ],
+    entities: [{ id: ENTITY, name: 'Dr. Joao', role: 'physician', services: [SERVICE] }],
+    patients: [
+      { id: PATIENT, password: PASSWORD },
+      { id: PROXY, password: PROXY_PASSWORD },
+    ],
+  });
+  patient = await cast.getPatientActor(PATIENT);
+  service = await cast.getServiceActor(SERVICE);
+});
+
+/** Pede acesso como o Stage faz: sessao no Service, que pergunta ao PatientActor */
+async function requestAccess(requested: AccessScope = scope) {
+  const session = await service.startSession(ENTITY, STAGE);
+  const result = await service.requestPatientAccess(session.id, PATIENT, requested);
+  return { sessionId: session.id as SessionId, result };
+}
+
+async function pendingRequest(): Promise<{ sessionId: SessionId; requestId: string }> {
+  const { sessionId, result } = await requestAccess();
+  if (result.status !== 'pending') throw new Error(`Expected a pending request, got ${result.status}`);
+  return { sessionId, requestId: result.requestId };
+}
+
+describe('PatientActor consent', () => {
+  it('delivers the grant to the session only after the patient approves', async () => {
+    const { sessionId, requestId } = await pendingRequest();
+    expect((await patient.listPendingRequests()).map((r) => r.id)).toEqual([requestId]);
+    expect(await service.completePatientAccess(sessionId)).toEqual({ status: 'pending', requestId });
+
+    await expect(patient.approveRequest(requestId, 'senha-errada')).rejects.toMatchObject({
+      code: 'unauthorized',
+    });
+
+    expect((await patient.approveRequest(requestId, PASSWORD)).status).toBe('approved');
+    const access = await service.completePatientAccess(sessionId);
+    const decision = await patient.getRequestDecision(requestId, SERVICE);
+    expect(decision.status).toBe('approved');
+    expect(access).toMatchObject({
+      status: 'granted',
+      grant: { id: decision.grantId, patientActorId: PATIENT },
+    });
+    expect(await patient.listPendingRequests()).toEqual([]);
+  });
+
+  it('reports a denial back to the session', async () => {
+    const { sessionId, requestId } = await pendingRequest();
+
+    expect((await patient.denyRequest(requestId, PASSWORD, 'Nao reconheco o profissional')).status).toBe(
+      'denied'
+    );
+    expect(await service.completePatientAccess(sessionId)).toEqual({
+      status: 'denied',
+      requestId,
+      reason: 'Nao reconheco o profissional',
+    });
+  });
+
+  it('applies standing policies without asking the patient', async () => {
+    await patient.addConsentPolicy(
+      {
+        name: 'Meu medico',
+        effect: 'allow',
+        match: { entityActorIds: [ENTITY] },
+        dataTypes: ['consultations'],
+        actions: ['read'],
+        maxDurationSeconds: 3600,
+      },
+      PASSWORD
+    );
+    expect((await requestAccess()).result.status).toBe('granted');
+
+    const deny: ConsentPolicyInput = {
+      name: 'Sem saude mental',
+      effect: 'deny',
+      match: { serviceActorIds: [SERVICE] },
+      dataTypes: ['mental_health'],
+      actions: ['read'],
+    };
+    await expect(patient.addConsentPolicy(deny, 'senha-errada')).rejects.toMatchObject({
+      code: 'unauthorized',
+    });
+    await patient.addConsentPolicy(deny, PASSWORD);
+    expect((await requestAccess({ ...scope, dataTypes: ['mental_health'] })).result.status).toBe('denied');
+    expect(await patient.listPendingRequests()).toEqual([]);
+  });
+});
+
+describe('PatientActor delegation', () => {
+  it('lets an authorized proxy approve with their own password', async () => {
+    const { id: delegationId } = await patient.nominateProxy(delegation, PASSWORD);
+    const { sessionId, requestId } = await pendingRequest();
+
+    await expect(patient.approveRequestAsProxy(requestId, PROXY, PASSWORD)).rejects.toMatchObject({
+      code: 'unauthorized',
+    });
+    await expect(patient.approveRequestAsProxy(requestId, ENTITY, PROXY_PASSWORD)).rejects.toMatchObject({
+      code: 'forbidden',
+    });
+
+    expect((await patient.approveRequestAsProxy(requestId, PROXY, PROXY_PASSWORD)).status).toBe('approved');
+    expect((await service.completePatientAccess(sessionId)).status).toBe('granted');
+    expect((await patient.listProxies()).map((d) => d.id)).toEqual([delegationId]);
+  });
+
+  it('stops a revoked proxy and proxies outside their data types', async () => {
+    const { id: delegationId } = await patient.nominateProxy(delegation, PASSWORD);
+
+    const { result: outside } = await requestAccess({ ...scope, dataTypes: ['exams'] });
+    if (outside.status !== 'pending') throw new Error(`Expected a pending request, got ${outside.status}`);
+    await expect(
+      patient.approveRequestAsProxy(outside.requestId, PROXY, PROXY_PASSWORD)
+    ).rejects.toMatchObject({ code: 'forbidden' });
+
+    await patient.revokeProxy(delegationId, PATIENT, PASSWORD);
+    const { requestId } = await pendingRequest();
+    await expect(patient.approveRequestAsProxy(requestId, PROXY, PROXY_PASSWORD)).rejects.toMatchObject({
+      code: 'forbidden',
+    });
+  });
+});
+
+describe('PatientActor audit chain', () => {
+  it('stays valid across consent and delegation operations', async () => {
+    await patient.nominateProxy(delegation, PASSWORD);
+    await patient.approveRequestAsProxy((await pendingRequest()).requestId, PROXY, PROXY_PASSWORD);
+    await patient.denyRequest((await pendingRequest()).requestId, PASSWORD);
+
+    const verification = await patient.verifyAuditChain();
+    expect(verification.valid).toBe(true);
+    expect(verification.verifiedEntries).toBeGreaterThanOrEqual(5);
+  });
+});
@@ -18,15 +18,84 @@ import type {
   SessionId,
   PersonaId,
   AccessScope,
+  AccessAction,
+  DataType,
   AccessGrant,
   AuditEntry,
   EncryptedData,
+  PatientRecord,
+  ClinicalRecordType,
   KeyPair,
   SessionKey,
   EntityRole,
   ServiceType,
   PersonaManifest,
+  ActorRpcContract,
+  ActorRpcResponse,
 } from '@healthos/shared';
+import { ActorRpcError, PatientActorRpc, EntityActorRpc, ServiceActorRpc } from '@healthos/shared';
+import {
+  COMPARTMENTS,
+  resolveCompartments,
+  generateDataKey,
+  encryptJson,
+  compartmentContext,
+  CONTEXT_BOUND_VERSION,
+  importPublicKey,
+  wrapWithPublicKey,
+  unwrapWithPrivateKey,
+  generateSessionKey,
+  hashSessionKey,
+  wrapWithKeyWrappingKey,
+  unwrapWithKeyWrappingKey,
+  deriveEscrowKey,
+  generatePatientKeyPair,
+  exportPublicKey,
+  encryptPrivateKey,
+  decryptPrivateKey,
+  verifyEncryptedPrivateKey,
+} from '../crypto';
+import type { CompartmentType, CompartmentKey } from '../crypto';
+import { createAuditChain, appendAuditEntry, verifyAuditChain, loadAuditEntries } from '../audit';
+import type {
+  AuditEntryInput,
+  AuditChainState,
+  AuditChainVerification,
+  AuditTrailContext,
+} from '../audit';
+import { collectReportParties, buildAccessReport, exportAccessReport } from '../transparency';
+import type {
+  AccessReport,
+  AccessReportOptions,
+  AccessReportDirectory,
+  AccessReportExport,
+  AccessReportFormat,
+} from '../transparency';
+import {
+  scopeCoversDataType,
+  recordFiltersFor,
+  applyRecordFilters,
+  scopeAllowsRecord,
+  isScopeWithin,
+  describeReleasedRecords,
+} from '../scopes';
+import type { ReleasedRecord } from '../scopes';
+import { validateRecordShape, validateAmendmentReason, recordVersions } from '../records';
+import { validateConsentPolicy, evaluateConsentPolicies } from '../consent';
+import type { ConsentPolicy, ConsentPolicyInput, ConsentPolicyEvaluation } from '../consent';
+import { validateDelegation, delegationEndsAt, delegationAllows } from '../delegation';
+import type {
+  ProxyDelegation,
+  ProxyDelegationInput,
+  ProxyPower,
+  DelegationSource,
+  DelegationEndReason,
+} from '../delegation';
+import { loadActorState, persistActorState, currentSchemaVersion } from '../storage';
+import type { StateMigration, StateSnapshot } from '../storage';
+import { connectActor, dispatchActorRpc } from '../rpc';
+import type { PatientActorClient, EntityActorClient, ServiceActorClient } from '../rpc';
+import type { EntityActor, ServiceActor, PrivacyOfficer } from './entity-service';
 
 // =============================================================================
 // ACTOR BASE
@@ -42,14 +111,68 @@ export interface ActorState {
 
 export abstract class BaseActor<TState extends ActorState> extends Actor {
   protected state: TState;
+  
+  /** Estado do Durable Object (storage e alarms) */
+  protected readonly durable: DurableObjectState;
+
+  /** Campos do estado como estão gravados no storage */
+  private snapshot: StateSnapshot = { schemaVersion: 1, fields: {} };
+
+  /** Fila que serializa as gravações do estado */
+  private persistQueue: Promise<unknown> = Promise.resolve();
 
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
+    this.durable = state;
+    
+    // Nenhuma chamada é atendida antes do estado carregar
+    state.blockConcurrencyWhile(() => this.loadState());
   }
 
   /** Inicializa o estado do Actor */
   protected abstract initializeState(id: ActorId): TState;
 
+  /**
+   * Migrações do formato do estado, em ordem de versão
+   * Campos novos não precisam de migração - recebem o padrão de initializeState
+   */
+  protected getStateMigrations(): StateMigration[] {
+    return [];
+  }
+
+  /**
+   * Grava os campos do estado alterados desde a última gravação
+   * Toda mutação termina aqui (o log de auditoria grava sozinho)
+   */
+  protected persist(): Promise<void> {
+    const persisted = this.persistQueue.then(() =>
+      persistActorState(
+        this.durable.storage,
+        this.state,
+        this.snapshot,
+        currentSchemaVersion(this.getStateMigrations())
+      )
+    );
+    this.persistQueue = persisted.catch(() => undefined);
+    return persisted.then(() => undefined);
+  }
+
+  private async loadState(): Promise<void> {
+    // Actors são endereçados por idFromName(actorId)
+    const id = (this.durable.id.name ?? this.durable.id.toString()) as ActorId;
+    const loaded = await loadActorState(
+      this.durable.storage,
+      this.initializeState(id),
+      this.getStateMigrations()
+    );
+    this.state = loaded.state;
+    this.snapshot = loaded.snapshot;
+    
+    if (loaded.migratedFrom !== undefined) {
+      await this.persist();
+    }
+  }
+
   /** Retorna o ID do Actor */
   getId(): ActorId {
     return this.state.id;
@@ -60,14 +183,53 @@ export abstract class BaseActor<TState extends ActorState> extends Actor {
     return this.state.type;
   }
 
+  /** Métodos expostos por RPC e seus schemas */
+  protected abstract getRpcContract(): ActorRpcContract;
+
+  /**
+   * Único ponto de entrada entre Durable Objects
+   * Valida os argumentos contra o contrato e devolve erros com código, sem lançar
+   */
+  async rpc(request: unknown): Promise<ActorRpcResponse> {
+    return dispatchActorRpc(this, this.getRpcContract(), request);
+  }
+
   /** Atualiza metadata */
   async updateMetadata(metadata: Partial<Record<string, unknown>>): Promise<void> {
     this.state.metadata = { ...this.state.metadata, ...metadata };
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /** Registra evento de auditoria */
-  protected abstract logAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void>;
+  protected abstract logAudit(entry: AuditEntryInput): Promise<void>;
+
+  /** Fila que serializa gravações no log encadeado */
+  private auditQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Encadeia uma entrada no log de auditoria
+   * Cada entrada depende do hash da anterior, então as gravações são serializadas
+   */
+  protected appendToAuditTrail(
+    log: AuditEntry[],
+    chain: AuditChainState,
+    entry: AuditEntryInput
+  ): Promise<AuditEntry> {
+    const appended = this.auditQueue.then(async () => {
+      const appendedEntry = await appendAuditEntry(log, chain, entry, this.getAuditTrailContext());
+      await this.persist();
+      return appendedEntry;
+    });
+    this.auditQueue = appended.catch(() => undefined);
+    return appended;
+  }
+
+  /** Segredo de assinatura e bucket de arquivo do log */
+  protected getAuditTrailContext(): AuditTrailContext {
+    const env = this.env as { ENCRYPTION_KEY?: string; AUDIT_ARCHIVE?: R2Bucket };
+    return { actorId: this.state.id, secret: env.ENCRYPTION_KEY, archive: env.AUDIT_ARCHIVE };
+  }
 }
 
 // =============================================================================
@@ -98,16 +260,55 @@ export interface PatientState extends ActorState {
   /** Saúde mental (criptografado - acesso mais restrito) */
   mentalHealth: EncryptedData;
   
+  /** Registros de cada compartimento (metadados em claro, campos criptografados) */
+  records: Record<CompartmentType, PatientRecord[]>;
+  
+  /** Versões anteriores de registros retificados (por id do registro) */
+  recordHistory: Record<string, PatientRecord[]>;
+  
+  /** DEKs de cada compartimento, embrulhadas com a chave pública do paciente */
+  compartmentKeys: Record<CompartmentType, CompartmentKey>;
+  
+  /** DEKs em escrow para acesso de emergência (se habilitado pelo paciente) */
+  emergencyKeys: Partial<Record<CompartmentType, string>>;
+  
   /** Grants de acesso ativos */
-  activeGrants: AccessGrant[];
+  activeGrants: StoredGrant[];
+  
+  /** Solicitações de acesso aguardando (ou já decididas pelo) paciente */
+  accessRequests: AccessRequest[];
+  
+  /** Acessos break-glass e suas revisões obrigatórias */
+  breakGlassReviews: BreakGlassReview[];
+  
+  /** Políticas permanentes de consentimento (allow guarda as DEKs em escrow) */
+  consentPolicies: StoredConsentPolicy[];
+  
+  /** Representantes (responsáveis, cuidadores, representantes legais) */
+  delegations: StoredDelegation[];
   
-  /** Log de auditoria (quem acessou o quê) */
+  /** Log de auditoria (quem acessou o quê) - entradas recentes */
   auditLog: AuditEntry[];
   
+  /** Estado da cadeia de hashes, checkpoints e segmentos arquivados */
+  auditChain: AuditChainState;
+  
+  /** Contato de emergência (em claro - notificado sem a chave do paciente) */
+  emergencyContact?: EmergencyContact;
+  
+  /** Data de nascimento (em claro - encerra delegações na maioridade) */
+  birthDate?: Date;
+  
   /** Preferências do paciente */
   preferences: PatientPreferences;
 }
 
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+  relationship: string;
+}
+
 export interface PatientPreferences {
   /** Idioma preferido */
   language: string;
@@ -124,8 +325,142 @@ export interface PatientPreferences {
   
   /** Profissionais favoritos */
   favoriteProviders: ActorId[];
+  
+  /** Limites para renovação de grants */
+  grantRenewal: GrantRenewalPolicy;
+}
+
+export interface GrantRenewalPolicy {
+  /** Renovações permitidas por grant */
+  maxRenewals: number;
+  /** Duração total máxima de um grant, somando renovações (segundos) */
+  maxTotalDurationSeconds: number;
 }
 
+/** Solicitação de acesso que requer consentimento do paciente */
+export interface AccessRequest {
+  id: string;
+  entityActorId: ActorId;
+  serviceActorId: ActorId;
+  scope: AccessScope;
+  /** Sessão (Stage/Service) que aguarda a decisão */
+  sessionId?: SessionId;
+  stageId?: StageId;
+  status: AccessRequestStatus;
+  requestedAt: Date;
+  expiresAt: Date;
+  decidedAt?: Date;
+  grantId?: string;
+  denialReason?: string;
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/** Resultado de uma solicitação de acesso */
+export type AccessRequestResult =
+  | { requestId: string; status: 'auto_approved'; grant: AccessGrant; explanation?: string }
+  | { requestId: string; status: 'denied'; reason: string }
+  | { requestId: string; status: 'pending' };
+
+/** O que o representante com read_summaries enxerga */
+export interface ProxySummary {
+  pendingRequests: AccessRequest[];
+  activeGrants: Omit<StoredGrant, 'sessionKeyHash' | 'wrappedKeys'>[];
+  accessReport: AccessReport;
+}
+
+/** Revisão posterior de um acesso break-glass */
+export interface BreakGlassReview {
+  id: string;
+  grantId: string;
+  entityActorId: ActorId;
+  serviceActorId: ActorId;
+  entityRole: EntityRole;
+  serviceType: ServiceType;
+  justification: string;
+  accessedAt: Date;
+  status: BreakGlassReviewStatus;
+  reviewedBy?: ActorId;
+  reviewedAt?: Date;
+  notes?: string;
+}
+
+export type BreakGlassReviewStatus = 'pending' | 'justified' | 'unjustified';
+
+/**
+ * Política de break-glass
+ * Só profissionais assistenciais em unidades de urgência, por pouco tempo
+ */
+const BREAK_GLASS_POLICY: {
+  roles: EntityRole[];
+  serviceTypes: ServiceType[];
+  actions: AccessAction[];
+  maxDurationSeconds: number;
+  minJustificationLength: number;
+} = {
+  roles: ['physician', 'nurse'],
+  serviceTypes: ['upa', 'hospital'],
+  actions: ['read', 'append'],
+  maxDurationSeconds: 60 * 60,
+  minJustificationLength: 30,
+};
+
+/** Tempo máximo que uma solicitação aguarda o paciente */
+const ACCESS_REQUEST_TTL_SECONDS = 15 * 60;
+
+/** Política como armazenada - allow leva as DEKs do seu escopo embrulhadas com o escrow */
+type StoredConsentPolicy = ConsentPolicy & {
+  escrowedKeys: Partial<Record<CompartmentType, string>>;
+};
+
+/** Delegação como armazenada - approve_access leva as DEKs delegadas em escrow */
+type StoredDelegation = ProxyDelegation & {
+  escrowedKeys: Partial<Record<CompartmentType, string>>;
+};
+
+/** Grant como armazenado no PatientActor - guarda apenas o hash da chave de sessão */
+export type StoredGrant = Omit<AccessGrant, 'sessionKey'> & {
+  /** Stage da sessão que pediu o acesso (auditoria do uso do grant) */
+  stageId?: StageId;
+  sessionKeyHash: string;
+  renewalCount: number;
+};
+
+type CompartmentField =
+  | 'demographics'
+  | 'medicalHistory'
+  | 'consultations'
+  | 'prescriptions'
+  | 'exams'
+  | 'mentalHealth';
+
+/** Campo do PatientState correspondente a cada compartimento */
+const COMPARTMENT_FIELDS: Record<CompartmentType, CompartmentField> = {
+  demographics: 'demographics',
+  medical_history: 'medicalHistory',
+  consultations: 'consultations',
+  prescriptions: 'prescriptions',
+  exams: 'exams',
+  mental_health: 'mentalHealth',
+};
+
+/** Compartimentos liberados em emergência (saúde mental nunca entra no escrow) */
+const EMERGENCY_COMPARTMENTS: CompartmentType[] = COMPARTMENTS.filter(
+  (c) => c !== 'mental_health'
+);
+
+/**
+ * Migrações do PatientState gravado (versão 1 = formato original)
+ * Mudou o formato de um campo existente? Acrescente a próxima versão aqui
+ */
+const PATIENT_STATE_MIGRATIONS: StateMigration[] = [
+  {
+    version: 2,
+    description: 'Descarta grantDeliveries (chaves de sessão em claro aguardando retirada)',
+    migrate: ({ grantDeliveries: _deliveries, ...state }) => state,
+  },
+];
+
 /**
  * PatientActor - Soberano dos seus dados
  * 
@@ -139,9 +474,22 @@ export interface PatientPreferences {
  * 3. PatientActor autoriza (ou não) e gera SessionKey
  * 4. EntityActor usa SessionKey para acessar dados (escopo limitado)
  * 5. Tudo é registrado no auditLog
+ * 
+ * Criptografia (envelope encryption):
+ * - Cada compartimento é criptografado com sua própria DEK AES-GCM-256
+ * - As DEKs são embrulhadas com a chave pública do paciente
+ * - A SessionKey de um grant só desembrulha as DEKs do seu escopo
  */
 export class PatientActor extends BaseActor<PatientState> {
   
+  protected getStateMigrations(): StateMigration[] {
+    return PATIENT_STATE_MIGRATIONS;
+  }
+  
+  protected getRpcContract(): ActorRpcContract {
+    return PatientActorRpc;
+  }
+  
   protected initializeState(id: ActorId): PatientState {
     return {
       id,
@@ -156,13 +504,33 @@ export class PatientActor extends BaseActor<PatientState> {
       prescriptions: null!,
       exams: null!,
       mentalHealth: null!,
+      records: {
+        demographics: [],
+        medical_history: [],
+        consultations: [],
+        prescriptions: [],
+        exams: [],
+        mental_health: [],
+      },
+      recordHistory: {},
+      compartmentKeys: {} as Record<CompartmentType, CompartmentKey>,
+      emergencyKeys: {},
       activeGrants: [],
+      accessRequests: [],
+      breakGlassReviews: [],
+      consentPolicies: [],
+      delegations: [],
       auditLog: [],
+      auditChain: createAuditChain(),
       preferences: {
         language: 'pt-BR',
         notifications: { sms: true, email: true, push: true },
         emergencyAccess: true,
         favoriteProviders: [],
+        grantRenewal: {
+          maxRenewals: 3,
+          maxTotalDurationSeconds: 8 * 60 * 60,
+        },
       },
     };
   }
@@ -175,25 +543,55 @@ export class PatientActor extends BaseActor<PatientState> {
    * Configura o PatientActor com par de chaves
    * Chamado uma única vez durante o cadastro
    */
-  async setup(publicKey: string, encryptedPrivateKey: EncryptedData): Promise<void> {
+  async setup(
+    publicKey: string,
+    encryptedPrivateKey: EncryptedData,
+    profile: { emergencyContact?: EmergencyContact; birthDate?: Date } = {}
+  ): Promise<void> {
     if (this.state.keyPair) {
-      throw new Error('PatientActor already initialized');
+      throw new ActorRpcError('conflict', 'PatientActor already initialized');
     }
     
+    // Garante que a chave privada pertence à chave pública e é protegida por senha
+    await verifyEncryptedPrivateKey(publicKey, encryptedPrivateKey);
+    
+    const patientKey = await importPublicKey(publicKey);
+    const escrowKey = this.state.preferences.emergencyAccess
+      ? await this.getEscrowKey()
+      : undefined;
+    
     this.state.keyPair = {
       publicKey,
       privateKeyEncrypted: encryptedPrivateKey,
     };
+    this.state.emergencyContact = profile.emergencyContact;
+    this.state.birthDate = profile.birthDate;
     
-    // Inicializa containers de dados vazios
-    this.state.demographics = await this.createEmptyEncrypted();
-    this.state.medicalHistory = await this.createEmptyEncrypted();
-    this.state.consultations = await this.createEmptyEncrypted();
-    this.state.prescriptions = await this.createEmptyEncrypted();
-    this.state.exams = await this.createEmptyEncrypted();
-    this.state.mentalHealth = await this.createEmptyEncrypted();
+    // Gera uma DEK por compartimento e inicializa containers vazios
+    for (const compartment of COMPARTMENTS) {
+      const dataKey = await generateDataKey();
+      const keyId = crypto.randomUUID();
+      
+      this.state.compartmentKeys[compartment] = {
+        keyId,
+        wrappedKey: await wrapWithPublicKey(dataKey, patientKey),
+        createdAt: new Date(),
+      };
+      
+      if (escrowKey && EMERGENCY_COMPARTMENTS.includes(compartment)) {
+        this.state.emergencyKeys[compartment] = await wrapWithKeyWrappingKey(dataKey, escrowKey);
+      }
+      
+      this.state[COMPARTMENT_FIELDS[compartment]] = await encryptJson(
+        dataKey,
+        keyId,
+        null,
+        compartmentContext(this.state.id, compartment)
+      );
+    }
     
     this.state.updatedAt = new Date();
+    await this.persist();
   }
 
   /** Retorna a chave pública para criptografia */
@@ -201,6 +599,93 @@ export class PatientActor extends BaseActor<PatientState> {
     return this.state.keyPair.publicKey;
   }
 
+  /**
+   * Retorna as DEKs embrulhadas (o app do paciente as abre com a chave privada)
+   */
+  getCompartmentKeys(): Record<CompartmentType, CompartmentKey> {
+    return this.state.compartmentKeys;
+  }
+
+  /**
+   * Atualiza o contato de emergência
+   */
+  async setEmergencyContact(contact: EmergencyContact | undefined): Promise<void> {
+    this.state.emergencyContact = contact;
+    this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Troca a senha do paciente
+   * Apenas a chave privada é re-criptografada - DEKs e compartimentos não mudam
+   */
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    const privateKey = await this.unlockPrivateKey(currentPassword);
+    
+    this.state.keyPair = {
+      publicKey: this.state.keyPair.publicKey,
+      privateKeyEncrypted: await encryptPrivateKey(
+        privateKey,
+        this.state.keyPair.publicKey,
+        newPassword
+      ),
+    };
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: this.state.id,
+      targetActorId: this.state.id,
+      action: 'password_changed',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'password_change' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: {},
+    });
+  }
+
+  /**
+   * Rotaciona o par de chaves do paciente
+   * As DEKs são re-embrulhadas com a nova chave pública; os compartimentos
+   * e os grants ativos continuam válidos
+   */
+  async rotateKeyPair(password: string): Promise<string> {
+    const previousPrivateKey = await this.unlockPrivateKey(password);
+    const previousKeyId = this.state.keyPair.privateKeyEncrypted.keyId;
+    
+    const keyPair = await generatePatientKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    
+    const compartmentKeys = {} as Record<CompartmentType, CompartmentKey>;
+    for (const compartment of COMPARTMENTS) {
+      const current = this.state.compartmentKeys[compartment];
+      const dataKey = await unwrapWithPrivateKey(current.wrappedKey, previousPrivateKey);
+      compartmentKeys[compartment] = {
+        ...current,
+        wrappedKey: await wrapWithPublicKey(dataKey, keyPair.publicKey),
+      };
+    }
+    
+    const privateKeyEncrypted = await encryptPrivateKey(keyPair.privateKey, publicKey, password);
+    
+    this.state.keyPair = { publicKey, privateKeyEncrypted };
+    this.state.compartmentKeys = compartmentKeys;
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: this.state.id,
+      targetActorId: this.state.id,
+      action: 'key_pair_rotated',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'key_rotation' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: { previousKeyId, keyId: privateKeyEncrypted.keyId },
+    });
+    
+    return publicKey;
+  }
+
   // ---------------------------------------------------------------------------
   // CONTROLE DE ACESSO
   // ---------------------------------------------------------------------------
@@ -212,220 +697,1433 @@ export class PatientActor extends BaseActor<PatientState> {
   async requestAccess(
     entityActorId: ActorId,
     serviceActorId: ActorId,
-    scope: AccessScope
-  ): Promise<{ requestId: string; status: 'pending' | 'auto_approved' }> {
-    // Verifica se é acesso de emergência
-    if (scope.reason.includes('EMERGENCY') && this.state.preferences.emergencyAccess) {
-      const grant = await this.grantAccess(entityActorId, serviceActorId, scope);
-      return { requestId: grant.id, status: 'auto_approved' };
+    scope: AccessScope,
+    session?: { sessionId: SessionId; stageId: StageId }
+  ): Promise<AccessRequestResult> {
+    // Break-glass: dispensa consentimento, mas fica pendente de revisão
+    if (scope.breakGlass) {
+      const grant = await this.breakGlassAccess(entityActorId, serviceActorId, scope, session);
+      return { requestId: grant.id, status: 'auto_approved', grant };
     }
     
-    // Caso contrário, requer aprovação do paciente
-    const requestId = crypto.randomUUID();
+    // Políticas permanentes do paciente podem aprovar, negar ou exigir aprovação
+    const evaluation = await this.evaluateStandingConsent(entityActorId, serviceActorId, scope);
     
-    // Aqui seria enviada notificação para o app do paciente
-    // Por ora, retorna pending
-    return { requestId, status: 'pending' };
-  }
-
-  /**
-   * Concede acesso aos dados
-   * Chamado quando o paciente aprova (via app) ou em emergência
-   */
-  async grantAccess(
-    entityActorId: ActorId,
-    serviceActorId: ActorId,
-    scope: AccessScope
-  ): Promise<AccessGrant> {
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + scope.durationSeconds * 1000);
+    if (evaluation.outcome === 'auto_approve') {
+      const grant = await this.autoApproveAccess(
+        entityActorId,
+        serviceActorId,
+        scope,
+        evaluation,
+        session
+      );
+      return {
+        requestId: grant.id,
+        status: 'auto_approved',
+        grant,
+        explanation: evaluation.explanation,
+      };
+    }
     
-    // Gera chave de sessão
-    const sessionKey = await this.generateSessionKey(scope);
+    if (evaluation.outcome === 'auto_deny') {
+      const requestId = crypto.randomUUID();
+      await this.logAudit({
+        actorId: this.state.id,
+        targetActorId: entityActorId,
+        action: 'access_auto_denied',
+        scope,
+        serviceActorId,
+        stageId: session?.stageId ?? ('' as StageId),
+        metadata: {
+          requestId,
+          sessionId: session?.sessionId,
+          policyId: evaluation.policyId,
+          explanation: evaluation.explanation,
+        },
+      });
+      return { requestId, status: 'denied', reason: evaluation.explanation };
+    }
     
-    const grant: AccessGrant = {
+    // Caso contrário, requer aprovação do paciente
+    const now = new Date();
+    const request: AccessRequest = {
       id: crypto.randomUUID(),
-      patientActorId: this.state.id,
       entityActorId,
       serviceActorId,
       scope,
-      grantedAt: now,
-      expiresAt,
-      sessionKey,
+      sessionId: session?.sessionId,
+      stageId: session?.stageId,
+      status: 'pending',
+      requestedAt: now,
+      expiresAt: new Date(now.getTime() + ACCESS_REQUEST_TTL_SECONDS * 1000),
     };
     
-    this.state.activeGrants.push(grant);
+    this.state.accessRequests.push(request);
     this.state.updatedAt = now;
+    await this.scheduleGrantExpiry();
+    await this.notifyPendingRequest(request);
     
     await this.logAudit({
       actorId: entityActorId,
       targetActorId: this.state.id,
-      action: 'access_granted',
+      action: 'access_requested',
       scope,
       serviceActorId,
-      stageId: '' as StageId, // Preenchido pelo ServiceActor
-      metadata: { grantId: grant.id },
+      stageId: session?.stageId ?? ('' as StageId),
+      metadata: {
+        requestId: request.id,
+        sessionId: session?.sessionId,
+        policyId: evaluation.policyId,
+        explanation: evaluation.explanation,
+      },
     });
     
-    return grant;
+    return { requestId: request.id, status: 'pending' };
   }
 
   /**
-   * Revoga acesso concedido
+   * Concede acesso por política permanente, com as DEKs em escrow da política
    */
-  async revokeAccess(grantId: string): Promise<void> {
-    const index = this.state.activeGrants.findIndex(g => g.id === grantId);
-    if (index === -1) {
-      throw new Error('Grant not found');
+  private async autoApproveAccess(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope,
+    evaluation: ConsentPolicyEvaluation,
+    session?: { sessionId: SessionId; stageId: StageId }
+  ): Promise<AccessGrant> {
+    const policy = this.state.consentPolicies.find((p) => p.id === evaluation.policyId);
+    if (!policy) {
+      throw new ActorRpcError('not_found', 'Consent policy not found');
     }
     
-    const grant = this.state.activeGrants[index];
-    this.state.activeGrants.splice(index, 1);
-    this.state.updatedAt = new Date();
+    const dataKeys = await this.unlockEscrowedKeys(policy.escrowedKeys, scope.dataTypes);
+    const grant = await this.issueGrant(
+      entityActorId,
+      serviceActorId,
+      scope,
+      dataKeys,
+      session?.stageId
+    );
     
     await this.logAudit({
       actorId: this.state.id,
-      targetActorId: grant.entityActorId,
-      action: 'access_revoked',
-      scope: grant.scope,
-      serviceActorId: grant.serviceActorId,
-      stageId: '' as StageId,
-      metadata: { grantId },
+      targetActorId: entityActorId,
+      action: 'access_auto_approved',
+      scope,
+      serviceActorId,
+      stageId: session?.stageId ?? ('' as StageId),
+      metadata: {
+        grantId: grant.id,
+        sessionId: session?.sessionId,
+        policyId: policy.id,
+        explanation: evaluation.explanation,
+      },
     });
+    
+    return grant;
   }
 
   /**
-   * Verifica se um grant ainda é válido
+   * Concede acesso de emergência com as DEKs em escrow
+   * Papel, tipo de unidade e vínculo são confirmados nos próprios Actors,
+   * não no que o solicitante declara
    */
-  async checkAccess(grantId: string): Promise<{ valid: boolean; grant?: AccessGrant }> {
-    const grant = this.state.activeGrants.find(g => g.id === grantId);
+  private async breakGlassAccess(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope,
+    session?: { sessionId: SessionId; stageId: StageId }
+  ): Promise<AccessGrant> {
+    if (!this.state.preferences.emergencyAccess) {
+      throw new ActorRpcError('forbidden', 'Emergency access disabled by patient');
+    }
     
-    if (!grant) {
-      return { valid: false };
+    const justification = scope.justification?.trim() ?? '';
+    if (justification.length < BREAK_GLASS_POLICY.minJustificationLength) {
+      throw new ActorRpcError(
+        'invalid_request',
+        `Break-glass requires a justification of at least ${BREAK_GLASS_POLICY.minJustificationLength} characters`
+      );
     }
     
-    if (new Date() > grant.expiresAt) {
-      await this.revokeAccess(grantId);
-      return { valid: false };
+    if (scope.durationSeconds > BREAK_GLASS_POLICY.maxDurationSeconds) {
+      throw new ActorRpcError(
+        'forbidden',
+        `Break-glass access is limited to ${BREAK_GLASS_POLICY.maxDurationSeconds} seconds`
+      );
     }
     
-    return { valid: true, grant };
+    const deniedAction = scope.actions.find((a) => !BREAK_GLASS_POLICY.actions.includes(a));
+    if (deniedAction) {
+      throw new ActorRpcError('forbidden', `Action not allowed in break-glass: ${deniedAction}`);
+    }
+    
+    const { entityRole, serviceType, privacyOfficer } = await this.resolveRequestParties(
+      entityActorId,
+      serviceActorId
+    );
+    
+    if (!BREAK_GLASS_POLICY.roles.includes(entityRole)) {
+      throw new ActorRpcError('forbidden', `Break-glass not allowed for role: ${entityRole}`);
+    }
+    if (!BREAK_GLASS_POLICY.serviceTypes.includes(serviceType)) {
+      throw new ActorRpcError(
+        'forbidden',
+        `Break-glass not allowed for service type: ${serviceType}`
+      );
+    }
+    if (!privacyOfficer) {
+      throw new ActorRpcError('precondition_failed', 'Service has no privacy officer to notify');
+    }
+    
+    const dataKeys = await this.unlockEmergencyKeys(resolveCompartments(scope.dataTypes));
+    const grant = await this.issueGrant(
+      entityActorId,
+      serviceActorId,
+      scope,
+      dataKeys,
+      session?.stageId
+    );
+    
+    const review: BreakGlassReview = {
+      id: crypto.randomUUID(),
+      grantId: grant.id,
+      entityActorId,
+      serviceActorId,
+      entityRole,
+      serviceType,
+      justification,
+      accessedAt: grant.grantedAt,
+      status: 'pending',
+    };
+    this.state.breakGlassReviews.push(review);
+    
+    await this.logAudit({
+      actorId: entityActorId,
+      targetActorId: this.state.id,
+      action: 'break_glass_access',
+      scope,
+      serviceActorId,
+      stageId: session?.stageId ?? ('' as StageId),
+      flaggedForReview: true,
+      metadata: {
+        reviewId: review.id,
+        grantId: grant.id,
+        sessionId: session?.sessionId,
+        entityRole,
+        serviceType,
+      },
+    });
+    
+    await this.notifyBreakGlass(review, privacyOfficer);
+    
+    return grant;
   }
 
   /**
-   * Lista grants ativos
+   * Lista acessos break-glass (opcionalmente por status de revisão)
+   * Com reviewerActorId, só os dos Services de que ele é o encarregado
    */
-  getActiveGrants(): AccessGrant[] {
-    const now = new Date();
-    return this.state.activeGrants.filter(g => g.expiresAt > now);
+  async listBreakGlassReviews(
+    status?: BreakGlassReviewStatus,
+    reviewerActorId?: ActorId
+  ): Promise<BreakGlassReview[]> {
+    const reviews = status
+      ? this.state.breakGlassReviews.filter((r) => r.status === status)
+      : this.state.breakGlassReviews;
+    if (!reviewerActorId) {
+      return reviews;
+    }
+    
+    const visible: BreakGlassReview[] = [];
+    for (const review of reviews) {
+      if (await this.isServicePrivacyOfficer(review.serviceActorId, reviewerActorId)) {
+        visible.push(review);
+      }
+    }
+    return visible;
   }
 
-  // ---------------------------------------------------------------------------
-  // ACESSO A DADOS (requer grant válido)
-  // ---------------------------------------------------------------------------
-
   /**
-   * Lê dados do paciente (requer grant válido)
+   * Registra a revisão de um acesso break-glass
+   * Só o encarregado designado pelo Service do acesso revisa, e nunca o
+   * próprio profissional que abriu o acesso
+   * Acesso considerado injustificado tem o grant revogado imediatamente
    */
-  async readData(
-    grantId: string,
-    dataTypes: string[]
-  ): Promise<Record<string, EncryptedData>> {
-    const { valid, grant } = await this.checkAccess(grantId);
-    if (!valid || !grant) {
-      throw new Error('Invalid or expired access grant');
+  async reviewBreakGlass(
+    reviewId: string,
+    reviewerActorId: ActorId,
+    outcome: 'justified' | 'unjustified',
+    notes?: string
+  ): Promise<BreakGlassReview> {
+    const review = this.state.breakGlassReviews.find((r) => r.id === reviewId);
+    if (!review) {
+      throw new ActorRpcError('not_found', 'Break-glass review not found');
+    }
+    if (review.status !== 'pending') {
+      throw new ActorRpcError('conflict', 'Break-glass review already completed');
+    }
+    if (reviewerActorId === review.entityActorId) {
+      throw new ActorRpcError(
+        'forbidden',
+        'Break-glass access cannot be reviewed by the entity who accessed'
+      );
     }
     
-    // Verifica se o grant permite ler os tipos solicitados
-    const result: Record<string, EncryptedData> = {};
+    if (!(await this.isServicePrivacyOfficer(review.serviceActorId, reviewerActorId))) {
+      throw new ActorRpcError('forbidden', 'Reviewer is not the privacy officer of the service');
+    }
     
-    for (const dataType of dataTypes) {
-      if (!grant.scope.dataTypes.includes(dataType as any) && 
-          !grant.scope.dataTypes.includes('all')) {
-        throw new Error(`Access denied for data type: ${dataType}`);
-      }
-      
-      switch (dataType) {
-        case 'demographics':
-          result.demographics = this.state.demographics;
-          break;
-        case 'medical_history':
-          result.medical_history = this.state.medicalHistory;
-          break;
-        case 'consultations':
-          result.consultations = this.state.consultations;
-          break;
-        case 'prescriptions':
-          result.prescriptions = this.state.prescriptions;
-          break;
-        case 'exams':
-          result.exams = this.state.exams;
-          break;
-        case 'mental_health':
-          result.mental_health = this.state.mentalHealth;
-          break;
-      }
+    review.status = outcome;
+    review.reviewedBy = reviewerActorId;
+    review.reviewedAt = new Date();
+    review.notes = notes;
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    if (outcome === 'unjustified' && this.state.activeGrants.some((g) => g.id === review.grantId)) {
+      await this.revokeAccess(review.grantId);
     }
     
     await this.logAudit({
-      actorId: grant.entityActorId,
-      targetActorId: this.state.id,
-      action: 'data_read',
-      scope: grant.scope,
-      serviceActorId: grant.serviceActorId,
+      actorId: reviewerActorId,
+      targetActorId: review.entityActorId,
+      action: 'break_glass_reviewed',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'break_glass_review' },
+      serviceActorId: review.serviceActorId,
       stageId: '' as StageId,
-      metadata: { dataTypes, grantId },
+      metadata: { reviewId, grantId: review.grantId, outcome, notes },
     });
     
-    return result;
+    return review;
   }
 
+  // ---------------------------------------------------------------------------
+  // POLÍTICAS DE CONSENTIMENTO
+  // ---------------------------------------------------------------------------
+
   /**
-   * Escreve dados no paciente (requer grant válido com write)
+   * Cria uma política permanente de consentimento - a senha é exigida em qualquer efeito
+   * Em allow, as DEKs do escopo ficam em escrow para que a aprovação
+   * automática funcione sem o paciente presente
    */
-  async writeData(
-    grantId: string,
-    dataType: string,
-    data: EncryptedData
-  ): Promise<void> {
-    const { valid, grant } = await this.checkAccess(grantId);
-    if (!valid || !grant) {
-      throw new Error('Invalid or expired access grant');
+  async addConsentPolicy(input: ConsentPolicyInput, password: string): Promise<ConsentPolicy> {
+    validateConsentPolicy(input);
+    
+    let escrowedKeys: StoredConsentPolicy['escrowedKeys'] = {};
+    if (input.effect === 'allow') {
+      escrowedKeys = await this.escrowDataKeys(password, input.dataTypes);
+    } else {
+      // deny e prompt não abrem DEKs, mas mudam quem é atendido - a senha confirma que é o paciente
+      await this.unlockPrivateKey(password);
+    }
+    
+    return this.storeConsentPolicy(input, escrowedKeys, this.state.id);
+  }
+  
+  /**
+   * Cria uma política como representante (approve_access nos compartimentos dela)
+   * allow reaproveita as DEKs em escrow da delegação - o representante já aprovaria esses acessos
+   */
+  async addConsentPolicyAsProxy(
+    input: ConsentPolicyInput,
+    proxyActorId: ActorId,
+    proxyPassword: string
+  ): Promise<ConsentPolicy> {
+    validateConsentPolicy(input);
+    const delegation = await this.authenticateProxy(
+      proxyActorId,
+      proxyPassword,
+      'approve_access',
+      input.dataTypes
+    );
+    
+    const escrowedKeys: StoredConsentPolicy['escrowedKeys'] = {};
+    if (input.effect === 'allow') {
+      for (const compartment of resolveCompartments(input.dataTypes)) {
+        const wrappedKey = delegation.escrowedKeys[compartment];
+        if (!wrappedKey) {
+          throw new ActorRpcError('precondition_failed', `No escrowed key for ${compartment}`);
+        }
+        escrowedKeys[compartment] = wrappedKey;
+      }
+    }
+    
+    return this.storeConsentPolicy(input, escrowedKeys, proxyActorId, {
+      delegationId: delegation.id,
+      onBehalfOf: this.state.id,
+    });
+  }
+  
+  private async storeConsentPolicy(
+    input: ConsentPolicyInput,
+    escrowedKeys: StoredConsentPolicy['escrowedKeys'],
+    createdBy: ActorId,
+    metadata: Record<string, unknown> = {}
+  ): Promise<ConsentPolicy> {
+    const policy: ConsentPolicy = {
+      ...input,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+    };
+    this.state.consentPolicies.push({ ...policy, escrowedKeys });
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: createdBy,
+      targetActorId: this.state.id,
+      action: 'consent_policy_created',
+      scope: {
+        dataTypes: policy.dataTypes,
+        actions: policy.actions,
+        durationSeconds: policy.maxDurationSeconds ?? 0,
+        reason: 'consent_policy',
+      },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: {
+        ...metadata,
+        policyId: policy.id,
+        name: policy.name,
+        effect: policy.effect,
+        match: policy.match,
+      },
+    });
+    
+    return policy;
+  }
+
+  /**
+   * Lista as políticas permanentes (sem as chaves em escrow)
+   */
+  listConsentPolicies(): ConsentPolicy[] {
+    return this.state.consentPolicies.map(({ escrowedKeys: _keys, ...policy }) => policy);
+  }
+
+  /**
+   * Remove uma política (exige a senha) - as DEKs em escrow dela são descartadas
+   * Grants já emitidos pela política continuam até expirar ou serem revogados
+   */
+  async removeConsentPolicy(policyId: string, password: string): Promise<void> {
+    const policy = this.getConsentPolicy(policyId);
+    await this.unlockPrivateKey(password);
+    
+    await this.deleteConsentPolicy(policy, this.state.id);
+  }
+  
+  /**
+   * Remove uma política como representante (approve_access nos compartimentos dela)
+   */
+  async removeConsentPolicyAsProxy(
+    policyId: string,
+    proxyActorId: ActorId,
+    proxyPassword: string
+  ): Promise<void> {
+    const policy = this.getConsentPolicy(policyId);
+    const delegation = await this.authenticateProxy(
+      proxyActorId,
+      proxyPassword,
+      'approve_access',
+      policy.dataTypes
+    );
+    
+    await this.deleteConsentPolicy(policy, proxyActorId, {
+      delegationId: delegation.id,
+      onBehalfOf: this.state.id,
+    });
+  }
+  
+  private getConsentPolicy(policyId: string): StoredConsentPolicy {
+    const policy = this.state.consentPolicies.find((p) => p.id === policyId);
+    if (!policy) {
+      throw new ActorRpcError('not_found', 'Consent policy not found');
+    }
+    return policy;
+  }
+  
+  private async deleteConsentPolicy(
+    policy: StoredConsentPolicy,
+    removedBy: ActorId,
+    metadata: Record<string, unknown> = {}
+  ): Promise<void> {
+    this.state.consentPolicies = this.state.consentPolicies.filter((p) => p.id !== policy.id);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: removedBy,
+      targetActorId: this.state.id,
+      action: 'consent_policy_removed',
+      scope: { dataTypes: policy.dataTypes, actions: [], durationSeconds: 0, reason: 'consent_policy' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: { ...metadata, policyId: policy.id, name: policy.name },
+    });
+  }
+
+  /**
+   * Define os profissionais favoritos (usados por políticas com favoriteProviders)
+   * Exige a senha: a lista amplia o que políticas allow liberam sem perguntar
+   */
+  async setFavoriteProviders(entityActorIds: ActorId[], password: string): Promise<void> {
+    await this.unlockPrivateKey(password);
+    
+    this.state.preferences.favoriteProviders = [...new Set(entityActorIds)];
+    this.state.updatedAt = new Date();
+    await this.persist();
+  }
+
+  /**
+   * Simula a avaliação das políticas para um solicitante (prévia no app do paciente)
+   */
+  async previewConsentDecision(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope
+  ): Promise<ConsentPolicyEvaluation> {
+    return this.evaluateStandingConsent(entityActorId, serviceActorId, scope);
+  }
+
+  /**
+   * Avalia as políticas permanentes para uma solicitação
+   * Papel e tipo de unidade vêm dos próprios Actors, não do que o solicitante declara
+   */
+  private async evaluateStandingConsent(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope
+  ): Promise<ConsentPolicyEvaluation> {
+    if (this.state.consentPolicies.length === 0) {
+      return { outcome: 'prompt', explanation: 'Nenhuma política permanente cadastrada' };
+    }
+    
+    const { entityRole, serviceType } = await this.resolveRequestParties(
+      entityActorId,
+      serviceActorId
+    );
+    
+    return evaluateConsentPolicies(
+      this.state.consentPolicies,
+      {
+        entityActorId,
+        serviceActorId,
+        entityRole,
+        serviceType,
+        favorite: this.state.preferences.favoriteProviders.includes(entityActorId),
+      },
+      scope
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // REPRESENTANTES
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Confirma a senha do paciente
+   * Usado quando este paciente age como representante de outro
+   */
+  async authenticate(password: string): Promise<void> {
+    await this.unlockPrivateKey(password);
+  }
+
+  /**
+   * Nomeia um representante (pelo próprio paciente)
+   * approve_access exige a senha: as DEKs delegadas ficam em escrow
+   */
+  async nominateProxy(input: ProxyDelegationInput, password: string): Promise<ProxyDelegation> {
+    validateDelegation(this.state.id, input, this.state.birthDate);
+    
+    let escrowedKeys: StoredDelegation['escrowedKeys'] = {};
+    if (input.powers.includes('approve_access')) {
+      escrowedKeys = await this.escrowDataKeys(password, input.dataTypes);
+    } else {
+      // Sem DEKs a delegar, a senha só confirma que é o paciente
+      await this.unlockPrivateKey(password);
+    }
+    
+    return this.storeDelegation(input, { type: 'patient' }, escrowedKeys, this.state.id);
+  }
+
+  /**
+   * Registra representante instituído por ordem judicial
+   * Só o encarregado designado pelo Service (autenticado pelo Cast) registra
+   * Sem a senha do paciente, approve_access alcança só as DEKs em escrow de emergência
+   */
+  async registerCourtOrderProxy(
+    input: ProxyDelegationInput,
+    order: { reference: string; serviceActorId: ActorId; registeredBy: ActorId }
+  ): Promise<ProxyDelegation> {
+    validateDelegation(this.state.id, input, this.state.birthDate);
+    if (!order.reference.trim()) {
+      throw new ActorRpcError('invalid_request', 'Court order reference is required');
+    }
+    
+    if (!(await this.isServicePrivacyOfficer(order.serviceActorId, order.registeredBy))) {
+      throw new ActorRpcError(
+        'forbidden',
+        'Court orders must be registered by the privacy officer of the service'
+      );
+    }
+    
+    const escrowedKeys: StoredDelegation['escrowedKeys'] = {};
+    if (input.powers.includes('approve_access')) {
+      for (const compartment of resolveCompartments(input.dataTypes)) {
+        const wrappedKey = this.state.emergencyKeys[compartment];
+        if (wrappedKey) {
+          escrowedKeys[compartment] = wrappedKey;
+        }
+      }
+    }
+    
+    return this.storeDelegation(
+      input,
+      { type: 'court_order', ...order },
+      escrowedKeys,
+      order.registeredBy
+    );
+  }
+
+  /**
+   * Lista as delegações (encerra antes as que venceram)
+   */
+  async listProxies(): Promise<ProxyDelegation[]> {
+    await this.endExpiredDelegations();
+    return this.state.delegations.map(({ escrowedKeys: _keys, ...delegation }) => delegation);
+  }
+
+  /**
+   * Revoga uma delegação
+   * revokedBy é o chamador autenticado pelo Cast; o paciente ainda confirma
+   * com a senha. O representante pode renunciar; ordem judicial só é revogada
+   * por quem a registrou
+   */
+  async revokeProxy(delegationId: string, revokedBy: ActorId, password?: string): Promise<void> {
+    const delegation = this.state.delegations.find((d) => d.id === delegationId);
+    if (!delegation || delegation.status !== 'active') {
+      throw new ActorRpcError('not_found', 'Active delegation not found');
+    }
+    
+    const renounced = revokedBy === delegation.proxyActorId;
+    const owner =
+      delegation.source.type === 'court_order' ? delegation.source.registeredBy : this.state.id;
+    if (!renounced && revokedBy !== owner) {
+      throw new ActorRpcError('forbidden', 'Not allowed to revoke this delegation');
+    }
+    if (!renounced && revokedBy === this.state.id) {
+      if (!password) {
+        throw new ActorRpcError('invalid_request', 'Password required to revoke a delegation');
+      }
+      await this.unlockPrivateKey(password);
+    }
+    
+    await this.endDelegation(delegation, renounced ? 'renounced' : 'revoked', revokedBy);
+  }
+
+  /**
+   * Confere que o representante (chamador já autenticado por token pelo Cast)
+   * tem delegação ativa com o poder pedido
+   */
+  async assertProxyPower(proxyActorId: ActorId, power: ProxyPower, dataTypes: DataType[] = []): Promise<void> {
+    await this.findProxyDelegation(proxyActorId, power, dataTypes);
+  }
+
+  /**
+   * Aprova uma solicitação pendente como representante
+   */
+  async approveRequestAsProxy(
+    requestId: string,
+    proxyActorId: ActorId,
+    proxyPassword: string
+  ): Promise<AccessRequest> {
+    const request = await this.getPendingRequest(requestId);
+    const delegation = await this.authenticateProxy(
+      proxyActorId,
+      proxyPassword,
+      'approve_access',
+      request.scope.dataTypes
+    );
+    
+    const dataKeys = await this.unlockEscrowedKeys(delegation.escrowedKeys, request.scope.dataTypes);
+    const grant = await this.issueGrant(
+      request.entityActorId,
+      request.serviceActorId,
+      request.scope,
+      dataKeys,
+      request.stageId
+    );
+    
+    return this.recordApproval(request, grant, proxyActorId, {
+      delegationId: delegation.id,
+      onBehalfOf: this.state.id,
+    });
+  }
+
+  /**
+   * Nega uma solicitação pendente como representante
+   */
+  async denyRequestAsProxy(
+    requestId: string,
+    proxyActorId: ActorId,
+    proxyPassword: string,
+    reason?: string
+  ): Promise<AccessRequest> {
+    const request = await this.getPendingRequest(requestId);
+    const delegation = await this.authenticateProxy(proxyActorId, proxyPassword, 'approve_access');
+    
+    return this.recordDenial(request, proxyActorId, reason, {
+      delegationId: delegation.id,
+      onBehalfOf: this.state.id,
+    });
+  }
+
+  /**
+   * Resumo para o representante: solicitações pendentes, grants ativos e relatório de acessos
+   * Não inclui dados clínicos - apenas quem acessou o quê
+   */
+  async getProxySummary(
+    proxyActorId: ActorId,
+    proxyPassword: string,
+    options: AccessReportOptions = {}
+  ): Promise<ProxySummary> {
+    const delegation = await this.authenticateProxy(proxyActorId, proxyPassword, 'read_summaries');
+    
+    const summary: ProxySummary = {
+      pendingRequests: await this.listPendingRequests(),
+      activeGrants: this.getActiveGrants().map(
+        ({ sessionKeyHash: _hash, wrappedKeys: _keys, ...grant }) => grant
+      ),
+      accessReport: await this.getAccessReport(options),
+    };
+    
+    await this.logAudit({
+      actorId: proxyActorId,
+      targetActorId: this.state.id,
+      action: 'proxy_summary_read',
+      scope: { dataTypes: [], actions: ['read'], durationSeconds: 0, reason: 'proxy_summary' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: { delegationId: delegation.id, onBehalfOf: this.state.id },
+    });
+    
+    return summary;
+  }
+
+  private async storeDelegation(
+    input: ProxyDelegationInput,
+    source: DelegationSource,
+    escrowedKeys: StoredDelegation['escrowedKeys'],
+    createdBy: ActorId
+  ): Promise<ProxyDelegation> {
+    const now = new Date();
+    const delegation: ProxyDelegation = {
+      ...input,
+      id: crypto.randomUUID(),
+      source,
+      startsAt: input.startsAt ?? now,
+      status: 'active',
+      createdAt: now,
+    };
+    
+    this.state.delegations.push({ ...delegation, escrowedKeys });
+    this.state.updatedAt = now;
+    
+    await this.logAudit({
+      actorId: createdBy,
+      targetActorId: delegation.proxyActorId,
+      action: 'proxy_nominated',
+      scope: { dataTypes: delegation.dataTypes, actions: [], durationSeconds: 0, reason: 'delegation' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: {
+        delegationId: delegation.id,
+        relationship: delegation.relationship,
+        powers: delegation.powers,
+        source,
+        expiresAt: delegation.expiresAt,
+        endsAtMajority: delegation.endsAtMajority,
+      },
+    });
+    
+    await this.scheduleGrantExpiry();
+    return delegation;
+  }
+
+  /**
+   * Confere delegação ativa com o poder pedido e a senha do próprio representante
+   */
+  private async authenticateProxy(
+    proxyActorId: ActorId,
+    password: string,
+    power: ProxyPower,
+    dataTypes: DataType[] = []
+  ): Promise<StoredDelegation> {
+    const delegation = await this.findProxyDelegation(proxyActorId, power, dataTypes);
+    await this.getPatientClient(proxyActorId).authenticate(password);
+    return delegation;
+  }
+
+  /**
+   * Delegação ativa com o poder pedido (sem senha - para quem já chega autenticado por token)
+   */
+  private async findProxyDelegation(
+    proxyActorId: ActorId,
+    power: ProxyPower,
+    dataTypes: DataType[] = []
+  ): Promise<StoredDelegation> {
+    await this.endExpiredDelegations();
+    
+    const delegation = this.state.delegations.find(
+      (d) => d.proxyActorId === proxyActorId && delegationAllows(d, power, dataTypes)
+    );
+    if (!delegation) {
+      throw new ActorRpcError('forbidden', `Proxy not authorized for ${power}`);
+    }
+    return delegation;
+  }
+
+  /**
+   * Encerra delegações vencidas ou de pacientes que atingiram a maioridade
+   */
+  private async endExpiredDelegations(): Promise<void> {
+    const now = new Date();
+    for (const delegation of this.state.delegations) {
+      if (delegation.status !== 'active') continue;
+      
+      const end = delegationEndsAt(delegation, this.state.birthDate);
+      if (end && end.endsAt <= now) {
+        await this.endDelegation(delegation, end.reason, this.state.id);
+      }
+    }
+  }
+
+  private async endDelegation(
+    delegation: StoredDelegation,
+    reason: DelegationEndReason,
+    endedBy: ActorId
+  ): Promise<void> {
+    delegation.status = reason === 'revoked' || reason === 'renounced' ? 'revoked' : 'ended';
+    delegation.endReason = reason;
+    delegation.endedAt = new Date();
+    delegation.escrowedKeys = {};
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: endedBy,
+      targetActorId: delegation.proxyActorId,
+      action: 'proxy_ended',
+      scope: { dataTypes: delegation.dataTypes, actions: [], durationSeconds: 0, reason: 'delegation' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: { delegationId: delegation.id, reason },
+    });
+    
+    await this.scheduleGrantExpiry();
+  }
+
+  /**
+   * Lista solicitações aguardando decisão do paciente
+   */
+  async listPendingRequests(): Promise<AccessRequest[]> {
+    await this.expireStaleRequests();
+    return this.state.accessRequests.filter((r) => r.status === 'pending');
+  }
+
+  /**
+   * Retorna uma solicitação de acesso
+   */
+  async getAccessRequest(requestId: string): Promise<AccessRequest | undefined> {
+    await this.expireStaleRequests();
+    return this.state.accessRequests.find((r) => r.id === requestId);
+  }
+
+  /**
+   * Aprova uma solicitação pendente
+   * Chamado pelo app do paciente - a senha desbloqueia a chave privada
+   */
+  async approveRequest(requestId: string, password: string): Promise<AccessRequest> {
+    const request = await this.getPendingRequest(requestId);
+    const privateKey = await this.unlockPrivateKey(password);
+    
+    const grant = await this.grantAccess(
+      request.entityActorId,
+      request.serviceActorId,
+      request.scope,
+      privateKey,
+      request.stageId
+    );
+    
+    return this.recordApproval(request, grant, this.state.id);
+  }
+
+  /**
+   * Entrega o grant ao ServiceActor solicitante e registra a aprovação
+   * A chave de sessão não é gravada aqui: se a entrega falha, o grant é
+   * revogado e a solicitação continua pendente
+   */
+  private async recordApproval(
+    request: AccessRequest,
+    grant: AccessGrant,
+    approvedBy: ActorId,
+    metadata: Record<string, unknown> = {}
+  ): Promise<AccessRequest> {
+    try {
+      await this.getServiceClient(request.serviceActorId).deliverGrant(request.id, grant);
+    } catch (error) {
+      await this.revokeAccess(grant.id, { reason: 'grant_delivery_failed' });
+      throw error;
+    }
+    
+    const requestId = request.id;
+    request.status = 'approved';
+    request.decidedAt = new Date();
+    request.grantId = grant.id;
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: approvedBy,
+      targetActorId: request.entityActorId,
+      action: 'access_request_approved',
+      scope: request.scope,
+      serviceActorId: request.serviceActorId,
+      stageId: request.stageId ?? ('' as StageId),
+      metadata: { ...metadata, requestId, grantId: grant.id },
+    });
+    
+    return request;
+  }
+
+  /**
+   * Nega uma solicitação pendente
+   */
+  async denyRequest(requestId: string, password: string, reason?: string): Promise<AccessRequest> {
+    const request = await this.getPendingRequest(requestId);
+    await this.unlockPrivateKey(password);
+    
+    return this.recordDenial(request, this.state.id, reason);
+  }
+
+  private async recordDenial(
+    request: AccessRequest,
+    deniedBy: ActorId,
+    reason?: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<AccessRequest> {
+    const requestId = request.id;
+    request.status = 'denied';
+    request.decidedAt = new Date();
+    request.denialReason = reason;
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: deniedBy,
+      targetActorId: request.entityActorId,
+      action: 'access_request_denied',
+      scope: request.scope,
+      serviceActorId: request.serviceActorId,
+      stageId: request.stageId ?? ('' as StageId),
+      metadata: { ...metadata, requestId, reason },
+    });
+    
+    return request;
+  }
+
+  /**
+   * Decisão de uma solicitação, para o ServiceActor que a fez
+   * O grant aprovado não sai daqui - já foi entregue (deliverGrant) na aprovação
+   */
+  async getRequestDecision(
+    requestId: string,
+    serviceActorId: ActorId
+  ): Promise<{ status: AccessRequestStatus; grantId?: string; denialReason?: string }> {
+    const request = await this.getAccessRequest(requestId);
+    if (!request || request.serviceActorId !== serviceActorId) {
+      throw new ActorRpcError('not_found', 'Access request not found');
+    }
+    
+    return { status: request.status, grantId: request.grantId, denialReason: request.denialReason };
+  }
+
+  /**
+   * Concede acesso aos dados
+   * Chamado quando o paciente aprova (via app), com a chave privada desbloqueada
+   */
+  async grantAccess(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope,
+    patientPrivateKey: CryptoKey,
+    stageId?: StageId
+  ): Promise<AccessGrant> {
+    const dataKeys = new Map<CompartmentType, CryptoKey>();
+    for (const compartment of resolveCompartments(scope.dataTypes)) {
+      const { wrappedKey } = this.state.compartmentKeys[compartment];
+      dataKeys.set(compartment, await unwrapWithPrivateKey(wrappedKey, patientPrivateKey));
+    }
+    
+    return this.issueGrant(entityActorId, serviceActorId, scope, dataKeys, stageId);
+  }
+
+  /**
+   * Emite o grant re-embrulhando as DEKs do escopo com uma nova chave de sessão
+   */
+  private async issueGrant(
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    scope: AccessScope,
+    dataKeys: Map<CompartmentType, CryptoKey>,
+    stageId?: StageId
+  ): Promise<AccessGrant> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + scope.durationSeconds * 1000);
+    
+    // Gera chave de sessão e embrulha somente as DEKs liberadas
+    const sessionKey = await generateSessionKey();
+    const wrappedKeys: AccessGrant['wrappedKeys'] = {};
+    for (const [compartment, dataKey] of dataKeys) {
+      wrappedKeys[compartment] = {
+        keyId: this.state.compartmentKeys[compartment].keyId,
+        wrappedKey: await wrapWithKeyWrappingKey(dataKey, sessionKey.key),
+      };
+    }
+    
+    const grant: AccessGrant = {
+      id: crypto.randomUUID(),
+      patientActorId: this.state.id,
+      entityActorId,
+      serviceActorId,
+      scope,
+      grantedAt: now,
+      expiresAt,
+      sessionKey: sessionKey.encoded,
+      wrappedKeys,
+    };
+    
+    // Armazena o grant sem a chave de sessão (somente o hash)
+    const { sessionKey: _, ...stored } = grant;
+    this.state.activeGrants.push({
+      ...stored,
+      stageId,
+      sessionKeyHash: await hashSessionKey(grant.sessionKey),
+      renewalCount: 0,
+    });
+    this.state.updatedAt = now;
+    await this.scheduleGrantExpiry();
+    
+    await this.logAudit({
+      actorId: entityActorId,
+      targetActorId: this.state.id,
+      action: 'access_granted',
+      scope,
+      serviceActorId,
+      stageId: stageId ?? ('' as StageId),
+      metadata: { grantId: grant.id },
+    });
+    
+    return grant;
+  }
+
+  /**
+   * Revoga acesso concedido
+   * Sem revokedBy é o paciente; o ServiceActor do grant também pode revogar (fim de sessão)
+   */
+  async revokeAccess(
+    grantId: string,
+    options: { revokedBy?: ActorId; reason?: string } = {}
+  ): Promise<void> {
+    const index = this.state.activeGrants.findIndex(g => g.id === grantId);
+    if (index === -1) {
+      throw new ActorRpcError('not_found', 'Grant not found');
+    }
+    
+    const grant = this.state.activeGrants[index];
+    const revokedBy = options.revokedBy ?? this.state.id;
+    this.assertCanManageGrant(grant, revokedBy);
+    
+    this.state.activeGrants.splice(index, 1);
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: revokedBy,
+      targetActorId: grant.entityActorId,
+      action: 'access_revoked',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { grantId, reason: options.reason },
+    });
+    
+    await this.scheduleGrantExpiry();
+  }
+
+  /**
+   * Renova um grant ativo dentro dos limites definidos pelo paciente
+   * Break-glass não renova - exige novo acesso de emergência justificado
+   */
+  async renewGrant(
+    grantId: string,
+    serviceActorId: ActorId,
+    extensionSeconds: number
+  ): Promise<StoredGrant> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    this.assertCanManageGrant(grant, serviceActorId);
+    
+    if (grant.scope.breakGlass) {
+      throw new ActorRpcError('forbidden', 'Break-glass grants cannot be renewed');
+    }
+    
+    const policy = this.state.preferences.grantRenewal;
+    if (grant.renewalCount >= policy.maxRenewals) {
+      throw new ActorRpcError('forbidden', `Grant renewal limit reached (${policy.maxRenewals})`);
+    }
+    
+    const previousExpiresAt = grant.expiresAt;
+    const expiresAt = new Date(new Date(grant.expiresAt).getTime() + extensionSeconds * 1000);
+    const totalSeconds = (expiresAt.getTime() - new Date(grant.grantedAt).getTime()) / 1000;
+    if (extensionSeconds <= 0 || totalSeconds > policy.maxTotalDurationSeconds) {
+      throw new ActorRpcError(
+        'forbidden',
+        `Grant cannot exceed ${policy.maxTotalDurationSeconds} seconds including renewals`
+      );
+    }
+    
+    grant.expiresAt = expiresAt;
+    grant.renewalCount++;
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'access_renewed',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { grantId, previousExpiresAt, expiresAt, renewalCount: grant.renewalCount },
+    });
+    
+    await this.scheduleGrantExpiry();
+    return grant;
+  }
+
+  /**
+   * Estreita o escopo de um grant ativo (revogação parcial) sem encerrar a sessão
+   * O novo escopo não pode ampliar nada; compartimentos removidos perdem a DEK
+   */
+  async narrowGrant(
+    grantId: string,
+    scope: AccessScope,
+    requestedBy: ActorId = this.state.id
+  ): Promise<StoredGrant> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    this.assertCanManageGrant(grant, requestedBy);
+    
+    if (!isScopeWithin(scope, grant.scope)) {
+      throw new ActorRpcError('forbidden', 'Narrowed scope must be within the current grant scope');
+    }
+    
+    const previousScope = grant.scope;
+    const kept = new Set(resolveCompartments(scope.dataTypes));
+    
+    grant.scope = scope;
+    grant.wrappedKeys = Object.fromEntries(
+      Object.entries(grant.wrappedKeys).filter(([compartment]) =>
+        kept.has(compartment as CompartmentType)
+      )
+    );
+    
+    // Duração menor encurta o grant; nunca estende
+    const limit = new Date(new Date(grant.grantedAt).getTime() + scope.durationSeconds * 1000);
+    if (limit < new Date(grant.expiresAt)) {
+      grant.expiresAt = limit;
+    }
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: requestedBy,
+      targetActorId: grant.entityActorId,
+      action: 'access_narrowed',
+      scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { grantId, previousScope },
+    });
+    
+    await this.scheduleGrantExpiry();
+    return grant;
+  }
+
+  /**
+   * Alarm do Durable Object - expira grants e solicitações no horário
+   */
+  async alarm(): Promise<void> {
+    const now = new Date();
+    const expired = this.state.activeGrants.filter((g) => new Date(g.expiresAt) <= now);
+    
+    for (const grant of expired) {
+      await this.revokeAccess(grant.id, { reason: 'expired' });
+    }
+    
+    await this.expireStaleRequests();
+    await this.endExpiredDelegations();
+    await this.scheduleGrantExpiry();
+  }
+
+  /**
+   * Verifica se um grant ainda é válido
+   */
+  async checkAccess(grantId: string): Promise<{ valid: boolean; grant?: StoredGrant }> {
+    const grant = this.state.activeGrants.find(g => g.id === grantId);
+    
+    if (!grant) {
+      return { valid: false };
+    }
+    
+    if (new Date() > new Date(grant.expiresAt)) {
+      await this.revokeAccess(grantId, { reason: 'expired' });
+      return { valid: false };
+    }
+    
+    return { valid: true, grant };
+  }
+
+  /**
+   * Lista grants ativos
+   */
+  getActiveGrants(): StoredGrant[] {
+    const now = new Date();
+    return this.state.activeGrants.filter(g => new Date(g.expiresAt) > now);
+  }
+
+  // ---------------------------------------------------------------------------
+  // ACESSO A DADOS (requer grant válido)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lê dados do paciente (requer grant válido)
+   */
+  async readData(
+    grantId: string,
+    dataTypes: string[]
+  ): Promise<Record<string, EncryptedData>> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    
+    // Verifica se o grant permite ler os tipos solicitados
+    const result: Record<string, EncryptedData> = {};
+    
+    for (const dataType of dataTypes) {
+      if (!scopeCoversDataType(grant.scope, dataType as DataType)) {
+        throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+      }
+      
+      const compartment = dataType as CompartmentType;
+      if (!COMPARTMENT_FIELDS[compartment]) {
+        continue;
+      }
+      
+      // Sem DEK no grant o ciphertext seria inútil - nega explicitamente
+      if (!grant.wrappedKeys[compartment]) {
+        throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+      }
+      
+      // O blob do compartimento não pode ser filtrado - escopo fino só via readRecords
+      if (recordFiltersFor(grant.scope, compartment).length > 0) {
+        throw new ActorRpcError(
+          'forbidden',
+          `Access to ${dataType} is restricted to specific records`
+        );
+      }
+      
+      result[compartment] = this.state[COMPARTMENT_FIELDS[compartment]];
+    }
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'data_read',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { dataTypes, grantId },
+    });
+    
+    return result;
+  }
+
+  /**
+   * Substitui o documento do compartimento (requer write - append só acrescenta registros)
+   */
+  async writeData(
+    grantId: string,
+    dataType: string,
+    data: EncryptedData
+  ): Promise<void> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    
+    if (!grant.scope.actions.includes('write')) {
+      throw new ActorRpcError('forbidden', 'Write access not granted');
+    }
+    
+    if (!scopeCoversDataType(grant.scope, dataType as DataType)) {
+      throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+    }
+    
+    const compartment = dataType as CompartmentType;
+    const field = COMPARTMENT_FIELDS[compartment];
+    if (!field) {
+      throw new ActorRpcError('invalid_request', `Unknown data type: ${dataType}`);
+    }
+    
+    if (recordFiltersFor(grant.scope, compartment).length > 0) {
+      throw new ActorRpcError(
+        'forbidden',
+        `Access to ${dataType} is restricted to specific records`
+      );
+    }
+    
+    // O dado deve estar selado com a DEK do compartimento liberada no grant
+    if (!grant.wrappedKeys[compartment] ||
+        data.keyId !== this.state.compartmentKeys[compartment].keyId) {
+      throw new ActorRpcError(
+        'invalid_request',
+        `Data not encrypted with the compartment key: ${dataType}`
+      );
+    }
+    this.assertContextBound([data]);
+    
+    this.state[field] = data;
+    
+    this.state.updatedAt = new Date();
+    await this.persist();
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'data_write',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { dataType, grantId },
+    });
+  }
+
+  /**
+   * Lê registros dos compartimentos aplicando o escopo fino do grant
+   * Somente registros e campos liberados saem do Actor - e ficam na auditoria
+   */
+  async readRecords(
+    grantId: string,
+    dataTypes: string[]
+  ): Promise<Record<string, PatientRecord[]>> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    
+    const result: Record<string, PatientRecord[]> = {};
+    const released: Record<string, ReleasedRecord[]> = {};
+    
+    for (const dataType of dataTypes) {
+      const compartment = dataType as CompartmentType;
+      if (!scopeCoversDataType(grant.scope, dataType as DataType) || !grant.wrappedKeys[compartment]) {
+        throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+      }
+      if (!this.state.records[compartment]) {
+        continue;
+      }
+      
+      result[compartment] = applyRecordFilters(this.state.records[compartment], grant.scope, compartment);
+      released[compartment] = describeReleasedRecords(result[compartment]);
+    }
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'data_read',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: { dataTypes, grantId, released },
+    });
+    
+    return result;
+  }
+
+  /**
+   * Acrescenta um registro a um compartimento (requer write ou append)
+   * Cada campo deve estar selado com a DEK do compartimento
+   */
+  async appendRecord(
+    grantId: string,
+    dataType: string,
+    input: {
+      /** Id escolhido por quem selou - os campos estão amarrados a ele */
+      id: string;
+      recordType: ClinicalRecordType;
+      recordedAt: Date;
+      tags?: string[];
+      fields: Record<string, EncryptedData>;
+    }
+  ): Promise<PatientRecord> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
     }
     
     if (!grant.scope.actions.includes('write') && !grant.scope.actions.includes('append')) {
-      throw new Error('Write access not granted');
-    }
-    
-    if (!grant.scope.dataTypes.includes(dataType as any) && 
-        !grant.scope.dataTypes.includes('all')) {
-      throw new Error(`Access denied for data type: ${dataType}`);
-    }
-    
-    switch (dataType) {
-      case 'demographics':
-        this.state.demographics = data;
-        break;
-      case 'medical_history':
-        this.state.medicalHistory = data;
-        break;
-      case 'consultations':
-        this.state.consultations = data;
-        break;
-      case 'prescriptions':
-        this.state.prescriptions = data;
-        break;
-      case 'exams':
-        this.state.exams = data;
-        break;
-      case 'mental_health':
-        this.state.mentalHealth = data;
-        break;
-      default:
-        throw new Error(`Unknown data type: ${dataType}`);
+      throw new ActorRpcError('forbidden', 'Write access not granted');
+    }
+    
+    const compartment = dataType as CompartmentType;
+    if (!scopeCoversDataType(grant.scope, dataType as DataType) || !this.state.records[compartment]) {
+      throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+    }
+    
+    this.assertSealedWithCompartmentKey(grant, compartment, input.fields);
+    validateRecordShape(compartment, input.recordType, Object.keys(input.fields));
+    
+    const taken = COMPARTMENTS.some((c) => this.state.records[c]?.some((r) => r.id === input.id));
+    if (taken || this.state.recordHistory[input.id]) {
+      throw new ActorRpcError('conflict', `Record already exists: ${input.id}`);
+    }
+    
+    const record: PatientRecord = {
+      id: input.id,
+      dataType: compartment,
+      recordType: input.recordType,
+      recordedAt: input.recordedAt,
+      tags: input.tags ?? [],
+      fields: input.fields,
+      version: 1,
+      createdAt: new Date(),
+      createdBy: grant.entityActorId,
+    };
+    
+    if (!scopeAllowsRecord(grant.scope, compartment, record)) {
+      throw new ActorRpcError('forbidden', 'Record outside the grant scope');
     }
     
+    this.state.records[compartment].push(record);
     this.state.updatedAt = new Date();
+    await this.persist();
     
     await this.logAudit({
       actorId: grant.entityActorId,
@@ -433,9 +2131,191 @@ export class PatientActor extends BaseActor<PatientState> {
       action: 'data_write',
       scope: grant.scope,
       serviceActorId: grant.serviceActorId,
-      stageId: '' as StageId,
-      metadata: { dataType, grantId },
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: {
+        dataType,
+        grantId,
+        operation: 'append',
+        recordId: record.id,
+        recordType: record.recordType,
+        fields: Object.keys(record.fields),
+      },
+    });
+    
+    return record;
+  }
+
+  /**
+   * Retifica um registro (requer write)
+   * A versão anterior vai para o histórico; expectedVersion evita sobrescrever
+   * uma retificação concorrente
+   */
+  async amendRecord(
+    grantId: string,
+    dataType: string,
+    recordId: string,
+    input: {
+      expectedVersion: number;
+      reason: string;
+      fields: Record<string, EncryptedData>;
+      recordedAt?: Date;
+      tags?: string[];
+    }
+  ): Promise<PatientRecord> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    
+    if (!grant.scope.actions.includes('write')) {
+      throw new ActorRpcError('forbidden', 'Amending records requires write access');
+    }
+    
+    const compartment = dataType as CompartmentType;
+    if (!scopeCoversDataType(grant.scope, dataType as DataType) || !this.state.records[compartment]) {
+      throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+    }
+    
+    const records = this.state.records[compartment];
+    const index = records.findIndex((r) => r.id === recordId);
+    if (index === -1) {
+      throw new ActorRpcError('not_found', 'Record not found');
+    }
+    
+    const current = records[index];
+    if (current.version !== input.expectedVersion) {
+      throw new ActorRpcError(
+        'conflict',
+        `Record version conflict: expected ${input.expectedVersion}, current is ${current.version}`
+      );
+    }
+    
+    const reason = validateAmendmentReason(input.reason);
+    this.assertSealedWithCompartmentKey(grant, compartment, input.fields);
+    validateRecordShape(compartment, current.recordType, Object.keys(input.fields));
+    
+    const now = new Date();
+    const amended: PatientRecord = {
+      ...current,
+      recordedAt: input.recordedAt ?? current.recordedAt,
+      tags: input.tags ?? current.tags,
+      fields: input.fields,
+      version: current.version + 1,
+      amendedAt: now,
+      amendedBy: grant.entityActorId,
+      amendmentReason: reason,
+    };
+    
+    // O grant precisa enxergar o registro antes e depois da retificação
+    if (!scopeAllowsRecord(grant.scope, compartment, current) ||
+        !scopeAllowsRecord(grant.scope, compartment, amended)) {
+      throw new ActorRpcError('forbidden', 'Record outside the grant scope');
+    }
+    
+    (this.state.recordHistory[recordId] ??= []).push(current);
+    records[index] = amended;
+    this.state.updatedAt = now;
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'data_write',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: {
+        dataType,
+        grantId,
+        operation: 'amend',
+        recordId,
+        version: amended.version,
+        reason,
+        fields: Object.keys(amended.fields),
+      },
+    });
+    
+    return amended;
+  }
+
+  /**
+   * Histórico de versões de um registro, da original à atual
+   * Cada versão passa pelo escopo fino do grant (campos mascarados, versões fora do filtro omitidas)
+   */
+  async getRecordHistory(
+    grantId: string,
+    dataType: string,
+    recordId: string
+  ): Promise<PatientRecord[]> {
+    const { valid, grant } = await this.checkAccess(grantId);
+    if (!valid || !grant) {
+      throw new ActorRpcError('expired', 'Invalid or expired access grant');
+    }
+    
+    const compartment = dataType as CompartmentType;
+    if (!scopeCoversDataType(grant.scope, dataType as DataType) || !grant.wrappedKeys[compartment]) {
+      throw new ActorRpcError('forbidden', `Access denied for data type: ${dataType}`);
+    }
+    
+    const current = this.state.records[compartment]?.find((r) => r.id === recordId);
+    if (!current) {
+      throw new ActorRpcError('not_found', 'Record not found');
+    }
+    
+    const versions = applyRecordFilters(
+      recordVersions(current, this.state.recordHistory[recordId]),
+      grant.scope,
+      compartment
+    );
+    
+    await this.logAudit({
+      actorId: grant.entityActorId,
+      targetActorId: this.state.id,
+      action: 'data_read',
+      scope: grant.scope,
+      serviceActorId: grant.serviceActorId,
+      stageId: grant.stageId ?? ('' as StageId),
+      metadata: {
+        dataTypes: [dataType],
+        grantId,
+        recordId,
+        versions: versions.map((v) => v.version),
+        released: { [compartment]: describeReleasedRecords(versions) },
+      },
     });
+    
+    return versions;
+  }
+
+  /**
+   * Todos os campos devem estar selados com a DEK do compartimento liberada no grant
+   */
+  private assertSealedWithCompartmentKey(
+    grant: StoredGrant,
+    compartment: CompartmentType,
+    fields: Record<string, EncryptedData>
+  ): void {
+    const keyId = this.state.compartmentKeys[compartment].keyId;
+    if (!grant.wrappedKeys[compartment] ||
+        Object.values(fields).some((field) => field.keyId !== keyId)) {
+      throw new ActorRpcError(
+        'invalid_request',
+        `Data not encrypted with the compartment key: ${compartment}`
+      );
+    }
+    this.assertContextBound(Object.values(fields));
+  }
+
+  /**
+   * Dados novos precisam vir amarrados ao contexto (paciente, registro, campo)
+   * como additionalData - senão um ciphertext poderia ser trocado de lugar
+   */
+  private assertContextBound(data: EncryptedData[]): void {
+    if (data.some((d) => (d.version ?? 1) < CONTEXT_BOUND_VERSION)) {
+      throw new ActorRpcError(
+        'invalid_request',
+        'Encrypted data must be bound to its context (version 2)'
+      );
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -449,35 +2329,390 @@ export class PatientActor extends BaseActor<PatientState> {
     return this.state.auditLog.slice(-limit);
   }
 
-  protected async logAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<void> {
-    this.state.auditLog.push({
-      ...entry,
-      id: crypto.randomUUID(),
-      timestamp: new Date(),
+  /**
+   * Verifica a cadeia de auditoria e aponta o primeiro elo quebrado
+   */
+  async verifyAuditChain(
+    options: { includeArchives?: boolean } = {}
+  ): Promise<AuditChainVerification> {
+    return verifyAuditChain(
+      this.state.auditLog,
+      this.state.auditChain,
+      this.getAuditTrailContext(),
+      options
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // TRANSPARÊNCIA
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Relatório de acessos legível para o paciente
+   * Agrupa o log por grant e resolve nomes de profissionais, unidades e Stages
+   */
+  async getAccessReport(options: AccessReportOptions = {}): Promise<AccessReport> {
+    const entries = await loadAuditEntries(
+      this.state.auditLog,
+      this.state.auditChain,
+      this.getAuditTrailContext(),
+      { from: options.from, to: options.to }
+    );
+    const directory = await this.resolveReportDirectory(
+      collectReportParties(this.state.id, entries)
+    );
+    
+    return buildAccessReport(this.state.id, entries, directory, options);
+  }
+
+  /**
+   * Exporta o relatório (JSON ou PDF) - atende requisição do titular (LGPD)
+   * Quem pede é o próprio titular ou representante com read_summaries
+   */
+  async exportAccessReport(
+    format: AccessReportFormat,
+    requestedBy: ActorId,
+    options: AccessReportOptions = {}
+  ): Promise<AccessReportExport> {
+    const delegation = requestedBy === this.state.id
+      ? undefined
+      : await this.findProxyDelegation(requestedBy, 'read_summaries');
+    const report = await this.getAccessReport(options);
+    
+    await this.logAudit({
+      actorId: requestedBy,
+      targetActorId: this.state.id,
+      action: 'access_report_exported',
+      scope: { dataTypes: [], actions: [], durationSeconds: 0, reason: 'data_subject_request' },
+      serviceActorId: '' as ActorId,
+      stageId: '' as StageId,
+      metadata: delegation
+        ? { format, accesses: report.accesses.length, delegationId: delegation.id, onBehalfOf: this.state.id }
+        : { format, accesses: report.accesses.length },
     });
     
-    // Mantém apenas últimos 10000 registros
-    if (this.state.auditLog.length > 10000) {
-      this.state.auditLog = this.state.auditLog.slice(-10000);
-    }
+    return exportAccessReport(report, format, options.timeZone);
+  }
+
+  protected async logAudit(entry: AuditEntryInput): Promise<void> {
+    // Entradas antigas vão para o R2 (AUDIT_ARCHIVE) - nada é descartado
+    await this.appendToAuditTrail(this.state.auditLog, this.state.auditChain, entry);
   }
 
   // ---------------------------------------------------------------------------
   // HELPERS
   // ---------------------------------------------------------------------------
 
-  private async createEmptyEncrypted(): Promise<EncryptedData> {
-    // Placeholder - implementação real usaria WebCrypto
-    return {
-      ciphertext: '',
-      iv: crypto.randomUUID(),
-      algorithm: 'AES-GCM-256',
-      keyId: this.state.id,
-    };
+  /**
+   * Retorna solicitação pendente ou falha
+   */
+  private async getPendingRequest(requestId: string): Promise<AccessRequest> {
+    const request = await this.getAccessRequest(requestId);
+    if (!request) {
+      throw new ActorRpcError('not_found', 'Access request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new ActorRpcError('conflict', `Access request is ${request.status}`);
+    }
+    return request;
+  }
+
+  /**
+   * Somente o paciente e o ServiceActor do grant gerenciam o grant
+   */
+  private assertCanManageGrant(grant: StoredGrant, actorId: ActorId): void {
+    if (actorId !== this.state.id && actorId !== grant.serviceActorId) {
+      throw new ActorRpcError('forbidden', 'Not allowed to manage this grant');
+    }
+  }
+
+  /**
+   * Agenda o alarm para o próximo vencimento (grant, solicitação pendente ou delegação)
+   */
+  private async scheduleGrantExpiry(): Promise<void> {
+    const deadlines = [
+      ...this.state.activeGrants.map((g) => new Date(g.expiresAt).getTime()),
+      ...this.state.accessRequests
+        .filter((r) => r.status === 'pending')
+        .map((r) => new Date(r.expiresAt).getTime()),
+      ...this.state.delegations
+        .filter((d) => d.status === 'active')
+        .map((d) => delegationEndsAt(d, this.state.birthDate)?.endsAt.getTime())
+        .filter((t): t is number => t !== undefined),
+    ];
+    
+    if (deadlines.length === 0) {
+      await this.durable.storage.deleteAlarm();
+      return;
+    }
+    
+    await this.durable.storage.setAlarm(Math.min(...deadlines));
+  }
+
+  /**
+   * Marca como expiradas as solicitações que passaram do prazo
+   */
+  private async expireStaleRequests(): Promise<void> {
+    const now = new Date();
+    let expired = false;
+    for (const request of this.state.accessRequests) {
+      if (request.status === 'pending' && request.expiresAt <= now) {
+        request.status = 'expired';
+        request.decidedAt = now;
+        expired = true;
+      }
+    }
+    
+    if (expired) {
+      this.state.updatedAt = now;
+      await this.persist();
+    }
+  }
+
+  /**
+   * Desbloqueia a chave privada do paciente com a senha
+   */
+  private async unlockPrivateKey(password: string): Promise<CryptoKey> {
+    if (!this.state.keyPair) {
+      throw new ActorRpcError('conflict', 'PatientActor not initialized');
+    }
+    return decryptPrivateKey(this.state.keyPair.privateKeyEncrypted, password);
+  }
+
+  /**
+   * Chave de escrow de emergência (derivada do segredo ENCRYPTION_KEY)
+   */
+  private async getEscrowKey(): Promise<CryptoKey> {
+    const secret = (this.env as { ENCRYPTION_KEY?: string }).ENCRYPTION_KEY;
+    if (!secret) {
+      throw new ActorRpcError('internal', 'ENCRYPTION_KEY secret not configured');
+    }
+    return deriveEscrowKey(secret, this.state.id);
+  }
+
+  /**
+   * Resolve nomes para o relatório - IDs sem nome cadastrado ficam como estão
+   * Falha ao consultar um Actor interrompe o relatório (não sai com nomes faltando em silêncio)
+   */
+  private async resolveReportDirectory(parties: {
+    entityIds: ActorId[];
+    serviceIds: ActorId[];
+    stageIds: StageId[];
+  }): Promise<AccessReportDirectory> {
+    const directory: AccessReportDirectory = { entities: {}, services: {}, stages: {} };
+    const stageConfigs = (this.env as { STAGE_CONFIGS?: KVNamespace }).STAGE_CONFIGS;
+    
+    for (const entityId of parties.entityIds) {
+      const profile = await this.getEntityClient(entityId).getProfile();
+      directory.entities[entityId] = { name: profile.name || entityId, role: profile.role };
+    }
+    
+    for (const serviceId of parties.serviceIds) {
+      const profile = await this.getServiceClient(serviceId).getProfile();
+      directory.services[serviceId] = {
+        name: profile.name || serviceId,
+        serviceType: profile.serviceType,
+      };
+    }
+    
+    for (const stageId of parties.stageIds) {
+      const manifest = await stageConfigs?.get<{ name: string }>(stageId, 'json');
+      if (manifest?.name) {
+        directory.stages[stageId] = { name: manifest.name };
+      }
+    }
+    
+    return directory;
+  }
+
+  private getEntityClient(entityActorId: ActorId): EntityActorClient {
+    const namespace = (this.env as { ENTITY_ACTORS?: DurableObjectNamespace }).ENTITY_ACTORS;
+    if (!namespace) {
+      throw new ActorRpcError('internal', 'ENTITY_ACTORS Durable Object binding not configured');
+    }
+    return connectActor<EntityActor, typeof EntityActorRpc>(namespace, entityActorId, EntityActorRpc);
+  }
+
+  private getPatientClient(patientActorId: ActorId): PatientActorClient {
+    const namespace = (this.env as { PATIENT_ACTORS?: DurableObjectNamespace }).PATIENT_ACTORS;
+    if (!namespace) {
+      throw new ActorRpcError('internal', 'PATIENT_ACTORS Durable Object binding not configured');
+    }
+    return connectActor<PatientActor, typeof PatientActorRpc>(namespace, patientActorId, PatientActorRpc);
+  }
+
+  private getServiceClient(serviceActorId: ActorId): ServiceActorClient {
+    const namespace = (this.env as { SERVICE_ACTORS?: DurableObjectNamespace }).SERVICE_ACTORS;
+    if (!namespace) {
+      throw new ActorRpcError('internal', 'SERVICE_ACTORS Durable Object binding not configured');
+    }
+    return connectActor<ServiceActor, typeof ServiceActorRpc>(namespace, serviceActorId, ServiceActorRpc);
+  }
+
+  /**
+   * Consulta papel do Entity, tipo e encarregado do Service e o vínculo entre eles
+   */
+  private async resolveRequestParties(
+    entityActorId: ActorId,
+    serviceActorId: ActorId
+  ): Promise<{ entityRole: EntityRole; serviceType: ServiceType; privacyOfficer?: PrivacyOfficer }> {
+    const entity = this.getEntityClient(entityActorId);
+    const service = this.getServiceClient(serviceActorId);
+    
+    if (!(await service.isEntityLinked(entityActorId))) {
+      throw new ActorRpcError('forbidden', 'Entity not linked to this service');
+    }
+    
+    const entityRole = await entity.getRole();
+    const { serviceType, privacyOfficer } = await service.getProfile();
+    
+    return { entityRole, serviceType, privacyOfficer };
+  }
+
+  /**
+   * Encarregado declarado no perfil do Service e vinculado a ele dos dois lados -
+   * o Service sozinho não pode apontar um Entity de fora
+   */
+  private async isServicePrivacyOfficer(serviceActorId: ActorId, entityActorId: ActorId): Promise<boolean> {
+    const service = this.getServiceClient(serviceActorId);
+    const { privacyOfficer } = await service.getProfile();
+    if (!privacyOfficer?.actorId || privacyOfficer.actorId !== entityActorId) {
+      return false;
+    }
+    return (
+      (await service.isEntityLinked(entityActorId)) &&
+      (await this.getEntityClient(entityActorId).isLinkedToService(serviceActorId))
+    );
+  }
+
+  /**
+   * Notifica contato de emergência e encarregado do Service
+   * A justificativa não vai na notificação - fica na revisão
+   */
+  private async notifyBreakGlass(
+    review: BreakGlassReview,
+    privacyOfficer: PrivacyOfficer
+  ): Promise<void> {
+    const queue = (this.env as { NOTIFICATIONS_QUEUE?: Queue }).NOTIFICATIONS_QUEUE;
+    if (!queue) {
+      return;
+    }
+    
+    const recipients = [
+      { kind: 'privacy_officer', ...privacyOfficer },
+      ...(this.state.emergencyContact
+        ? [{ kind: 'emergency_contact', ...this.state.emergencyContact }]
+        : []),
+      ...this.proxyRecipients(),
+    ];
+    
+    await queue.send({
+      type: 'break_glass_access',
+      recipients,
+      payload: {
+        patientActorId: this.state.id,
+        reviewId: review.id,
+        grantId: review.grantId,
+        entityActorId: review.entityActorId,
+        serviceActorId: review.serviceActorId,
+        accessedAt: review.accessedAt.toISOString(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Representantes que recebem notificações
+   */
+  private proxyRecipients(): Array<{ kind: 'proxy'; proxyActorId: ActorId } & ProxyDelegation['contact']> {
+    return this.state.delegations
+      .filter((d) => delegationAllows(d, 'receive_notifications'))
+      .map((d) => ({ kind: 'proxy' as const, proxyActorId: d.proxyActorId, ...d.contact }));
+  }
+
+  /**
+   * Avisa os representantes de uma solicitação aguardando decisão
+   */
+  private async notifyPendingRequest(request: AccessRequest): Promise<void> {
+    const queue = (this.env as { NOTIFICATIONS_QUEUE?: Queue }).NOTIFICATIONS_QUEUE;
+    const recipients = this.proxyRecipients();
+    if (!queue || recipients.length === 0) {
+      return;
+    }
+    
+    await queue.send({
+      type: 'access_request_pending',
+      recipients,
+      payload: {
+        patientActorId: this.state.id,
+        requestId: request.id,
+        entityActorId: request.entityActorId,
+        serviceActorId: request.serviceActorId,
+        dataTypes: request.scope.dataTypes,
+        expiresAt: new Date(request.expiresAt).toISOString(),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Embrulha com o escrow as DEKs dos compartimentos (exige a senha do paciente)
+   */
+  private async escrowDataKeys(
+    password: string,
+    dataTypes: DataType[]
+  ): Promise<Partial<Record<CompartmentType, string>>> {
+    const privateKey = await this.unlockPrivateKey(password);
+    const escrowKey = await this.getEscrowKey();
+    const escrowedKeys: Partial<Record<CompartmentType, string>> = {};
+    
+    for (const compartment of resolveCompartments(dataTypes)) {
+      const { wrappedKey } = this.state.compartmentKeys[compartment];
+      const dataKey = await unwrapWithPrivateKey(wrappedKey, privateKey);
+      escrowedKeys[compartment] = await wrapWithKeyWrappingKey(dataKey, escrowKey);
+    }
+    
+    return escrowedKeys;
+  }
+
+  /**
+   * Desembrulha DEKs em escrow (política ou delegação) - todas precisam estar presentes
+   */
+  private async unlockEscrowedKeys(
+    escrowedKeys: Partial<Record<CompartmentType, string>>,
+    dataTypes: DataType[]
+  ): Promise<Map<CompartmentType, CryptoKey>> {
+    const escrowKey = await this.getEscrowKey();
+    const dataKeys = new Map<CompartmentType, CryptoKey>();
+    
+    for (const compartment of resolveCompartments(dataTypes)) {
+      const wrappedKey = escrowedKeys[compartment];
+      if (!wrappedKey) {
+        throw new ActorRpcError('precondition_failed', `No escrowed key for ${compartment}`);
+      }
+      dataKeys.set(compartment, await unwrapWithKeyWrappingKey(wrappedKey, escrowKey));
+    }
+    
+    return dataKeys;
   }
 
-  private async generateSessionKey(scope: AccessScope): Promise<string> {
-    // Placeholder - implementação real derivaria uma chave temporária
-    return `session_${crypto.randomUUID()}_${scope.durationSeconds}`;
+  /**
+   * Desembrulha as DEKs em escrow para um acesso de emergência
+   * Compartimentos fora do escrow (ex.: saúde mental) não são liberados
+   */
+  private async unlockEmergencyKeys(
+    compartments: CompartmentType[]
+  ): Promise<Map<CompartmentType, CryptoKey>> {
+    const escrowKey = await this.getEscrowKey();
+    const dataKeys = new Map<CompartmentType, CryptoKey>();
+    
+    for (const compartment of compartments) {
+      const wrappedKey = this.state.emergencyKeys[compartment];
+      if (wrappedKey) {
+        dataKeys.set(compartment, await unwrapWithKeyWrappingKey(wrappedKey, escrowKey));
+      }
+    }
+    
+    return dataKeys;
   }
 }
@@ -21,7 +21,31 @@ import type {
   McpToolDefinition,
   McpResourceDefinition,
   JsonSchema,
+  FhirBundle,
+  FhirCoding,
 } from '@healthos/shared';
+import {
+  buildRacBundle,
+  buildRacFromGeneratedDocument,
+  buildRelBundle,
+  buildRiaBundle,
+  HttpRndsTransport,
+  LocalRndsTransport,
+  RNDS_MAX_ATTEMPTS,
+  RNDS_PROFILES,
+  rndsRetryDelayMs,
+  validateRndsBundle,
+} from '../rnds';
+import type {
+  GeneratedDocument,
+  RndsContext,
+  RndsDocumentType,
+  RndsImmunizationInput,
+  RndsSubmission,
+  RndsTransport,
+  RndsValidationResult,
+} from '../rnds';
+import type { DecryptedRecord } from '../fhir';
 
 // =============================================================================
 // PROP ACTOR BASE
@@ -577,6 +601,281 @@ Gerado em: ${new Date().toISOString()}
   }
 }
 
+// =============================================================================
+// INTEGRATION TOOL (RNDS)
+// =============================================================================
+
+const rndsContextSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    requesterId: { type: 'string', description: 'Identificador do solicitante na RNDS' },
+    patientCns: { type: 'string' },
+    establishmentCnes: { type: 'string' },
+    professionalCns: { type: 'string' },
+    professionalCbo: { type: 'string' },
+  },
+  required: ['requesterId', 'patientCns', 'establishmentCnes', 'professionalCns'],
+};
+
+interface QueuedRndsSubmission extends RndsSubmission {
+  bundle: FhirBundle;
+  context: RndsContext;
+}
+
+/**
+ * Documentos RNDS (RAC, REL, RIA) - conversao, validacao offline e envio em fila
+ *
+ * Sem RNDS_ENDPOINT configurado, usa o LocalRndsTransport (nada sai da maquina).
+ * Falhas de transporte sao refeitas pelo alarm com espera crescente.
+ */
+export class RNDSProp extends BasePropActor {
+  protected config: PropConfig = {
+    id: 'rnds' as ToolId,
+    name: 'Integração RNDS',
+    description: 'Envia documentos clínicos à Rede Nacional de Dados em Saúde',
+    category: 'integration',
+    version: '1.0.0',
+  };
+
+  static tools: McpToolDefinition[] = [
+    {
+      name: 'build_document',
+      description: 'Converte registros HealthOS ou notas geradas em um documento RNDS validado',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          document: { type: 'string', enum: ['RAC', 'REL', 'RIA'] },
+          context: rndsContextSchema,
+          consultation: { type: 'object', description: 'RAC: registro consultation aberto' },
+          diagnoses: { type: 'array', items: { type: 'object' }, description: 'RAC: diagnósticos da consulta' },
+          generatedDocument: { type: 'object', description: 'RAC: saída do generate_soap_note' },
+          exam: { type: 'object', description: 'REL: registro exam_result aberto' },
+          examCode: { type: 'object', description: 'REL: código do exame' },
+          immunization: { type: 'object', description: 'RIA: dados da aplicação' },
+        },
+        required: ['document', 'context'],
+      },
+    },
+    {
+      name: 'validate_bundle',
+      description: 'Valida um Bundle contra os perfis RNDS empacotados (offline)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bundle: { type: 'object' },
+          document: { type: 'string', enum: ['RAC', 'REL', 'RIA'] },
+        },
+        required: ['bundle'],
+      },
+    },
+    {
+      name: 'submit_bundle',
+      description: 'Valida e coloca um documento na fila de envio para a RNDS',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bundle: { type: 'object' },
+          context: rndsContextSchema,
+        },
+        required: ['bundle', 'context'],
+      },
+    },
+    {
+      name: 'get_submission',
+      description: 'Consulta o status de um envio',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          submissionId: { type: 'string' },
+        },
+        required: ['submissionId'],
+      },
+    },
+  ];
+
+  static resources: McpResourceDefinition[] = (Object.keys(RNDS_PROFILES) as RndsDocumentType[]).map(
+    (document) => ({
+      uri: `rnds://profiles/${document}`,
+      name: RNDS_PROFILES[document].title,
+      description: `Definição do perfil ${document} usada na validação offline`,
+      mimeType: 'application/json',
+    })
+  );
+
+  private readonly durable: DurableObjectState;
+  private transport: RndsTransport;
+  private submissions = new Map<string, QueuedRndsSubmission>();
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.durable = state;
+
+    const rndsEnv = env as { RNDS_ENDPOINT?: string; RNDS_TOKEN?: string };
+    this.transport = rndsEnv.RNDS_ENDPOINT
+      ? new HttpRndsTransport({
+          endpoint: rndsEnv.RNDS_ENDPOINT,
+          getToken: async () => rndsEnv.RNDS_TOKEN ?? '',
+        })
+      : new LocalRndsTransport();
+  }
+
+  /** Troca o transporte (homologacao, testes locais) */
+  setTransport(transport: RndsTransport): void {
+    this.transport = transport;
+  }
+
+  async tool_build_document(params: {
+    document: RndsDocumentType;
+    context: RndsContext;
+    consultation?: DecryptedRecord;
+    diagnoses?: DecryptedRecord[];
+    generatedDocument?: GeneratedDocument;
+    exam?: DecryptedRecord;
+    examCode?: FhirCoding;
+    immunization?: RndsImmunizationInput;
+  }): Promise<{ bundle: FhirBundle; validation: RndsValidationResult }> {
+    const bundle = this.buildDocument(params);
+    return { bundle, validation: validateRndsBundle(bundle, params.document) };
+  }
+
+  async tool_validate_bundle(params: {
+    bundle: unknown;
+    document?: RndsDocumentType;
+  }): Promise<RndsValidationResult> {
+    return validateRndsBundle(params.bundle, params.document);
+  }
+
+  /**
+   * Documento invalido nao entra na fila - volta com os problemas encontrados
+   */
+  async tool_submit_bundle(params: {
+    bundle: FhirBundle;
+    context: RndsContext;
+  }): Promise<{ submission?: RndsSubmission; validation: RndsValidationResult }> {
+    const validation = validateRndsBundle(params.bundle);
+    if (!validation.valid || !validation.document) {
+      return { validation };
+    }
+
+    const now = new Date();
+    const submission: QueuedRndsSubmission = {
+      id: crypto.randomUUID(),
+      document: validation.document,
+      bundleId: params.bundle.id ?? '',
+      status: 'queued',
+      attempts: 0,
+      queuedAt: now,
+      nextAttemptAt: now,
+      bundle: params.bundle,
+      context: params.context,
+    };
+    this.submissions.set(submission.id, submission);
+    await this.scheduleDelivery();
+
+    return { submission: toSubmission(submission), validation };
+  }
+
+  async tool_get_submission(params: { submissionId: string }): Promise<RndsSubmission> {
+    const submission = this.submissions.get(params.submissionId);
+    if (!submission) {
+      throw new Error('Submission not found');
+    }
+    return toSubmission(submission);
+  }
+
+  /** Definicao do perfil para o resource rnds://profiles/:document */
+  getProfileDefinition(document: RndsDocumentType) {
+    return RNDS_PROFILES[document];
+  }
+
+  /**
+   * Envia o que esta vencido na fila e reagenda o restante
+   */
+  async alarm(): Promise<void> {
+    const now = new Date();
+
+    for (const submission of this.submissions.values()) {
+      if (submission.status !== 'queued' || (submission.nextAttemptAt ?? now) > now) continue;
+
+      submission.attempts += 1;
+      submission.lastAttemptAt = now;
+      try {
+        const result = await this.transport.submit(submission.bundle, submission.context);
+        submission.nextAttemptAt = undefined;
+        if (result.status === 'accepted') {
+          submission.status = 'accepted';
+          submission.protocol = result.protocol;
+          submission.error = undefined;
+        } else {
+          submission.status = 'rejected';
+          submission.error = result.reason;
+        }
+      } catch (error) {
+        submission.error = error instanceof Error ? error.message : 'Transport failure';
+        if (submission.attempts >= RNDS_MAX_ATTEMPTS) {
+          submission.status = 'failed';
+          submission.nextAttemptAt = undefined;
+        } else {
+          submission.nextAttemptAt = new Date(now.getTime() + rndsRetryDelayMs(submission.attempts));
+        }
+      }
+    }
+
+    await this.scheduleDelivery();
+  }
+
+  // ---------------------------------------------------------------------------
+  // MÉTODOS PRIVADOS
+  // ---------------------------------------------------------------------------
+
+  private buildDocument(params: Parameters<RNDSProp['tool_build_document']>[0]): FhirBundle {
+    switch (params.document) {
+      case 'RAC':
+        if (params.consultation) {
+          return buildRacBundle(
+            { consultation: params.consultation, diagnoses: params.diagnoses },
+            params.context
+          );
+        }
+        if (params.generatedDocument) {
+          return buildRacFromGeneratedDocument({ output: params.generatedDocument }, params.context);
+        }
+        throw new Error('RAC requires a consultation record or a generated document');
+
+      case 'REL':
+        if (!params.exam) {
+          throw new Error('REL requires an exam_result record');
+        }
+        return buildRelBundle({ exam: params.exam, examCode: params.examCode }, params.context);
+
+      case 'RIA':
+        if (!params.immunization) {
+          throw new Error('RIA requires immunization data');
+        }
+        return buildRiaBundle(params.immunization, params.context);
+
+      default:
+        throw new Error(`Unknown RNDS document: ${params.document}`);
+    }
+  }
+
+  private async scheduleDelivery(): Promise<void> {
+    const pending = [...this.submissions.values()]
+      .filter((s) => s.status === 'queued' && s.nextAttemptAt)
+      .map((s) => new Date(s.nextAttemptAt!).getTime());
+
+    if (pending.length === 0) {
+      await this.durable.storage.deleteAlarm();
+      return;
+    }
+    await this.durable.storage.setAlarm(Math.min(...pending));
+  }
+}
+
+function toSubmission({ bundle, context, ...submission }: QueuedRndsSubmission): RndsSubmission {
+  return submission;
+}
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -585,4 +884,5 @@ export const PropActors = {
   ASLProp,
   SISREGProp,
   DocumentGeneratorProp,
+  RNDSProp,
 };
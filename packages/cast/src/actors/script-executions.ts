@@ -0,0 +1,306 @@
+/**
+ * ScriptExecutions - execucoes de Script de um Stage (Durable Object)
+ *
+ * Um objeto por Stage (idFromName(stageId)) guarda os registros que o Stage
+ * grava a cada unidade concluida e acorda quem precisa ser retomado:
+ *
+ * 1. Execucao em 'retrying' acorda em nextAttemptAt
+ * 2. Execucao em 'running' sem gravacao ha EXECUTION_STALL_MS acorda tambem -
+ *    o Worker que a rodava foi despejado no meio
+ * 3. O alarm publica 'script_executions_due' na EVENTS_QUEUE e o consumidor do
+ *    Cast retoma pelo Stage; se ninguem retomar, publica de novo depois de
+ *    EXECUTION_STALL_MS
+ * 4. Execucoes encerradas saem do storage depois de EXECUTION_RETENTION_MS
+ *
+ * O registro completo (steps, variaveis, evento) e do Stage - aqui so o
+ * cabecalho (ScriptExecutionHeader) fica em claro, para o alarm e a listagem.
+ * O registro vai criptografado (chave do Stage derivada do ENCRYPTION_KEY,
+ * amarrada ao id da execucao) e dividido em pedacos que cabem no limite de
+ * valor do storage.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type {
+  ActorRpcResponse,
+  EncryptedData,
+  ScriptExecutionFilter,
+  ScriptExecutionHeader,
+  StageId,
+} from '@healthos/shared';
+import {
+  ActorRpcError,
+  ScriptExecutionsRpc,
+  cancelExecution,
+  executionHeader,
+  isExecutionFinished,
+  matchesExecutionFilter,
+} from '@healthos/shared';
+import { decryptJson, deriveExecutionKey, encryptJson } from '../crypto';
+import { createActorClient, dispatchActorRpc } from '../rpc';
+import { deserializeValue, serializeValue, splitChunks } from '../storage';
+import type { ActorRpcStub, ScriptExecutionsClient } from '../rpc';
+
+// =============================================================================
+// CONSTANTES
+// =============================================================================
+
+/** Execucao 'running' sem gravar por este tempo e considerada interrompida */
+export const EXECUTION_STALL_MS = 10 * 60 * 1000;
+
+/** Quanto tempo execucoes encerradas ficam disponiveis para consulta */
+export const EXECUTION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const EXECUTION_PREFIX = 'execution:';
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+const BODY_PREFIX = 'execution-body:';
+
+/** Registro como gravado - wakeAt e quando o alarm deve olhar para ele */
+interface StoredExecution {
+  execution: ScriptExecutionHeader;
+  wakeAt: number;
+  /** Registro completo criptografado; o ciphertext fica em `chunks` pedacos */
+  body?: Omit<EncryptedData, 'ciphertext'> & { chunks: number };
+}
+
+// =============================================================================
+// DURABLE OBJECT
+// =============================================================================
+
+export class ScriptExecutions extends DurableObject {
+  private readonly durable: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.durable = state;
+  }
+
+  /** Ponto de entrada do Cast (contrato ScriptExecutionsRpc) */
+  async rpc(request: unknown): Promise<ActorRpcResponse> {
+    return dispatchActorRpc(this, ScriptExecutionsRpc, request);
+  }
+
+  /**
+   * Grava o registro; false se a execucao ja foi cancelada (nao sobrescreve)
+   */
+  async saveExecution(execution: ScriptExecutionHeader): Promise<boolean> {
+    const key = EXECUTION_PREFIX + execution.id;
+    const stored = await this.durable.storage.get<StoredExecution>(key);
+    if (stored?.execution.status === 'cancelled') {
+      return false;
+    }
+
+    const header = executionHeader(execution);
+    const { ciphertext, ...sealed } = await encryptJson(
+      await this.executionKey(header.stageId),
+      header.stageId,
+      serializeValue(execution),
+      bodyContext(header)
+    );
+    const chunks = splitChunks(ciphertext);
+
+    await this.durable.storage.transaction(async (txn) => {
+      for (let i = 0; i < chunks.length; i++) {
+        await txn.put(BODY_PREFIX + header.id + ':' + i, chunks[i]);
+      }
+      // Pedacos que sobraram de uma gravacao maior
+      const stale = bodyKeys(header.id, stored?.body?.chunks ?? 0).slice(chunks.length);
+      if (stale.length > 0) {
+        await txn.delete(stale);
+      }
+      await txn.put<StoredExecution>(key, {
+        execution: header,
+        wakeAt: wakeTime(header),
+        body: { ...sealed, chunks: chunks.length },
+      });
+      await txn.put(IDEMPOTENCY_PREFIX + header.idempotencyKey, header.id);
+    });
+    await this.scheduleWake();
+    return true;
+  }
+
+  async getExecution(executionId: string): Promise<ScriptExecutionHeader | undefined> {
+    const stored = await this.durable.storage.get<StoredExecution>(EXECUTION_PREFIX + executionId);
+    return stored && this.openExecution(stored);
+  }
+
+  async findExecution(idempotencyKey: string): Promise<ScriptExecutionHeader | undefined> {
+    const executionId = await this.durable.storage.get<string>(IDEMPOTENCY_PREFIX + idempotencyKey);
+    return executionId ? this.getExecution(executionId) : undefined;
+  }
+
+  /**
+   * Cabecalhos das execucoes que passam no filtro, mais recentes primeiro
+   */
+  async listExecutions(filter: ScriptExecutionFilter = {}): Promise<ScriptExecutionHeader[]> {
+    const stored = await this.durable.storage.list<StoredExecution>({ prefix: EXECUTION_PREFIX });
+    return [...stored.values()]
+      .map((entry) => entry.execution)
+      .filter((execution) => matchesExecutionFilter(execution, filter))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, filter.limit);
+  }
+
+  async cancelExecution(executionId: string): Promise<ScriptExecutionHeader> {
+    const key = EXECUTION_PREFIX + executionId;
+    const stored = await this.durable.storage.get<StoredExecution>(key);
+    if (!stored) {
+      throw new ActorRpcError('not_found', 'Execution not found');
+    }
+
+    const cancelled: StoredExecution = { ...stored, execution: cancelExecution(stored.execution) };
+    cancelled.wakeAt = wakeTime(cancelled.execution);
+    await this.durable.storage.put<StoredExecution>(key, cancelled);
+    await this.scheduleWake();
+    return this.openExecution(cancelled);
+  }
+
+  /**
+   * Publica as execucoes a retomar e apaga as encerradas fora da retencao
+   */
+  async alarm(): Promise<void> {
+    const queue = (this.env as { EVENTS_QUEUE?: Queue }).EVENTS_QUEUE;
+    if (!queue) {
+      throw new ActorRpcError('internal', 'EVENTS_QUEUE binding not configured');
+    }
+
+    const now = Date.now();
+    const due = new Map<StageId, string[]>();
+    const stored = await this.durable.storage.list<StoredExecution>({ prefix: EXECUTION_PREFIX });
+
+    for (const [key, entry] of stored) {
+      if (entry.wakeAt > now) continue;
+      const { execution } = entry;
+
+      if (isExecutionFinished(execution.status)) {
+        await this.durable.storage.delete([
+          key,
+          IDEMPOTENCY_PREFIX + execution.idempotencyKey,
+          ...bodyKeys(execution.id, entry.body?.chunks ?? 0),
+        ]);
+        continue;
+      }
+
+      due.set(execution.stageId, [...(due.get(execution.stageId) ?? []), execution.id]);
+      // Se ninguem retomar (e regravar), acorda de novo depois do prazo
+      await this.durable.storage.put<StoredExecution>(key, { ...entry, wakeAt: now + EXECUTION_STALL_MS });
+    }
+
+    for (const [stageId, executionIds] of due) {
+      await queue.send({
+        type: 'script_executions_due',
+        payload: { stageId, executionIds },
+        timestamp: new Date(now).toISOString(),
+      });
+    }
+
+    await this.scheduleWake();
+  }
+
+  // ---------------------------------------------------------------------------
+  // MÉTODOS PRIVADOS
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registro completo: o corpo aberto com o cabecalho gravado por cima
+   * (o cabecalho manda - ex.: cancelamento)
+   */
+  private async openExecution(stored: StoredExecution): Promise<ScriptExecutionHeader> {
+    const { execution, body } = stored;
+    if (!body) {
+      // Gravado antes da criptografia - sai do storage com a retencao
+      return execution;
+    }
+
+    const keys = bodyKeys(execution.id, body.chunks);
+    const parts = await this.durable.storage.get<string>(keys);
+    if (keys.some((k) => typeof parts.get(k) !== 'string')) {
+      throw new ActorRpcError('internal', `Stored execution ${execution.id} is incomplete`);
+    }
+
+    const { chunks: _chunks, ...sealed } = body;
+    const serialized = await decryptJson<string>(
+      await this.executionKey(execution.stageId),
+      { ...sealed, ciphertext: keys.map((k) => parts.get(k)).join('') },
+      bodyContext(execution)
+    );
+    return { ...(deserializeValue(serialized) as ScriptExecutionHeader), ...execution };
+  }
+
+  private async executionKey(stageId: StageId): Promise<CryptoKey> {
+    const secret = (this.env as { ENCRYPTION_KEY?: string }).ENCRYPTION_KEY;
+    if (!secret) {
+      throw new ActorRpcError('internal', 'ENCRYPTION_KEY secret not configured');
+    }
+    return deriveExecutionKey(secret, stageId);
+  }
+
+  private async scheduleWake(): Promise<void> {
+    const stored = await this.durable.storage.list<StoredExecution>({ prefix: EXECUTION_PREFIX });
+    if (stored.size === 0) {
+      await this.durable.storage.deleteAlarm();
+      return;
+    }
+    await this.durable.storage.setAlarm(Math.min(...[...stored.values()].map((entry) => entry.wakeAt)));
+  }
+}
+
+function bodyKeys(executionId: string, chunks: number): string[] {
+  return Array.from({ length: chunks }, (_, i) => BODY_PREFIX + executionId + ':' + i);
+}
+
+/** additionalData do corpo - o ciphertext so abre na mesma execucao do mesmo Stage */
+function bodyContext(execution: ScriptExecutionHeader): string {
+  return `${execution.stageId}|${execution.id}`;
+}
+
+/**
+ * Quando o alarm deve olhar para a execucao: retry, prazo de quem esta
+ * rodando ou fim da retencao
+ */
+function wakeTime(execution: ScriptExecutionHeader): number {
+  if (isExecutionFinished(execution.status)) {
+    return new Date(execution.finishedAt ?? execution.updatedAt).getTime() + EXECUTION_RETENTION_MS;
+  }
+  if (execution.status === 'retrying' && execution.nextAttemptAt) {
+    return new Date(execution.nextAttemptAt).getTime();
+  }
+  return new Date(execution.updatedAt).getTime() + EXECUTION_STALL_MS;
+}
+
+// =============================================================================
+// CLIENTE
+// =============================================================================
+
+/**
+ * Execucoes de um Stage no formato que o Stage grava (setExecutionStore)
+ * Os registros passam inteiros - o Durable Object guarda o corpo criptografado
+ * e lista so cabecalhos
+ */
+export class DurableScriptExecutionStore<T extends ScriptExecutionHeader = ScriptExecutionHeader> {
+  private readonly client: ScriptExecutionsClient;
+
+  constructor(namespace: DurableObjectNamespace, stageId: StageId) {
+    const stub = namespace.get(namespace.idFromName(stageId)) as unknown as ActorRpcStub;
+    this.client = createActorClient<ScriptExecutions, typeof ScriptExecutionsRpc>(stub, ScriptExecutionsRpc);
+  }
+
+  save(record: T): Promise<boolean> {
+    return this.client.saveExecution(record);
+  }
+
+  async get(executionId: string): Promise<T | undefined> {
+    return (await this.client.getExecution(executionId)) as T | undefined;
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<T | undefined> {
+    return (await this.client.findExecution(idempotencyKey)) as T | undefined;
+  }
+
+  list(filter?: ScriptExecutionFilter): Promise<ScriptExecutionHeader[]> {
+    return this.client.listExecutions(filter);
+  }
+
+  async cancel(executionId: string): Promise<T> {
+    return (await this.client.cancelExecution(executionId)) as T;
+  }
+}
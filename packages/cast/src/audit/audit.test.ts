@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { AccessScope, ActorId, AuditEntry, StageId } from '@healthos/shared';
+import { appendAuditEntry, createAuditChain, verifyAuditChain } from '.';
+import type { AuditTrailContext } from '.';
+
+const context: AuditTrailContext = { actorId: 'patient-ana' as ActorId, secret: 'segredo-de-teste' };
+
+const scope: AccessScope = {
+  dataTypes: ['consultations'],
+  actions: ['read'],
+  durationSeconds: 3600,
+  reason: 'Consulta de retorno',
+};
+
+async function buildLog(actions: string[]) {
+  const log: AuditEntry[] = [];
+  const chain = createAuditChain();
+  for (const action of actions) {
+    await appendAuditEntry(
+      log,
+      chain,
+      {
+        actorId: 'entity-joao' as ActorId,
+        targetActorId: context.actorId,
+        action,
+        scope,
+        serviceActorId: 'service-ubs' as ActorId,
+        stageId: '' as StageId,
+        metadata: {},
+      },
+      context
+    );
+  }
+  return { log, chain };
+}
+
+describe('audit chain', () => {
+  it('links each entry to the previous one', async () => {
+    const { log, chain } = await buildLog(['access_requested', 'access_approved', 'data_read']);
+
+    expect(log.map((e) => e.sequence)).toEqual([0, 1, 2]);
+    expect(log[1].previousHash).toBe(log[0].hash);
+    expect(chain.headHash).toBe(log[2].hash);
+    expect(await verifyAuditChain(log, chain, context)).toEqual({ valid: true, verifiedEntries: 3 });
+  });
+
+  it('detects an edited entry', async () => {
+    const { log, chain } = await buildLog(['access_requested', 'access_approved', 'data_read']);
+    log[1] = { ...log[1], action: 'access_denied' };
+
+    const result = await verifyAuditChain(log, chain, context);
+    expect(result.valid).toBe(false);
+    expect(result.brokenLink).toMatchObject({ sequence: 1, reason: 'hash_mismatch', location: 'log' });
+  });
+
+  it('detects removed entries in the middle and at the end', async () => {
+    const middle = await buildLog(['access_requested', 'access_approved', 'data_read']);
+    middle.log.splice(1, 1);
+    expect((await verifyAuditChain(middle.log, middle.chain, context)).brokenLink).toMatchObject({
+      sequence: 1,
+      reason: 'sequence_gap',
+    });
+
+    const end = await buildLog(['access_requested', 'access_approved', 'data_read']);
+    end.log.pop();
+    expect((await verifyAuditChain(end.log, end.chain, context)).brokenLink).toMatchObject({
+      reason: 'head_mismatch',
+    });
+  });
+});
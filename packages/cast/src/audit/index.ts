@@ -0,0 +1,397 @@
+/**
+ * HealthOS Audit Trail
+ *
+ * Log de auditoria append-only e verificavel (LGPD / CFM):
+ *
+ * 1. Cada AuditEntry carrega numero de sequencia, o hash da entrada anterior
+ *    e o proprio hash (SHA-256 do conteudo canonico) - qualquer alteracao,
+ *    remocao ou reordenacao quebra a cadeia
+ * 2. A cada AUDIT_CHECKPOINT_INTERVAL entradas o Actor grava um checkpoint
+ *    assinado (HMAC derivado do ENCRYPTION_KEY)
+ * 3. Quando o log passa de AUDIT_LOG_MAX_ENTRIES, as entradas mais antigas
+ *    sao arquivadas no R2 (AUDIT_ARCHIVE) - nada e descartado
+ * 4. verifyAuditChain percorre arquivos e log e aponta o primeiro elo quebrado
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+import type { ActorId, AuditEntry } from '@healthos/shared';
+import { toBase64, deriveAuditSigningKey } from '../crypto';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Campos preenchidos pela cadeia (nunca pelo chamador) */
+export type AuditEntryInput = Omit<
+  AuditEntry,
+  'id' | 'timestamp' | 'sequence' | 'previousHash' | 'hash'
+>;
+
+/** Estado da cadeia guardado junto ao log do Actor */
+export interface AuditChainState {
+  /** Hash da ultima entrada gravada */
+  headHash: string;
+  /** Sequencia da proxima entrada */
+  nextSequence: number;
+  checkpoints: AuditCheckpoint[];
+  archives: AuditArchive[];
+}
+
+export interface AuditCheckpoint {
+  sequence: number;
+  hash: string;
+  createdAt: Date;
+  /** HMAC-SHA256 (base64) de actorId:sequence:hash */
+  signature: string;
+}
+
+/** Segmento do log movido para o R2 */
+export interface AuditArchive {
+  key: string;
+  firstSequence: number;
+  lastSequence: number;
+  /** previousHash da primeira entrada do segmento */
+  previousHash: string;
+  /** hash da ultima entrada do segmento */
+  lastHash: string;
+  entryCount: number;
+  /** Periodo coberto - permite buscar so os segmentos necessarios */
+  firstTimestamp: Date;
+  lastTimestamp: Date;
+  archivedAt: Date;
+}
+
+export interface AuditTrailContext {
+  actorId: ActorId;
+  /** ENCRYPTION_KEY - sem ele checkpoints nao sao gerados nem verificados */
+  secret?: string;
+  /** Bucket de arquivo - sem ele o log cresce sem descartar entradas */
+  archive?: R2Bucket;
+}
+
+export type AuditChainBreak =
+  | 'sequence_gap'
+  | 'previous_hash_mismatch'
+  | 'hash_mismatch'
+  | 'head_mismatch'
+  | 'checkpoint_signature_invalid'
+  | 'checkpoint_mismatch'
+  | 'archive_missing';
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Entradas cujo hash foi recalculado */
+  verifiedEntries: number;
+  /** Primeiro elo quebrado encontrado */
+  brokenLink?: {
+    sequence: number;
+    entryId?: string;
+    reason: AuditChainBreak;
+    location: 'log' | 'archive' | 'checkpoint';
+  };
+}
+
+// =============================================================================
+// CONSTANTES
+// =============================================================================
+
+export const AUDIT_GENESIS_HASH = toBase64(new Uint8Array(32));
+export const AUDIT_CHECKPOINT_INTERVAL = 1000;
+export const AUDIT_LOG_MAX_ENTRIES = 10000;
+/** Entradas movidas para o R2 a cada arquivamento */
+export const AUDIT_ARCHIVE_BATCH = 5000;
+
+// =============================================================================
+// CADEIA
+// =============================================================================
+
+export function createAuditChain(): AuditChainState {
+  return {
+    headHash: AUDIT_GENESIS_HASH,
+    nextSequence: 0,
+    checkpoints: [],
+    archives: [],
+  };
+}
+
+/**
+ * Hash SHA-256 (base64) do conteudo canonico da entrada, sem o campo hash
+ */
+export async function hashAuditEntry(entry: Omit<AuditEntry, 'hash'> | AuditEntry): Promise<string> {
+  const { hash: _, ...content } = entry as AuditEntry;
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(canonicalJson(content))
+  );
+  return toBase64(digest);
+}
+
+/**
+ * Acrescenta uma entrada ao log, encadeando-a na anterior
+ * O chamador deve serializar as chamadas (cada entrada depende da anterior)
+ */
+export async function appendAuditEntry(
+  log: AuditEntry[],
+  chain: AuditChainState,
+  input: AuditEntryInput,
+  context: AuditTrailContext
+): Promise<AuditEntry> {
+  const unsigned: Omit<AuditEntry, 'hash'> = {
+    ...input,
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    sequence: chain.nextSequence,
+    previousHash: chain.headHash,
+  };
+  const entry: AuditEntry = { ...unsigned, hash: await hashAuditEntry(unsigned) };
+
+  log.push(entry);
+  chain.headHash = entry.hash;
+  chain.nextSequence = entry.sequence + 1;
+
+  if (context.secret && chain.nextSequence % AUDIT_CHECKPOINT_INTERVAL === 0) {
+    chain.checkpoints.push({
+      sequence: entry.sequence,
+      hash: entry.hash,
+      createdAt: new Date(),
+      signature: await signCheckpoint(context, entry.sequence, entry.hash),
+    });
+  }
+
+  if (context.archive && log.length > AUDIT_LOG_MAX_ENTRIES) {
+    await archiveOldestEntries(log, chain, context.archive, context.actorId);
+  }
+
+  return entry;
+}
+
+/**
+ * Verifica a integridade da cadeia
+ * Com includeArchives os segmentos do R2 tambem sao baixados e recalculados
+ */
+export async function verifyAuditChain(
+  log: AuditEntry[],
+  chain: AuditChainState,
+  context: AuditTrailContext,
+  options: { includeArchives?: boolean } = {}
+): Promise<AuditChainVerification> {
+  let verifiedEntries = 0;
+  const seen = new Map<number, string>();
+
+  // Ponto de partida: inicio da cadeia ou fim do ultimo segmento arquivado
+  let expected = { sequence: 0, previousHash: AUDIT_GENESIS_HASH };
+
+  if (options.includeArchives && chain.archives.length > 0) {
+    if (!context.archive) {
+      throw new ActorRpcError('internal', 'AUDIT_ARCHIVE R2 binding not configured');
+    }
+
+    for (const archive of chain.archives) {
+      const object = await context.archive.get(archive.key);
+      if (!object) {
+        return broken(verifiedEntries, archive.firstSequence, 'archive_missing', 'archive');
+      }
+
+      const entries = (await object.json()) as AuditEntry[];
+      const result = await verifySegment(entries, expected, seen);
+      verifiedEntries += result.verified;
+      if (result.brokenLink) {
+        return { valid: false, verifiedEntries, brokenLink: { ...result.brokenLink, location: 'archive' } };
+      }
+      expected = result.next;
+    }
+  } else {
+    const lastArchive = chain.archives[chain.archives.length - 1];
+    if (lastArchive) {
+      expected = { sequence: lastArchive.lastSequence + 1, previousHash: lastArchive.lastHash };
+    }
+  }
+
+  const result = await verifySegment(log, expected, seen);
+  verifiedEntries += result.verified;
+  if (result.brokenLink) {
+    return { valid: false, verifiedEntries, brokenLink: { ...result.brokenLink, location: 'log' } };
+  }
+
+  // Entradas removidas do fim do log nao quebram elos - so o head denuncia
+  if (result.next.previousHash !== chain.headHash || result.next.sequence !== chain.nextSequence) {
+    return broken(verifiedEntries, result.next.sequence, 'head_mismatch', 'log');
+  }
+
+  if (context.secret) {
+    for (const checkpoint of chain.checkpoints) {
+      const signature = await signCheckpoint(context, checkpoint.sequence, checkpoint.hash);
+      if (signature !== checkpoint.signature) {
+        return broken(verifiedEntries, checkpoint.sequence, 'checkpoint_signature_invalid', 'checkpoint');
+      }
+
+      const hash = seen.get(checkpoint.sequence);
+      if (hash !== undefined && hash !== checkpoint.hash) {
+        return broken(verifiedEntries, checkpoint.sequence, 'checkpoint_mismatch', 'checkpoint');
+      }
+    }
+  }
+
+  return { valid: true, verifiedEntries };
+}
+
+/**
+ * Retorna as entradas de um periodo, buscando no R2 os segmentos arquivados
+ * que o cobrem (sem bucket, somente o log em memoria)
+ */
+export async function loadAuditEntries(
+  log: AuditEntry[],
+  chain: AuditChainState,
+  context: AuditTrailContext,
+  range: { from?: Date; to?: Date } = {}
+): Promise<AuditEntry[]> {
+  const from = range.from?.getTime() ?? -Infinity;
+  const to = range.to?.getTime() ?? Infinity;
+  const inRange = (entry: AuditEntry) => {
+    const time = new Date(entry.timestamp).getTime();
+    return time >= from && time <= to;
+  };
+
+  const entries: AuditEntry[] = [];
+
+  if (context.archive) {
+    for (const archive of chain.archives) {
+      const overlaps =
+        new Date(archive.lastTimestamp).getTime() >= from &&
+        new Date(archive.firstTimestamp).getTime() <= to;
+      if (!overlaps) {
+        continue;
+      }
+
+      const object = await context.archive.get(archive.key);
+      if (object) {
+        entries.push(...((await object.json()) as AuditEntry[]).filter(inRange));
+      }
+    }
+  }
+
+  entries.push(...log.filter(inRange));
+  return entries;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Recalcula um trecho contiguo da cadeia
+ */
+async function verifySegment(
+  entries: AuditEntry[],
+  start: { sequence: number; previousHash: string },
+  seen: Map<number, string>
+): Promise<{
+  verified: number;
+  next: { sequence: number; previousHash: string };
+  brokenLink?: { sequence: number; entryId?: string; reason: AuditChainBreak };
+}> {
+  let { sequence, previousHash } = start;
+  let verified = 0;
+
+  for (const entry of entries) {
+    const link = (reason: AuditChainBreak) => ({
+      verified,
+      next: { sequence, previousHash },
+      brokenLink: { sequence, entryId: entry.id, reason },
+    });
+
+    if (entry.sequence !== sequence) {
+      return link('sequence_gap');
+    }
+    if (entry.previousHash !== previousHash) {
+      return link('previous_hash_mismatch');
+    }
+    if ((await hashAuditEntry(entry)) !== entry.hash) {
+      return link('hash_mismatch');
+    }
+
+    seen.set(entry.sequence, entry.hash);
+    previousHash = entry.hash;
+    sequence++;
+    verified++;
+  }
+
+  return { verified, next: { sequence, previousHash } };
+}
+
+/**
+ * Move as entradas mais antigas do log para o R2
+ */
+async function archiveOldestEntries(
+  log: AuditEntry[],
+  chain: AuditChainState,
+  bucket: R2Bucket,
+  actorId: ActorId
+): Promise<void> {
+  const batch = log.slice(0, AUDIT_ARCHIVE_BATCH);
+  const first = batch[0];
+  const last = batch[batch.length - 1];
+  const key = `audit/${actorId}/${String(first.sequence).padStart(12, '0')}-${String(
+    last.sequence
+  ).padStart(12, '0')}.json`;
+
+  await bucket.put(key, JSON.stringify(batch), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { actorId, lastHash: last.hash },
+  });
+
+  // So remove do log depois que o segmento esta gravado
+  log.splice(0, batch.length);
+  chain.archives.push({
+    key,
+    firstSequence: first.sequence,
+    lastSequence: last.sequence,
+    previousHash: first.previousHash,
+    lastHash: last.hash,
+    entryCount: batch.length,
+    firstTimestamp: first.timestamp,
+    lastTimestamp: last.timestamp,
+    archivedAt: new Date(),
+  });
+}
+
+async function signCheckpoint(
+  context: AuditTrailContext,
+  sequence: number,
+  hash: string
+): Promise<string> {
+  const key = await deriveAuditSigningKey(context.secret!, context.actorId);
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${context.actorId}:${sequence}:${hash}`)
+  );
+  return toBase64(signature);
+}
+
+function broken(
+  verifiedEntries: number,
+  sequence: number,
+  reason: AuditChainBreak,
+  location: 'log' | 'archive' | 'checkpoint'
+): AuditChainVerification {
+  return { valid: false, verifiedEntries, brokenLink: { sequence, reason, location } };
+}
+
+/**
+ * JSON com chaves ordenadas - o hash nao pode depender da ordem de insercao
+ * Datas viram ISO, entao o hash sobrevive a serializacao do estado
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val) && !(val instanceof Date)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = (val as Record<string, unknown>)[key];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * HealthOS Auth
+ *
+ * Quem chama a API do Cast em nome de alguem se identifica com
+ * Authorization: Bearer <token>:
+ *
+ * 1. O token leva { actorId, actorType, exp } assinado com HMAC-SHA256 do
+ *    segredo AUTH_SECRET do Worker
+ * 2. Profissionais e unidades recebem o token do provedor de identidade
+ *    (depois da verificacao de credenciais); o paciente, do proprio Cast,
+ *    com a senha (POST /api/auth/token)
+ * 3. As rotas derivam o chamador do token - nunca de ids no corpo ou na URL
+ *
+ * O token so identifica: operacoes que abrem chaves do paciente continuam
+ * exigindo a senha dele.
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+import type { ActorId, ActorType } from '@healthos/shared';
+import { fromBase64, toBase64 } from '../crypto';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AuthenticatedCaller {
+  actorId: ActorId;
+  actorType: ActorType;
+  expiresAt: Date;
+}
+
+export interface CallerToken {
+  token: string;
+  expiresAt: Date;
+}
+
+interface CallerTokenPayload {
+  sub: ActorId;
+  typ: ActorType;
+  /** Segundos desde a epoch */
+  exp: number;
+}
+
+/** Validade padrao do token emitido pelo Cast */
+export const CALLER_TOKEN_TTL_SECONDS = 60 * 60;
+
+const ACTOR_TYPES: ActorType[] = ['patient', 'entity', 'service', 'prop'];
+
+// =============================================================================
+// EMISSAO E VERIFICACAO
+// =============================================================================
+
+/**
+ * Assina um token para o Actor (Cast para pacientes; provedor de identidade
+ * e runtime local para profissionais e unidades)
+ */
+export async function signCallerToken(
+  caller: { actorId: ActorId; actorType: ActorType },
+  secret: string,
+  ttlSeconds = CALLER_TOKEN_TTL_SECONDS,
+  now = new Date()
+): Promise<CallerToken> {
+  const exp = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const payload: CallerTokenPayload = { sub: caller.actorId, typ: caller.actorType, exp };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importTokenKey(secret), new TextEncoder().encode(body));
+
+  return { token: `${body}.${toBase64Url(signature)}`, expiresAt: new Date(exp * 1000) };
+}
+
+/**
+ * Confere assinatura e validade e devolve o chamador
+ */
+export async function verifyCallerToken(
+  token: string,
+  secret: string,
+  now = new Date()
+): Promise<AuthenticatedCaller> {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    throw new ActorRpcError('unauthorized', 'Malformed caller token');
+  }
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await importTokenKey(secret),
+    fromBase64Url(signature),
+    new TextEncoder().encode(body)
+  );
+  if (!valid) {
+    throw new ActorRpcError('unauthorized', 'Invalid caller token');
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<CallerTokenPayload>;
+  if (!payload.sub || !payload.typ || !ACTOR_TYPES.includes(payload.typ) || typeof payload.exp !== 'number') {
+    throw new ActorRpcError('unauthorized', 'Malformed caller token');
+  }
+  if (payload.exp * 1000 <= now.getTime()) {
+    throw new ActorRpcError('unauthorized', 'Caller token expired');
+  }
+
+  return { actorId: payload.sub, actorType: payload.typ, expiresAt: new Date(payload.exp * 1000) };
+}
+
+/**
+ * Token do cabecalho Authorization (esquema Bearer)
+ */
+export function readBearerToken(request: Request): string | undefined {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function importTokenKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return new Uint8Array(fromBase64(padded));
+}
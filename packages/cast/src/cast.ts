@@ -24,6 +24,7 @@
 
 import type {
   ActorId,
+  ActorRpcErrorCode,
   StageId,
   SessionId,
   PersonaId,
@@ -35,10 +36,62 @@ import type {
   LLMModel,
   StageEvent,
   AuditEntry,
+  FhirBundle,
+  LLMEnv,
+  LLMProviderRegistry,
+  PersonaStreamEvent,
+  LLMBudget,
+  LLMBudgetStatus,
+  TokenUsage,
+  TokenUsageBreakdown,
+  PatientRecord,
+  PatientRecordDraft,
+  ScriptExecutionFilter,
+  ScriptExecutionHeader,
+  ScriptExecutionStatus,
+  PendingAction,
+  PendingActionDecision,
+  PendingActionStatus,
 } from '@healthos/shared';
-import { PatientActor } from './actors/patient';
-import { EntityActor, ServiceActor } from './actors/entity-service';
+import {
+  ActorRpcError,
+  PatientActorRpc,
+  EntityActorRpc,
+  ServiceActorRpc,
+  createLLMProviders,
+  drainStream,
+  emptyTokenUsageBreakdown,
+  recordTokenUsage,
+} from '@healthos/shared';
+import type {
+  PatientActor,
+  AccessRequest,
+  BreakGlassReview,
+  EmergencyContact,
+  ProxySummary,
+} from './actors/patient';
+import type {
+  EntityActor,
+  ServiceActor,
+  PatientAccessResult,
+  PrivacyOfficer,
+} from './actors/entity-service';
+import type { AccessReportExport, AccessReportFormat } from './transparency';
+import type { ConsentPolicy, ConsentPolicyEvaluation, ConsentPolicyInput } from './consent';
+import type { AuditChainVerification } from './audit';
+import type { ProxyDelegation, ProxyDelegationInput, ProxyPower } from './delegation';
+import { exportFhirBundle, importFhirBundle, parseDemographics } from './fhir';
+import type { DecryptedRecord, FhirSkippedResource } from './fhir';
+import { openCompartment, openRecord, sealClinicalRecord } from './crypto';
+import type { CompartmentKey, CompartmentType } from './crypto';
+import { parseRecordValues } from './records';
+import { recordFiltersFor } from './scopes';
 import { BasePropActor } from './actors/prop';
+import { DurableScriptExecutionStore } from './actors/script-executions';
+import { connectActor } from './rpc';
+import type { PatientActorClient, EntityActorClient, ServiceActorClient } from './rpc';
+import { readBearerToken, signCallerToken, verifyCallerToken } from './auth';
+import type { AuthenticatedCaller, CallerToken } from './auth';
 
 // =============================================================================
 // INTERFACES
@@ -65,11 +118,50 @@ export interface IStage {
   ): Promise<void>;
   switchPersona(sessionId: SessionId, personaId: PersonaId): Promise<void>;
   processWithPersona(sessionId: SessionId, input: string): Promise<PersonaProcessResult>;
+  streamWithPersona(
+    sessionId: SessionId,
+    input: string,
+    options?: { tokens?: boolean; model?: LLMModel }
+  ): AsyncGenerator<PersonaStreamEvent, PersonaProcessResult>;
   emit(event: StageEvent): Promise<void>;
+  setScriptRuntime(runtime: StageScriptRuntime): void;
+  setExecutionStore(store: DurableScriptExecutionStore): void;
+  listExecutions(filter?: ScriptExecutionFilter): Promise<ScriptExecutionHeader[]>;
+  getExecution(executionId: string): Promise<ScriptExecutionHeader | undefined>;
+  cancelExecution(executionId: string): Promise<ScriptExecutionHeader>;
+  resumeExecution(executionId: string): Promise<unknown>;
+  setValidationInbox(inbox: StageValidationInbox): void;
+  decidePendingAction(
+    entityActorId: ActorId,
+    actionId: string,
+    decision: PendingActionDecision
+  ): Promise<PendingAction>;
   getActiveSessionCount(): number;
   listPersonas(): Array<{ id: PersonaId; name: string }>;
 }
 
+/** Efeitos de acoes de Script atendidos pelo Cast (ScriptRuntime do Stage) */
+export interface StageScriptRuntime {
+  saveTo?(
+    target: string,
+    data: Record<string, unknown>,
+    context: { sessionId: SessionId; event: StageEvent }
+  ): Promise<unknown>;
+}
+
+/** Inbox de validacao dos Stages (a do EntityActor de cada acao) */
+export interface StageValidationInbox {
+  submit(action: PendingAction): Promise<PendingAction>;
+  list(entityActorId: ActorId, status?: PendingActionStatus): Promise<PendingAction[]>;
+  get(entityActorId: ActorId, actionId: string): Promise<PendingAction | undefined>;
+  decide(
+    entityActorId: ActorId,
+    actionId: string,
+    decision: PendingActionDecision,
+    result?: unknown
+  ): Promise<PendingAction>;
+}
+
 export interface StageSession {
   id: SessionId;
   stageId: StageId;
@@ -81,6 +173,7 @@ export interface StageSession {
   startedAt: Date;
   lastActivityAt: Date;
   metadata: Record<string, unknown>;
+  usage: TokenUsage;
 }
 
 export interface PersonaProcessResult {
@@ -89,6 +182,8 @@ export interface PersonaProcessResult {
   actions: ActionResult[];
   thinking?: string;
   tokensUsed: number;
+  usage: TokenUsage;
+  model?: LLMModel;
   durationMs: number;
 }
 
@@ -173,6 +268,8 @@ export interface CastMetrics {
   activeSessionsCount: number;
   registeredStagesCount: number;
   lastHealthCheck: Date;
+  /** Personas e orquestrador (o orquestrador nao entra em byPersona) */
+  tokenUsage: TokenUsageBreakdown;
 }
 
 export type EventHandler = (event: StageEvent) => Promise<void>;
@@ -196,10 +293,12 @@ export class Cast {
   private state: CastState;
   private env: Env;
   private stageFactory?: StageFactory;
+  private llmProviders: LLMProviderRegistry;
   private orchestratorCache: Map<string, { decision: OrchestratorDecision; expiresAt: Date }>;
 
   constructor(env: Env, config?: Partial<OrchestratorConfig>) {
     this.env = env;
+    this.llmProviders = createLLMProviders(env);
     this.orchestratorCache = new Map();
 
     this.state = {
@@ -228,6 +327,7 @@ export class Cast {
         activeSessionsCount: 0,
         registeredStagesCount: 0,
         lastHealthCheck: new Date(),
+        tokenUsage: emptyTokenUsageBreakdown(),
       },
       eventHandlers: new Map(),
     };
@@ -326,6 +426,37 @@ export class Cast {
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // AUTENTICACAO
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Chamador da requisicao, pelo token Bearer (nunca por ids no corpo)
+   */
+  async authenticateCaller(request: Request): Promise<AuthenticatedCaller> {
+    const token = readBearerToken(request);
+    if (!token) {
+      throw new ActorRpcError('unauthorized', 'Authentication required');
+    }
+    return verifyCallerToken(token, this.requireAuthSecret());
+  }
+
+  /**
+   * Emite o token do paciente - a senha confirma a identidade
+   */
+  async issuePatientToken(patientActorId: ActorId, password: string): Promise<CallerToken> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    await patientActor.authenticate(password);
+    return signCallerToken({ actorId: patientActorId, actorType: 'patient' }, this.requireAuthSecret());
+  }
+
+  private requireAuthSecret(): string {
+    if (!this.env.AUTH_SECRET) {
+      throw new ActorRpcError('internal', 'AUTH_SECRET secret not configured');
+    }
+    return this.env.AUTH_SECRET;
+  }
+
   // ---------------------------------------------------------------------------
   // ACTORS
   // ---------------------------------------------------------------------------
@@ -333,37 +464,43 @@ export class Cast {
   /**
    * Obtem ou cria um PatientActor
    */
-  async getPatientActor(patientId: ActorId): Promise<PatientActor> {
+  async getPatientActor(patientId: ActorId): Promise<PatientActorClient> {
     if (!this.env.PATIENT_ACTORS) {
-      throw new Error('PATIENT_ACTORS Durable Object binding not configured');
+      throw new ActorRpcError('internal', 'PATIENT_ACTORS Durable Object binding not configured');
     }
-    const id = this.env.PATIENT_ACTORS.idFromName(patientId);
-    const stub = this.env.PATIENT_ACTORS.get(id);
-    return stub as unknown as PatientActor;
+    return connectActor<PatientActor, typeof PatientActorRpc>(
+      this.env.PATIENT_ACTORS,
+      patientId,
+      PatientActorRpc
+    );
   }
 
   /**
    * Obtem ou cria um EntityActor
    */
-  async getEntityActor(entityId: ActorId): Promise<EntityActor> {
+  async getEntityActor(entityId: ActorId): Promise<EntityActorClient> {
     if (!this.env.ENTITY_ACTORS) {
-      throw new Error('ENTITY_ACTORS Durable Object binding not configured');
+      throw new ActorRpcError('internal', 'ENTITY_ACTORS Durable Object binding not configured');
     }
-    const id = this.env.ENTITY_ACTORS.idFromName(entityId);
-    const stub = this.env.ENTITY_ACTORS.get(id);
-    return stub as unknown as EntityActor;
+    return connectActor<EntityActor, typeof EntityActorRpc>(
+      this.env.ENTITY_ACTORS,
+      entityId,
+      EntityActorRpc
+    );
   }
 
   /**
    * Obtem ou cria um ServiceActor
    */
-  async getServiceActor(serviceId: ActorId): Promise<ServiceActor> {
+  async getServiceActor(serviceId: ActorId): Promise<ServiceActorClient> {
     if (!this.env.SERVICE_ACTORS) {
-      throw new Error('SERVICE_ACTORS Durable Object binding not configured');
+      throw new ActorRpcError('internal', 'SERVICE_ACTORS Durable Object binding not configured');
     }
-    const id = this.env.SERVICE_ACTORS.idFromName(serviceId);
-    const stub = this.env.SERVICE_ACTORS.get(id);
-    return stub as unknown as ServiceActor;
+    return connectActor<ServiceActor, typeof ServiceActorRpc>(
+      this.env.SERVICE_ACTORS,
+      serviceId,
+      ServiceActorRpc
+    );
   }
 
   /**
@@ -372,10 +509,11 @@ export class Cast {
   async createPatientActor(
     patientId: ActorId,
     publicKey: string,
-    encryptedPrivateKey: any
-  ): Promise<PatientActor> {
+    encryptedPrivateKey: any,
+    profile: { emergencyContact?: EmergencyContact; birthDate?: Date } = {}
+  ): Promise<PatientActorClient> {
     const actor = await this.getPatientActor(patientId);
-    await actor.setup(publicKey, encryptedPrivateKey);
+    await actor.setup(publicKey, encryptedPrivateKey, profile);
 
     // Emite evento de criacao
     await this.emitGlobalEvent({
@@ -401,11 +539,15 @@ export class Cast {
   async createEntityActor(
     entityId: ActorId,
     role: string,
-    credentials: any[]
-  ): Promise<EntityActor> {
+    credentials: any[],
+    name?: string
+  ): Promise<EntityActorClient> {
     const actor = await this.getEntityActor(entityId);
     await actor.setRole(role as any);
     await actor.setCredentials(credentials);
+    if (name) {
+      await actor.setName(name);
+    }
 
     await this.emitGlobalEvent({
       id: crypto.randomUUID(),
@@ -434,8 +576,9 @@ export class Cast {
       serviceType: string;
       cnes?: string;
       location: any;
+      privacyOfficer?: PrivacyOfficer;
     }
-  ): Promise<ServiceActor> {
+  ): Promise<ServiceActorClient> {
     const actor = await this.getServiceActor(serviceId);
     await actor.setup(config as any);
 
@@ -456,6 +599,48 @@ export class Cast {
     return actor;
   }
 
+  /**
+   * Define (ou remove, com undefined) o orcamento de LLM de um Service
+   * O chamador autenticado e o proprio Service ou um admin vinculado a ele
+   */
+  async setServiceLLMBudget(
+    serviceId: ActorId,
+    caller: AuthenticatedCaller,
+    budget?: LLMBudget
+  ): Promise<LLMBudgetStatus> {
+    const actor = await this.getServiceActor(serviceId);
+    await this.assertServiceManager(actor, serviceId, caller);
+    await actor.setLLMBudget(budget);
+    return actor.getLLMBudgetStatus();
+  }
+
+  /**
+   * Consumo de LLM do Service no periodo corrente
+   */
+  async getServiceLLMBudget(serviceId: ActorId, caller: AuthenticatedCaller): Promise<LLMBudgetStatus> {
+    const actor = await this.getServiceActor(serviceId);
+    await this.assertServiceManager(actor, serviceId, caller);
+    return actor.getLLMBudgetStatus();
+  }
+
+  private async assertServiceManager(
+    serviceActor: ServiceActorClient,
+    serviceId: ActorId,
+    caller: AuthenticatedCaller
+  ): Promise<void> {
+    if (caller.actorType === 'service' && caller.actorId === serviceId) {
+      return;
+    }
+    if (
+      caller.actorType === 'entity' &&
+      (await serviceActor.isEntityLinked(caller.actorId)) &&
+      (await (await this.getEntityActor(caller.actorId)).getRole()) === 'admin'
+    ) {
+      return;
+    }
+    throw new ActorRpcError('forbidden', 'Caller is not allowed to manage this service');
+  }
+
   // ---------------------------------------------------------------------------
   // STAGES
   // ---------------------------------------------------------------------------
@@ -467,6 +652,13 @@ export class Cast {
     this.stageFactory = factory;
   }
 
+  /**
+   * Troca os provedores de LLM do orquestrador (padrao: os configurados no Env)
+   */
+  setLLMProviders(providers: LLMProviderRegistry): void {
+    this.llmProviders = providers;
+  }
+
   /**
    * Registra um Stage no Cast
    */
@@ -480,6 +672,15 @@ export class Cast {
 
     // Cria e inicializa stage
     const stage = await this.stageFactory.createFromManifest(manifest);
+    stage.setScriptRuntime({
+      saveTo: (target, data, context) => this.saveScriptRecord(target, data, context),
+    });
+    if (this.env.SCRIPT_EXECUTIONS) {
+      stage.setExecutionStore(new DurableScriptExecutionStore(this.env.SCRIPT_EXECUTIONS, manifest.id));
+    }
+    if (this.env.ENTITY_ACTORS) {
+      stage.setValidationInbox(this.createValidationInbox());
+    }
     this.state.stages.set(manifest.id, stage);
     this.state.stageManifests.set(manifest.id, manifest);
     this.state.metrics.registeredStagesCount = this.state.stages.size;
@@ -511,9 +712,9 @@ export class Cast {
    * Valida um StageManifest
    */
   private validateStageManifest(manifest: StageManifest): void {
-    if (!manifest.id) throw new Error('Stage manifest missing id');
-    if (!manifest.name) throw new Error('Stage manifest missing name');
-    if (!manifest.personas?.length) throw new Error('Stage must have at least one persona');
+    if (!manifest.id) throw new ActorRpcError('invalid_request', 'Stage manifest missing id');
+    if (!manifest.name) throw new ActorRpcError('invalid_request', 'Stage manifest missing name');
+    if (!manifest.personas?.length) throw new ActorRpcError('invalid_request', 'Stage must have at least one persona');
   }
 
   /**
@@ -544,7 +745,7 @@ export class Cast {
 
     // Verifica se ha sessoes ativas
     if (stage.getActiveSessionCount() > 0) {
-      throw new Error('Cannot unregister stage with active sessions');
+      throw new ActorRpcError('conflict', 'Cannot unregister stage with active sessions');
     }
 
     this.state.stages.delete(stageId);
@@ -577,7 +778,7 @@ export class Cast {
   async reloadStage(stageId: StageId): Promise<IStage> {
     const manifest = this.state.stageManifests.get(stageId);
     if (!manifest) {
-      throw new Error(`Stage manifest not found: ${stageId}`);
+      throw new ActorRpcError('not_found', `Stage manifest not found: ${stageId}`);
     }
 
     await this.unregisterStage(stageId);
@@ -677,13 +878,15 @@ export class Cast {
 
   /**
    * Orquestra uma requisicao - decide para qual Stage/Persona rotear
+   * model substitui o do orquestrador (orcamento do Service estourado com downgrade)
    */
   async orchestrate(
     input: string,
     entityActorId: ActorId,
     serviceActorId: ActorId,
     currentStageId?: StageId,
-    currentSessionId?: SessionId
+    currentSessionId?: SessionId,
+    model?: LLMModel
   ): Promise<OrchestratorDecision> {
     // Verifica cache
     if (this.state.orchestratorConfig.cacheEnabled) {
@@ -715,7 +918,7 @@ export class Cast {
     }
 
     // Usa LLM para decidir melhor Stage
-    const decision = await this.decideStage(input, entityActorId, serviceActorId);
+    const decision = await this.decideStage(input, entityActorId, serviceActorId, model);
 
     // Armazena em cache
     if (this.state.orchestratorConfig.cacheEnabled) {
@@ -798,7 +1001,8 @@ export class Cast {
   private async decideStage(
     input: string,
     entityActorId: ActorId,
-    serviceActorId: ActorId
+    serviceActorId: ActorId,
+    model?: LLMModel
   ): Promise<OrchestratorDecision> {
     const availableStages = this.listStages();
 
@@ -839,7 +1043,7 @@ Responda APENAS com JSON valido no formato:
 `;
 
     // Chama LLM (via AI Gateway em producao)
-    const response = await this.callOrchestratorLLM(prompt);
+    const response = await this.callOrchestratorLLM(prompt, entityActorId, serviceActorId, model);
 
     try {
       const decision = JSON.parse(response);
@@ -864,8 +1068,14 @@ Responda APENAS com JSON valido no formato:
 
   /**
    * Chama LLM do orquestrador
+   * Os tokens contam para o Service da requisicao
    */
-  private async callOrchestratorLLM(prompt: string): Promise<string> {
+  private async callOrchestratorLLM(
+    prompt: string,
+    entityActorId: ActorId,
+    serviceActorId: ActorId,
+    model = this.state.orchestratorConfig.model
+  ): Promise<string> {
     const controller = new AbortController();
     const timeoutId = setTimeout(
       () => controller.abort(),
@@ -873,25 +1083,18 @@ Responda APENAS com JSON valido no formato:
     );
 
     try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.env.ANTHROPIC_API_KEY || '',
-          'anthropic-version': '2024-01-01',
-        },
-        body: JSON.stringify({
-          model: this.state.orchestratorConfig.model,
-          max_tokens: this.state.orchestratorConfig.maxTokens,
-          temperature: this.state.orchestratorConfig.temperature,
-          system: this.state.orchestratorConfig.systemPrompt,
-          messages: [{ role: 'user', content: prompt }],
-        }),
+      const response = await this.llmProviders.complete(model, {
+        system: this.state.orchestratorConfig.systemPrompt,
+        maxTokens: this.state.orchestratorConfig.maxTokens,
+        temperature: this.state.orchestratorConfig.temperature,
+        messages: [{ role: 'user', content: prompt }],
         signal: controller.signal,
       });
-
-      const data = (await response.json()) as any;
-      return data.content?.[0]?.text || '{}';
+      await this.recordLLMUsage(
+        this.llmProviders.tokenUsage(model, response.usage),
+        { entityActorId, serviceActorId }
+      );
+      return response.content || '{}';
     } finally {
       clearTimeout(timeoutId);
     }
@@ -904,8 +1107,42 @@ Responda APENAS com JSON valido no formato:
   /**
    * Processa uma requisicao completa
    * Este e o ponto de entrada principal do Cast
+   * O profissional e o chamador autenticado (inclusive para break-glass)
+   */
+  async processRequest(request: CastRequest, caller: AuthenticatedCaller): Promise<CastResponse> {
+    return drainStream(this.runRequest(this.authorizeRequest(request, caller), false));
+  }
+
+  /**
+   * Mesma requisicao do processRequest, com eventos da Persona em tempo real
+   * (tokens, tool calls, guardrails) - o retorno e a CastResponse final
+   */
+  streamRequest(
+    request: CastRequest,
+    caller: AuthenticatedCaller
+  ): AsyncGenerator<CastStreamEvent, CastResponse> {
+    return this.runRequest(this.authorizeRequest(request, caller), true);
+  }
+
+  /**
+   * Requisicao em nome do profissional do token
+   * entityActorId do corpo, se vier, precisa ser o dele - um id alheio (que
+   * poderia pedir break-glass em nome de outro) e recusado
    */
-  async processRequest(request: CastRequest): Promise<CastResponse> {
+  private authorizeRequest(request: CastRequest, caller: AuthenticatedCaller): CastRequest {
+    if (caller.actorType !== 'entity') {
+      throw new ActorRpcError('forbidden', 'Only entities can process requests');
+    }
+    if (request.entityActorId && request.entityActorId !== caller.actorId) {
+      throw new ActorRpcError('forbidden', 'entityActorId does not match the authenticated caller');
+    }
+    return { ...request, entityActorId: caller.actorId };
+  }
+
+  private async *runRequest(
+    request: CastRequest,
+    tokens: boolean
+  ): AsyncGenerator<CastStreamEvent, CastResponse> {
     const startTime = Date.now();
     this.state.metrics.totalRequests++;
 
@@ -924,16 +1161,30 @@ Responda APENAS com JSON valido no formato:
         };
       }
 
-      // 2. Orquestra - decide Stage/Persona
+      // 2. Orcamento de LLM do Service - estourado, bloqueia ou troca o modelo
+      const budget = await serviceActor.getLLMBudgetStatus();
+      if (budget.exceeded && budget.budget?.onExceeded === 'block') {
+        this.state.metrics.failedRequests++;
+        return {
+          success: false,
+          error: `LLM budget exceeded (${budget.usage.costUsd.toFixed(2)} of ${budget.budget.limitUsd} USD this ${budget.budget.period})`,
+          errorCode: 'BUDGET_EXCEEDED',
+          durationMs: Date.now() - startTime,
+        };
+      }
+      const model = budget.exceeded ? budget.budget?.downgradeModel : undefined;
+
+      // 3. Orquestra - decide Stage/Persona (com o mesmo modelo de troca)
       const decision = await this.orchestrate(
         request.input,
         request.entityActorId,
         request.serviceActorId,
         request.currentStageId,
-        request.currentSessionId
+        request.currentSessionId,
+        model
       );
 
-      // 3. Obtem ou cria sessao no Stage
+      // 4. Obtem ou cria sessao no Stage
       const stage = this.state.stages.get(decision.stageId);
       if (!stage) {
         this.state.metrics.failedRequests++;
@@ -950,20 +1201,36 @@ Responda APENAS com JSON valido no formato:
         session = stage.getSession(decision.sessionId);
       }
 
+      // Sessao (e o grant dela) so continua com o mesmo profissional e Service
+      if (
+        session &&
+        (session.entityActorId !== request.entityActorId ||
+          session.serviceActorId !== request.serviceActorId)
+      ) {
+        this.state.metrics.failedRequests++;
+        return {
+          success: false,
+          error: 'Session belongs to another entity or service',
+          errorCode: 'SESSION_FORBIDDEN',
+          durationMs: Date.now() - startTime,
+        };
+      }
+
       if (!session) {
         session = await stage.startSession(
           request.entityActorId,
           request.serviceActorId,
           decision.suggestedPersona
         );
+        // ServiceActor registra a mesma sessao (necessario para solicitar acesso)
+        await serviceActor.startSession(request.entityActorId, decision.stageId, session.id);
         this.state.metrics.activeSessionsCount++;
       }
 
-      // 4. Se ha paciente e precisa de acesso, solicita
+      // 5. Se ha paciente e precisa de acesso, solicita (ou retoma solicitacao pendente)
       if (request.patientActorId && !session.patientActorId) {
-        const patientActor = await this.getPatientActor(request.patientActorId);
-
-        const accessGrant = await serviceActor.requestPatientAccess(
+        const access = await this.acquirePatientAccess(
+          serviceActor,
           session.id,
           request.patientActorId,
           request.scope || {
@@ -971,17 +1238,47 @@ Responda APENAS com JSON valido no formato:
             actions: ['read', 'write'],
             durationSeconds: 3600,
             reason: 'Clinical consultation',
-          },
-          patientActor
+          }
         );
 
-        await stage.attachPatient(session.id, request.patientActorId, accessGrant);
+        if (access.status === 'pending') {
+          return {
+            success: false,
+            error: 'Patient consent pending',
+            errorCode: 'PENDING_CONSENT',
+            stageId: decision.stageId,
+            sessionId: session.id,
+            consentRequestId: access.requestId,
+            durationMs: Date.now() - startTime,
+          };
+        }
+
+        if (access.status === 'denied') {
+          this.state.metrics.failedRequests++;
+          return {
+            success: false,
+            error: `Patient consent denied${access.reason ? `: ${access.reason}` : ''}`,
+            errorCode: 'CONSENT_DENIED',
+            stageId: decision.stageId,
+            sessionId: session.id,
+            consentRequestId: access.requestId,
+            durationMs: Date.now() - startTime,
+          };
+        }
+
+        await stage.attachPatient(session.id, request.patientActorId, access.grant);
       }
 
-      // 5. Processa com a Persona ativa
-      const response = await stage.processWithPersona(session.id, request.input);
+      // 6. Processa com a Persona ativa
+      yield { type: 'session', stageId: decision.stageId, sessionId: session.id };
+      const response = yield* stage.streamWithPersona(session.id, request.input, { tokens, model });
 
-      // 6. Atualiza metricas
+      // 7. Atualiza metricas e o consumo do Service
+      await this.recordLLMUsage(response.usage, {
+        personaId: response.personaId,
+        entityActorId: request.entityActorId,
+        serviceActorId: request.serviceActorId,
+      });
       this.state.metrics.successfulRequests++;
       const durationMs = Date.now() - startTime;
       this.updateAverageResponseTime(durationMs);
@@ -995,6 +1292,8 @@ Responda APENAS com JSON valido no formato:
         actions: response.actions,
         durationMs,
         tokensUsed: response.tokensUsed,
+        usage: response.usage,
+        model: response.model,
       };
     } catch (error) {
       this.state.metrics.failedRequests++;
@@ -1008,118 +1307,1041 @@ Responda APENAS com JSON valido no formato:
   }
 
   /**
-   * Atualiza media de tempo de resposta
+   * Soma tokens e custo nas metricas e no orcamento do Service
    */
-  private updateAverageResponseTime(newDurationMs: number): void {
-    const { averageResponseTimeMs, successfulRequests } = this.state.metrics;
-    this.state.metrics.averageResponseTimeMs =
-      (averageResponseTimeMs * (successfulRequests - 1) + newDurationMs) / successfulRequests;
+  private async recordLLMUsage(
+    usage: TokenUsage,
+    keys: { personaId?: PersonaId; entityActorId: ActorId; serviceActorId: ActorId }
+  ): Promise<void> {
+    recordTokenUsage(this.state.metrics.tokenUsage, usage, keys);
+    if (usage.requests > 0) {
+      const serviceActor = await this.getServiceActor(keys.serviceActorId);
+      await serviceActor.recordLLMUsage(usage);
+    }
+  }
+
+  /**
+   * Obtem acesso ao paciente para a sessao
+   * Reaproveita grant ja retirado ou retoma solicitacao pendente antes de solicitar de novo
+   */
+  private async acquirePatientAccess(
+    serviceActor: ServiceActorClient,
+    sessionId: SessionId,
+    patientActorId: ActorId,
+    scope: AccessScope
+  ): Promise<PatientAccessResult> {
+    const serviceSession = await serviceActor.getSession(sessionId);
+
+    if (serviceSession?.accessGrant && serviceSession.patientActorId === patientActorId) {
+      return { status: 'granted', grant: serviceSession.accessGrant };
+    }
+
+    if (serviceSession?.pendingAccess?.patientActorId === patientActorId) {
+      return serviceActor.completePatientAccess(sessionId);
+    }
+
+    return serviceActor.requestPatientAccess(sessionId, patientActorId, scope);
   }
 
   // ---------------------------------------------------------------------------
-  // GETTERS
+  // CICLO DE VIDA DA SESSAO
   // ---------------------------------------------------------------------------
 
-  getId(): string {
-    return this.state.id;
-  }
+  /**
+   * Encerra a sessao no Stage e no ServiceActor, revogando o grant do paciente
+   */
+  async endSession(stageId: StageId, sessionId: SessionId, caller: AuthenticatedCaller): Promise<void> {
+    const { stage, serviceActor } = await this.resolveOwnSession(stageId, sessionId, caller);
 
-  getName(): string {
-    return this.state.name;
+    await serviceActor.endSession(sessionId);
+    await stage.endSession(sessionId);
+    this.state.metrics.activeSessionsCount = Math.max(0, this.state.metrics.activeSessionsCount - 1);
   }
 
-  getVersion(): string {
-    return this.state.version;
+  /**
+   * Renova o grant da sessao e atualiza o contexto do Stage
+   */
+  async renewSessionAccess(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller,
+    extensionSeconds: number
+  ): Promise<AccessGrant> {
+    const { stage, session, serviceActor } = await this.resolveOwnSession(stageId, sessionId, caller);
+    if (!session.patientActorId) {
+      throw new ActorRpcError('precondition_failed', 'Session has no patient attached');
+    }
+
+    const grant = await serviceActor.renewPatientAccess(sessionId, extensionSeconds);
+    await stage.attachPatient(sessionId, session.patientActorId, grant);
+    return grant;
   }
 
-  getStatus(): CastState['status'] {
-    return this.state.status;
+  /**
+   * Estreita o escopo do grant da sessao (revogacao parcial)
+   */
+  async narrowSessionAccess(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller,
+    scope: AccessScope
+  ): Promise<AccessGrant> {
+    const { stage, session, serviceActor } = await this.resolveOwnSession(stageId, sessionId, caller);
+    if (!session.patientActorId) {
+      throw new ActorRpcError('precondition_failed', 'Session has no patient attached');
+    }
+
+    const grant = await serviceActor.narrowPatientAccess(sessionId, scope);
+    await stage.attachPatient(sessionId, session.patientActorId, grant);
+    return grant;
   }
 
-  getMetrics(): CastMetrics {
-    return { ...this.state.metrics };
+  // ---------------------------------------------------------------------------
+  // EXECUCOES DE SCRIPT
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Execucoes de Script do Stage (em andamento, aguardando retry, encerradas)
+   * So as das sessoes do profissional que chama
+   */
+  async listScriptExecutions(
+    stageId: StageId,
+    caller: AuthenticatedCaller,
+    filter: ScriptExecutionFilter = {}
+  ): Promise<ScriptExecutionHeader[]> {
+    if (caller.actorType !== 'entity') {
+      throw new ActorRpcError('forbidden', 'Only entities can list script executions');
+    }
+    return this.requireStage(stageId).listExecutions({ ...filter, entityActorId: caller.actorId });
   }
-}
 
-// =============================================================================
-// TYPES
-// =============================================================================
+  async getScriptExecution(
+    stageId: StageId,
+    executionId: string,
+    caller: AuthenticatedCaller
+  ): Promise<ScriptExecutionHeader> {
+    return this.getOwnScriptExecution(stageId, executionId, caller);
+  }
 
-export interface OrchestratorDecision {
-  type: 'continue' | 'new_session';
-  stageId: StageId;
-  sessionId?: SessionId;
-  personaId?: PersonaId;
-  reason?: string;
-  suggestedPersona?: PersonaId;
-  confidence?: number;
-}
+  async cancelScriptExecution(
+    stageId: StageId,
+    executionId: string,
+    caller: AuthenticatedCaller
+  ): Promise<ScriptExecutionHeader> {
+    await this.getOwnScriptExecution(stageId, executionId, caller);
+    return this.requireStage(stageId).cancelExecution(executionId);
+  }
 
-export interface CastRequest {
-  /** Input do usuario */
-  input: string;
+  private async getOwnScriptExecution(
+    stageId: StageId,
+    executionId: string,
+    caller: AuthenticatedCaller
+  ): Promise<ScriptExecutionHeader> {
+    const execution = await this.requireStage(stageId).getExecution(executionId);
+    if (!execution) {
+      throw new ActorRpcError('not_found', 'Execution not found');
+    }
+    if (caller.actorType !== 'entity' || caller.actorId !== execution.entityActorId) {
+      throw new ActorRpcError('forbidden', 'Caller is not allowed to access this execution');
+    }
+    return execution;
+  }
 
-  /** Entity fazendo a requisicao */
-  entityActorId: ActorId;
+  /**
+   * Retoma execucoes apontadas pelo alarm do SCRIPT_EXECUTIONS
+   * Falha de uma nao impede as outras - o alarm aponta de novo depois
+   */
+  async resumeScriptExecutions(stageId: StageId, executionIds: string[]): Promise<void> {
+    const stage = this.requireStage(stageId);
+    for (const executionId of executionIds) {
+      try {
+        await stage.resumeExecution(executionId);
+      } catch (error) {
+        console.error(`Script execution resume error (${executionId}):`, error);
+      }
+    }
+  }
 
-  /** Service onde esta operando */
-  serviceActorId: ActorId;
+  // ---------------------------------------------------------------------------
+  // VALIDACAO HUMANA
+  // ---------------------------------------------------------------------------
 
-  /** Paciente em contexto (opcional) */
-  patientActorId?: ActorId;
+  /**
+   * Inbox de validacao do profissional (acoes de todos os Stages)
+   * Somente o proprio profissional (chamador autenticado) le e decide
+   */
+  async listPendingActions(
+    entityActorId: ActorId,
+    caller: AuthenticatedCaller,
+    status?: PendingActionStatus
+  ): Promise<PendingAction[]> {
+    this.assertInboxOwner(entityActorId, caller);
+    const entityActor = await this.getEntityActor(entityActorId);
+    return entityActor.listPendingActions(status);
+  }
 
-  /** Escopo de acesso solicitado (se ha paciente) */
-  scope?: AccessScope;
+  async getPendingAction(
+    entityActorId: ActorId,
+    actionId: string,
+    caller: AuthenticatedCaller
+  ): Promise<PendingAction> {
+    this.assertInboxOwner(entityActorId, caller);
+    const entityActor = await this.getEntityActor(entityActorId);
+    const action = await entityActor.getPendingAction(actionId);
+    if (!action) {
+      throw new ActorRpcError('not_found', 'Pending action not found');
+    }
+    return action;
+  }
 
-  /** Stage atual (se ja em sessao) */
-  currentStageId?: StageId;
+  /**
+   * Decide uma acao pendente no Stage que a gerou (que executa a versao aprovada)
+   * decidedBy e sempre o chamador autenticado
+   */
+  async decidePendingAction(
+    entityActorId: ActorId,
+    actionId: string,
+    caller: AuthenticatedCaller,
+    decision: Omit<PendingActionDecision, 'decidedBy'>
+  ): Promise<PendingAction> {
+    const action = await this.getPendingAction(entityActorId, actionId, caller);
+    return this.requireStage(action.stageId).decidePendingAction(entityActorId, actionId, {
+      ...decision,
+      decidedBy: caller.actorId,
+    });
+  }
 
-  /** Sessao atual (se ja em sessao) */
-  currentSessionId?: SessionId;
+  private assertInboxOwner(entityActorId: ActorId, caller: AuthenticatedCaller): void {
+    if (caller.actorType !== 'entity' || caller.actorId !== entityActorId) {
+      throw new ActorRpcError('forbidden', 'Caller is not allowed to access this validation inbox');
+    }
+  }
 
-  /** Metadata adicional */
-  metadata?: Record<string, unknown>;
-}
+  /**
+   * Inbox dos Stages: cada acao vai para o EntityActor dela
+   */
+  private createValidationInbox(): StageValidationInbox {
+    return {
+      submit: async (action) => (await this.getEntityActor(action.entityActorId)).submitPendingAction(action),
+      list: async (entityActorId, status) => (await this.getEntityActor(entityActorId)).listPendingActions(status),
+      get: async (entityActorId, actionId) => (await this.getEntityActor(entityActorId)).getPendingAction(actionId),
+      decide: async (entityActorId, actionId, decision, result) =>
+        (await this.getEntityActor(entityActorId)).decidePendingAction(actionId, decision, result),
+    };
+  }
 
-export interface CastResponse {
-  success: boolean;
-  error?: string;
-  errorCode?: string;
-  stageId?: StageId;
-  sessionId?: SessionId;
-  personaId?: PersonaId;
-  output?: unknown;
-  actions?: ActionResult[];
-  durationMs: number;
-  tokensUsed?: number;
-}
+  // ---------------------------------------------------------------------------
+  // REGISTROS DA SESSAO
+  // ---------------------------------------------------------------------------
 
-export interface HealthCheckResult {
-  status: 'healthy' | 'degraded' | 'unhealthy';
-  checks: HealthCheckItem[];
-  timestamp: Date;
-  version: string;
-}
+  /**
+   * Versoes de um registro (da mais antiga para a atual), abertas com o grant da sessao
+   * Somente o profissional da sessao (chamador autenticado) consulta
+   */
+  async getSessionRecordHistory(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller,
+    dataType: CompartmentType,
+    recordId: string
+  ): Promise<DecryptedRecord[]> {
+    const { patientActor, grant } = await this.resolveSessionGrant(stageId, sessionId, caller);
+    const versions = await patientActor.getRecordHistory(grant.id, dataType, recordId);
+
+    const records: DecryptedRecord[] = [];
+    for (const record of versions) {
+      records.push({ record, values: await openRecord(grant, record) });
+    }
+    return records;
+  }
 
-export interface HealthCheckItem {
-  name: string;
-  status: 'healthy' | 'degraded' | 'unhealthy';
-  latencyMs: number;
-  message?: string;
-  metadata?: Record<string, unknown>;
-}
+  /**
+   * Retifica um registro com o grant da sessao
+   * Os valores em claro passam pelo schema do tipo e sao selados aqui
+   */
+  async amendSessionRecord(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller,
+    dataType: CompartmentType,
+    recordId: string,
+    amendment: RecordAmendmentInput
+  ): Promise<PatientRecord> {
+    const { patientActor, grant } = await this.resolveSessionGrant(stageId, sessionId, caller);
+    const versions = await patientActor.getRecordHistory(grant.id, dataType, recordId);
+    const { recordType } = versions[versions.length - 1];
+
+    const values = parseRecordValues(recordType, amendment.values);
+    const sealed = await sealClinicalRecord(grant, dataType, recordType, values, recordId);
+    return patientActor.amendRecord(grant.id, dataType, recordId, {
+      expectedVersion: amendment.expectedVersion,
+      reason: amendment.reason,
+      fields: sealed.fields,
+      recordedAt: amendment.recordedAt,
+      tags: amendment.tags,
+    });
+  }
 
-// =============================================================================
-// ORCHESTRATOR SYSTEM PROMPT
-// =============================================================================
+  // ---------------------------------------------------------------------------
+  // INTEROPERABILIDADE (FHIR R4)
+  // ---------------------------------------------------------------------------
 
-const ORCHESTRATOR_SYSTEM_PROMPT = `
-Voce e o orquestrador do HealthOS, um sistema operacional para saude.
+  /**
+   * Exporta como Bundle FHIR o que o grant da sessao libera
+   * Os dados sao abertos aqui, com o grant - o PatientActor so entrega ciphertext
+   * Somente o profissional da sessao (chamador autenticado) exporta
+   */
+  async exportSessionFhir(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller
+  ): Promise<FhirBundle> {
+    const { patientActor, patientActorId, grant } = await this.resolveSessionGrant(
+      stageId,
+      sessionId,
+      caller
+    );
 
-Sua funcao e analisar requisicoes de usuarios e decidir:
-1. Qual Stage (ambiente/app) deve processar a requisicao
-2. Qual Persona seria mais adequada
-3. Se a requisicao requer acesso a dados de paciente
+    const compartments = (Object.keys(grant.wrappedKeys) as CompartmentType[]).filter(
+      (c) => c !== 'demographics'
+    );
+    const recordsByCompartment = await patientActor.readRecords(grant.id, compartments);
+
+    const records: DecryptedRecord[] = [];
+    for (const compartmentRecords of Object.values(recordsByCompartment)) {
+      for (const record of compartmentRecords) {
+        records.push({ record, values: await openRecord(grant, record) });
+      }
+    }
+
+    // Demographics e documento unico - so sai se o grant o libera inteiro
+    let demographics;
+    if (grant.wrappedKeys.demographics && recordFiltersFor(grant.scope, 'demographics').length === 0) {
+      const data = await patientActor.readData(grant.id, ['demographics']);
+      demographics = parseDemographics(await openCompartment(grant, 'demographics', data.demographics));
+    }
+
+    return exportFhirBundle({ patientActorId, demographics, records });
+  }
+
+  /**
+   * Importa um Bundle FHIR para os registros do paciente, usando o grant da sessao
+   * Registros de compartimentos fora do grant vao para skipped
+   * Somente o profissional da sessao (chamador autenticado) importa
+   */
+  async importSessionFhir(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller,
+    bundle: unknown
+  ): Promise<FhirImportSummary> {
+    const { patientActor, grant } = await this.resolveSessionGrant(stageId, sessionId, caller);
+    const { records, skipped } = importFhirBundle(bundle);
+
+    const imported: FhirImportSummary['imported'] = [];
+    for (const record of records) {
+      try {
+        const sealed = await sealClinicalRecord(grant, record.dataType, record.recordType, record.values);
+        const stored = await patientActor.appendRecord(grant.id, record.dataType, {
+          ...sealed,
+          recordedAt: record.recordedAt,
+          tags: record.tags,
+        });
+        imported.push({ recordId: stored.id, dataType: record.dataType, sources: record.sources });
+      } catch (error) {
+        const [resourceType, id] = record.sources[0].split('/');
+        skipped.push({
+          resourceType,
+          id,
+          reason: error instanceof Error ? error.message : 'Import failed',
+        });
+      }
+    }
+
+    return { imported, skipped };
+  }
+
+  /**
+   * save_to dos Scripts para 'patient_actor.<compartimento>'
+   * O ServiceActor da sessao sela e grava com o grant dela - params: recordType, values, tags
+   */
+  private async saveScriptRecord(
+    target: string,
+    data: Record<string, unknown>,
+    context: { sessionId: SessionId; event: StageEvent }
+  ): Promise<unknown> {
+    const [destination, dataType] = target.split('.');
+    if (destination !== 'patient_actor' || !dataType) {
+      throw new Error(`Unsupported save_to target: ${target}`);
+    }
+
+    const serviceActorId = context.event.context.serviceActorId;
+    if (!serviceActorId) {
+      throw new Error('Script event has no service actor');
+    }
+
+    const serviceActor = await this.getServiceActor(serviceActorId);
+    const record = await serviceActor.appendPatientRecord(
+      context.sessionId,
+      dataType as CompartmentType,
+      data as PatientRecordDraft
+    );
+    return { saved: true, recordId: record.id, dataType: record.dataType };
+  }
+
+  private async resolveSessionGrant(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller
+  ): Promise<{ patientActor: PatientActorClient; patientActorId: ActorId; grant: AccessGrant }> {
+    const { session } = await this.resolveOwnSession(stageId, sessionId, caller);
+    if (!session.patientActorId || !session.accessGrant) {
+      throw new ActorRpcError('precondition_failed', 'Session has no patient attached');
+    }
+    return {
+      patientActor: await this.getPatientActor(session.patientActorId),
+      patientActorId: session.patientActorId,
+      grant: session.accessGrant,
+    };
+  }
+
+  /**
+   * Sessao do Stage que so o profissional dono dela (pelo token) pode usar
+   */
+  private async resolveOwnSession(
+    stageId: StageId,
+    sessionId: SessionId,
+    caller: AuthenticatedCaller
+  ): Promise<{ stage: IStage; session: StageSession; serviceActor: ServiceActorClient }> {
+    const resolved = await this.resolveStageSession(stageId, sessionId);
+    if (caller.actorType !== 'entity' || caller.actorId !== resolved.session.entityActorId) {
+      throw new ActorRpcError('forbidden', 'Caller is not allowed to use this session');
+    }
+    return resolved;
+  }
+
+  private requireStage(stageId: StageId): IStage {
+    const stage = this.state.stages.get(stageId);
+    if (!stage) {
+      throw new ActorRpcError('not_found', `Stage not found: ${stageId}`);
+    }
+    return stage;
+  }
+
+  private async resolveStageSession(
+    stageId: StageId,
+    sessionId: SessionId
+  ): Promise<{ stage: IStage; session: StageSession; serviceActor: ServiceActorClient }> {
+    const stage = this.requireStage(stageId);
+    const session = stage.getSession(sessionId);
+    if (!session) {
+      throw new ActorRpcError('not_found', 'Session not found');
+    }
+    return { stage, session, serviceActor: await this.getServiceActor(session.serviceActorId) };
+  }
+
+  // ---------------------------------------------------------------------------
+  // CONTA DO PACIENTE
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Troca a senha (so a chave privada e re-criptografada)
+   */
+  async changePatientPassword(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    passwords: { currentPassword: string; newPassword: string }
+  ): Promise<void> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    await patientActor.changePassword(passwords.currentPassword, passwords.newPassword);
+  }
+
+  /**
+   * Gera um novo par de chaves e re-embrulha as DEKs - devolve a nova chave publica
+   */
+  async rotatePatientKeyPair(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    password: string
+  ): Promise<string> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    return patientActor.rotateKeyPair(password);
+  }
+
+  /**
+   * Define (ou remove, com undefined) o contato de emergencia
+   */
+  async setPatientEmergencyContact(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    contact?: EmergencyContact
+  ): Promise<void> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    await patientActor.setEmergencyContact(contact);
+  }
+
+  /**
+   * Define os profissionais favoritos (exige a senha - amplia politicas allow)
+   */
+  async setPatientFavoriteProviders(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    entityActorIds: ActorId[],
+    password: string
+  ): Promise<void> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    await patientActor.setFavoriteProviders(entityActorIds, password);
+  }
+
+  /**
+   * Previa de como as politicas do paciente decidiriam um pedido de acesso
+   */
+  async previewConsentDecision(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    request: { entityActorId: ActorId; serviceActorId: ActorId; scope: AccessScope }
+  ): Promise<ConsentPolicyEvaluation> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    return patientActor.previewConsentDecision(
+      request.entityActorId,
+      request.serviceActorId,
+      request.scope
+    );
+  }
+
+  /**
+   * Recalcula a cadeia de auditoria do paciente
+   */
+  async verifyPatientAuditChain(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    options: { includeArchives?: boolean } = {}
+  ): Promise<AuditChainVerification> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    return patientActor.verifyAuditChain(options);
+  }
+
+  /**
+   * DEKs dos compartimentos embrulhadas com a chave publica (abertas no app com a senha)
+   */
+  async getPatientCompartmentKeys(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller
+  ): Promise<Record<CompartmentType, CompartmentKey>> {
+    const patientActor = await this.getOwnPatientActor(patientActorId, caller);
+    return patientActor.getCompartmentKeys();
+  }
+
+  private async getOwnPatientActor(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller
+  ): Promise<PatientActorClient> {
+    if (caller.actorType !== 'patient' || caller.actorId !== patientActorId) {
+      throw new ActorRpcError('forbidden', 'Only the patient can manage their account');
+    }
+    return this.getPatientActor(patientActorId);
+  }
+
+  /**
+   * Paciente pelo proprio token ou representante (tambem um PatientActor)
+   * com delegacao ativa para o poder pedido
+   */
+  private async getPatientActorFor(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    power: ProxyPower
+  ): Promise<PatientActorClient> {
+    if (caller.actorType !== 'patient') {
+      throw new ActorRpcError('forbidden', 'Only the patient or an authorized proxy can access this');
+    }
+    const patientActor = await this.getPatientActor(patientActorId);
+    if (caller.actorId !== patientActorId) {
+      await patientActor.assertProxyPower(caller.actorId, power);
+    }
+    return patientActor;
+  }
+
+  // ---------------------------------------------------------------------------
+  // CONSENTIMENTO
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lista solicitacoes de acesso aguardando o paciente
+   * (o proprio paciente ou representante com approve_access)
+   */
+  async listConsentRequests(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller
+  ): Promise<AccessRequest[]> {
+    const patientActor = await this.getPatientActorFor(patientActorId, caller, 'approve_access');
+    return patientActor.listPendingRequests();
+  }
+
+  /**
+   * Aplica a decisao do paciente e retoma a sessao do Stage que aguardava
+   */
+  async resolveConsent(
+    patientActorId: ActorId,
+    requestId: string,
+    decision: ConsentDecision
+  ): Promise<ConsentResolution> {
+    const patientActor = await this.getPatientActor(patientActorId);
+
+    const accessRequest = await this.applyConsentDecision(patientActor, requestId, decision);
+
+    const sessionResumed = await this.resumeConsentSession(patientActorId, accessRequest);
+
+    await this.emitGlobalEvent({
+      id: crypto.randomUUID(),
+      type: 'consent_resolved',
+      timestamp: new Date(),
+      stageId: accessRequest.stageId ?? ('' as StageId),
+      actorId: decision.proxy?.proxyActorId ?? patientActorId,
+      sessionId: accessRequest.sessionId ?? ('' as SessionId),
+      payload: { requestId, status: accessRequest.status, sessionResumed },
+      context: {
+        patientActorId,
+        entityActorId: accessRequest.entityActorId,
+        serviceActorId: accessRequest.serviceActorId,
+        previousEvents: [],
+        metadata: {},
+      },
+    });
+
+    return { request: accessRequest, sessionResumed };
+  }
+
+  /**
+   * Decisao do paciente ou de um representante (que se autentica com a propria senha)
+   */
+  private async applyConsentDecision(
+    patientActor: PatientActorClient,
+    requestId: string,
+    decision: ConsentDecision
+  ): Promise<AccessRequest> {
+    const { proxy } = decision;
+    if (proxy) {
+      return decision.approve
+        ? patientActor.approveRequestAsProxy(requestId, proxy.proxyActorId, proxy.password)
+        : patientActor.denyRequestAsProxy(
+            requestId,
+            proxy.proxyActorId,
+            proxy.password,
+            decision.reason
+          );
+    }
+
+    if (!decision.password) {
+      throw new ActorRpcError(
+        'invalid_request',
+        `Password required to ${decision.approve ? 'approve' : 'deny'} access`
+      );
+    }
+    return decision.approve
+      ? patientActor.approveRequest(requestId, decision.password)
+      : patientActor.denyRequest(requestId, decision.password, decision.reason);
+  }
+
+  // ---------------------------------------------------------------------------
+  // REPRESENTANTES
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lista os representantes do paciente - os mesmos chamadores que podem revogar:
+   * o paciente ve todas, o representante a propria e o encarregado as ordens que registrou
+   */
+  async listProxies(patientActorId: ActorId, caller: AuthenticatedCaller): Promise<ProxyDelegation[]> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    const proxies = await patientActor.listProxies();
+    if (caller.actorType === 'patient' && caller.actorId === patientActorId) {
+      return proxies;
+    }
+    return proxies.filter((delegation) =>
+      caller.actorType === 'patient'
+        ? delegation.proxyActorId === caller.actorId
+        : caller.actorType === 'entity' &&
+          delegation.source.type === 'court_order' &&
+          delegation.source.registeredBy === caller.actorId
+    );
+  }
+
+  /**
+   * Nomeia representante - pelo paciente (senha) ou por ordem judicial
+   * Ordem judicial so com chamador autenticado: o PatientActor confere que ele e o
+   * encarregado do Service e que o vinculo existe tambem do lado do Entity
+   */
+  async nominateProxy(
+    patientActorId: ActorId,
+    delegation: ProxyDelegationInput,
+    authorization: ProxyAuthorization,
+    caller?: AuthenticatedCaller
+  ): Promise<ProxyDelegation> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    if ('courtOrder' in authorization) {
+      if (caller?.actorType !== 'entity') {
+        throw new ActorRpcError(
+          'forbidden',
+          'Court-order delegations require an authenticated privacy officer'
+        );
+      }
+      return patientActor.registerCourtOrderProxy(delegation, {
+        ...authorization.courtOrder,
+        registeredBy: caller.actorId,
+      });
+    }
+    return patientActor.nominateProxy(delegation, authorization.password);
+  }
+
+  /**
+   * Revoga (ou renuncia a) uma delegacao em nome do chamador autenticado
+   * O paciente confirma com a senha
+   */
+  async revokeProxy(
+    patientActorId: ActorId,
+    delegationId: string,
+    caller: AuthenticatedCaller,
+    password?: string
+  ): Promise<void> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    await patientActor.revokeProxy(delegationId, caller.actorId, password);
+  }
+
+  /**
+   * Resumo de acessos para o representante
+   */
+  async getProxySummary(
+    patientActorId: ActorId,
+    proxy: { proxyActorId: ActorId; password: string },
+    period: { from?: Date; to?: Date } = {}
+  ): Promise<ProxySummary> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    return patientActor.getProxySummary(proxy.proxyActorId, proxy.password, period);
+  }
+
+  // ---------------------------------------------------------------------------
+  // POLITICAS DE CONSENTIMENTO
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lista as politicas permanentes - paciente ou representante com approve_access
+   */
+  async listConsentPolicies(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller
+  ): Promise<ConsentPolicy[]> {
+    const patientActor = await this.getPatientActorFor(patientActorId, caller, 'approve_access');
+    return patientActor.listConsentPolicies();
+  }
+
+  /**
+   * Cria uma politica permanente - qualquer efeito exige a senha de quem chama:
+   * a do paciente, ou a do representante com approve_access
+   */
+  async addConsentPolicy(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    policy: ConsentPolicyInput,
+    password: string | undefined
+  ): Promise<ConsentPolicy> {
+    if (caller.actorType !== 'patient') {
+      throw new ActorRpcError('forbidden', 'Only the patient or an authorized proxy can add policies');
+    }
+    if (!password) {
+      throw new ActorRpcError('invalid_request', 'Password required to create a consent policy');
+    }
+    const patientActor = await this.getPatientActor(patientActorId);
+    if (caller.actorId === patientActorId) {
+      return patientActor.addConsentPolicy(policy, password);
+    }
+    return patientActor.addConsentPolicyAsProxy(policy, caller.actorId, password);
+  }
+
+  /**
+   * Remove uma politica permanente - senha do paciente ou representante
+   * com approve_access (que se autentica com a propria senha)
+   */
+  async removeConsentPolicy(
+    patientActorId: ActorId,
+    policyId: string,
+    credentials: { password?: string; proxy?: ProxyCredentials }
+  ): Promise<void> {
+    const patientActor = await this.getPatientActor(patientActorId);
+    const { proxy } = credentials;
+    if (proxy) {
+      await patientActor.removeConsentPolicyAsProxy(policyId, proxy.proxyActorId, proxy.password);
+      return;
+    }
+    if (!credentials.password) {
+      throw new ActorRpcError('invalid_request', 'Password required to remove a consent policy');
+    }
+    await patientActor.removeConsentPolicy(policyId, credentials.password);
+  }
+
+  /**
+   * Lista acessos break-glass do paciente (pendentes de revisao por padrao)
+   * O paciente ve todos; o encarregado, so os dos Services que ele revisa
+   */
+  async listBreakGlassReviews(
+    patientActorId: ActorId,
+    caller: AuthenticatedCaller,
+    status: BreakGlassReview['status'] = 'pending'
+  ): Promise<BreakGlassReview[]> {
+    const isPatient = caller.actorType === 'patient' && caller.actorId === patientActorId;
+    if (!isPatient && caller.actorType !== 'entity') {
+      throw new ActorRpcError(
+        'forbidden',
+        'Only the patient or a privacy officer can list break-glass reviews'
+      );
+    }
+    const patientActor = await this.getPatientActor(patientActorId);
+    return patientActor.listBreakGlassReviews(status, isPatient ? undefined : caller.actorId);
+  }
+
+  /**
+   * Registra a revisao obrigatoria de um acesso break-glass
+   * O revisor e o chamador autenticado - o PatientActor confere que e o
+   * encarregado do Service e nao o profissional que abriu o acesso
+   */
+  async reviewBreakGlass(
+    patientActorId: ActorId,
+    reviewId: string,
+    reviewer: AuthenticatedCaller,
+    review: { outcome: 'justified' | 'unjustified'; notes?: string }
+  ): Promise<BreakGlassReview> {
+    if (reviewer.actorType !== 'entity') {
+      throw new ActorRpcError('forbidden', 'Break-glass reviews require an entity caller');
+    }
+
+    const patientActor = await this.getPatientActor(patientActorId);
+    const result = await patientActor.reviewBreakGlass(
+      reviewId,
+      reviewer.actorId,
+      review.outcome,
+      review.notes
+    );
+
+    await this.emitGlobalEvent({
+      id: crypto.randomUUID(),
+      type: 'break_glass_reviewed',
+      timestamp: new Date(),
+      stageId: '' as StageId,
+      actorId: reviewer.actorId,
+      sessionId: '' as SessionId,
+      payload: { reviewId, grantId: result.grantId, outcome: result.status },
+      context: {
+        patientActorId,
+        entityActorId: result.entityActorId,
+        serviceActorId: result.serviceActorId,
+        previousEvents: [],
+        metadata: {},
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Exporta o relatorio de acessos do paciente (requisicao do titular)
+   * O chamador autenticado e o proprio paciente ou um representante com read_summaries
+   */
+  async exportAccessReport(
+    patientActorId: ActorId,
+    format: AccessReportFormat,
+    caller: AuthenticatedCaller,
+    period: { from?: Date; to?: Date } = {}
+  ): Promise<AccessReportExport> {
+    const patientActor = await this.getPatientActorFor(patientActorId, caller, 'read_summaries');
+    return patientActor.exportAccessReport(format, caller.actorId, period);
+  }
+
+  /**
+   * Entrega o grant a sessao que aguardava o consentimento
+   * Se a sessao do Stage nao esta nesta instancia, o grant fica no ServiceActor
+   * e e anexado no proximo processRequest da sessao
+   */
+  private async resumeConsentSession(
+    patientActorId: ActorId,
+    accessRequest: AccessRequest
+  ): Promise<boolean> {
+    if (!accessRequest.sessionId) {
+      return false;
+    }
+
+    const serviceActor = await this.getServiceActor(accessRequest.serviceActorId);
+    const access = await serviceActor.completePatientAccess(accessRequest.sessionId);
+    if (access.status !== 'granted') {
+      return false;
+    }
+
+    const stage = accessRequest.stageId ? this.state.stages.get(accessRequest.stageId) : undefined;
+    if (!stage?.getSession(accessRequest.sessionId)) {
+      return false;
+    }
+
+    await stage.attachPatient(accessRequest.sessionId, patientActorId, access.grant);
+    return true;
+  }
+
+  /**
+   * Atualiza media de tempo de resposta
+   */
+  private updateAverageResponseTime(newDurationMs: number): void {
+    const { averageResponseTimeMs, successfulRequests } = this.state.metrics;
+    this.state.metrics.averageResponseTimeMs =
+      (averageResponseTimeMs * (successfulRequests - 1) + newDurationMs) / successfulRequests;
+  }
+
+  // ---------------------------------------------------------------------------
+  // GETTERS
+  // ---------------------------------------------------------------------------
+
+  getId(): string {
+    return this.state.id;
+  }
+
+  getName(): string {
+    return this.state.name;
+  }
+
+  getVersion(): string {
+    return this.state.version;
+  }
+
+  getStatus(): CastState['status'] {
+    return this.state.status;
+  }
+
+  getMetrics(): CastMetrics {
+    return { ...this.state.metrics, tokenUsage: structuredClone(this.state.metrics.tokenUsage) };
+  }
+}
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OrchestratorDecision {
+  type: 'continue' | 'new_session';
+  stageId: StageId;
+  sessionId?: SessionId;
+  personaId?: PersonaId;
+  reason?: string;
+  suggestedPersona?: PersonaId;
+  confidence?: number;
+}
+
+export interface CastRequest {
+  /** Input do usuario */
+  input: string;
+
+  /** Entity fazendo a requisicao (o chamador autenticado - outro id e recusado) */
+  entityActorId: ActorId;
+
+  /** Service onde esta operando */
+  serviceActorId: ActorId;
+
+  /** Paciente em contexto (opcional) */
+  patientActorId?: ActorId;
+
+  /** Escopo de acesso solicitado (se ha paciente) */
+  scope?: AccessScope;
+
+  /** Stage atual (se ja em sessao) */
+  currentStageId?: StageId;
+
+  /** Sessao atual (se ja em sessao) */
+  currentSessionId?: SessionId;
+
+  /** Metadata adicional */
+  metadata?: Record<string, unknown>;
+}
+
+export interface CastResponse {
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+  stageId?: StageId;
+  sessionId?: SessionId;
+  /** Solicitacao aguardando o paciente (errorCode PENDING_CONSENT) */
+  consentRequestId?: string;
+  personaId?: PersonaId;
+  output?: unknown;
+  actions?: ActionResult[];
+  durationMs: number;
+  tokensUsed?: number;
+  usage?: TokenUsage;
+  /** Modelo da Persona (ou o imposto pelo orcamento do Service) */
+  model?: LLMModel;
+}
+
+/**
+ * Eventos de /api/process/stream
+ * 'session' sai assim que a sessao do Stage esta pronta; o resto vem da Persona
+ */
+export type CastStreamEvent =
+  | { type: 'session'; stageId: StageId; sessionId: SessionId }
+  | PersonaStreamEvent;
+
+/** Sem proxy, decide o paciente (com a senha); com proxy, o representante (com a propria senha) */
+export type ConsentDecision =
+  | { approve: true; password?: string; proxy?: ProxyCredentials }
+  | { approve: false; password?: string; reason?: string; proxy?: ProxyCredentials };
+
+export interface ProxyCredentials {
+  proxyActorId: ActorId;
+  password: string;
+}
+
+export type ProxyAuthorization =
+  | { password: string }
+  | { courtOrder: { reference: string; serviceActorId: ActorId } };
+
+/** Retificacao pela API: valores em claro, selados pelo Cast com o grant da sessao */
+export interface RecordAmendmentInput {
+  expectedVersion: number;
+  reason: string;
+  values: unknown;
+  recordedAt?: Date;
+  tags?: string[];
+}
+
+export interface FhirImportSummary {
+  imported: { recordId: string; dataType: CompartmentType; sources: string[] }[];
+  skipped: FhirSkippedResource[];
+}
+
+export interface ConsentResolution {
+  request: AccessRequest;
+  /** Se a sessao do Stage foi retomada com o grant */
+  sessionResumed: boolean;
+}
+
+export interface HealthCheckResult {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  checks: HealthCheckItem[];
+  timestamp: Date;
+  version: string;
+}
+
+export interface HealthCheckItem {
+  name: string;
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  latencyMs: number;
+  message?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// ORCHESTRATOR SYSTEM PROMPT
+// =============================================================================
+
+const ORCHESTRATOR_SYSTEM_PROMPT = `
+Voce e o orquestrador do HealthOS, um sistema operacional para saude.
+
+Sua funcao e analisar requisicoes de usuarios e decidir:
+1. Qual Stage (ambiente/app) deve processar a requisicao
+2. Qual Persona seria mais adequada
+3. Se a requisicao requer acesso a dados de paciente
 
 Stages disponiveis e suas funcoes:
 - medscribe: Transcricao e documentacao de consultas, anamnese, SOAP
@@ -1144,25 +2366,96 @@ Seja conciso e objetivo.
 // CLOUDFLARE WORKER EXPORT
 // =============================================================================
 
-export interface Env {
+export interface Env extends LLMEnv {
   PATIENT_ACTORS: DurableObjectNamespace;
   ENTITY_ACTORS: DurableObjectNamespace;
   SERVICE_ACTORS: DurableObjectNamespace;
+  /** Execucoes de Script (um objeto por Stage) - sem ele, ficam na memoria do Stage */
+  SCRIPT_EXECUTIONS?: DurableObjectNamespace;
   STAGE_CONFIGS: KVNamespace;
   SHARED_TOOLS: KVNamespace;
   EVENTS_QUEUE: Queue;
-  ANTHROPIC_API_KEY: string;
-  AI_GATEWAY?: any;
+  NOTIFICATIONS_QUEUE?: Queue;
+  AUDIT_ARCHIVE?: R2Bucket;
+  DOCUMENTS?: R2Bucket;
+  AUDIO_FILES?: R2Bucket;
+  /** Segredo HMAC dos tokens de chamador (Authorization: Bearer) */
+  AUTH_SECRET?: string;
+}
+
+/**
+ * Status HTTP de cada codigo de erro dos Actors (e do proprio Cast)
+ */
+const ERROR_HTTP_STATUS: Record<ActorRpcErrorCode, number> = {
+  invalid_request: 400,
+  invalid_response: 502,
+  unknown_method: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  expired: 410,
+  precondition_failed: 412,
+  internal: 500,
+};
+
+/**
+ * Requisicao em Server-Sent Events: cada evento sai como `event: <type>`,
+ * a CastResponse final como `event: done` e uma falha como `event: error`
+ */
+function serverSentEvents(
+  events: AsyncGenerator<CastStreamEvent, CastResponse | undefined>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const frame = (type: string, data: unknown) =>
+    encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  // Depois do cancel o controller nao aceita mais enqueue nem close
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        let next = await events.next();
+        while (!next.done && !closed) {
+          controller.enqueue(frame(next.value.type, next.value));
+          next = await events.next();
+        }
+        if (closed) {
+          // Cliente desconectou - encerra o generator (finally do Agent/Stage)
+          // aqui, fora de um next() pendente
+          await events.return(undefined);
+          return;
+        }
+        controller.enqueue(frame('done', next.value));
+      } catch (error) {
+        if (closed) return;
+        controller.enqueue(
+          frame('error', { error: error instanceof Error ? error.message : 'Internal server error' })
+        );
+      }
+      controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
 }
 
 /**
  * Worker principal do HealthOS Cast
  */
-export default {
+const worker = {
   async fetch(request: Request, env: Env): Promise<Response> {
     const cast = new Cast(env);
     await cast.initialize();
+    return worker.handle(cast, request);
+  },
 
+  /**
+   * Roteamento HTTP sobre um Cast ja inicializado
+   * (o runtime local reaproveita o mesmo Cast entre requisicoes)
+   */
+  async handle(cast: Cast, request: Request): Promise<Response> {
     const url = new URL(request.url);
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
@@ -1184,18 +2477,52 @@ export default {
             headers: { 'Content-Type': 'application/json', ...corsHeaders },
           });
 
+        // Token do paciente (profissionais e unidades usam o do provedor de identidade)
+        case '/api/auth/token': {
+          if (request.method !== 'POST') {
+            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+          }
+
+          const { patientActorId, password } = (await request.json()) as {
+            patientActorId: ActorId;
+            password: string;
+          };
+          const issued = await cast.issuePatientToken(patientActorId, password);
+          return new Response(JSON.stringify(issued), {
+            headers: { 'Content-Type': 'application/json', ...corsHeaders },
+          });
+        }
+
         case '/api/process':
           if (request.method !== 'POST') {
             return new Response('Method not allowed', { status: 405, headers: corsHeaders });
           }
 
           const body = (await request.json()) as CastRequest;
-          const response = await cast.processRequest(body);
+          const response = await cast.processRequest(body, await cast.authenticateCaller(request));
 
           return new Response(JSON.stringify(response), {
             headers: { 'Content-Type': 'application/json', ...corsHeaders },
           });
 
+        case '/api/process/stream': {
+          if (request.method !== 'POST') {
+            return new Response('Method not allowed', { status: 405, headers: corsHeaders });
+          }
+
+          // Autentica antes de abrir o stream - erro sai como JSON, nao como evento
+          const streamCaller = await cast.authenticateCaller(request);
+          const streamBody = (await request.json()) as CastRequest;
+          const events = cast.streamRequest(streamBody, streamCaller);
+          return new Response(serverSentEvents(events), {
+            headers: {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              ...corsHeaders,
+            },
+          });
+        }
+
         case '/api/stages':
           if (request.method === 'GET') {
             const stages = cast.listStages();
@@ -1245,6 +2572,449 @@ export default {
                 headers: { 'Content-Type': 'application/json', ...corsHeaders },
               });
             }
+
+            // /api/stages/:id/sessions/:sessionId[/renew|/narrow|/fhir]
+            // /api/stages/:id/sessions/:sessionId/records/:dataType/:recordId/(history|amend)
+            const [, , , , resource, sessionId, sessionAction] = url.pathname.split('/');
+            if (resource === 'sessions' && sessionId) {
+              if (request.method === 'DELETE' && !sessionAction) {
+                const caller = await cast.authenticateCaller(request);
+                await cast.endSession(stageId, sessionId as SessionId, caller);
+                return new Response(null, { status: 204, headers: corsHeaders });
+              }
+
+              if (request.method === 'POST' && sessionAction === 'renew') {
+                const caller = await cast.authenticateCaller(request);
+                const { extensionSeconds } = (await request.json()) as { extensionSeconds: number };
+                const grant = await cast.renewSessionAccess(
+                  stageId,
+                  sessionId as SessionId,
+                  caller,
+                  extensionSeconds
+                );
+                return new Response(JSON.stringify(grant), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (sessionAction === 'fhir' && request.method === 'GET') {
+                const caller = await cast.authenticateCaller(request);
+                const bundle = await cast.exportSessionFhir(stageId, sessionId as SessionId, caller);
+                return new Response(JSON.stringify(bundle), {
+                  headers: { 'Content-Type': 'application/fhir+json', ...corsHeaders },
+                });
+              }
+
+              if (sessionAction === 'fhir' && request.method === 'POST') {
+                const caller = await cast.authenticateCaller(request);
+                const summary = await cast.importSessionFhir(
+                  stageId,
+                  sessionId as SessionId,
+                  caller,
+                  await request.json()
+                );
+                return new Response(JSON.stringify(summary), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (sessionAction === 'records') {
+                const [, , , , , , , dataType, recordId, recordAction] = url.pathname.split('/');
+                const caller = await cast.authenticateCaller(request);
+
+                if (request.method === 'GET' && recordId && recordAction === 'history') {
+                  const versions = await cast.getSessionRecordHistory(
+                    stageId,
+                    sessionId as SessionId,
+                    caller,
+                    dataType as CompartmentType,
+                    recordId
+                  );
+                  return new Response(JSON.stringify(versions), {
+                    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                  });
+                }
+
+                if (request.method === 'POST' && recordId && recordAction === 'amend') {
+                  const { recordedAt, ...amendment } = (await request.json()) as Omit<
+                    RecordAmendmentInput,
+                    'recordedAt'
+                  > & { recordedAt?: string };
+                  const record = await cast.amendSessionRecord(
+                    stageId,
+                    sessionId as SessionId,
+                    caller,
+                    dataType as CompartmentType,
+                    recordId,
+                    { ...amendment, recordedAt: recordedAt ? new Date(recordedAt) : undefined }
+                  );
+                  return new Response(JSON.stringify(record), {
+                    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                  });
+                }
+              }
+
+              if (request.method === 'POST' && sessionAction === 'narrow') {
+                const caller = await cast.authenticateCaller(request);
+                const scope = (await request.json()) as AccessScope;
+                const grant = await cast.narrowSessionAccess(
+                  stageId,
+                  sessionId as SessionId,
+                  caller,
+                  scope
+                );
+                return new Response(JSON.stringify(grant), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
+
+            // /api/stages/:id/executions[?status=retrying,failed&sessionId=&limit=]
+            // /api/stages/:id/executions/:executionId[/cancel]
+            if (resource === 'executions') {
+              const [, , , , , executionId, executionAction] = url.pathname.split('/');
+              const caller = await cast.authenticateCaller(request);
+
+              if (request.method === 'GET' && !executionId) {
+                const status = url.searchParams.get('status');
+                const limit = url.searchParams.get('limit');
+                const executions = await cast.listScriptExecutions(stageId, caller, {
+                  status: status ? (status.split(',') as ScriptExecutionStatus[]) : undefined,
+                  sessionId: (url.searchParams.get('sessionId') ?? undefined) as SessionId | undefined,
+                  limit: limit ? Number(limit) : undefined,
+                });
+                return new Response(JSON.stringify(executions), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (request.method === 'GET' && executionId && !executionAction) {
+                const execution = await cast.getScriptExecution(stageId, executionId, caller);
+                return new Response(JSON.stringify(execution), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (request.method === 'POST' && executionId && executionAction === 'cancel') {
+                const execution = await cast.cancelScriptExecution(stageId, executionId, caller);
+                return new Response(JSON.stringify(execution), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
+          }
+
+          // /api/entities/:id/pending-actions[?status=pending]
+          // /api/entities/:id/pending-actions/:actionId (GET, POST decisao)
+          if (url.pathname.startsWith('/api/entities/')) {
+            const [, , , entityId, resource, actionId] = url.pathname.split('/');
+
+            if (resource === 'pending-actions') {
+              const caller = await cast.authenticateCaller(request);
+
+              if (request.method === 'GET' && !actionId) {
+                const status = url.searchParams.get('status') as PendingActionStatus | null;
+                const actions = await cast.listPendingActions(entityId as ActorId, caller, status ?? undefined);
+                return new Response(JSON.stringify(actions), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (request.method === 'GET' && actionId) {
+                const action = await cast.getPendingAction(entityId as ActorId, actionId, caller);
+                return new Response(JSON.stringify(action), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // decidedBy vem do token - um decidedBy no corpo e ignorado
+              if (request.method === 'POST' && actionId) {
+                const { decidedBy: _ignored, ...decision } = (await request.json()) as PendingActionDecision;
+                const action = await cast.decidePendingAction(entityId as ActorId, actionId, caller, decision);
+                return new Response(JSON.stringify(action), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
+          }
+
+          // /api/services/:id/llm-budget (GET consumo, PUT orcamento, DELETE remove)
+          if (url.pathname.startsWith('/api/services/')) {
+            const [, , , serviceId, resource] = url.pathname.split('/');
+
+            if (resource === 'llm-budget') {
+              const caller = await cast.authenticateCaller(request);
+
+              if (request.method === 'GET') {
+                const status = await cast.getServiceLLMBudget(serviceId as ActorId, caller);
+                return new Response(JSON.stringify(status), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (request.method === 'PUT' || request.method === 'DELETE') {
+                const budget =
+                  request.method === 'PUT' ? ((await request.json()) as LLMBudget) : undefined;
+                const status = await cast.setServiceLLMBudget(serviceId as ActorId, caller, budget);
+                return new Response(JSON.stringify(status), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
+          }
+
+          // /api/patients/:id/consent-requests[/:requestId]
+          // /api/patients/:id/break-glass-reviews[/:reviewId]
+          // /api/patients/:id/consent-policies[/:policyId]
+          // /api/patients/:id/proxies[/:delegationId]
+          // /api/patients/:id/proxy-summary
+          // /api/patients/:id/access-report?format=json|pdf&from=&to=
+          // /api/patients/:id/(password|key-rotation|emergency-contact|favorite-providers)
+          // /api/patients/:id/(consent-preview|audit-chain|compartment-keys)
+          if (url.pathname.startsWith('/api/patients/')) {
+            const [, , , patientId, resource, resourceId] = url.pathname.split('/');
+
+            // Conta: somente o proprio paciente (token); senha onde abre a chave privada
+            if (resource === 'password' && request.method === 'PUT') {
+              const caller = await cast.authenticateCaller(request);
+              const passwords = (await request.json()) as { currentPassword: string; newPassword: string };
+              await cast.changePatientPassword(patientId as ActorId, caller, passwords);
+              return new Response(null, { status: 204, headers: corsHeaders });
+            }
+
+            if (resource === 'key-rotation' && request.method === 'POST') {
+              const caller = await cast.authenticateCaller(request);
+              const { password } = (await request.json()) as { password: string };
+              const publicKey = await cast.rotatePatientKeyPair(patientId as ActorId, caller, password);
+              return new Response(JSON.stringify({ publicKey }), {
+                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+              });
+            }
+
+            if (
+              resource === 'emergency-contact' &&
+              (request.method === 'PUT' || request.method === 'DELETE')
+            ) {
+              const caller = await cast.authenticateCaller(request);
+              const contact =
+                request.method === 'PUT' ? ((await request.json()) as EmergencyContact) : undefined;
+              await cast.setPatientEmergencyContact(patientId as ActorId, caller, contact);
+              return new Response(null, { status: 204, headers: corsHeaders });
+            }
+
+            if (resource === 'favorite-providers' && request.method === 'PUT') {
+              const caller = await cast.authenticateCaller(request);
+              const { entityActorIds, password } = (await request.json()) as {
+                entityActorIds: ActorId[];
+                password: string;
+              };
+              await cast.setPatientFavoriteProviders(patientId as ActorId, caller, entityActorIds, password);
+              return new Response(null, { status: 204, headers: corsHeaders });
+            }
+
+            if (resource === 'consent-preview' && request.method === 'POST') {
+              const caller = await cast.authenticateCaller(request);
+              const preview = (await request.json()) as {
+                entityActorId: ActorId;
+                serviceActorId: ActorId;
+                scope: AccessScope;
+              };
+              const evaluation = await cast.previewConsentDecision(patientId as ActorId, caller, preview);
+              return new Response(JSON.stringify(evaluation), {
+                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+              });
+            }
+
+            if (resource === 'audit-chain' && request.method === 'GET') {
+              const caller = await cast.authenticateCaller(request);
+              const verification = await cast.verifyPatientAuditChain(patientId as ActorId, caller, {
+                includeArchives: url.searchParams.get('includeArchives') === 'true',
+              });
+              return new Response(JSON.stringify(verification), {
+                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+              });
+            }
+
+            if (resource === 'compartment-keys' && request.method === 'GET') {
+              const caller = await cast.authenticateCaller(request);
+              const keys = await cast.getPatientCompartmentKeys(patientId as ActorId, caller);
+              return new Response(JSON.stringify(keys), {
+                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+              });
+            }
+
+            if (resource === 'access-report' && request.method === 'GET') {
+              const format = (url.searchParams.get('format') ?? 'json') as AccessReportFormat;
+              if (format !== 'json' && format !== 'pdf') {
+                return new Response('Invalid format', { status: 400, headers: corsHeaders });
+              }
+
+              const caller = await cast.authenticateCaller(request);
+              const from = url.searchParams.get('from');
+              const to = url.searchParams.get('to');
+              const exported = await cast.exportAccessReport(patientId as ActorId, format, caller, {
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined,
+              });
+              return new Response(exported.body, {
+                headers: {
+                  'Content-Type': exported.contentType,
+                  'Content-Disposition': `attachment; filename="${exported.filename}"`,
+                  ...corsHeaders,
+                },
+              });
+            }
+
+            if (resource === 'consent-requests') {
+              if (request.method === 'GET' && !resourceId) {
+                const requests = await cast.listConsentRequests(
+                  patientId as ActorId,
+                  await cast.authenticateCaller(request)
+                );
+                return new Response(JSON.stringify(requests), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              if (request.method === 'POST' && resourceId) {
+                const decision = (await request.json()) as ConsentDecision;
+                const resolution = await cast.resolveConsent(
+                  patientId as ActorId,
+                  resourceId,
+                  decision
+                );
+                return new Response(JSON.stringify(resolution), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
+
+            if (resource === 'proxies') {
+              if (request.method === 'GET' && !resourceId) {
+                const proxies = await cast.listProxies(
+                  patientId as ActorId,
+                  await cast.authenticateCaller(request)
+                );
+                return new Response(JSON.stringify(proxies), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // Ordem judicial: registrada pelo chamador autenticado
+              if (request.method === 'POST' && !resourceId) {
+                const { delegation, authorization } = (await request.json()) as {
+                  delegation: ProxyDelegationInput;
+                  authorization: ProxyAuthorization;
+                };
+                const caller =
+                  'courtOrder' in authorization ? await cast.authenticateCaller(request) : undefined;
+                const created = await cast.nominateProxy(
+                  patientId as ActorId,
+                  delegation,
+                  authorization,
+                  caller
+                );
+                return new Response(JSON.stringify(created), {
+                  status: 201,
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // Quem revoga e o chamador; o paciente manda { password } no corpo
+              if (request.method === 'DELETE' && resourceId) {
+                const caller = await cast.authenticateCaller(request);
+                const text = await request.text();
+                const { password } = (text ? JSON.parse(text) : {}) as { password?: string };
+                await cast.revokeProxy(patientId as ActorId, resourceId, caller, password);
+                return new Response(null, { status: 204, headers: corsHeaders });
+              }
+            }
+
+            if (resource === 'proxy-summary' && request.method === 'POST') {
+              const { from, to, ...proxy } = (await request.json()) as ProxyCredentials & {
+                from?: string;
+                to?: string;
+              };
+              const summary = await cast.getProxySummary(patientId as ActorId, proxy, {
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined,
+              });
+              return new Response(JSON.stringify(summary), {
+                headers: { 'Content-Type': 'application/json', ...corsHeaders },
+              });
+            }
+
+            if (resource === 'consent-policies') {
+              if (request.method === 'GET' && !resourceId) {
+                const policies = await cast.listConsentPolicies(
+                  patientId as ActorId,
+                  await cast.authenticateCaller(request)
+                );
+                return new Response(JSON.stringify(policies), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // Corpo: politica + { password } de quem chama (paciente ou representante)
+              if (request.method === 'POST' && !resourceId) {
+                const caller = await cast.authenticateCaller(request);
+                const { password, ...policy } = (await request.json()) as ConsentPolicyInput & {
+                  password?: string;
+                };
+                const created = await cast.addConsentPolicy(
+                  patientId as ActorId,
+                  caller,
+                  policy,
+                  password
+                );
+                return new Response(JSON.stringify(created), {
+                  status: 201,
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // Corpo: { password } do paciente ou { proxy: { proxyActorId, password } }
+              if (request.method === 'DELETE' && resourceId) {
+                const credentials = (await request.json()) as {
+                  password?: string;
+                  proxy?: ProxyCredentials;
+                };
+                await cast.removeConsentPolicy(patientId as ActorId, resourceId, credentials);
+                return new Response(null, { status: 204, headers: corsHeaders });
+              }
+            }
+
+            if (resource === 'break-glass-reviews') {
+              if (request.method === 'GET' && !resourceId) {
+                const status = url.searchParams.get('status') as BreakGlassReview['status'] | null;
+                const reviews = await cast.listBreakGlassReviews(
+                  patientId as ActorId,
+                  await cast.authenticateCaller(request),
+                  status ?? undefined
+                );
+                return new Response(JSON.stringify(reviews), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+
+              // Revisor = chamador autenticado (encarregado do Service)
+              if (request.method === 'POST' && resourceId) {
+                const reviewer = await cast.authenticateCaller(request);
+                const body = (await request.json()) as {
+                  outcome: 'justified' | 'unjustified';
+                  notes?: string;
+                };
+                const review = await cast.reviewBreakGlass(
+                  patientId as ActorId,
+                  resourceId,
+                  reviewer,
+                  body
+                );
+                return new Response(JSON.stringify(review), {
+                  headers: { 'Content-Type': 'application/json', ...corsHeaders },
+                });
+              }
+            }
           }
 
           return new Response('Not found', { status: 404, headers: corsHeaders });
@@ -1253,12 +3023,14 @@ export default {
       return new Response('Not found', { status: 404, headers: corsHeaders });
     } catch (error) {
       console.error('Cast Worker Error:', error);
+      const code = error instanceof ActorRpcError ? error.code : 'internal';
       return new Response(
         JSON.stringify({
           error: error instanceof Error ? error.message : 'Internal server error',
+          code,
         }),
         {
-          status: 500,
+          status: ERROR_HTTP_STATUS[code],
           headers: { 'Content-Type': 'application/json', ...corsHeaders },
         }
       );
@@ -1267,10 +3039,25 @@ export default {
 
   // Queue consumer for async event processing
   async queue(batch: MessageBatch, env: Env): Promise<void> {
+    const cast = new Cast(env);
+    await cast.initialize();
+    return worker.consume(cast, batch);
+  },
+
+  /**
+   * Processa as mensagens da EVENTS_QUEUE sobre um Cast ja inicializado
+   * (o runtime local reaproveita o mesmo Cast)
+   */
+  async consume(cast: Cast, batch: MessageBatch): Promise<void> {
     for (const message of batch.messages) {
       try {
         const event = message.body as any;
         console.log(`Processing event: ${event.type}`);
+
+        // Alarm do SCRIPT_EXECUTIONS: retries vencidos e execucoes interrompidas
+        if (event.type === 'script_executions_due') {
+          await cast.resumeScriptExecutions(event.payload.stageId, event.payload.executionIds);
+        }
         // Process event asynchronously
         // Could trigger notifications, analytics, etc.
         message.ack();
@@ -1282,8 +3069,10 @@ export default {
   },
 };
 
+export default worker;
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
 
-export { Cast, ORCHESTRATOR_SYSTEM_PROMPT };
+export { ORCHESTRATOR_SYSTEM_PROMPT };
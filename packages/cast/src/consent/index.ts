@@ -0,0 +1,230 @@
+/**
+ * HealthOS Consent Policies
+ *
+ * Politicas permanentes de consentimento do paciente, avaliadas pelo
+ * PatientActor.requestAccess antes de pedir aprovacao no app:
+ *
+ * 1. deny vence tudo - politica de negacao que casa encerra a solicitacao
+ * 2. prompt forca a pergunta ao paciente, mesmo que um allow cubra o pedido
+ * 3. allow aprova automaticamente somente se cobrir todo o escopo pedido
+ * 4. sem politica aplicavel, o paciente decide (fluxo de consentimento normal)
+ *
+ * Toda avaliacao devolve a politica aplicada e uma explicacao em texto,
+ * que vai para a auditoria e para o app do paciente.
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+import type {
+  AccessAction,
+  AccessScope,
+  ActorId,
+  DataType,
+  EntityRole,
+  ServiceType,
+} from '@healthos/shared';
+import { resolveCompartments } from '../crypto';
+import { scopeCoversDataType } from '../scopes';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ConsentPolicyEffect = 'allow' | 'deny' | 'prompt';
+
+/** Quem a politica alcanca - todos os criterios informados precisam casar */
+export interface ConsentPolicyMatch {
+  entityActorIds?: ActorId[];
+  serviceActorIds?: ActorId[];
+  entityRoles?: EntityRole[];
+  serviceTypes?: ServiceType[];
+  /** Somente profissionais em PatientPreferences.favoriteProviders */
+  favoriteProviders?: boolean;
+}
+
+export interface ConsentPolicy {
+  id: string;
+  /** Nome dado pelo paciente ("Meu clinico na Clinica Y") */
+  name: string;
+  effect: ConsentPolicyEffect;
+  match: ConsentPolicyMatch;
+  /** Compartimentos alcancados pela politica */
+  dataTypes: DataType[];
+  /** allow: acoes aprovadas; deny/prompt: acoes afetadas (vazio = todas) */
+  actions: AccessAction[];
+  /** allow: duracao maxima aprovada automaticamente */
+  maxDurationSeconds?: number;
+  createdAt: Date;
+  expiresAt?: Date;
+}
+
+export type ConsentPolicyInput = Omit<ConsentPolicy, 'id' | 'createdAt'>;
+
+/** Solicitante, com papel e tipo de unidade confirmados nos proprios Actors */
+export interface ConsentRequester {
+  entityActorId: ActorId;
+  serviceActorId: ActorId;
+  entityRole: EntityRole;
+  serviceType: ServiceType;
+  favorite: boolean;
+}
+
+export type ConsentPolicyOutcome = 'auto_approve' | 'auto_deny' | 'prompt';
+
+export interface ConsentPolicyEvaluation {
+  outcome: ConsentPolicyOutcome;
+  policyId?: string;
+  policyName?: string;
+  /** Motivo legivel para o paciente */
+  explanation: string;
+}
+
+// =============================================================================
+// VALIDACAO
+// =============================================================================
+
+/**
+ * Valida uma politica antes de gravar
+ * allow precisa de alvo explicito e duracao maxima - nao existe "aprovar todo mundo"
+ */
+export function validateConsentPolicy(input: ConsentPolicyInput): void {
+  if (!input.name?.trim()) {
+    throw new ActorRpcError('invalid_request', 'Consent policy requires a name');
+  }
+  if (input.dataTypes.length === 0) {
+    throw new ActorRpcError('invalid_request', 'Consent policy requires at least one data type');
+  }
+
+  if (input.effect !== 'allow') {
+    return;
+  }
+
+  const { match } = input;
+  const hasTarget =
+    Boolean(match.entityActorIds?.length) ||
+    Boolean(match.serviceActorIds?.length) ||
+    match.favoriteProviders === true;
+  if (!hasTarget) {
+    throw new ActorRpcError(
+      'invalid_request',
+      'Allow policies must target specific entities, services or favorite providers'
+    );
+  }
+  if (input.actions.length === 0) {
+    throw new ActorRpcError('invalid_request', 'Allow policies require at least one action');
+  }
+  if (!input.maxDurationSeconds || input.maxDurationSeconds <= 0) {
+    throw new ActorRpcError('invalid_request', 'Allow policies require maxDurationSeconds');
+  }
+}
+
+// =============================================================================
+// AVALIACAO
+// =============================================================================
+
+/**
+ * Verifica se a politica alcanca o solicitante
+ */
+export function policyMatchesRequester(policy: ConsentPolicy, requester: ConsentRequester): boolean {
+  const { match } = policy;
+  if (match.entityActorIds && !match.entityActorIds.includes(requester.entityActorId)) return false;
+  if (match.serviceActorIds && !match.serviceActorIds.includes(requester.serviceActorId)) return false;
+  if (match.entityRoles && !match.entityRoles.includes(requester.entityRole)) return false;
+  if (match.serviceTypes && !match.serviceTypes.includes(requester.serviceType)) return false;
+  if (match.favoriteProviders && !requester.favorite) return false;
+  return true;
+}
+
+/**
+ * Avalia as politicas do paciente para uma solicitacao
+ */
+export function evaluateConsentPolicies(
+  policies: ConsentPolicy[],
+  requester: ConsentRequester,
+  scope: AccessScope,
+  now: Date = new Date()
+): ConsentPolicyEvaluation {
+  const applicable = policies.filter(
+    (p) => (!p.expiresAt || new Date(p.expiresAt) > now) && policyMatchesRequester(p, requester)
+  );
+
+  for (const policy of applicable.filter((p) => p.effect === 'deny')) {
+    const blocked = affectedDataTypes(policy, scope);
+    if (blocked.length > 0) {
+      return {
+        outcome: 'auto_deny',
+        policyId: policy.id,
+        policyName: policy.name,
+        explanation: `Negado pela política "${policy.name}": não compartilhar ${blocked.join(', ')}`,
+      };
+    }
+  }
+
+  for (const policy of applicable.filter((p) => p.effect === 'prompt')) {
+    if (affectedDataTypes(policy, scope).length > 0) {
+      return {
+        outcome: 'prompt',
+        policyId: policy.id,
+        policyName: policy.name,
+        explanation: `A política "${policy.name}" exige sua aprovação`,
+      };
+    }
+  }
+
+  const gaps: string[] = [];
+  for (const policy of applicable.filter((p) => p.effect === 'allow')) {
+    const missing = allowGaps(policy, scope);
+    if (missing.length === 0) {
+      return {
+        outcome: 'auto_approve',
+        policyId: policy.id,
+        policyName: policy.name,
+        explanation: `Aprovado pela política "${policy.name}"`,
+      };
+    }
+    gaps.push(`"${policy.name}" não cobre ${missing.join(', ')}`);
+  }
+
+  return {
+    outcome: 'prompt',
+    explanation:
+      gaps.length > 0
+        ? `Nenhuma política cobre o pedido inteiro (${gaps.join('; ')})`
+        : 'Nenhuma política permanente se aplica a este pedido',
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Compartimentos do pedido alcancados pela politica (considerando as acoes)
+ */
+function affectedDataTypes(policy: ConsentPolicy, scope: AccessScope): string[] {
+  if (policy.actions.length > 0 && !scope.actions.some((a) => policy.actions.includes(a))) {
+    return [];
+  }
+
+  const policyCompartments = new Set(resolveCompartments(policy.dataTypes));
+  return resolveCompartments(scope.dataTypes).filter((c) => policyCompartments.has(c));
+}
+
+/**
+ * O que falta para um allow cobrir o pedido (vazio = cobre)
+ */
+function allowGaps(policy: ConsentPolicy, scope: AccessScope): string[] {
+  const policyScope = { ...scope, dataTypes: policy.dataTypes };
+  const gaps: string[] = [];
+
+  const dataTypes = scope.dataTypes.filter((t) => !scopeCoversDataType(policyScope, t));
+  if (dataTypes.length > 0) gaps.push(dataTypes.join(', '));
+
+  const actions = scope.actions.filter((a) => !policy.actions.includes(a));
+  if (actions.length > 0) gaps.push(`ações ${actions.join(', ')}`);
+
+  if (scope.durationSeconds > (policy.maxDurationSeconds ?? 0)) {
+    gaps.push(`duração acima de ${Math.round((policy.maxDurationSeconds ?? 0) / 60)} min`);
+  }
+
+  return gaps;
+}
@@ -0,0 +1,631 @@
+/**
+ * HealthOS Crypto Module
+ *
+ * Envelope encryption dos dados do PatientActor usando WebCrypto:
+ *
+ * 1. Cada compartimento (demographics, consultations, ...) tem sua propria
+ *    chave de dados (DEK) AES-GCM-256
+ * 2. As DEKs nunca ficam em claro no estado do Actor - sao embrulhadas
+ *    (wrap) com a chave publica RSA-OAEP do paciente
+ * 3. Ao conceder acesso, o PatientActor gera uma chave de sessao AES-KW e
+ *    re-embrulha apenas as DEKs dos compartimentos do escopo
+ * 4. Quem recebe o AccessGrant so consegue abrir os compartimentos
+ *    cujas DEKs estao em grant.wrappedKeys
+ *
+ * A chave privada do paciente e guardada criptografada com uma chave
+ * derivada da senha (PBKDF2). Trocar a senha ou rotacionar o par de chaves
+ * so re-embrulha chaves - os compartimentos nao sao re-criptografados.
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+import type {
+  AccessGrant,
+  DataType,
+  EncryptedData,
+  KeyDerivationParams,
+  PatientRecord,
+  ClinicalRecordType,
+} from '@healthos/shared';
+import type { ClinicalRecordFields } from '../records';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Compartimentos de dados do paciente ('all' e apenas um atalho de escopo) */
+export type CompartmentType = Exclude<DataType, 'all'>;
+
+export const COMPARTMENTS: CompartmentType[] = [
+  'demographics',
+  'medical_history',
+  'consultations',
+  'prescriptions',
+  'exams',
+  'mental_health',
+];
+
+/** DEK de um compartimento, embrulhada com a chave publica do paciente */
+export interface CompartmentKey {
+  keyId: string;
+  wrappedKey: string;
+  createdAt: Date;
+}
+
+/** Chave de sessao recem-gerada (o valor codificado vai somente para o grantee) */
+export interface GeneratedSessionKey {
+  key: CryptoKey;
+  encoded: string;
+}
+
+// =============================================================================
+// ALGORITMOS
+// =============================================================================
+
+const AES_GCM_256 = { name: 'AES-GCM', length: 256 } as const;
+const AES_KW_256 = { name: 'AES-KW', length: 256 } as const;
+const RSA_OAEP_256 = { name: 'RSA-OAEP', hash: 'SHA-256' } as const;
+
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+const RSA_MODULUS_LENGTH = 3072;
+const ESCROW_INFO = 'healthos-emergency-escrow-v1';
+const FIELD_CONTEXT_INFO = 'healthos-field-v1';
+const AUDIT_CHECKPOINT_INFO = 'healthos-audit-checkpoint-v1';
+const SCRIPT_EXECUTION_INFO = 'healthos-script-execution-v1';
+
+/** Versao de EncryptedData amarrada ao contexto (additionalData do AES-GCM) */
+export const CONTEXT_BOUND_VERSION = 2;
+
+/** Iteracoes PBKDF2 (100k e o maximo aceito pelo WebCrypto dos Workers) */
+export const PBKDF2_ITERATIONS = 100_000;
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (const byte of view) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Resolve os compartimentos cobertos por uma lista de DataTypes
+ */
+export function resolveCompartments(dataTypes: DataType[]): CompartmentType[] {
+  if (dataTypes.includes('all')) {
+    return [...COMPARTMENTS];
+  }
+  return COMPARTMENTS.filter((c) => dataTypes.includes(c));
+}
+
+// =============================================================================
+// CHAVES DE DADOS (DEK)
+// =============================================================================
+
+/**
+ * Gera uma nova DEK AES-GCM-256
+ */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(AES_GCM_256, true, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+}
+
+/**
+ * Contexto de um documento de compartimento (additionalData do AES-GCM)
+ */
+export function compartmentContext(patientActorId: string, compartment: CompartmentType): string {
+  return [FIELD_CONTEXT_INFO, patientActorId, compartment].join('|');
+}
+
+/**
+ * Contexto de um campo de registro - o ciphertext so abre no mesmo paciente,
+ * registro e campo (copiar um campo para outro lugar falha na autenticacao)
+ */
+export function recordFieldContext(
+  patientActorId: string,
+  recordId: string,
+  field: string
+): string {
+  return [FIELD_CONTEXT_INFO, patientActorId, recordId, field].join('|');
+}
+
+/**
+ * Criptografa um valor JSON com uma DEK
+ * Com contexto, ele entra como additionalData e o resultado sai na versao 2
+ */
+export async function encryptJson(
+  dataKey: CryptoKey,
+  keyId: string,
+  value: unknown,
+  context?: string
+): Promise<EncryptedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value ?? null));
+  const ciphertext = await crypto.subtle.encrypt(aesGcmParams(iv, context), dataKey, plaintext);
+
+  return {
+    ciphertext: toBase64(ciphertext),
+    iv: toBase64(iv),
+    algorithm: 'AES-GCM-256',
+    keyId,
+    ...(context !== undefined ? { version: CONTEXT_BOUND_VERSION } : {}),
+  };
+}
+
+/**
+ * Descriptografa um EncryptedData com a DEK correspondente
+ * Dados da versao 1 (anteriores ao contexto) abrem sem additionalData
+ */
+export async function decryptJson<T = unknown>(
+  dataKey: CryptoKey,
+  data: EncryptedData,
+  context?: string
+): Promise<T> {
+  const bound = (data.version ?? 1) >= CONTEXT_BOUND_VERSION;
+  if (bound && context === undefined) {
+    throw new ActorRpcError('invalid_request', 'Encrypted data requires its encryption context');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    aesGcmParams(fromBase64(data.iv), bound ? context : undefined),
+    dataKey,
+    fromBase64(data.ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+function aesGcmParams(iv: Uint8Array, context?: string): AesGcmParams {
+  const additionalData = context !== undefined ? new TextEncoder().encode(context) : undefined;
+  return { name: 'AES-GCM', iv, ...(additionalData ? { additionalData } : {}) };
+}
+
+// =============================================================================
+// CHAVES DO PACIENTE (RSA-OAEP)
+// =============================================================================
+
+/**
+ * Importa a chave publica do paciente (SPKI em base64)
+ */
+export async function importPublicKey(spki: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('spki', fromBase64(spki), RSA_OAEP_256, false, [
+    'encrypt',
+    'wrapKey',
+  ]);
+}
+
+/**
+ * Embrulha uma DEK com a chave publica do paciente
+ */
+export async function wrapWithPublicKey(dataKey: CryptoKey, publicKey: CryptoKey): Promise<string> {
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, publicKey, RSA_OAEP_256);
+  return toBase64(wrapped);
+}
+
+/**
+ * Desembrulha uma DEK com a chave privada do paciente
+ */
+export async function unwrapWithPrivateKey(
+  wrappedKey: string,
+  privateKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    privateKey,
+    RSA_OAEP_256,
+    AES_GCM_256,
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Gera um novo par de chaves RSA-OAEP para o paciente
+ */
+export async function generatePatientKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    {
+      ...RSA_OAEP_256,
+      modulusLength: RSA_MODULUS_LENGTH,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  ) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * Exporta a chave publica do paciente (SPKI em base64)
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+  const spki = await crypto.subtle.exportKey('spki', publicKey);
+  return toBase64(spki as ArrayBuffer);
+}
+
+/**
+ * Fingerprint da chave publica - usado como keyId da chave privada criptografada
+ */
+export async function fingerprintPublicKey(spki: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64(spki));
+  return toBase64(digest);
+}
+
+// =============================================================================
+// CHAVE PRIVADA PROTEGIDA POR SENHA (PBKDF2)
+// =============================================================================
+
+/**
+ * Deriva a chave de embrulho a partir da senha do paciente
+ */
+export async function derivePasswordKey(
+  password: string,
+  params: KeyDerivationParams
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: fromBase64(params.salt),
+      iterations: params.iterations,
+    },
+    baseKey,
+    AES_GCM_256,
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Criptografa a chave privada do paciente com a senha
+ * Cada chamada usa um novo salt - usado no cadastro e na troca de senha
+ */
+export async function encryptPrivateKey(
+  privateKey: CryptoKey,
+  publicKey: string,
+  password: string
+): Promise<EncryptedData> {
+  const kdf: KeyDerivationParams = {
+    algorithm: 'PBKDF2-SHA256',
+    salt: toBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH))),
+    iterations: PBKDF2_ITERATIONS,
+  };
+  const passwordKey = await derivePasswordKey(password, kdf);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrapped = await crypto.subtle.wrapKey('pkcs8', privateKey, passwordKey, {
+    name: 'AES-GCM',
+    iv,
+  });
+
+  return {
+    ciphertext: toBase64(wrapped),
+    iv: toBase64(iv),
+    algorithm: 'AES-GCM-256',
+    keyId: await fingerprintPublicKey(publicKey),
+    kdf,
+  };
+}
+
+/**
+ * Descriptografa a chave privada do paciente com a senha
+ */
+export async function decryptPrivateKey(
+  encrypted: EncryptedData,
+  password: string
+): Promise<CryptoKey> {
+  if (!encrypted.kdf) {
+    throw new ActorRpcError('precondition_failed', 'Private key is not password protected');
+  }
+
+  const passwordKey = await derivePasswordKey(password, encrypted.kdf);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'pkcs8',
+      fromBase64(encrypted.ciphertext),
+      passwordKey,
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      RSA_OAEP_256,
+      true,
+      ['decrypt', 'unwrapKey']
+    );
+  } catch {
+    // AES-GCM falha na autenticacao quando a senha esta errada
+    throw new ActorRpcError('unauthorized', 'Invalid password');
+  }
+}
+
+/**
+ * Verifica que a chave privada criptografada pertence a chave publica
+ * e foi protegida com parametros de derivacao aceitaveis
+ */
+export async function verifyEncryptedPrivateKey(
+  publicKey: string,
+  encrypted: EncryptedData
+): Promise<void> {
+  if (encrypted.algorithm !== 'AES-GCM-256' || !encrypted.ciphertext || !encrypted.iv) {
+    throw new ActorRpcError('invalid_request', 'Malformed encrypted private key');
+  }
+
+  if (
+    encrypted.kdf?.algorithm !== 'PBKDF2-SHA256' ||
+    encrypted.kdf.iterations < PBKDF2_ITERATIONS ||
+    fromBase64(encrypted.kdf.salt).length < SALT_LENGTH
+  ) {
+    throw new ActorRpcError('invalid_request', 'Private key must be protected with PBKDF2-SHA256');
+  }
+
+  if (encrypted.keyId !== (await fingerprintPublicKey(publicKey))) {
+    throw new ActorRpcError('unauthorized', 'Encrypted private key does not match public key');
+  }
+}
+
+// =============================================================================
+// CHAVES DE SESSAO (AES-KW)
+// =============================================================================
+
+/**
+ * Gera uma chave de sessao para um AccessGrant
+ */
+export async function generateSessionKey(): Promise<GeneratedSessionKey> {
+  const key = (await crypto.subtle.generateKey(AES_KW_256, true, [
+    'wrapKey',
+    'unwrapKey',
+  ])) as CryptoKey;
+  const raw = await crypto.subtle.exportKey('raw', key);
+  return { key, encoded: toBase64(raw as ArrayBuffer) };
+}
+
+/**
+ * Importa uma chave de sessao recebida em um AccessGrant
+ */
+export async function importSessionKey(encoded: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64(encoded), AES_KW_256, false, [
+    'wrapKey',
+    'unwrapKey',
+  ]);
+}
+
+/**
+ * Hash da chave de sessao - o PatientActor guarda apenas o hash
+ */
+export async function hashSessionKey(encoded: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64(encoded));
+  return toBase64(digest);
+}
+
+/**
+ * Embrulha uma DEK com uma chave AES-KW (sessao ou escrow)
+ */
+export async function wrapWithKeyWrappingKey(
+  dataKey: CryptoKey,
+  wrappingKey: CryptoKey
+): Promise<string> {
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW');
+  return toBase64(wrapped);
+}
+
+/**
+ * Desembrulha uma DEK com uma chave AES-KW (sessao ou escrow)
+ */
+export async function unwrapWithKeyWrappingKey(
+  wrappedKey: string,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    wrappingKey,
+    'AES-KW',
+    AES_GCM_256,
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// =============================================================================
+// ESCROW DE EMERGENCIA
+// =============================================================================
+
+/**
+ * Deriva a chave de escrow de emergencia de um paciente
+ *
+ * Usada somente quando o paciente habilita emergencyAccess. Derivada via
+ * HKDF do segredo ENCRYPTION_KEY do Worker, com o ID do paciente como salt.
+ */
+export async function deriveEscrowKey(secret: string, patientId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(patientId),
+      info: encoder.encode(ESCROW_INFO),
+    },
+    baseKey,
+    AES_KW_256,
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+// =============================================================================
+// CHECKPOINTS DE AUDITORIA
+// =============================================================================
+
+/**
+ * Deriva a chave HMAC-SHA256 que assina os checkpoints do log de auditoria
+ * de um Actor (HKDF do ENCRYPTION_KEY com o ID do Actor como salt)
+ */
+export async function deriveAuditSigningKey(secret: string, actorId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(actorId),
+      info: encoder.encode(AUDIT_CHECKPOINT_INFO),
+    },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// =============================================================================
+// EXECUCOES DE SCRIPT
+// =============================================================================
+
+/**
+ * Deriva a chave AES-GCM que criptografa os registros de execucao de Script
+ * de um Stage (HKDF do ENCRYPTION_KEY com o ID do Stage como salt)
+ */
+export async function deriveExecutionKey(secret: string, stageId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(stageId),
+      info: encoder.encode(SCRIPT_EXECUTION_INFO),
+    },
+    baseKey,
+    AES_GCM_256,
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// =============================================================================
+// LADO DO GRANTEE
+// =============================================================================
+
+/**
+ * Obtem a DEK de um compartimento a partir de um AccessGrant
+ */
+export async function unwrapGrantKey(
+  grant: AccessGrant,
+  compartment: CompartmentType
+): Promise<CryptoKey> {
+  const grantKey = grant.wrappedKeys[compartment];
+  if (!grantKey) {
+    throw new ActorRpcError('forbidden', `Grant does not cover data type: ${compartment}`);
+  }
+
+  const sessionKey = await importSessionKey(grant.sessionKey);
+  return unwrapWithKeyWrappingKey(grantKey.wrappedKey, sessionKey);
+}
+
+/**
+ * Abre (descriptografa) um compartimento lido via PatientActor.readData
+ */
+export async function openCompartment<T = unknown>(
+  grant: AccessGrant,
+  compartment: CompartmentType,
+  data: EncryptedData
+): Promise<T> {
+  const dataKey = await unwrapGrantKey(grant, compartment);
+  return decryptJson<T>(dataKey, data, compartmentContext(grant.patientActorId, compartment));
+}
+
+/**
+ * Sela (criptografa) um valor para ser gravado via PatientActor.writeData
+ */
+export async function sealCompartment(
+  grant: AccessGrant,
+  compartment: CompartmentType,
+  value: unknown
+): Promise<EncryptedData> {
+  const dataKey = await unwrapGrantKey(grant, compartment);
+  return encryptJson(
+    dataKey,
+    grant.wrappedKeys[compartment]!.keyId,
+    value,
+    compartmentContext(grant.patientActorId, compartment)
+  );
+}
+
+/**
+ * Sela cada campo de um registro para PatientActor.appendRecord
+ * Campos sao criptografados separadamente para permitir mascaras por campo,
+ * cada um amarrado ao paciente, ao id do registro e ao nome do campo
+ */
+export async function sealRecordFields(
+  grant: AccessGrant,
+  compartment: CompartmentType,
+  recordId: string,
+  values: Record<string, unknown>
+): Promise<Record<string, EncryptedData>> {
+  const dataKey = await unwrapGrantKey(grant, compartment);
+  const keyId = grant.wrappedKeys[compartment]!.keyId;
+
+  const fields: Record<string, EncryptedData> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const context = recordFieldContext(grant.patientActorId, recordId, name);
+    fields[name] = await encryptJson(dataKey, keyId, value, context);
+  }
+  return fields;
+}
+
+/**
+ * Sela um registro clinico tipado - campos conferem com o tipo em tempo de compilacao
+ * Sem recordId (registro novo), gera o id que deve ir para appendRecord
+ */
+export async function sealClinicalRecord<T extends ClinicalRecordType>(
+  grant: AccessGrant,
+  compartment: CompartmentType,
+  recordType: T,
+  values: ClinicalRecordFields[T],
+  recordId: string = crypto.randomUUID()
+): Promise<{ id: string; recordType: T; fields: Record<string, EncryptedData> }> {
+  const fields = await sealRecordFields(grant, compartment, recordId, { ...values });
+  return { id: recordId, recordType, fields };
+}
+
+/**
+ * Abre os campos (liberados) de um registro lido via PatientActor.readRecords
+ */
+export async function openRecord(
+  grant: AccessGrant,
+  record: PatientRecord
+): Promise<Record<string, unknown>> {
+  const dataKey = await unwrapGrantKey(grant, record.dataType);
+
+  const values: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(record.fields)) {
+    const context = recordFieldContext(grant.patientActorId, record.id, name);
+    values[name] = await decryptJson(dataKey, field, context);
+  }
+  return values;
+}
@@ -0,0 +1,151 @@
+/**
+ * HealthOS Delegation
+ *
+ * Representantes (responsaveis, cuidadores, representantes legais) que agem
+ * sobre o PatientActor em nome do paciente:
+ *
+ * 1. O representante e outro PatientActor - prova identidade com a propria senha
+ * 2. Cada delegacao tem poderes e compartimentos proprios, alem de prazo
+ * 3. Delegacao de menor termina sozinha na maioridade (data de nascimento em claro)
+ * 4. Toda acao do representante sai na auditoria com o id do representante
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+import type { ActorId, DataType } from '@healthos/shared';
+import { resolveCompartments } from '../crypto';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProxyPower = 'approve_access' | 'read_summaries' | 'receive_notifications';
+
+export type ProxyRelationship = 'guardian' | 'caregiver' | 'legal_representative';
+
+/** Quem instituiu a delegacao */
+export type DelegationSource =
+  | { type: 'patient' }
+  | { type: 'court_order'; reference: string; serviceActorId: ActorId; registeredBy: ActorId };
+
+export type DelegationStatus = 'active' | 'revoked' | 'ended';
+
+export type DelegationEndReason = 'revoked' | 'renounced' | 'expired' | 'age_of_majority';
+
+export interface ProxyContact {
+  name: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface ProxyDelegation {
+  id: string;
+  proxyActorId: ActorId;
+  relationship: ProxyRelationship;
+  powers: ProxyPower[];
+  /** Compartimentos alcancados por approve_access */
+  dataTypes: DataType[];
+  source: DelegationSource;
+  contact: ProxyContact;
+  startsAt: Date;
+  expiresAt?: Date;
+  /** Encerra automaticamente quando o paciente atinge a maioridade */
+  endsAtMajority: boolean;
+  status: DelegationStatus;
+  createdAt: Date;
+  endedAt?: Date;
+  endReason?: DelegationEndReason;
+}
+
+export type ProxyDelegationInput = Pick<
+  ProxyDelegation,
+  'proxyActorId' | 'relationship' | 'powers' | 'dataTypes' | 'contact' | 'expiresAt' | 'endsAtMajority'
+> & { startsAt?: Date };
+
+// =============================================================================
+// CONSTANTES
+// =============================================================================
+
+/** Maioridade civil (Codigo Civil, art. 5o) */
+export const AGE_OF_MAJORITY = 18;
+
+// =============================================================================
+// REGRAS
+// =============================================================================
+
+/**
+ * Valida uma delegacao antes de gravar
+ */
+export function validateDelegation(
+  patientActorId: ActorId,
+  input: ProxyDelegationInput,
+  birthDate: Date | undefined,
+  now: Date = new Date()
+): void {
+  if (input.proxyActorId === patientActorId) {
+    throw new ActorRpcError('invalid_request', 'Patient cannot be their own proxy');
+  }
+  if (input.powers.length === 0) {
+    throw new ActorRpcError('invalid_request', 'Delegation requires at least one power');
+  }
+  if (input.powers.includes('approve_access') && input.dataTypes.length === 0) {
+    throw new ActorRpcError('invalid_request', 'approve_access requires at least one data type');
+  }
+  if (input.expiresAt && new Date(input.expiresAt) <= now) {
+    throw new ActorRpcError('invalid_request', 'Delegation expiry must be in the future');
+  }
+
+  if (input.endsAtMajority) {
+    if (!birthDate) {
+      throw new ActorRpcError(
+        'invalid_request',
+        'Patient birth date required for a delegation ending at majority'
+      );
+    }
+    if (majorityDate(birthDate) <= now) {
+      throw new ActorRpcError('invalid_request', 'Patient has already reached the age of majority');
+    }
+  }
+}
+
+/**
+ * Data em que o paciente atinge a maioridade
+ */
+export function majorityDate(birthDate: Date): Date {
+  const date = new Date(birthDate);
+  date.setUTCFullYear(date.getUTCFullYear() + AGE_OF_MAJORITY);
+  return date;
+}
+
+/**
+ * Quando a delegacao termina por prazo ou maioridade (o que vier primeiro)
+ */
+export function delegationEndsAt(
+  delegation: ProxyDelegation,
+  birthDate: Date | undefined
+): { endsAt: Date; reason: DelegationEndReason } | undefined {
+  const candidates: { endsAt: Date; reason: DelegationEndReason }[] = [];
+  if (delegation.expiresAt) {
+    candidates.push({ endsAt: new Date(delegation.expiresAt), reason: 'expired' });
+  }
+  if (delegation.endsAtMajority && birthDate) {
+    candidates.push({ endsAt: majorityDate(birthDate), reason: 'age_of_majority' });
+  }
+
+  return candidates.sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime())[0];
+}
+
+/**
+ * Verifica se a delegacao concede o poder (e os compartimentos, se informados)
+ */
+export function delegationAllows(
+  delegation: ProxyDelegation,
+  power: ProxyPower,
+  dataTypes: DataType[] = [],
+  now: Date = new Date()
+): boolean {
+  if (delegation.status !== 'active' || new Date(delegation.startsAt) > now) return false;
+  if (!delegation.powers.includes(power)) return false;
+
+  const delegated = new Set(resolveCompartments(delegation.dataTypes));
+  return resolveCompartments(dataTypes).every((c) => delegated.has(c));
+}
@@ -0,0 +1,602 @@
+/**
+ * HealthOS FHIR R4
+ *
+ * Mapeamento entre os registros clinicos do PatientActor e Bundles FHIR R4,
+ * para troca com prontuarios hospitalares:
+ *
+ * 1. Trabalha sobre dados ja abertos com o grant (openRecord/openCompartment) -
+ *    o PatientActor nunca ve o Bundle em claro
+ * 2. consultation -> Encounter + DocumentReference, diagnosis -> Condition,
+ *    prescription -> MedicationRequest (um por medicamento), exam_result -> Observation,
+ *    clinical_note -> DocumentReference
+ * 3. Bundles exportados e importados, e os campos de cada registro importado,
+ *    passam pelos schemas Zod de @healthos/shared
+ * 4. Recursos fora do subconjunto (ou invalidos) sao listados em skipped, nunca descartados em silencio
+ */
+
+import {
+  FhirBundleSchema,
+  FhirResourceSchema,
+  PatientDemographicsSchema,
+} from '@healthos/shared';
+import type {
+  ActorId,
+  ClinicalRecordType,
+  FhirBundle,
+  FhirCondition,
+  FhirDocumentReference,
+  FhirEncounter,
+  FhirMedicationRequest,
+  FhirObservation,
+  FhirPatient,
+  FhirResource,
+  PatientDemographics,
+  PatientRecord,
+} from '@healthos/shared';
+import { COMPARTMENTS, fromBase64, toBase64 } from '../crypto';
+import type { CompartmentType } from '../crypto';
+import { COMPARTMENT_RECORD_TYPES, parseRecordValues, validateRecordShape } from '../records';
+import type {
+  ClinicalRecordFields,
+  ConsultationFields,
+  DiagnosisFields,
+  ExamResultFields,
+  PrescriptionFields,
+} from '../records';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Registro com os campos ja abertos pelo grant */
+export interface DecryptedRecord {
+  record: PatientRecord;
+  values: Record<string, unknown>;
+}
+
+export interface FhirExportInput {
+  patientActorId: ActorId;
+  /** Somente se o grant cobre demographics */
+  demographics?: PatientDemographics;
+  records: DecryptedRecord[];
+}
+
+/** Registro pronto para sealClinicalRecord + appendRecord */
+export interface ImportedRecord<T extends ClinicalRecordType = ClinicalRecordType> {
+  dataType: CompartmentType;
+  recordType: T;
+  recordedAt: Date;
+  tags: string[];
+  values: ClinicalRecordFields[T];
+  /** Recursos de origem (resourceType/id) */
+  sources: string[];
+}
+
+export interface FhirSkippedResource {
+  resourceType: string;
+  id?: string;
+  reason: string;
+}
+
+export interface FhirImportResult {
+  records: ImportedRecord[];
+  skipped: FhirSkippedResource[];
+}
+
+// =============================================================================
+// SISTEMAS DE CODIFICACAO
+// =============================================================================
+
+export const FHIR_SYSTEMS = {
+  record: 'urn:healthos:record',
+  compartment: 'urn:healthos:compartment',
+  tag: 'urn:healthos:tag',
+  cpf: 'http://www.saude.gov.br/fhir/r4/NamingSystem/cpf',
+  cns: 'http://www.saude.gov.br/fhir/r4/NamingSystem/cns',
+  icd10: 'http://hl7.org/fhir/sid/icd-10',
+  actCode: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+  loinc: 'http://loinc.org',
+  conditionClinical: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+  conditionVerification: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+} as const;
+
+/** LOINC 11488-4 - Consult note */
+const CONSULT_NOTE_CODE = '11488-4';
+
+/** Compartimento padrao quando o Bundle nao traz a tag da HealthOS */
+const DEFAULT_COMPARTMENT: Record<ClinicalRecordType, CompartmentType> = {
+  consultation: 'consultations',
+  prescription: 'prescriptions',
+  exam_result: 'exams',
+  diagnosis: 'medical_history',
+  clinical_note: 'medical_history',
+};
+
+// =============================================================================
+// EXPORTACAO
+// =============================================================================
+
+/**
+ * Monta um Bundle collection com o que o grant liberou
+ */
+export function exportFhirBundle(input: FhirExportInput, now: Date = new Date()): FhirBundle {
+  const patientRef = `Patient/${input.patientActorId}`;
+  const resources: FhirResource[] = [];
+
+  if (input.demographics) {
+    resources.push(toFhirPatient(input.patientActorId, input.demographics));
+  }
+
+  for (const { record, values } of input.records) {
+    resources.push(...toFhirResources(record, values, patientRef));
+  }
+
+  return FhirBundleSchema.parse({
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: resources.map((resource) => ({
+      fullUrl: `urn:uuid:${resource.resourceType}-${resource.id}`,
+      resource,
+    })),
+  });
+}
+
+/**
+ * Valida demographics aberto do compartimento (documento livre) antes de exportar
+ */
+export function parseDemographics(value: unknown): PatientDemographics | undefined {
+  const result = PatientDemographicsSchema.safeParse(value);
+  return result.success ? result.data : undefined;
+}
+
+function toFhirPatient(patientActorId: ActorId, demographics: PatientDemographics): FhirPatient {
+  const identifier = [
+    ...(demographics.cpf ? [{ system: FHIR_SYSTEMS.cpf, value: demographics.cpf }] : []),
+    ...(demographics.cns ? [{ system: FHIR_SYSTEMS.cns, value: demographics.cns }] : []),
+  ];
+  const telecom = [
+    ...(demographics.phone ? [{ system: 'phone', value: demographics.phone }] : []),
+    ...(demographics.email ? [{ system: 'email', value: demographics.email }] : []),
+  ];
+  const address = demographics.address;
+
+  return {
+    resourceType: 'Patient',
+    id: patientActorId,
+    identifier,
+    name: [{ text: demographics.fullName }],
+    gender: demographics.gender === 'not_informed' ? 'unknown' : demographics.gender,
+    birthDate: isoDate(demographics.birthDate),
+    telecom,
+    address: address
+      ? [{
+          line: [[address.street, address.number, address.complement].filter(Boolean).join(', ')],
+          district: address.neighborhood,
+          city: address.city,
+          state: address.state,
+          postalCode: address.zipCode,
+        }]
+      : undefined,
+  };
+}
+
+function toFhirResources(
+  record: PatientRecord,
+  values: Record<string, unknown>,
+  patientRef: string
+): FhirResource[] {
+  const base = {
+    meta: {
+      versionId: String(record.version),
+      lastUpdated: new Date(record.amendedAt ?? record.createdAt).toISOString(),
+      tag: [
+        { system: FHIR_SYSTEMS.compartment, code: record.dataType },
+        ...record.tags.map((code) => ({ system: FHIR_SYSTEMS.tag, code })),
+      ],
+    },
+    identifier: [{ system: FHIR_SYSTEMS.record, value: record.id }],
+  };
+  const recordedAt = new Date(record.recordedAt).toISOString();
+
+  switch (record.recordType) {
+    case 'consultation': {
+      const fields = values as unknown as ConsultationFields;
+      const encounter: FhirEncounter = {
+        ...base,
+        resourceType: 'Encounter',
+        id: record.id,
+        status: 'finished',
+        class: { system: FHIR_SYSTEMS.actCode, code: 'AMB', display: 'ambulatory' },
+        subject: { reference: patientRef },
+        period: { start: recordedAt },
+        reasonCode: fields.chiefComplaint ? [{ text: fields.chiefComplaint }] : undefined,
+      };
+      const note = toDocumentReference(record.id, base, patientRef, recordedAt, {
+        type: { coding: [{ system: FHIR_SYSTEMS.loinc, code: CONSULT_NOTE_CODE, display: 'Consult note' }] },
+        contentType: 'application/json',
+        data: JSON.stringify(fields),
+        encounterId: record.id,
+      });
+      return [encounter, note];
+    }
+
+    case 'diagnosis': {
+      const fields = values as unknown as DiagnosisFields;
+      const condition: FhirCondition = {
+        ...base,
+        resourceType: 'Condition',
+        id: record.id,
+        clinicalStatus: {
+          coding: [{
+            system: FHIR_SYSTEMS.conditionClinical,
+            code: fields.status === 'resolved' ? 'resolved' : 'active',
+          }],
+        },
+        verificationStatus: {
+          coding: [{
+            system: FHIR_SYSTEMS.conditionVerification,
+            code: fields.status === 'suspected' ? 'provisional' : 'confirmed',
+          }],
+        },
+        code: {
+          coding: [{ system: FHIR_SYSTEMS.icd10, code: fields.code, display: fields.description }],
+          text: fields.description,
+        },
+        subject: { reference: patientRef },
+        recordedDate: recordedAt,
+      };
+      return [condition];
+    }
+
+    case 'prescription': {
+      const fields = values as unknown as PrescriptionFields;
+      return fields.medications.map((medication, index): FhirMedicationRequest => ({
+        ...base,
+        resourceType: 'MedicationRequest',
+        id: `${record.id}-${index}`,
+        status: 'active',
+        intent: 'order',
+        medicationCodeableConcept: { text: medication.name },
+        subject: { reference: patientRef },
+        authoredOn: recordedAt,
+        groupIdentifier: { system: FHIR_SYSTEMS.record, value: record.id },
+        dosageInstruction: [{
+          text: medication.dosage,
+          timing: { code: { text: medication.frequency } },
+          additionalInstruction: medication.duration ? [{ text: medication.duration }] : undefined,
+        }],
+        note: fields.instructions ? [{ text: fields.instructions }] : undefined,
+      }));
+    }
+
+    case 'exam_result': {
+      const fields = values as unknown as ExamResultFields;
+      const numeric = Number(fields.result.replace(',', '.'));
+      const observation: FhirObservation = {
+        ...base,
+        resourceType: 'Observation',
+        id: record.id,
+        status: 'final',
+        code: { text: fields.exam },
+        subject: { reference: patientRef },
+        effectiveDateTime: recordedAt,
+        ...(fields.unit && Number.isFinite(numeric)
+          ? { valueQuantity: { value: numeric, unit: fields.unit } }
+          : { valueString: fields.result }),
+        referenceRange: fields.referenceRange ? [{ text: fields.referenceRange }] : undefined,
+      };
+      return [observation];
+    }
+
+    case 'clinical_note': {
+      return [
+        toDocumentReference(record.id, base, patientRef, recordedAt, {
+          contentType: 'text/plain',
+          data: String(values.text ?? ''),
+        }),
+      ];
+    }
+  }
+}
+
+function toDocumentReference(
+  recordId: string,
+  base: Pick<FhirDocumentReference, 'meta' | 'identifier'>,
+  patientRef: string,
+  date: string,
+  content: {
+    contentType: string;
+    data: string;
+    type?: FhirDocumentReference['type'];
+    encounterId?: string;
+  }
+): FhirDocumentReference {
+  return {
+    ...base,
+    resourceType: 'DocumentReference',
+    id: content.encounterId ? `${recordId}-note` : recordId,
+    status: 'current',
+    type: content.type,
+    subject: { reference: patientRef },
+    date,
+    content: [{
+      attachment: { contentType: content.contentType, data: encodeText(content.data) },
+    }],
+    context: content.encounterId
+      ? { encounter: [{ reference: `Encounter/${content.encounterId}` }] }
+      : undefined,
+  };
+}
+
+// =============================================================================
+// IMPORTACAO
+// =============================================================================
+
+/**
+ * Converte um Bundle em registros prontos para gravar
+ * Patient nao e importado - demographics e mantido pelo proprio paciente
+ */
+export function importFhirBundle(bundle: unknown): FhirImportResult {
+  const parsed = FhirBundleSchema.parse(bundle);
+  const records: ImportedRecord[] = [];
+  const skipped: FhirSkippedResource[] = [];
+
+  const resources: FhirResource[] = [];
+  for (const entry of parsed.entry) {
+    const result = FhirResourceSchema.safeParse(entry.resource);
+    if (result.success) {
+      resources.push(result.data);
+    } else {
+      skipped.push({
+        resourceType: entry.resource.resourceType,
+        id: typeof entry.resource.id === 'string' ? entry.resource.id : undefined,
+        reason: isSupportedResourceType(entry.resource.resourceType)
+          ? `Invalid resource: ${result.error.issues[0]?.message ?? 'schema mismatch'}`
+          : 'Unsupported resource type',
+      });
+    }
+  }
+
+  // Notas ligadas a um Encounter viram o corpo da consulta, nao registros separados
+  const notesByEncounter = new Map<string, FhirDocumentReference>();
+  for (const resource of resources) {
+    if (resource.resourceType !== 'DocumentReference') continue;
+    const encounterRef = resource.context?.encounter?.[0]?.reference;
+    if (encounterRef?.startsWith('Encounter/')) {
+      notesByEncounter.set(encounterRef.slice('Encounter/'.length), resource);
+    }
+  }
+  const linkedNotes = new Set(notesByEncounter.values());
+
+  const prescriptions = new Map<string, FhirMedicationRequest[]>();
+
+  for (const resource of resources) {
+    switch (resource.resourceType) {
+      case 'Patient':
+        skipped.push({
+          resourceType: 'Patient',
+          id: resource.id,
+          reason: 'Demographics are managed by the patient and not imported',
+        });
+        break;
+
+      case 'Encounter':
+        collect(records, skipped, resource, () =>
+          fromEncounter(resource, resource.id ? notesByEncounter.get(resource.id) : undefined)
+        );
+        break;
+
+      case 'DocumentReference':
+        if (!linkedNotes.has(resource)) {
+          collect(records, skipped, resource, () => fromDocumentReference(resource));
+        }
+        break;
+
+      case 'Condition':
+        collect(records, skipped, resource, () => fromCondition(resource));
+        break;
+
+      case 'Observation':
+        collect(records, skipped, resource, () => fromObservation(resource));
+        break;
+
+      case 'MedicationRequest': {
+        const group = resource.groupIdentifier?.value ?? resource.id ?? crypto.randomUUID();
+        prescriptions.set(group, [...(prescriptions.get(group) ?? []), resource]);
+        break;
+      }
+    }
+  }
+
+  for (const group of prescriptions.values()) {
+    collect(records, skipped, group[0], () => fromMedicationRequests(group));
+  }
+
+  return { records, skipped };
+}
+
+function collect(
+  records: ImportedRecord[],
+  skipped: FhirSkippedResource[],
+  resource: FhirResource,
+  convert: () => ImportedRecord
+): void {
+  try {
+    const record = convert();
+    record.values = parseRecordValues(record.recordType, record.values);
+    validateRecordShape(record.dataType, record.recordType, Object.keys(record.values));
+    records.push(record);
+  } catch (error) {
+    skipped.push({
+      resourceType: resource.resourceType,
+      id: resource.id,
+      reason: error instanceof Error ? error.message : 'Conversion failed',
+    });
+  }
+}
+
+function fromEncounter(
+  encounter: FhirEncounter,
+  note: FhirDocumentReference | undefined
+): ImportedRecord<'consultation'> {
+  const chiefComplaint = encounter.reasonCode?.[0]?.text ?? encounter.reasonCode?.[0]?.coding?.[0]?.display;
+  const attachment = note?.content[0].attachment;
+  const body = attachment?.data ? decodeText(attachment.data) : undefined;
+
+  let values: ConsultationFields;
+  if (body && attachment?.contentType === 'application/json') {
+    values = parseRecordValues('consultation', parseJsonNote(body));
+  } else {
+    values = { summary: body ?? note?.description ?? chiefComplaint ?? 'Atendimento importado' };
+    if (chiefComplaint) values.chiefComplaint = chiefComplaint;
+  }
+
+  return {
+    ...recordMetadata(encounter, 'consultation', encounter.period?.start),
+    values,
+    sources: [sourceOf(encounter), ...(note ? [sourceOf(note)] : [])],
+  };
+}
+
+function fromDocumentReference(document: FhirDocumentReference): ImportedRecord<'clinical_note'> {
+  const attachment = document.content[0].attachment;
+  const text = attachment.data ? decodeText(attachment.data) : document.description;
+  if (!text) {
+    throw new Error('DocumentReference without inline content');
+  }
+
+  return {
+    ...recordMetadata(document, 'clinical_note', document.date),
+    values: { text },
+    sources: [sourceOf(document)],
+  };
+}
+
+function fromCondition(condition: FhirCondition): ImportedRecord<'diagnosis'> {
+  const codings = condition.code?.coding ?? [];
+  const coding = codings.find((c) => c.system === FHIR_SYSTEMS.icd10) ?? codings[0];
+  if (!coding?.code) {
+    throw new Error('Condition without a code');
+  }
+
+  const clinical = condition.clinicalStatus?.coding?.[0]?.code;
+  const verification = condition.verificationStatus?.coding?.[0]?.code;
+  const status: DiagnosisFields['status'] =
+    verification === 'provisional' || verification === 'differential'
+      ? 'suspected'
+      : clinical === 'resolved' || clinical === 'inactive' || clinical === 'remission'
+        ? 'resolved'
+        : 'active';
+
+  return {
+    ...recordMetadata(condition, 'diagnosis', condition.recordedDate),
+    values: {
+      code: coding.code,
+      description: condition.code?.text ?? coding.display ?? coding.code,
+      status,
+    },
+    sources: [sourceOf(condition)],
+  };
+}
+
+function fromObservation(observation: FhirObservation): ImportedRecord<'exam_result'> {
+  const exam = observation.code.text ?? observation.code.coding?.[0]?.display ?? observation.code.coding?.[0]?.code;
+  const result =
+    observation.valueString ??
+    (observation.valueQuantity?.value !== undefined ? String(observation.valueQuantity.value) : undefined);
+  if (!exam || result === undefined) {
+    throw new Error('Observation without exam name or value');
+  }
+
+  const values: ExamResultFields = { exam, result };
+  if (observation.valueQuantity?.unit) values.unit = observation.valueQuantity.unit;
+  if (observation.referenceRange?.[0]?.text) values.referenceRange = observation.referenceRange[0].text;
+
+  return {
+    ...recordMetadata(observation, 'exam_result', observation.effectiveDateTime),
+    values,
+    sources: [sourceOf(observation)],
+  };
+}
+
+function fromMedicationRequests(requests: FhirMedicationRequest[]): ImportedRecord<'prescription'> {
+  const medications = requests.map((request) => {
+    const dosage = request.dosageInstruction?.[0];
+    const name =
+      request.medicationCodeableConcept?.text ?? request.medicationCodeableConcept?.coding?.[0]?.display;
+    if (!name) {
+      throw new Error('MedicationRequest without medication');
+    }
+    return {
+      name,
+      dosage: dosage?.text ?? '',
+      frequency: dosage?.timing?.code?.text ?? '',
+      ...(dosage?.additionalInstruction?.[0]?.text
+        ? { duration: dosage.additionalInstruction[0].text }
+        : {}),
+    };
+  });
+
+  const instructions = requests[0].note?.[0]?.text;
+  const values: PrescriptionFields = instructions ? { medications, instructions } : { medications };
+
+  return {
+    ...recordMetadata(requests[0], 'prescription', requests[0].authoredOn),
+    values,
+    sources: requests.map(sourceOf),
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function recordMetadata<T extends ClinicalRecordType>(
+  resource: FhirResource,
+  recordType: T,
+  date: string | undefined
+): Pick<ImportedRecord<T>, 'dataType' | 'recordType' | 'recordedAt' | 'tags'> {
+  const tags = resource.meta?.tag ?? [];
+  const tagged = tags.find((t) => t.system === FHIR_SYSTEMS.compartment)?.code as CompartmentType | undefined;
+  const dataType =
+    tagged && COMPARTMENTS.includes(tagged) && COMPARTMENT_RECORD_TYPES[tagged].includes(recordType)
+      ? tagged
+      : DEFAULT_COMPARTMENT[recordType];
+
+  return {
+    dataType,
+    recordType,
+    recordedAt: date ? new Date(date) : new Date(),
+    tags: tags.filter((t) => t.system === FHIR_SYSTEMS.tag && t.code).map((t) => t.code!),
+  };
+}
+
+function parseJsonNote(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error('Consultation note is not valid JSON');
+  }
+}
+
+function isSupportedResourceType(resourceType: string): boolean {
+  return FhirResourceSchema.options.some((o) => o.shape.resourceType.value === resourceType);
+}
+
+function sourceOf(resource: FhirResource): string {
+  return `${resource.resourceType}/${resource.id ?? '?'}`;
+}
+
+function isoDate(date: Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function encodeText(text: string): string {
+  return toBase64(new TextEncoder().encode(text));
+}
+
+function decodeText(data: string): string {
+  return new TextDecoder().decode(fromBase64(data));
+}
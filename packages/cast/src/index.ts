@@ -13,6 +13,7 @@
 export { Cast } from './cast';
 export type {
   CastRequest,
+  CastStreamEvent,
   CastResponse,
   OrchestratorDecision,
   CastState,
@@ -21,16 +22,203 @@ export type {
   StageSession,
   StageFactory,
   IStage,
+  StageScriptRuntime,
   Env,
+  ConsentDecision,
+  ConsentResolution,
+  ProxyCredentials,
+  ProxyAuthorization,
+  FhirImportSummary,
+  RecordAmendmentInput,
 } from './cast';
 
+// Autenticacao (token Bearer do chamador)
+export { signCallerToken, verifyCallerToken, readBearerToken, CALLER_TOKEN_TTL_SECONDS } from './auth';
+export type { AuthenticatedCaller, CallerToken } from './auth';
+
 // Actors Universais
 export { PatientActor, BaseActor } from './actors/patient';
-export type { ActorState } from './actors/patient';
+export type {
+  ActorState,
+  StoredGrant,
+  AccessRequest,
+  AccessRequestStatus,
+  AccessRequestResult,
+  BreakGlassReview,
+  BreakGlassReviewStatus,
+  EmergencyContact,
+  GrantRenewalPolicy,
+  ProxySummary,
+} from './actors/patient';
 export { EntityActor, ServiceActor } from './actors/entity-service';
-export { BasePropActor, PropActors } from './actors/prop';
+export type {
+  PatientAccessResult,
+  PrivacyOfficer,
+  ServiceProfile,
+  EntityProfile,
+} from './actors/entity-service';
+export { BasePropActor, PropActors, RNDSProp } from './actors/prop';
 export type { PropConfig } from './actors/prop';
 
+// Execucoes de Script dos Stages (Durable Object por Stage)
+export {
+  ScriptExecutions,
+  DurableScriptExecutionStore,
+  EXECUTION_STALL_MS,
+  EXECUTION_RETENTION_MS,
+} from './actors/script-executions';
+
+// Crypto (envelope encryption)
+export {
+  openCompartment,
+  sealCompartment,
+  openRecord,
+  sealRecordFields,
+  sealClinicalRecord,
+  COMPARTMENTS,
+} from './crypto';
+export type { CompartmentType, CompartmentKey } from './crypto';
+
+// Escopo fino (registros e campos)
+export { applyRecordFilters, recordMatchesFilter } from './scopes';
+export type { ReleasedRecord } from './scopes';
+
+// Registros clinicos (tipos, campos obrigatorios, retificacao)
+export {
+  validateRecordShape,
+  parseRecordValues,
+  RECORD_REQUIRED_FIELDS,
+  COMPARTMENT_RECORD_TYPES,
+  MIN_AMENDMENT_REASON_LENGTH,
+} from './records';
+export type {
+  ClinicalRecordFields,
+  ConsultationFields,
+  PrescriptionFields,
+  ExamResultFields,
+  DiagnosisFields,
+  ClinicalNoteFields,
+} from './records';
+
+// RNDS (documentos nos perfis FHIR brasileiros)
+export {
+  buildRacBundle,
+  buildRacFromGeneratedDocument,
+  buildRelBundle,
+  buildRiaBundle,
+  validateRndsBundle,
+  isValidCns,
+  isValidCnes,
+  HttpRndsTransport,
+  LocalRndsTransport,
+  RNDS_PROFILES,
+  RNDS_SYSTEMS,
+  RNDS_MAX_ATTEMPTS,
+  rndsRetryDelayMs,
+} from './rnds';
+export type {
+  RndsDocumentType,
+  RndsContext,
+  GeneratedDocument,
+  RndsImmunizationInput,
+  RndsProfileDefinition,
+  RndsResourceRule,
+  RndsValidationIssue,
+  RndsValidationResult,
+  RndsTransport,
+  RndsTransportResult,
+  RndsSubmission,
+  RndsSubmissionStatus,
+} from './rnds';
+
+// FHIR R4 (troca com prontuarios hospitalares)
+export { exportFhirBundle, importFhirBundle, parseDemographics, FHIR_SYSTEMS } from './fhir';
+export type {
+  DecryptedRecord,
+  FhirExportInput,
+  FhirImportResult,
+  FhirSkippedResource,
+  ImportedRecord,
+} from './fhir';
+
+// Politicas permanentes de consentimento
+export { evaluateConsentPolicies, validateConsentPolicy } from './consent';
+export type {
+  ConsentPolicy,
+  ConsentPolicyInput,
+  ConsentPolicyEffect,
+  ConsentPolicyMatch,
+  ConsentPolicyEvaluation,
+} from './consent';
+
+// Representantes (responsaveis, cuidadores, representantes legais)
+export { AGE_OF_MAJORITY, delegationAllows, delegationEndsAt } from './delegation';
+export type {
+  ProxyDelegation,
+  ProxyDelegationInput,
+  ProxyPower,
+  ProxyRelationship,
+  ProxyContact,
+  DelegationSource,
+  DelegationStatus,
+  DelegationEndReason,
+} from './delegation';
+
+// Audit trail (cadeia de hashes)
+export { hashAuditEntry, verifyAuditChain, AUDIT_GENESIS_HASH } from './audit';
+export type {
+  AuditChainState,
+  AuditCheckpoint,
+  AuditArchive,
+  AuditChainVerification,
+  AuditChainBreak,
+} from './audit';
+
+// Persistencia do estado dos Actors (storage do Durable Object)
+export {
+  loadActorState,
+  persistActorState,
+  currentSchemaVersion,
+  serializeValue,
+  deserializeValue,
+  STATE_META_KEY,
+} from './storage';
+export type { StateMigration, StateSnapshot, LoadedActorState } from './storage';
+
+// RPC entre Cast e Actors (contratos em @healthos/shared)
+export { ActorRpcError, createActorClient, connectActor, dispatchActorRpc, toRpcError } from './rpc';
+export type {
+  ActorClient,
+  ActorRpcStub,
+  PatientActorClient,
+  EntityActorClient,
+  ServiceActorClient,
+  ScriptExecutionsClient,
+} from './rpc';
+
+// Bindings em memoria (execucao local e testes)
+export {
+  InMemoryDurableObjectNamespace,
+  InMemoryDurableObjectStorage,
+  LocalDurableObjectState,
+  LocalDurableObjectId,
+  InMemoryKVNamespace,
+  InMemoryQueue,
+  InMemoryR2Bucket,
+} from './local';
+export type { LocalActorFactory, LocalQueueOptions, QueueDrainResult } from './local';
+
+// Transparencia (relatorio de acessos do paciente)
+export { buildAccessReport, exportAccessReport } from './transparency';
+export type {
+  AccessReport,
+  AccessReportItem,
+  AccessReportOptions,
+  AccessReportFormat,
+  AccessReportExport,
+  BusinessHours,
+} from './transparency';
+
 // Onboarding
 export { OnboardingManager } from './onboarding';
 export type {
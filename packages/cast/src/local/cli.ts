@@ -0,0 +1,183 @@
+/**
+ * HealthOS Local CLI
+ *
+ * Sobe o Worker do Cast num servidor HTTP do Node com os bindings locais:
+ *
+ *   pnpm --filter @healthos/cast local -- --stages ../../stages --seed seed.json
+ *
+ * Opcoes:
+ *   --port      porta HTTP (8787, a mesma do wrangler dev)
+ *   --host      interface (127.0.0.1)
+ *   --stages    diretorio com manifests de Stage (stages)
+ *   --seed      JSON com Services, Entities e Patients (LocalSeed)
+ *   --data-dir  persiste KV, R2 e Durable Objects em disco (sem ele, tudo some ao sair)
+ *   --tick      intervalo em ms da entrega das filas e alarms (1000)
+ *   --fixtures  JSON com LLMFixture[] - todos os modelos passam a usar o mock
+ *
+ * Chaves de LLM (ANTHROPIC_API_KEY, OPENAI_API_KEY, ...) vem do ambiente.
+ * Com --seed, imprime tokens de chamador (Bearer) para os profissionais e
+ * unidades do seed - pacientes pedem o seu em POST /api/auth/token.
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { StageFactory } from '@healthos/stage';
+import { ScriptedLLMProvider, createLLMProviders } from '@healthos/shared';
+import type { ActorId, LLMFixture } from '@healthos/shared';
+import worker, { Cast } from '../cast';
+import type { StageFactory as CastStageFactory } from '../cast';
+import { createLocalRuntime, loadStageManifests, seedLocalRuntime } from './node';
+import type { LocalSeed } from './node';
+import { signCallerToken } from '../auth';
+
+// =============================================================================
+// BOOT
+// =============================================================================
+
+/** Variaveis do ambiente repassadas ao Env */
+const ENV_VARS = [
+  'ENCRYPTION_KEY',
+  'AUTH_SECRET',
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'OPENAI_BASE_URL',
+  'GEMINI_API_KEY',
+  'OLLAMA_BASE_URL',
+  'LLM_PROVIDER',
+];
+
+/** Validade dos tokens impressos para o seed (um dia de desenvolvimento) */
+const LOCAL_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      stages: { type: 'string', default: 'stages' },
+      seed: { type: 'string' },
+      'data-dir': { type: 'string' },
+      tick: { type: 'string', default: '1000' },
+      fixtures: { type: 'string' },
+    },
+  });
+
+  const runtime = createLocalRuntime({
+    dataDir: values['data-dir'],
+    vars: Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]])),
+  });
+
+  // Com fixtures, Personas e orquestrador respondem offline pelo mock
+  if (values.fixtures) {
+    runtime.env.LLM_PROVIDER = 'mock';
+  }
+  const llmProviders = createLLMProviders(runtime.env);
+  if (values.fixtures) {
+    const fixtures = JSON.parse(await readFile(values.fixtures, 'utf8')) as LLMFixture[];
+    llmProviders.register(new ScriptedLLMProvider(fixtures));
+  }
+
+  // Um Cast para o processo inteiro - os Stages registrados ficam na memoria dele
+  const cast = new Cast(runtime.env);
+  const stageFactory = new StageFactory({ ...runtime.env });
+  stageFactory.setLLMProviders(llmProviders);
+  cast.setStageFactory(stageFactory as unknown as CastStageFactory);
+  cast.setLLMProviders(llmProviders);
+  await cast.initialize();
+
+  if (existsSync(values.stages)) {
+    for (const manifest of await loadStageManifests(values.stages)) {
+      await cast.registerStage(manifest);
+      console.log(`Stage registered: ${manifest.id}`);
+    }
+  } else {
+    console.warn(`Stages directory not found: ${values.stages}`);
+  }
+
+  if (values.seed) {
+    const seed = JSON.parse(await readFile(values.seed, 'utf8')) as LocalSeed;
+    await seedLocalRuntime(cast, seed);
+    console.log(
+      `Seeded ${seed.services?.length ?? 0} services, ${seed.entities?.length ?? 0} entities, ` +
+        `${seed.patients?.length ?? 0} patients`
+    );
+
+    // Faz o papel do provedor de identidade para os Actors do seed
+    const callers = [
+      ...(seed.entities ?? []).map((entity) => ({ actorId: entity.id as ActorId, actorType: 'entity' as const })),
+      ...(seed.services ?? []).map((service) => ({ actorId: service.id as ActorId, actorType: 'service' as const })),
+    ];
+    for (const caller of callers) {
+      const { token } = await signCallerToken(caller, runtime.env.AUTH_SECRET, LOCAL_TOKEN_TTL_SECONDS);
+      console.log(`Token ${caller.actorType} ${caller.actorId}: ${token}`);
+    }
+  }
+
+  const server = createServer((req, res) => {
+    serve(cast, req, res).catch((error) => {
+      console.error('Request error:', error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  const timer = setInterval(() => {
+    runtime
+      .tick({
+        events: (batch) => worker.consume(cast, batch),
+        notifications: async (batch) => {
+          for (const message of batch.messages) {
+            console.log('Notification:', JSON.stringify(message.body));
+          }
+        },
+      })
+      .catch((error) => console.error('Tick error:', error));
+  }, Number(values.tick));
+
+  const shutdown = () => {
+    clearInterval(timer);
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  server.listen(Number(values.port), values.host, () => {
+    console.log(`HealthOS Cast (local) listening on http://${values.host}:${values.port}`);
+  });
+}
+
+// =============================================================================
+// HTTP
+// =============================================================================
+
+/**
+ * IncomingMessage -> Request, Response -> ServerResponse
+ */
+async function serve(cast: Cast, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+
+  const request = new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+  });
+
+  const response = await worker.handle(cast, request);
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
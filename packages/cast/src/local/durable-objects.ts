@@ -0,0 +1,311 @@
+/**
+ * Durable Objects em memoria
+ *
+ * Namespace, estado e storage de Durable Objects para exercitar a cadeia
+ * Cast -> ServiceActor -> PatientActor fora do Workers:
+ *
+ * 1. Cada nome (idFromName) tem uma unica instancia, criada na primeira chamada
+ * 2. O stub espera o blockConcurrencyWhile do construtor antes de cada chamada
+ * 3. Argumentos e resultados passam por structuredClone - como no RPC real,
+ *    nada e compartilhado por referencia entre os Actors
+ * 4. Alarms ficam registrados no storage e disparam com runDueAlarms()
+ * 5. O storage pode vir de fora (node.ts grava em arquivo com --data-dir):
+ *    cada mutacao - ou a transacao inteira - termina em changed()
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Cria a instancia do Actor (ex.: (state, env) => new PatientActor(state, env)) */
+export type LocalActorFactory = (state: DurableObjectState, env: unknown) => object;
+
+interface LocalActorInstance {
+  state: LocalDurableObjectState;
+  actor: object;
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Storage chave/valor com transacoes, listagem ordenada e alarm
+ */
+export class InMemoryDurableObjectStorage {
+  protected data = new Map<string, unknown>();
+  protected alarm: number | null = null;
+  /** Dentro de uma transacao, changed() so e chamado no fim */
+  private inTransaction = false;
+
+  async get<T = unknown>(key: string): Promise<T | undefined>;
+  async get<T = unknown>(keys: string[]): Promise<Map<string, T>>;
+  async get<T = unknown>(keyOrKeys: string | string[]): Promise<T | undefined | Map<string, T>> {
+    if (Array.isArray(keyOrKeys)) {
+      const result = new Map<string, T>();
+      for (const key of keyOrKeys) {
+        if (this.data.has(key)) {
+          result.set(key, structuredClone(this.data.get(key)) as T);
+        }
+      }
+      return result;
+    }
+    return structuredClone(this.data.get(keyOrKeys)) as T | undefined;
+  }
+
+  async put<T>(key: string, value: T): Promise<void>;
+  async put<T>(entries: Record<string, T>): Promise<void>;
+  async put<T>(keyOrEntries: string | Record<string, T>, value?: T): Promise<void> {
+    const entries = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+    for (const [key, entry] of Object.entries(entries)) {
+      this.data.set(key, structuredClone(entry));
+    }
+    this.notifyChanged();
+  }
+
+  async delete(key: string): Promise<boolean>;
+  async delete(keys: string[]): Promise<number>;
+  async delete(keyOrKeys: string | string[]): Promise<boolean | number> {
+    const deleted = Array.isArray(keyOrKeys)
+      ? keyOrKeys.filter((key) => this.data.delete(key)).length
+      : this.data.delete(keyOrKeys);
+    this.notifyChanged();
+    return deleted;
+  }
+
+  async deleteAll(): Promise<void> {
+    this.data.clear();
+    this.notifyChanged();
+  }
+
+  async list<T = unknown>(options: DurableObjectListOptions = {}): Promise<Map<string, T>> {
+    let keys = Array.from(this.data.keys()).sort();
+    if (options.prefix !== undefined) keys = keys.filter((k) => k.startsWith(options.prefix!));
+    if (options.start !== undefined) keys = keys.filter((k) => k >= options.start!);
+    if (options.startAfter !== undefined) keys = keys.filter((k) => k > options.startAfter!);
+    if (options.end !== undefined) keys = keys.filter((k) => k < options.end!);
+    if (options.reverse) keys.reverse();
+    if (options.limit !== undefined) keys = keys.slice(0, options.limit);
+    return new Map(keys.map((key) => [key, structuredClone(this.data.get(key)) as T]));
+  }
+
+  /**
+   * Transacao: se a closure lancar (ou chamar rollback), o storage volta ao estado anterior
+   */
+  async transaction<T>(closure: (txn: DurableObjectTransaction) => Promise<T>): Promise<T> {
+    const before = new Map(this.data);
+    const alarmBefore = this.alarm;
+    let rolledBack = false;
+    const txn = Object.assign(Object.create(this) as InMemoryDurableObjectStorage, {
+      rollback: () => {
+        rolledBack = true;
+      },
+    });
+
+    this.inTransaction = true;
+    try {
+      const result = await closure(txn as unknown as DurableObjectTransaction);
+      if (rolledBack) {
+        this.data = before;
+        this.alarm = alarmBefore;
+      }
+      return result;
+    } catch (error) {
+      this.data = before;
+      this.alarm = alarmBefore;
+      throw error;
+    } finally {
+      this.inTransaction = false;
+      this.notifyChanged();
+    }
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(scheduledTime: number | Date): Promise<void> {
+    this.alarm = scheduledTime instanceof Date ? scheduledTime.getTime() : scheduledTime;
+    this.notifyChanged();
+  }
+
+  async deleteAlarm(): Promise<void> {
+    this.alarm = null;
+    this.notifyChanged();
+  }
+
+  async sync(): Promise<void> {}
+
+  /** Chamado depois de cada mutacao confirmada (o storage em arquivo grava aqui) */
+  protected changed(): void {}
+
+  private notifyChanged(): void {
+    if (!this.inTransaction) {
+      this.changed();
+    }
+  }
+}
+
+// =============================================================================
+// ESTADO E IDS
+// =============================================================================
+
+export class LocalDurableObjectId {
+  constructor(
+    private readonly value: string,
+    readonly name?: string
+  ) {}
+
+  toString(): string {
+    return this.value;
+  }
+
+  equals(other: DurableObjectId): boolean {
+    return other.toString() === this.value;
+  }
+}
+
+export class LocalDurableObjectState {
+  /** Resolve quando os blockConcurrencyWhile pendentes terminam */
+  ready: Promise<unknown> = Promise.resolve();
+
+  private readonly pending = new Set<Promise<unknown>>();
+
+  constructor(
+    readonly id: LocalDurableObjectId,
+    readonly storage: InMemoryDurableObjectStorage = new InMemoryDurableObjectStorage()
+  ) {}
+
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    const result = this.ready.then(callback);
+    this.ready = result.catch(() => undefined);
+    return result;
+  }
+
+  waitUntil(promise: Promise<unknown>): void {
+    this.pending.add(promise);
+    promise.finally(() => this.pending.delete(promise)).catch(() => undefined);
+  }
+
+  /** Espera os waitUntil em andamento */
+  async settle(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending));
+  }
+}
+
+// =============================================================================
+// NAMESPACE
+// =============================================================================
+
+/**
+ * Namespace de Durable Objects em memoria
+ * O env pode ser preenchido depois (os Actors se enxergam pelo proprio env)
+ */
+export class InMemoryDurableObjectNamespace {
+  private readonly instances = new Map<string, LocalActorInstance>();
+
+  constructor(
+    private readonly factory: LocalActorFactory,
+    private readonly env: unknown,
+    /** Storage de cada instancia pela id (padrao: em memoria) */
+    private readonly storageFor?: (id: string) => InMemoryDurableObjectStorage
+  ) {}
+
+  idFromName(name: string): LocalDurableObjectId {
+    return new LocalDurableObjectId(`local:${name}`, name);
+  }
+
+  idFromString(id: string): LocalDurableObjectId {
+    return new LocalDurableObjectId(id, id.startsWith('local:') ? id.slice('local:'.length) : undefined);
+  }
+
+  newUniqueId(): LocalDurableObjectId {
+    return new LocalDurableObjectId(`unique:${crypto.randomUUID()}`);
+  }
+
+  get(id: DurableObjectId): DurableObjectStub {
+    const instance = this.resolve(id);
+
+    // Cada propriedade do stub e uma chamada assincrona ao Actor
+    return new Proxy({} as DurableObjectStub, {
+      get: (_target, property) => {
+        if (typeof property !== 'string' || property === 'then') {
+          return undefined;
+        }
+        if (property === 'id') {
+          return instance.state.id;
+        }
+        return async (...args: unknown[]) => {
+          await instance.state.ready;
+          const method = (instance.actor as Record<string, unknown>)[property];
+          if (typeof method !== 'function') {
+            throw new Error(`Method not found on Durable Object: ${property}`);
+          }
+          const result = await method.apply(instance.actor, structuredClone(args));
+          return structuredClone(result);
+        };
+      },
+    });
+  }
+
+  getByName(name: string): DurableObjectStub {
+    return this.get(this.idFromName(name));
+  }
+
+  /** O namespace como binding do Env */
+  asBinding(): DurableObjectNamespace {
+    return this as unknown as DurableObjectNamespace;
+  }
+
+  /**
+   * Dispara os alarms vencidos (o Workers faria isso sozinho)
+   * Retorna quantos Actors tiveram alarm executado
+   */
+  async runDueAlarms(now: number = Date.now()): Promise<number> {
+    let fired = 0;
+    for (const instance of this.instances.values()) {
+      const scheduled = await instance.state.storage.getAlarm();
+      const alarm = (instance.actor as { alarm?: () => Promise<void> }).alarm;
+      if (scheduled === null || scheduled > now || typeof alarm !== 'function') {
+        continue;
+      }
+      await instance.state.storage.deleteAlarm();
+      await instance.state.ready;
+      await alarm.call(instance.actor);
+      fired++;
+    }
+    return fired;
+  }
+
+  /**
+   * Recria as instancias de ids ja gravados (storage em arquivo) - assim os
+   * alarms pendentes disparam sem esperar uma chamada
+   */
+  restore(ids: string[]): void {
+    for (const id of ids) {
+      this.resolve(this.idFromString(id));
+    }
+  }
+
+  /** Nomes das instancias criadas */
+  listNames(): string[] {
+    return Array.from(this.instances.values())
+      .map((instance) => instance.state.id.name)
+      .filter((name): name is string => name !== undefined);
+  }
+
+  private resolve(id: DurableObjectId): LocalActorInstance {
+    const key = id.toString();
+    let instance = this.instances.get(key);
+    if (!instance) {
+      const state = new LocalDurableObjectState(
+        new LocalDurableObjectId(key, id.name),
+        this.storageFor?.(key)
+      );
+      const actor = this.factory(state as unknown as DurableObjectState, this.env);
+      instance = { state, actor };
+      this.instances.set(key, instance);
+    }
+    return instance;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * HealthOS Local
+ *
+ * Bindings do Cloudflare em memoria (Durable Objects, KV, Queues, R2) - os
+ * mesmos metodos que Cast, Stages e Actors usam, sem o runtime do Workers.
+ * O runtime Node (node.ts) e a CLI (cli.ts) montam o Env com eles; por usarem
+ * node:fs, nao sao exportados daqui.
+ */
+
+export {
+  InMemoryDurableObjectNamespace,
+  InMemoryDurableObjectStorage,
+  LocalDurableObjectState,
+  LocalDurableObjectId,
+} from './durable-objects';
+export type { LocalActorFactory } from './durable-objects';
+export { InMemoryKVNamespace } from './kv';
+export type { LocalKVEntry } from './kv';
+export { InMemoryQueue } from './queue';
+export type { LocalQueueOptions, QueueDrainResult } from './queue';
+export { InMemoryR2Bucket, LocalR2Object, LocalR2ObjectBody } from './r2';
+export type { LocalR2Record } from './r2';
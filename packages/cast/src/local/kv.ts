@@ -0,0 +1,140 @@
+/**
+ * KV em memoria
+ *
+ * Subconjunto do KVNamespace usado pelo Cast (STAGE_CONFIGS, SHARED_TOOLS):
+ * get/getWithMetadata (text, json, arrayBuffer), put com expiracao e metadata,
+ * delete e list paginado por prefixo. Chaves expiradas somem na leitura.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LocalKVEntry {
+  value: string | Uint8Array;
+  /** Epoch em segundos, como no KV */
+  expiration?: number;
+  metadata?: unknown;
+}
+
+type KVValueType = 'text' | 'json' | 'arrayBuffer';
+
+/** Paginacao do list (o KV devolve ate 1000 chaves por pagina) */
+const KV_LIST_LIMIT = 1000;
+
+// =============================================================================
+// KV NAMESPACE
+// =============================================================================
+
+export class InMemoryKVNamespace {
+  protected entries = new Map<string, LocalKVEntry>();
+
+  async get(key: string, options?: KVValueType | { type?: KVValueType }): Promise<unknown> {
+    const entry = this.read(key);
+    return entry ? decodeValue(entry.value, valueType(options)) : null;
+  }
+
+  async getWithMetadata(
+    key: string,
+    options?: KVValueType | { type?: KVValueType }
+  ): Promise<{ value: unknown; metadata: unknown }> {
+    const entry = this.read(key);
+    return entry
+      ? { value: decodeValue(entry.value, valueType(options)), metadata: entry.metadata ?? null }
+      : { value: null, metadata: null };
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView,
+    options: { expiration?: number; expirationTtl?: number; metadata?: unknown } = {}
+  ): Promise<void> {
+    const expiration =
+      options.expiration ??
+      (options.expirationTtl !== undefined ? Math.floor(Date.now() / 1000) + options.expirationTtl : undefined);
+
+    this.entries.set(key, {
+      value: typeof value === 'string' ? value : toBytes(value),
+      expiration,
+      metadata: options.metadata === undefined ? undefined : structuredClone(options.metadata),
+    });
+    this.changed();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      this.changed();
+    }
+  }
+
+  async list(
+    options: { prefix?: string; limit?: number; cursor?: string } = {}
+  ): Promise<{
+    keys: Array<{ name: string; expiration?: number; metadata?: unknown }>;
+    list_complete: boolean;
+    cursor?: string;
+  }> {
+    const limit = Math.min(options.limit ?? KV_LIST_LIMIT, KV_LIST_LIMIT);
+    const names = Array.from(this.entries.keys())
+      .filter((name) => name.startsWith(options.prefix ?? '') && this.read(name))
+      .sort();
+
+    // O cursor e o nome da ultima chave da pagina anterior
+    const start = options.cursor ? names.findIndex((name) => name > options.cursor!) : 0;
+    const page = start === -1 ? [] : names.slice(start, start + limit);
+    const complete = start === -1 || start + limit >= names.length;
+
+    return {
+      keys: page.map((name) => {
+        const { expiration, metadata } = this.entries.get(name)!;
+        return { name, expiration, metadata };
+      }),
+      list_complete: complete,
+      cursor: complete ? undefined : page[page.length - 1],
+    };
+  }
+
+  /** O KV como binding do Env */
+  asBinding(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+
+  /** Chamado a cada mutacao (o KV em arquivo grava aqui) */
+  protected changed(): void {}
+
+  private read(key: string): LocalKVEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiration !== undefined && entry.expiration * 1000 <= Date.now()) {
+      this.entries.delete(key);
+      this.changed();
+      return undefined;
+    }
+    return entry;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function valueType(options?: KVValueType | { type?: KVValueType }): KVValueType {
+  return (typeof options === 'string' ? options : options?.type) ?? 'text';
+}
+
+function decodeValue(value: string | Uint8Array, type: KVValueType): unknown {
+  const text = () => (typeof value === 'string' ? value : new TextDecoder().decode(value));
+  switch (type) {
+    case 'json':
+      return JSON.parse(text());
+    case 'arrayBuffer':
+      return (typeof value === 'string' ? new TextEncoder().encode(value) : value.slice()).buffer;
+    default:
+      return text();
+  }
+}
+
+export function toBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return value instanceof ArrayBuffer
+    ? new Uint8Array(value.slice(0))
+    : new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+}
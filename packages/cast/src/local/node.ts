@@ -0,0 +1,467 @@
+/**
+ * HealthOS Local Runtime (Node)
+ *
+ * Monta o Env do Cast com os bindings locais:
+ *
+ * 1. PATIENT_ACTORS, ENTITY_ACTORS, SERVICE_ACTORS, SCRIPT_EXECUTIONS - Durable
+ *    Objects em memoria, com o storage de cada instancia num arquivo JSON (dataDir)
+ * 2. STAGE_CONFIGS, SHARED_TOOLS - KV em memoria ou em arquivo JSON (dataDir)
+ * 3. EVENTS_QUEUE, NOTIFICATIONS_QUEUE - filas entregues a cada tick()
+ * 4. DOCUMENTS, AUDIO_FILES, AUDIT_ARCHIVE - R2 em memoria ou em diretorio (dataDir)
+ *
+ * Tambem carrega manifests de Stages (YAML/JSON) e cria Actors de exemplo
+ * (seed). Precisa do register.ts (node --import) para carregar os Actors.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep, extname } from 'node:path';
+import * as yaml from 'yaml';
+import type {
+  ActorId,
+  StageId,
+  EntityRole,
+  ServiceType,
+  LLMBudget,
+  StageManifest,
+  AutomationLevel,
+} from '@healthos/shared';
+import { PatientActor } from '../actors/patient';
+import type { EmergencyContact } from '../actors/patient';
+import { EntityActor, ServiceActor } from '../actors/entity-service';
+import { ScriptExecutions } from '../actors/script-executions';
+import type { EntityCredential, PrivacyOfficer, ServiceLocation } from '../actors/entity-service';
+import { generatePatientKeyPair, exportPublicKey, encryptPrivateKey } from '../crypto';
+import type { Cast, Env } from '../cast';
+import { InMemoryDurableObjectNamespace, InMemoryDurableObjectStorage } from './durable-objects';
+import type { LocalActorFactory } from './durable-objects';
+import { deserializeValue, serializeValue } from '../storage';
+import { InMemoryKVNamespace } from './kv';
+import type { LocalKVEntry } from './kv';
+import { InMemoryQueue } from './queue';
+import { InMemoryR2Bucket } from './r2';
+import type { LocalR2Record } from './r2';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LocalRuntimeOptions {
+  /** Diretorio para KV, R2 e Durable Objects em arquivo (sem ele, tudo fica em memoria) */
+  dataDir?: string;
+  /** Variaveis e secrets do Env (ENCRYPTION_KEY, ANTHROPIC_API_KEY, ...) */
+  vars?: Record<string, string | undefined>;
+}
+
+export type LocalEnv = Env & {
+  SCRIPT_EXECUTIONS: DurableObjectNamespace;
+  NOTIFICATIONS_QUEUE: Queue;
+  DOCUMENTS: R2Bucket;
+  AUDIO_FILES: R2Bucket;
+  AUDIT_ARCHIVE: R2Bucket;
+  ENCRYPTION_KEY: string;
+  AUTH_SECRET: string;
+  ENVIRONMENT: string;
+};
+
+export interface LocalRuntime {
+  env: LocalEnv;
+  actors: {
+    patients: InMemoryDurableObjectNamespace;
+    entities: InMemoryDurableObjectNamespace;
+    services: InMemoryDurableObjectNamespace;
+    scriptExecutions: InMemoryDurableObjectNamespace;
+  };
+  queues: {
+    events: InMemoryQueue;
+    notifications: InMemoryQueue;
+  };
+  /** Entrega as filas e dispara alarms vencidos */
+  tick(consumers: LocalQueueConsumers): Promise<void>;
+}
+
+export interface LocalQueueConsumers {
+  events?: (batch: MessageBatch) => Promise<void>;
+  notifications?: (batch: MessageBatch) => Promise<void>;
+}
+
+/**
+ * Actors criados no boot (JSON passado a CLI com --seed)
+ */
+export interface LocalSeed {
+  services?: Array<{
+    id: string;
+    name: string;
+    serviceType: ServiceType;
+    cnes?: string;
+    location: ServiceLocation;
+    privacyOfficer?: PrivacyOfficer;
+    /** Stages habilitados no Service */
+    stages?: string[];
+    llmBudget?: LLMBudget;
+  }>;
+  entities?: Array<{
+    id: string;
+    name: string;
+    role: EntityRole;
+    credentials?: EntityCredential[];
+    /** Services aos quais o profissional e vinculado */
+    services?: string[];
+  }>;
+  patients?: Array<{
+    id: string;
+    /** Senha que protege a chave privada do paciente */
+    password: string;
+    birthDate?: string;
+    emergencyContact?: EmergencyContact;
+  }>;
+}
+
+/** Chave de assinatura do log de auditoria quando nenhuma e informada */
+const LOCAL_ENCRYPTION_KEY = 'healthos-local-development-only';
+
+/** Segredo dos tokens de chamador quando nenhum e informado */
+const LOCAL_AUTH_SECRET = 'healthos-local-auth-development-only';
+
+// =============================================================================
+// RUNTIME
+// =============================================================================
+
+export function createLocalRuntime(options: LocalRuntimeOptions = {}): LocalRuntime {
+  const { dataDir, vars = {} } = options;
+  const kv = (name: string) =>
+    dataDir ? new FileKVNamespace(join(dataDir, 'kv', `${name}.json`)) : new InMemoryKVNamespace();
+  const r2 = (name: string) =>
+    dataDir ? new FileR2Bucket(join(dataDir, 'r2', name)) : new InMemoryR2Bucket();
+
+  // Os Actors recebem o env antes de ele estar completo - os namespaces se enxergam por ele
+  const env = {} as LocalEnv;
+  const durable = (name: string, factory: LocalActorFactory) =>
+    new InMemoryDurableObjectNamespace(
+      factory,
+      env,
+      dataDir ? (id) => new FileDurableObjectStorage(durableObjectFile(dataDir, name, id)) : undefined
+    );
+  const patients = durable('PATIENT_ACTORS', (state, e) => new PatientActor(state, e as Env));
+  const entities = durable('ENTITY_ACTORS', (state, e) => new EntityActor(state, e as Env));
+  const services = durable('SERVICE_ACTORS', (state, e) => new ServiceActor(state, e as Env));
+  const scriptExecutions = durable('SCRIPT_EXECUTIONS', (state, e) => new ScriptExecutions(state, e as Env));
+  const events = new InMemoryQueue({ name: 'healthos-events' });
+  const notifications = new InMemoryQueue({ name: 'healthos-notifications' });
+
+  Object.assign(env, {
+    PATIENT_ACTORS: patients.asBinding(),
+    ENTITY_ACTORS: entities.asBinding(),
+    SERVICE_ACTORS: services.asBinding(),
+    SCRIPT_EXECUTIONS: scriptExecutions.asBinding(),
+    STAGE_CONFIGS: kv('STAGE_CONFIGS').asBinding(),
+    SHARED_TOOLS: kv('SHARED_TOOLS').asBinding(),
+    EVENTS_QUEUE: events.asBinding(),
+    NOTIFICATIONS_QUEUE: notifications.asBinding(),
+    DOCUMENTS: r2('DOCUMENTS').asBinding(),
+    AUDIO_FILES: r2('AUDIO_FILES').asBinding(),
+    AUDIT_ARCHIVE: r2('AUDIT_ARCHIVE').asBinding(),
+    ENVIRONMENT: 'development',
+    ...definedVars(vars),
+  });
+  env.ENCRYPTION_KEY ??= LOCAL_ENCRYPTION_KEY;
+  env.AUTH_SECRET ??= LOCAL_AUTH_SECRET;
+
+  // Com o env completo, recria os Actors gravados (alarms pendentes voltam a disparar)
+  if (dataDir) {
+    patients.restore(storedDurableObjects(dataDir, 'PATIENT_ACTORS'));
+    entities.restore(storedDurableObjects(dataDir, 'ENTITY_ACTORS'));
+    services.restore(storedDurableObjects(dataDir, 'SERVICE_ACTORS'));
+    scriptExecutions.restore(storedDurableObjects(dataDir, 'SCRIPT_EXECUTIONS'));
+  }
+
+  return {
+    env,
+    actors: { patients, entities, services, scriptExecutions },
+    queues: { events, notifications },
+    async tick(consumers) {
+      if (consumers.events) await events.drain(consumers.events);
+      if (consumers.notifications) await notifications.drain(consumers.notifications);
+      for (const namespace of [patients, entities, services, scriptExecutions]) {
+        await namespace.runDueAlarms();
+      }
+    },
+  };
+}
+
+// =============================================================================
+// STAGES E SEED
+// =============================================================================
+
+/**
+ * Le os manifests de Stage de um diretorio
+ * Aceita arquivos .yaml/.yml/.json soltos ou um stage.yaml por subdiretorio;
+ * o bloco `stage:` do YAML (id, nome, versao) e levado para o topo do manifest
+ * e `automation` agrupado por nivel (`require_validation: [acoes]`) vira a
+ * lista de regras
+ */
+export async function loadStageManifests(dir: string): Promise<StageManifest[]> {
+  const manifests: StageManifest[] = [];
+  for (const entry of (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const file = ['stage.yaml', 'stage.yml', 'stage.json'].map((name) => join(path, name)).find(existsSync);
+      if (file) manifests.push(await readStageManifest(file));
+    } else if (['.yaml', '.yml', '.json'].includes(extname(entry.name))) {
+      manifests.push(await readStageManifest(path));
+    }
+  }
+  return manifests;
+}
+
+export async function readStageManifest(file: string): Promise<StageManifest> {
+  const content = await readFile(file, 'utf8');
+  const parsed = (extname(file) === '.json' ? JSON.parse(content) : yaml.parse(content)) as Record<
+    string,
+    unknown
+  >;
+  const { stage, ...rest } = parsed;
+  const manifest = (stage && typeof stage === 'object' ? { ...stage, ...rest } : parsed) as Partial<StageManifest>;
+  if (manifest.automation && !Array.isArray(manifest.automation)) {
+    manifest.automation = Object.entries(manifest.automation as Record<string, string[]>).flatMap(
+      ([level, actions]) => (actions ?? []).map((action) => ({ action, level: level as AutomationLevel }))
+    );
+  }
+
+  return {
+    actors: [],
+    tools: [],
+    personas: [],
+    scripts: [],
+    automation: [],
+    requiredScopes: [],
+    ui: { entrypoint: '', assets: '' },
+    ...manifest,
+  } as StageManifest;
+}
+
+/**
+ * Cria Services, Entities e Patients pelo Cast (mesmo caminho do onboarding)
+ * Services primeiro - Entities sao vinculados a eles
+ */
+export async function seedLocalRuntime(cast: Cast, seed: LocalSeed): Promise<void> {
+  for (const service of seed.services ?? []) {
+    const serviceId = service.id as ActorId;
+    const actor = await cast.createServiceActor(serviceId, service);
+    for (const stageId of service.stages ?? []) {
+      await actor.enableStage(stageId as StageId);
+    }
+    if (service.llmBudget) {
+      await actor.setLLMBudget(service.llmBudget);
+    }
+  }
+
+  for (const entity of seed.entities ?? []) {
+    const entityId = entity.id as ActorId;
+    const actor = await cast.createEntityActor(entityId, entity.role, entity.credentials ?? [], entity.name);
+    for (const serviceId of entity.services ?? []) {
+      await actor.linkToService(serviceId as ActorId);
+      await (await cast.getServiceActor(serviceId as ActorId)).linkEntity(entityId);
+    }
+  }
+
+  for (const patient of seed.patients ?? []) {
+    const keyPair = await generatePatientKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    await cast.createPatientActor(
+      patient.id as ActorId,
+      publicKey,
+      await encryptPrivateKey(keyPair.privateKey, publicKey, patient.password),
+      {
+        emergencyContact: patient.emergencyContact,
+        birthDate: patient.birthDate ? new Date(patient.birthDate) : undefined,
+      }
+    );
+  }
+}
+
+// =============================================================================
+// KV EM ARQUIVO
+// =============================================================================
+
+/** Entrada como gravada no JSON (binario em base64) */
+interface StoredKVEntry {
+  text?: string;
+  base64?: string;
+  expiration?: number;
+  metadata?: unknown;
+}
+
+/**
+ * KV gravado inteiro num arquivo JSON a cada mutacao
+ */
+export class FileKVNamespace extends InMemoryKVNamespace {
+  constructor(private readonly file: string) {
+    super();
+    if (!existsSync(file)) return;
+
+    const stored = JSON.parse(readFileSync(file, 'utf8')) as Record<string, StoredKVEntry>;
+    for (const [key, entry] of Object.entries(stored)) {
+      this.entries.set(key, {
+        value: entry.base64 !== undefined ? new Uint8Array(Buffer.from(entry.base64, 'base64')) : entry.text ?? '',
+        expiration: entry.expiration,
+        metadata: entry.metadata,
+      });
+    }
+  }
+
+  protected changed(): void {
+    const stored: Record<string, StoredKVEntry> = {};
+    this.entries.forEach((entry: LocalKVEntry, key) => {
+      stored[key] = {
+        ...(typeof entry.value === 'string'
+          ? { text: entry.value }
+          : { base64: Buffer.from(entry.value).toString('base64') }),
+        expiration: entry.expiration,
+        metadata: entry.metadata,
+      };
+    });
+
+    // Grava em arquivo temporario e renomeia - o JSON nunca fica pela metade
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(stored, null, 2));
+    renameSync(tmp, this.file);
+  }
+}
+
+// =============================================================================
+// DURABLE OBJECTS EM ARQUIVO
+// =============================================================================
+
+/** Arquivo de uma instancia - valores com os marcadores de Date e Map do storage */
+interface StoredDurableObject {
+  alarm: number | null;
+  entries: Array<[string, unknown]>;
+}
+
+/**
+ * Storage de um Durable Object gravado inteiro num arquivo JSON a cada mutacao
+ * (transacoes gravam uma vez, no fim)
+ */
+export class FileDurableObjectStorage extends InMemoryDurableObjectStorage {
+  constructor(private readonly file: string) {
+    super();
+    if (!existsSync(file)) return;
+
+    const stored = deserializeValue(readFileSync(file, 'utf8')) as StoredDurableObject;
+    this.data = new Map(stored.entries);
+    this.alarm = stored.alarm;
+  }
+
+  protected changed(): void {
+    const stored: StoredDurableObject = { alarm: this.alarm, entries: Array.from(this.data.entries()) };
+
+    mkdirSync(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, serializeValue(stored));
+    renameSync(tmp, this.file);
+  }
+}
+
+function durableObjectFile(dataDir: string, namespace: string, id: string): string {
+  return join(dataDir, 'do', namespace, `${encodeURIComponent(id)}.json`);
+}
+
+/** Ids das instancias gravadas de um namespace */
+function storedDurableObjects(dataDir: string, namespace: string): string[] {
+  const dir = join(dataDir, 'do', namespace);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)));
+}
+
+// =============================================================================
+// R2 EM DIRETORIO
+// =============================================================================
+
+/** Metadata gravada ao lado do objeto */
+interface StoredR2Meta {
+  etag: string;
+  uploaded: string;
+  httpMetadata?: R2HTTPMetadata;
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * R2 em disco: conteudo em objects/<chave>, metadata em meta/<chave>.json
+ */
+export class FileR2Bucket extends InMemoryR2Bucket {
+  private readonly objectsDir: string;
+  private readonly metaDir: string;
+
+  constructor(root: string) {
+    super();
+    this.objectsDir = resolve(root, 'objects');
+    this.metaDir = resolve(root, 'meta');
+  }
+
+  protected async readRecord(key: string): Promise<LocalR2Record | undefined> {
+    const objectPath = this.pathFor(this.objectsDir, key);
+    if (!existsSync(objectPath) || (await stat(objectPath)).isDirectory()) {
+      return undefined;
+    }
+    const meta = JSON.parse(await readFile(this.pathFor(this.metaDir, key, '.json'), 'utf8')) as StoredR2Meta;
+    return {
+      key,
+      body: new Uint8Array(await readFile(objectPath)),
+      etag: meta.etag,
+      uploaded: new Date(meta.uploaded),
+      httpMetadata: meta.httpMetadata,
+      customMetadata: meta.customMetadata,
+    };
+  }
+
+  protected async writeRecord(record: LocalR2Record): Promise<void> {
+    const objectPath = this.pathFor(this.objectsDir, record.key);
+    const metaPath = this.pathFor(this.metaDir, record.key, '.json');
+    const meta: StoredR2Meta = {
+      etag: record.etag,
+      uploaded: record.uploaded.toISOString(),
+      httpMetadata: record.httpMetadata,
+      customMetadata: record.customMetadata,
+    };
+    await mkdir(dirname(objectPath), { recursive: true });
+    await mkdir(dirname(metaPath), { recursive: true });
+    await writeFile(objectPath, record.body);
+    await writeFile(metaPath, JSON.stringify(meta, null, 2));
+  }
+
+  protected async removeRecord(key: string): Promise<void> {
+    await rm(this.pathFor(this.objectsDir, key), { force: true });
+    await rm(this.pathFor(this.metaDir, key, '.json'), { force: true });
+  }
+
+  protected async listKeys(): Promise<string[]> {
+    if (!existsSync(this.objectsDir)) return [];
+    const entries = await readdir(this.objectsDir, { recursive: true, withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(entry.parentPath, entry.name).slice(this.objectsDir.length + 1).split(sep).join('/'));
+  }
+
+  /** Caminho da chave dentro do diretorio - chaves que escapam dele sao recusadas */
+  private pathFor(base: string, key: string, suffix = ''): string {
+    const path = resolve(base, ...key.split('/')) + suffix;
+    if (!key || key.endsWith('/') || !path.startsWith(base + sep)) {
+      throw new Error(`Invalid R2 key: ${key}`);
+    }
+    return path;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function definedVars(vars: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(vars).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Queue em memoria
+ *
+ * Producer (send/sendBatch) e entrega a um consumer com a semantica do
+ * Cloudflare Queues:
+ *
+ * 1. Lotes de ate maxBatchSize mensagens, respeitando delaySeconds
+ * 2. Consumer que termina sem erro confirma as mensagens nao marcadas com retry()
+ * 3. Consumer que lanca devolve o lote inteiro para a fila
+ * 4. Depois de maxRetries tentativas a mensagem vai para deadLetters
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LocalQueueOptions {
+  /** Nome da fila (MessageBatch.queue) */
+  name: string;
+  maxBatchSize?: number;
+  maxRetries?: number;
+}
+
+export interface QueueDrainResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+interface PendingMessage<Body> {
+  id: string;
+  body: Body;
+  timestamp: Date;
+  attempts: number;
+  /** Epoch em ms a partir do qual pode ser entregue */
+  availableAt: number;
+}
+
+/** Padroes do consumer em wrangler.jsonc */
+const DEFAULT_MAX_BATCH_SIZE = 10;
+const DEFAULT_MAX_RETRIES = 3;
+
+// =============================================================================
+// QUEUE
+// =============================================================================
+
+export class InMemoryQueue<Body = unknown> {
+  readonly name: string;
+  private readonly maxBatchSize: number;
+  private readonly maxRetries: number;
+  private pending: PendingMessage<Body>[] = [];
+
+  /** Mensagens que esgotaram as tentativas */
+  readonly deadLetters: Body[] = [];
+
+  constructor(options: LocalQueueOptions) {
+    this.name = options.name;
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  async send(body: Body, options: { delaySeconds?: number } = {}): Promise<void> {
+    this.pending.push({
+      id: crypto.randomUUID(),
+      body: structuredClone(body),
+      timestamp: new Date(),
+      attempts: 0,
+      availableAt: Date.now() + (options.delaySeconds ?? 0) * 1000,
+    });
+  }
+
+  async sendBatch(messages: Iterable<{ body: Body; delaySeconds?: number }>): Promise<void> {
+    for (const message of messages) {
+      await this.send(message.body, { delaySeconds: message.delaySeconds });
+    }
+  }
+
+  /** Mensagens aguardando entrega */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Entrega as mensagens disponiveis ao consumer, em lotes
+   */
+  async drain(
+    consumer: (batch: MessageBatch<Body>) => Promise<void>,
+    now: number = Date.now()
+  ): Promise<QueueDrainResult> {
+    const result: QueueDrainResult = { delivered: 0, retried: 0, deadLettered: 0 };
+    const ready = this.pending.filter((m) => m.availableAt <= now);
+    this.pending = this.pending.filter((m) => m.availableAt > now);
+
+    for (let i = 0; i < ready.length; i += this.maxBatchSize) {
+      const messages = ready.slice(i, i + this.maxBatchSize);
+      const retry = new Set<string>();
+      const ack = new Set<string>();
+
+      const batch = {
+        queue: this.name,
+        messages: messages.map((m) => ({
+          id: m.id,
+          timestamp: m.timestamp,
+          body: m.body,
+          attempts: m.attempts + 1,
+          ack: () => ack.add(m.id),
+          retry: () => retry.add(m.id),
+        })),
+        ackAll: () => messages.forEach((m) => ack.add(m.id)),
+        retryAll: () => messages.forEach((m) => retry.add(m.id)),
+      };
+
+      try {
+        await consumer(batch as unknown as MessageBatch<Body>);
+      } catch (error) {
+        console.error(`Queue consumer error (${this.name}):`, error);
+        messages.forEach((m) => {
+          if (!ack.has(m.id)) retry.add(m.id);
+        });
+      }
+
+      for (const message of messages) {
+        if (!retry.has(message.id) || ack.has(message.id)) {
+          result.delivered++;
+          continue;
+        }
+        message.attempts++;
+        if (message.attempts > this.maxRetries) {
+          this.deadLetters.push(message.body);
+          result.deadLettered++;
+        } else {
+          this.pending.push(message);
+          result.retried++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /** A fila como binding do Env */
+  asBinding(): Queue<Body> {
+    return this as unknown as Queue<Body>;
+  }
+}
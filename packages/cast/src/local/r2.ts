@@ -0,0 +1,221 @@
+/**
+ * R2 local
+ *
+ * Subconjunto do R2Bucket usado pelos Stages e pelo arquivo de auditoria
+ * (DOCUMENTS, AUDIO_FILES, AUDIT_ARCHIVE): put, get, head, delete e list.
+ * O armazenamento fica atras de readRecord/writeRecord/removeRecord/listKeys -
+ * em memoria aqui, em disco no FileR2Bucket do runtime Node.
+ */
+
+import { toBytes } from './kv';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface LocalR2Record {
+  key: string;
+  body: Uint8Array;
+  etag: string;
+  uploaded: Date;
+  httpMetadata?: R2HTTPMetadata;
+  customMetadata?: Record<string, string>;
+}
+
+type R2PutValue = string | ArrayBuffer | ArrayBufferView | ReadableStream | Blob | null;
+
+/** Objetos por pagina do list (padrao do R2) */
+const R2_LIST_LIMIT = 1000;
+
+// =============================================================================
+// OBJETOS
+// =============================================================================
+
+export class LocalR2Object {
+  readonly key: string;
+  readonly size: number;
+  readonly etag: string;
+  readonly httpEtag: string;
+  readonly uploaded: Date;
+  readonly version: string;
+  readonly httpMetadata?: R2HTTPMetadata;
+  readonly customMetadata?: Record<string, string>;
+  readonly storageClass = 'Standard';
+
+  constructor(record: LocalR2Record) {
+    this.key = record.key;
+    this.size = record.body.byteLength;
+    this.etag = record.etag;
+    this.httpEtag = `"${record.etag}"`;
+    this.uploaded = record.uploaded;
+    this.version = record.etag;
+    this.httpMetadata = record.httpMetadata;
+    this.customMetadata = record.customMetadata;
+  }
+
+  writeHttpMetadata(headers: Headers): void {
+    const metadata = this.httpMetadata ?? {};
+    if (metadata.contentType) headers.set('Content-Type', metadata.contentType);
+    if (metadata.contentLanguage) headers.set('Content-Language', metadata.contentLanguage);
+    if (metadata.contentDisposition) headers.set('Content-Disposition', metadata.contentDisposition);
+    if (metadata.contentEncoding) headers.set('Content-Encoding', metadata.contentEncoding);
+    if (metadata.cacheControl) headers.set('Cache-Control', metadata.cacheControl);
+  }
+}
+
+export class LocalR2ObjectBody extends LocalR2Object {
+  private readonly bytes: Uint8Array;
+  bodyUsed = false;
+
+  constructor(record: LocalR2Record) {
+    super(record);
+    this.bytes = record.body;
+  }
+
+  get body(): ReadableStream<Uint8Array> {
+    this.bodyUsed = true;
+    return new Blob([this.bytes]).stream();
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    this.bodyUsed = true;
+    return this.bytes.slice().buffer;
+  }
+
+  async text(): Promise<string> {
+    this.bodyUsed = true;
+    return new TextDecoder().decode(this.bytes);
+  }
+
+  async json<T = unknown>(): Promise<T> {
+    return JSON.parse(await this.text()) as T;
+  }
+
+  async blob(): Promise<Blob> {
+    this.bodyUsed = true;
+    return new Blob([this.bytes], { type: this.httpMetadata?.contentType });
+  }
+}
+
+// =============================================================================
+// BUCKET
+// =============================================================================
+
+export class InMemoryR2Bucket {
+  private readonly records = new Map<string, LocalR2Record>();
+
+  async put(
+    key: string,
+    value: R2PutValue,
+    options: { httpMetadata?: R2HTTPMetadata; customMetadata?: Record<string, string> } = {}
+  ): Promise<LocalR2Object> {
+    const body = await readBody(value);
+    const record: LocalR2Record = {
+      key,
+      body,
+      etag: await etagOf(body),
+      uploaded: new Date(),
+      httpMetadata: options.httpMetadata,
+      customMetadata: options.customMetadata,
+    };
+    await this.writeRecord(record);
+    return new LocalR2Object(record);
+  }
+
+  async get(key: string): Promise<LocalR2ObjectBody | null> {
+    const record = await this.readRecord(key);
+    return record ? new LocalR2ObjectBody(record) : null;
+  }
+
+  async head(key: string): Promise<LocalR2Object | null> {
+    const record = await this.readRecord(key);
+    return record ? new LocalR2Object(record) : null;
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      await this.removeRecord(key);
+    }
+  }
+
+  async list(
+    options: { prefix?: string; limit?: number; cursor?: string; delimiter?: string } = {}
+  ): Promise<{ objects: LocalR2Object[]; truncated: boolean; cursor?: string; delimitedPrefixes: string[] }> {
+    const prefix = options.prefix ?? '';
+    const limit = Math.min(options.limit ?? R2_LIST_LIMIT, R2_LIST_LIMIT);
+    const keys = (await this.listKeys())
+      .filter((key) => key.startsWith(prefix) && (!options.cursor || key > options.cursor))
+      .sort();
+
+    // Com delimitador, chaves abaixo do proximo nivel viram prefixos
+    const delimitedPrefixes = new Set<string>();
+    const direct: string[] = [];
+    for (const key of keys) {
+      const rest = key.slice(prefix.length);
+      const cut = options.delimiter ? rest.indexOf(options.delimiter) : -1;
+      if (cut === -1) {
+        direct.push(key);
+      } else {
+        delimitedPrefixes.add(prefix + rest.slice(0, cut + options.delimiter!.length));
+      }
+    }
+
+    const page = direct.slice(0, limit);
+    const objects: LocalR2Object[] = [];
+    for (const key of page) {
+      const record = await this.readRecord(key);
+      if (record) objects.push(new LocalR2Object(record));
+    }
+
+    const truncated = direct.length > limit;
+    return {
+      objects,
+      truncated,
+      cursor: truncated ? page[page.length - 1] : undefined,
+      delimitedPrefixes: Array.from(delimitedPrefixes),
+    };
+  }
+
+  /** O bucket como binding do Env */
+  asBinding(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+
+  // ---------------------------------------------------------------------------
+  // ARMAZENAMENTO
+  // ---------------------------------------------------------------------------
+
+  protected async readRecord(key: string): Promise<LocalR2Record | undefined> {
+    return this.records.get(key);
+  }
+
+  protected async writeRecord(record: LocalR2Record): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  protected async removeRecord(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  protected async listKeys(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function readBody(value: R2PutValue): Promise<Uint8Array> {
+  if (value === null) return new Uint8Array();
+  if (typeof value === 'string') return new TextEncoder().encode(value);
+  if (value instanceof Blob) return new Uint8Array(await value.arrayBuffer());
+  if (value instanceof ReadableStream) return new Uint8Array(await new Response(value).arrayBuffer());
+  return toBytes(value);
+}
+
+/** Hash do conteudo (o R2 usa MD5; aqui basta ser estavel) */
+async function etagOf(body: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', body);
+  return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('');
+}
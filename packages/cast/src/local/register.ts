@@ -0,0 +1,23 @@
+/**
+ * Registro do runtime local no Node (node --import)
+ *
+ * Redireciona 'cloudflare:workers' para o workers-shim, para que os Actors
+ * carreguem fora do Workers. O shim segue pela cadeia de resolve (nextResolve)
+ * para o loader do tsx reconhecer o .ts - um url em curto-circuito chega ao
+ * load padrao do Node, que recusa a extensao.
+ */
+
+import { register } from 'node:module';
+
+const shimUrl = new URL('./workers-shim.ts', import.meta.url).href;
+
+const hooks = `
+export async function resolve(specifier, context, nextResolve) {
+  if (specifier === 'cloudflare:workers') {
+    return nextResolve(${JSON.stringify(shimUrl)}, context);
+  }
+  return nextResolve(specifier, context);
+}
+`;
+
+register(`data:text/javascript,${encodeURIComponent(hooks)}`);
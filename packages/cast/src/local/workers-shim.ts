@@ -0,0 +1,20 @@
+/**
+ * Substituto de 'cloudflare:workers' no Node
+ *
+ * As classes base so guardam estado e env - storage, alarms e RPC vem do
+ * LocalDurableObjectState e do InMemoryDurableObjectNamespace.
+ */
+
+export class DurableObject<E = unknown> {
+  protected readonly ctx: DurableObjectState;
+  protected readonly env: E;
+
+  constructor(ctx: DurableObjectState, env: E) {
+    this.ctx = ctx;
+    this.env = env;
+  }
+}
+
+export class Actor<E = unknown> extends DurableObject<E> {}
+
+export class McpObject<E = unknown> extends DurableObject<E> {}
@@ -16,7 +16,12 @@ import type {
   PersonaId,
   EntityRole,
   ServiceType,
+  EncryptedData,
 } from '@healthos/shared';
+import { generatePatientKeyPair, exportPublicKey, encryptPrivateKey } from '../crypto';
+
+/** Tamanho minimo da senha do paciente (protege a chave privada) */
+const MIN_PASSWORD_LENGTH = 8;
 
 // =============================================================================
 // TYPES
@@ -340,6 +345,8 @@ export interface ServiceOnboardingData {
       name: string;
       email: string;
       phone: string;
+      /** EntityActor do encarregado (revisao de break-glass) */
+      actorId?: ActorId;
     };
   };
 
@@ -656,6 +663,9 @@ export class OnboardingManager {
         }
         if (stepId === 'security') {
           if (!data.passwordSet) errors.push('Configuracao de senha e obrigatoria');
+          if (typeof data.password !== 'string' || data.password.length < MIN_PASSWORD_LENGTH) {
+            errors.push(`Senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres`);
+          }
         }
         break;
 
@@ -706,6 +716,7 @@ export class OnboardingManager {
 
   private async createPatientActor(session: OnboardingSession, cast: any): Promise<ActorId> {
     const identityData = session.steps.find((s) => s.id === 'identity')?.data;
+    const demographicsData = session.steps.find((s) => s.id === 'demographics')?.data;
     const securityData = session.steps.find((s) => s.id === 'security')?.data;
 
     // Gera ID unico para o paciente
@@ -717,7 +728,15 @@ export class OnboardingManager {
     );
 
     // Cria o PatientActor
-    await cast.createPatientActor(patientId, publicKey, encryptedPrivateKey);
+    await cast.createPatientActor(patientId, publicKey, encryptedPrivateKey, {
+      emergencyContact: demographicsData?.emergencyContact,
+      birthDate: identityData?.birthDate ? new Date(identityData.birthDate as string) : undefined,
+    });
+
+    // A senha nao deve permanecer na sessao de onboarding
+    if (securityData) {
+      delete securityData.password;
+    }
 
     return patientId;
   }
@@ -732,7 +751,8 @@ export class OnboardingManager {
     await cast.createEntityActor(
       entityId,
       professionalData?.role as string,
-      professionalData?.credentials as any[]
+      professionalData?.credentials as any[],
+      identityData?.fullName as string
     );
 
     // Vincula aos services
@@ -751,15 +771,28 @@ export class OnboardingManager {
   private async createServiceActor(session: OnboardingSession, cast: any): Promise<ActorId> {
     const identityData = session.steps.find((s) => s.id === 'identity')?.data;
     const locationData = session.steps.find((s) => s.id === 'location')?.data;
+    const legalData = session.steps.find((s) => s.id === 'legal')?.data;
     const stagesData = session.steps.find((s) => s.id === 'stages')?.data;
 
     const serviceId = `service_${crypto.randomUUID()}` as ActorId;
 
+    const { address, coordinates } = locationData as unknown as NonNullable<ServiceOnboardingData['location']>;
+
     await cast.createServiceActor(serviceId, {
       name: identityData?.name as string,
       serviceType: identityData?.serviceType as string,
       cnes: identityData?.cnes as string,
-      location: locationData?.address,
+      // Endereco do onboarding no formato de ServiceLocation
+      location: {
+        address: [`${address.street}, ${address.number}`, address.complement, address.neighborhood]
+          .filter(Boolean)
+          .join(' - '),
+        city: address.city,
+        state: address.state,
+        country: 'BR',
+        coordinates: coordinates ? { lat: coordinates.latitude, lng: coordinates.longitude } : undefined,
+      },
+      privacyOfficer: legalData?.privacyOfficer,
     });
 
     // Habilita stages
@@ -772,28 +805,18 @@ export class OnboardingManager {
     return serviceId;
   }
 
+  /**
+   * Gera par de chaves RSA-OAEP e criptografa a chave privada com
+   * chave derivada da senha (PBKDF2, salt e iteracoes ficam em kdf)
+   */
   private async generateKeyPair(password: string): Promise<{
     publicKey: string;
-    encryptedPrivateKey: any;
+    encryptedPrivateKey: EncryptedData;
   }> {
-    // Em producao, usaria WebCrypto para gerar par de chaves RSA
-    // e criptografar a chave privada com AES derivado da senha
-
-    // Placeholder
-    return {
-      publicKey: `public_${crypto.randomUUID()}`,
-      encryptedPrivateKey: {
-        ciphertext: 'encrypted_private_key',
-        iv: crypto.randomUUID(),
-        algorithm: 'AES-GCM-256',
-        keyId: 'derived_from_password',
-      },
-    };
+    const keyPair = await generatePatientKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    const encryptedPrivateKey = await encryptPrivateKey(keyPair.privateKey, publicKey, password);
+
+    return { publicKey, encryptedPrivateKey };
   }
 }
-
-// =============================================================================
-// EXPORTS
-// =============================================================================
-
-export { OnboardingManager };
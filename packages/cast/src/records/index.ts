@@ -0,0 +1,147 @@
+/**
+ * HealthOS Clinical Records
+ *
+ * Modelo dos registros clinicos guardados nos compartimentos do PatientActor:
+ *
+ * 1. Cada compartimento aceita alguns tipos de registro (consulta, prescricao...)
+ * 2. Cada tipo exige certos campos - o PatientActor so ve os nomes (valores
+ *    chegam criptografados), entao a validacao e de estrutura
+ * 3. append acrescenta registros; write tambem retifica (amend) com motivo
+ * 4. Retificar nunca apaga: a versao anterior vai para o historico
+ */
+
+import { ActorRpcError, ClinicalRecordFieldsSchemas } from '@healthos/shared';
+import type { ClinicalRecordType, PatientRecord } from '@healthos/shared';
+import type { CompartmentType } from '../crypto';
+
+// =============================================================================
+// CAMPOS POR TIPO (lado do cliente - antes de sealRecordFields)
+// =============================================================================
+
+export interface ConsultationFields {
+  summary: string;
+  chiefComplaint?: string;
+  assessment?: string;
+  plan?: string;
+}
+
+export interface PrescriptionFields {
+  medications: Array<{ name: string; dosage: string; frequency: string; duration?: string }>;
+  instructions?: string;
+}
+
+export interface ExamResultFields {
+  exam: string;
+  result: string;
+  unit?: string;
+  referenceRange?: string;
+}
+
+export interface DiagnosisFields {
+  /** CID-10 */
+  code: string;
+  description: string;
+  status?: 'active' | 'resolved' | 'suspected';
+}
+
+export interface ClinicalNoteFields {
+  text: string;
+}
+
+export interface ClinicalRecordFields {
+  consultation: ConsultationFields;
+  prescription: PrescriptionFields;
+  exam_result: ExamResultFields;
+  diagnosis: DiagnosisFields;
+  clinical_note: ClinicalNoteFields;
+}
+
+// =============================================================================
+// REGRAS
+// =============================================================================
+
+/** Campos obrigatorios de cada tipo */
+export const RECORD_REQUIRED_FIELDS: Record<ClinicalRecordType, string[]> = {
+  consultation: ['summary'],
+  prescription: ['medications'],
+  exam_result: ['exam', 'result'],
+  diagnosis: ['code', 'description'],
+  clinical_note: ['text'],
+};
+
+/** Tipos aceitos por compartimento (demographics continua sendo um documento unico) */
+export const COMPARTMENT_RECORD_TYPES: Record<CompartmentType, ClinicalRecordType[]> = {
+  demographics: [],
+  medical_history: ['diagnosis', 'clinical_note'],
+  consultations: ['consultation', 'clinical_note'],
+  prescriptions: ['prescription'],
+  exams: ['exam_result'],
+  mental_health: ['consultation', 'diagnosis', 'clinical_note'],
+};
+
+/** Tamanho minimo do motivo de uma retificacao */
+export const MIN_AMENDMENT_REASON_LENGTH = 10;
+
+/**
+ * Valida tipo e campos de um registro novo ou retificado
+ */
+export function validateRecordShape(
+  compartment: CompartmentType,
+  recordType: ClinicalRecordType,
+  fieldNames: string[]
+): void {
+  if (!COMPARTMENT_RECORD_TYPES[compartment].includes(recordType)) {
+    throw new ActorRpcError(
+      'invalid_request',
+      `Record type ${recordType} not allowed in ${compartment}`
+    );
+  }
+
+  const missing = RECORD_REQUIRED_FIELDS[recordType].filter((f) => !fieldNames.includes(f));
+  if (missing.length > 0) {
+    throw new ActorRpcError(
+      'invalid_request',
+      `Missing fields for ${recordType}: ${missing.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Campos em claro do registro pelo schema do tipo (descarta campos desconhecidos)
+ * Para conteudo vindo de fora (FHIR, API) antes de selar
+ */
+export function parseRecordValues<T extends ClinicalRecordType>(
+  recordType: T,
+  value: unknown
+): ClinicalRecordFields[T] {
+  const result = ClinicalRecordFieldsSchemas[recordType].safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ActorRpcError(
+      'invalid_request',
+      `Invalid ${recordType} fields: ${issue.path.join('.') || 'value'} ${issue.message}`
+    );
+  }
+  return result.data as ClinicalRecordFields[T];
+}
+
+/**
+ * Valida o motivo de uma retificacao
+ */
+export function validateAmendmentReason(reason: string | undefined): string {
+  const trimmed = reason?.trim() ?? '';
+  if (trimmed.length < MIN_AMENDMENT_REASON_LENGTH) {
+    throw new ActorRpcError(
+      'invalid_request',
+      `Amendment reason must have at least ${MIN_AMENDMENT_REASON_LENGTH} characters`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Versoes de um registro, da mais antiga para a atual
+ */
+export function recordVersions(current: PatientRecord, history: PatientRecord[] = []): PatientRecord[] {
+  return [...history, current].sort((a, b) => a.version - b.version);
+}
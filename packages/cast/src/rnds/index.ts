@@ -0,0 +1,752 @@
+/**
+ * HealthOS RNDS
+ *
+ * Documentos para a Rede Nacional de Dados em Saude nos perfis FHIR brasileiros:
+ *
+ * 1. RAC (Registro de Atendimento Clinico) - registros consultation e notas do
+ *    DocumentGeneratorProp
+ * 2. REL (Resultado de Exame Laboratorial) - registros exam_result
+ * 3. RIA (Registro de Imunobiologico Administrado) - entrada estruturada, ja que
+ *    vacina nao e um tipo de registro do PatientActor
+ * 4. Validacao offline contra as definicoes de perfil empacotadas aqui (RNDS_PROFILES) -
+ *    nenhum documento sai sem passar por ela
+ * 5. Envio por RndsTransport: HTTP em producao, LocalRndsTransport (em memoria) no
+ *    desenvolvimento - a fila e os retries ficam no RNDSProp
+ */
+
+import {
+  FhirBundleSchema,
+  FhirCompositionSchema,
+} from '@healthos/shared';
+import type {
+  FhirBundle,
+  FhirCoding,
+  FhirComposition,
+  FhirCondition,
+  FhirEncounter,
+  FhirImmunization,
+  FhirObservation,
+} from '@healthos/shared';
+import type { DecryptedRecord } from '../fhir';
+import type { ConsultationFields, DiagnosisFields, ExamResultFields } from '../records';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RndsDocumentType = 'RAC' | 'REL' | 'RIA';
+
+/** Quem envia e sobre quem - a RNDS identifica tudo por CNS e CNES */
+export interface RndsContext {
+  /** Identificador do solicitante credenciado na RNDS */
+  requesterId: string;
+  patientCns: string;
+  establishmentCnes: string;
+  professionalCns: string;
+  /** Ocupacao do profissional (CBO) */
+  professionalCbo?: string;
+}
+
+/** Saida das tools do DocumentGeneratorProp */
+export interface GeneratedDocument {
+  document: string;
+  format: 'text' | 'html' | 'pdf';
+  requiresSignature?: boolean;
+}
+
+export interface RndsImmunizationInput {
+  /** Codigo do imunobiologico (BRImunobiologico) */
+  vaccine: FhirCoding;
+  /** Dose (BRDose - D1, D2, REF...) */
+  dose: FhirCoding;
+  lotNumber: string;
+  occurrenceDate: Date;
+  manufacturer?: string;
+}
+
+/** Regra de um tipo de recurso dentro do documento */
+export interface RndsResourceRule {
+  resourceType: string;
+  profile: string;
+  min: number;
+  max?: number;
+  /** Caminhos obrigatorios - arrays sao percorridos, "a|b" aceita qualquer um */
+  requiredPaths: string[];
+}
+
+export interface RndsProfileDefinition {
+  document: RndsDocumentType;
+  title: string;
+  /** Perfil da Composition do documento */
+  profile: string;
+  /** Codigo em BRTipoDocumento */
+  compositionType: string;
+  resources: RndsResourceRule[];
+}
+
+export interface RndsValidationIssue {
+  severity: 'error' | 'warning';
+  /** Onde esta o problema (entry[2].code.coding) */
+  path: string;
+  message: string;
+}
+
+export interface RndsValidationResult {
+  valid: boolean;
+  document?: RndsDocumentType;
+  issues: RndsValidationIssue[];
+}
+
+/** Resposta da RNDS - falha de transporte e lancada (entra em retry) */
+export type RndsTransportResult =
+  | { status: 'accepted'; protocol: string }
+  | { status: 'rejected'; reason: string };
+
+export interface RndsTransport {
+  submit(bundle: FhirBundle, context: RndsContext): Promise<RndsTransportResult>;
+}
+
+export type RndsSubmissionStatus = 'queued' | 'accepted' | 'rejected' | 'failed';
+
+export interface RndsSubmission {
+  id: string;
+  document: RndsDocumentType;
+  bundleId: string;
+  status: RndsSubmissionStatus;
+  attempts: number;
+  queuedAt: Date;
+  lastAttemptAt?: Date;
+  nextAttemptAt?: Date;
+  /** Protocolo devolvido pela RNDS */
+  protocol?: string;
+  error?: string;
+}
+
+// =============================================================================
+// SISTEMAS E PERFIS
+// =============================================================================
+
+const RNDS_BASE = 'http://www.saude.gov.br/fhir/r4';
+
+export const RNDS_SYSTEMS = {
+  requester: (requesterId: string) => `${RNDS_BASE}/NamingSystem/BRRNDS-${requesterId}`,
+  cns: `${RNDS_BASE}/NamingSystem/cns`,
+  cnes: `${RNDS_BASE}/NamingSystem/cnes`,
+  cbo: `${RNDS_BASE}/CodeSystem/BRCBO`,
+  documentType: `${RNDS_BASE}/CodeSystem/BRTipoDocumento`,
+  cid10: `${RNDS_BASE}/CodeSystem/BRCID10`,
+  immunobiological: `${RNDS_BASE}/CodeSystem/BRImunobiologico`,
+  dose: `${RNDS_BASE}/CodeSystem/BRDose`,
+  healthcareUnitType: `${RNDS_BASE}/CodeSystem/BRTipoEstabelecimentoSaude`,
+} as const;
+
+const profileUrl = (name: string) => `${RNDS_BASE}/StructureDefinition/${name}`;
+
+/** Definicoes empacotadas - usadas na validacao offline */
+export const RNDS_PROFILES: Record<RndsDocumentType, RndsProfileDefinition> = {
+  RAC: {
+    document: 'RAC',
+    title: 'Registro de Atendimento Clínico',
+    profile: profileUrl('BRRegistroAtendimentoClinico-1.0'),
+    compositionType: 'RAC',
+    resources: [
+      {
+        resourceType: 'Encounter',
+        profile: profileUrl('BRContatoAssistencial-1.0'),
+        min: 1,
+        max: 1,
+        requiredPaths: [
+          'status',
+          'class.code',
+          'period.start',
+          'subject.identifier.value',
+          'serviceProvider.identifier.value',
+          'participant.individual.identifier.value',
+        ],
+      },
+      {
+        resourceType: 'Condition',
+        profile: profileUrl('BRProblemaDiagnostico-1.0'),
+        min: 0,
+        requiredPaths: ['code.coding.code', 'subject.identifier.value', 'clinicalStatus.coding.code'],
+      },
+    ],
+  },
+  REL: {
+    document: 'REL',
+    title: 'Resultado de Exame Laboratorial',
+    profile: profileUrl('BRResultadoExameLaboratorial-1.0'),
+    compositionType: 'REL',
+    resources: [
+      {
+        resourceType: 'Observation',
+        profile: profileUrl('BRDiagnosticoLaboratorioClinico-3.2'),
+        min: 1,
+        requiredPaths: [
+          'status',
+          'code.coding.code',
+          'effectiveDateTime',
+          'valueQuantity.value|valueString',
+          'subject.identifier.value',
+          'performer.identifier.value',
+        ],
+      },
+    ],
+  },
+  RIA: {
+    document: 'RIA',
+    title: 'Registro de Imunobiológico Administrado',
+    profile: profileUrl('BRRegistroImunobiologicoAdministrado-2.0'),
+    compositionType: 'RIA',
+    resources: [
+      {
+        resourceType: 'Immunization',
+        profile: profileUrl('BRImunobiologicoAdministrado-2.0'),
+        min: 1,
+        max: 1,
+        requiredPaths: [
+          'status',
+          'vaccineCode.coding.code',
+          'occurrenceDateTime',
+          'lotNumber',
+          'protocolApplied.doseNumberString',
+          'patient.identifier.value',
+          'performer.actor.identifier.value',
+        ],
+      },
+    ],
+  },
+};
+
+/** Tentativas de envio antes de marcar a submissao como failed */
+export const RNDS_MAX_ATTEMPTS = 5;
+
+/** Espera antes da proxima tentativa (30s, 1min, 2min...) */
+export function rndsRetryDelayMs(attempts: number): number {
+  return 30_000 * 2 ** Math.max(0, attempts - 1);
+}
+
+// =============================================================================
+// CONVERSAO
+// =============================================================================
+
+type RndsResource = FhirEncounter | FhirCondition | FhirObservation | FhirImmunization;
+
+interface DocumentSection {
+  title: string;
+  text?: string;
+  entries?: RndsResource[];
+}
+
+/**
+ * RAC a partir de uma consulta (e dos diagnosticos registrados nela)
+ */
+export function buildRacBundle(
+  input: { consultation: DecryptedRecord; diagnoses?: DecryptedRecord[] },
+  context: RndsContext,
+  now: Date = new Date()
+): FhirBundle {
+  const { consultation, diagnoses = [] } = input;
+  if (consultation.record.recordType !== 'consultation') {
+    throw new Error('RAC requires a consultation record');
+  }
+
+  const fields = consultation.values as unknown as ConsultationFields;
+  const encounter = toEncounter(context, new Date(consultation.record.recordedAt), fields.chiefComplaint);
+
+  const conditions = diagnoses.map(({ record, values }) => {
+    if (record.recordType !== 'diagnosis') {
+      throw new Error(`Record ${record.id} is not a diagnosis`);
+    }
+    return toCondition(values as unknown as DiagnosisFields, context, new Date(record.recordedAt));
+  });
+
+  return documentBundle(RNDS_PROFILES.RAC, context, now, encounter, [
+    { title: 'Motivo do atendimento', text: fields.chiefComplaint },
+    { title: 'Resumo', text: fields.summary },
+    { title: 'Avaliação', text: fields.assessment },
+    { title: 'Plano', text: fields.plan },
+    { title: 'Problemas e diagnósticos', entries: conditions },
+  ]);
+}
+
+/**
+ * RAC a partir de uma nota do DocumentGeneratorProp (generate_soap_note)
+ * Receitas e atestados exigem assinatura e nao sao registros de atendimento
+ */
+export function buildRacFromGeneratedDocument(
+  input: { output: GeneratedDocument; encounterDate?: Date; title?: string },
+  context: RndsContext,
+  now: Date = new Date()
+): FhirBundle {
+  const { output } = input;
+  if (output.requiresSignature) {
+    throw new Error('Signed documents are not RNDS encounter records');
+  }
+  if (output.format === 'pdf') {
+    throw new Error('PDF documents cannot be embedded in an RNDS narrative');
+  }
+
+  const text = output.format === 'html' ? stripTags(output.document) : output.document;
+  if (!text.trim()) {
+    throw new Error('Generated document is empty');
+  }
+
+  const encounter = toEncounter(context, input.encounterDate ?? now);
+  return documentBundle(RNDS_PROFILES.RAC, context, now, encounter, [
+    { title: input.title ?? 'Registro do atendimento', text },
+  ]);
+}
+
+/**
+ * REL a partir de um exam_result
+ * A RNDS exige exame codificado - o registro so guarda o nome, entao o codigo vem de fora
+ */
+export function buildRelBundle(
+  input: { exam: DecryptedRecord; examCode?: FhirCoding },
+  context: RndsContext,
+  now: Date = new Date()
+): FhirBundle {
+  const { record, values } = input.exam;
+  if (record.recordType !== 'exam_result') {
+    throw new Error('REL requires an exam_result record');
+  }
+
+  const fields = values as unknown as ExamResultFields;
+  const numeric = Number(fields.result.replace(',', '.'));
+  const observation: FhirObservation = {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    meta: { profile: [RNDS_PROFILES.REL.resources[0].profile] },
+    status: 'final',
+    code: { coding: input.examCode ? [input.examCode] : undefined, text: fields.exam },
+    subject: patientReference(context),
+    effectiveDateTime: new Date(record.recordedAt).toISOString(),
+    ...(fields.unit && Number.isFinite(numeric)
+      ? { valueQuantity: { value: numeric, unit: fields.unit } }
+      : { valueString: fields.result }),
+    referenceRange: fields.referenceRange ? [{ text: fields.referenceRange }] : undefined,
+    performer: [establishmentReference(context)],
+  };
+
+  return documentBundle(RNDS_PROFILES.REL, context, now, undefined, [
+    { title: 'Resultado', entries: [observation] },
+  ]);
+}
+
+/**
+ * RIA a partir dos dados da aplicacao
+ */
+export function buildRiaBundle(
+  input: RndsImmunizationInput,
+  context: RndsContext,
+  now: Date = new Date()
+): FhirBundle {
+  const immunization: FhirImmunization = {
+    resourceType: 'Immunization',
+    id: crypto.randomUUID(),
+    meta: { profile: [RNDS_PROFILES.RIA.resources[0].profile] },
+    status: 'completed',
+    vaccineCode: { coding: [{ system: RNDS_SYSTEMS.immunobiological, ...input.vaccine }] },
+    patient: patientReference(context),
+    occurrenceDateTime: new Date(input.occurrenceDate).toISOString(),
+    lotNumber: input.lotNumber,
+    manufacturer: input.manufacturer ? { display: input.manufacturer } : undefined,
+    performer: [
+      { actor: establishmentReference(context) },
+      { actor: professionalReference(context) },
+    ],
+    protocolApplied: [{ doseNumberString: input.dose.code }],
+  };
+
+  return documentBundle(RNDS_PROFILES.RIA, context, now, undefined, [
+    { title: 'Imunobiológico administrado', entries: [immunization] },
+  ]);
+}
+
+function toEncounter(context: RndsContext, start: Date, reason?: string): FhirEncounter {
+  return {
+    resourceType: 'Encounter',
+    id: crypto.randomUUID(),
+    meta: { profile: [RNDS_PROFILES.RAC.resources[0].profile] },
+    status: 'finished',
+    class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB' },
+    subject: patientReference(context),
+    period: { start: start.toISOString() },
+    reasonCode: reason ? [{ text: reason }] : undefined,
+    serviceProvider: establishmentReference(context),
+    participant: [{
+      individual: professionalReference(context),
+      ...(context.professionalCbo
+        ? { type: [{ coding: [{ system: RNDS_SYSTEMS.cbo, code: context.professionalCbo }] }] }
+        : {}),
+    }],
+  };
+}
+
+function toCondition(fields: DiagnosisFields, context: RndsContext, recordedAt: Date): FhirCondition {
+  return {
+    resourceType: 'Condition',
+    id: crypto.randomUUID(),
+    meta: { profile: [RNDS_PROFILES.RAC.resources[1].profile] },
+    clinicalStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-clinical',
+        code: fields.status === 'resolved' ? 'resolved' : 'active',
+      }],
+    },
+    verificationStatus: {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status',
+        code: fields.status === 'suspected' ? 'provisional' : 'confirmed',
+      }],
+    },
+    // A RNDS usa o CID-10 sem ponto (J45.0 -> J450)
+    code: {
+      coding: [{ system: RNDS_SYSTEMS.cid10, code: fields.code.replace('.', ''), display: fields.description }],
+    },
+    subject: patientReference(context),
+    recordedDate: recordedAt.toISOString(),
+  };
+}
+
+/**
+ * Monta o Bundle document: Composition primeiro, recursos referenciados por urn:uuid
+ */
+function documentBundle(
+  profile: RndsProfileDefinition,
+  context: RndsContext,
+  now: Date,
+  encounter: FhirEncounter | undefined,
+  sections: DocumentSection[]
+): FhirBundle {
+  const fullUrls = new Map<RndsResource, string>();
+  const resources: RndsResource[] = [
+    ...(encounter ? [encounter] : []),
+    ...sections.flatMap((s) => s.entries ?? []),
+  ];
+  for (const resource of resources) {
+    fullUrls.set(resource, `urn:uuid:${resource.id}`);
+  }
+
+  const composition: FhirComposition = {
+    resourceType: 'Composition',
+    id: crypto.randomUUID(),
+    meta: { profile: [profile.profile] },
+    status: 'final',
+    type: { coding: [{ system: RNDS_SYSTEMS.documentType, code: profile.compositionType }] },
+    subject: patientReference(context),
+    encounter: encounter ? { reference: fullUrls.get(encounter) } : undefined,
+    date: now.toISOString(),
+    author: [establishmentReference(context), professionalReference(context)],
+    title: profile.title,
+    section: sections
+      .filter((s) => s.text?.trim() || s.entries?.length)
+      .map((s) => ({
+        title: s.title,
+        text: s.text?.trim() ? { status: 'generated', div: narrative(s.text) } : undefined,
+        entry: s.entries?.length ? s.entries.map((r) => ({ reference: fullUrls.get(r) })) : undefined,
+      })),
+  };
+
+  return FhirBundleSchema.parse({
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    identifier: { system: RNDS_SYSTEMS.requester(context.requesterId), value: crypto.randomUUID() },
+    type: 'document',
+    timestamp: now.toISOString(),
+    entry: [
+      { fullUrl: `urn:uuid:${composition.id}`, resource: composition },
+      ...resources.map((resource) => ({ fullUrl: fullUrls.get(resource), resource })),
+    ],
+  });
+}
+
+function patientReference(context: RndsContext) {
+  return { identifier: { system: RNDS_SYSTEMS.cns, value: context.patientCns } };
+}
+
+function establishmentReference(context: RndsContext) {
+  return { identifier: { system: RNDS_SYSTEMS.cnes, value: context.establishmentCnes } };
+}
+
+function professionalReference(context: RndsContext) {
+  return { identifier: { system: RNDS_SYSTEMS.cns, value: context.professionalCns } };
+}
+
+// =============================================================================
+// VALIDACAO OFFLINE
+// =============================================================================
+
+/**
+ * Valida um Bundle contra o perfil RNDS (detectado pela Composition se nao informado)
+ */
+export function validateRndsBundle(bundle: unknown, document?: RndsDocumentType): RndsValidationResult {
+  const issues: RndsValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+
+  const parsed = FhirBundleSchema.safeParse(bundle);
+  if (!parsed.success) {
+    error('Bundle', `Invalid bundle: ${parsed.error.issues[0]?.message ?? 'schema mismatch'}`);
+    return { valid: false, document, issues };
+  }
+  const { entry } = parsed.data;
+
+  if (parsed.data.type !== 'document') {
+    error('Bundle.type', 'RNDS documents must be Bundles of type document');
+  }
+  const identifier = parsed.data.identifier as { system?: string; value?: string } | undefined;
+  if (!identifier?.system?.startsWith(`${RNDS_BASE}/NamingSystem/BRRNDS-`) || !identifier.value) {
+    error('Bundle.identifier', 'Bundle identifier must use the requester BRRNDS naming system');
+  }
+  if (!parsed.data.timestamp) {
+    error('Bundle.timestamp', 'Bundle timestamp is required');
+  }
+
+  const compositionResult = FhirCompositionSchema.safeParse(entry[0]?.resource);
+  if (!compositionResult.success) {
+    error('entry[0]', 'First entry must be a valid Composition');
+    return { valid: false, document, issues };
+  }
+  const composition = compositionResult.data;
+
+  const typeCode = composition.type.coding?.find((c) => c.system === RNDS_SYSTEMS.documentType)?.code;
+  const detected = (Object.keys(RNDS_PROFILES) as RndsDocumentType[]).find(
+    (d) => RNDS_PROFILES[d].compositionType === typeCode
+  );
+  const profile = RNDS_PROFILES[document ?? detected ?? 'RAC'];
+  if (!document && !detected) {
+    error('entry[0].type', `Unknown RNDS document type: ${typeCode ?? 'missing'}`);
+    return { valid: false, issues };
+  }
+  if (typeCode !== profile.compositionType) {
+    error('entry[0].type', `Composition type ${typeCode ?? 'missing'} does not match ${profile.document}`);
+  }
+  if (!composition.meta?.profile?.includes(profile.profile)) {
+    error('entry[0].meta.profile', `Composition must declare ${profile.profile}`);
+  }
+
+  checkIdentifier(issues, 'entry[0].subject', composition.subject, RNDS_SYSTEMS.cns, isValidCns, 'patient CNS');
+  const authorSystems = composition.author.map((a) => identifierOf(a)?.system);
+  if (!authorSystems.includes(RNDS_SYSTEMS.cnes)) {
+    error('entry[0].author', 'Composition author must include the establishment CNES');
+  }
+  composition.author.forEach((author, i) => {
+    const system = identifierOf(author)?.system;
+    if (system === RNDS_SYSTEMS.cnes) {
+      checkIdentifier(issues, `entry[0].author[${i}]`, author, RNDS_SYSTEMS.cnes, isValidCnes, 'CNES');
+    } else if (system === RNDS_SYSTEMS.cns) {
+      checkIdentifier(issues, `entry[0].author[${i}]`, author, RNDS_SYSTEMS.cns, isValidCns, 'professional CNS');
+    }
+  });
+
+  // Recursos do documento, contra as regras do perfil
+  const rest = entry.slice(1);
+  for (const rule of profile.resources) {
+    const matching = rest
+      .map((e, i) => ({ resource: e.resource as Record<string, unknown>, path: `entry[${i + 1}]` }))
+      .filter((e) => e.resource.resourceType === rule.resourceType);
+
+    if (matching.length < rule.min) {
+      error('Bundle.entry', `${profile.document} requires at least ${rule.min} ${rule.resourceType}`);
+    }
+    if (rule.max !== undefined && matching.length > rule.max) {
+      error('Bundle.entry', `${profile.document} allows at most ${rule.max} ${rule.resourceType}`);
+    }
+
+    for (const { resource, path } of matching) {
+      const meta = resource.meta as { profile?: string[] } | undefined;
+      if (!meta?.profile?.includes(rule.profile)) {
+        error(`${path}.meta.profile`, `${rule.resourceType} must declare ${rule.profile}`);
+      }
+      for (const required of rule.requiredPaths) {
+        if (!required.split('|').some((p) => valuesAt(resource, p).length > 0)) {
+          error(`${path}.${required}`, `${rule.resourceType}.${required} is required`);
+        }
+      }
+    }
+  }
+
+  const allowed = new Set(profile.resources.map((r) => r.resourceType));
+  rest.forEach((e, i) => {
+    if (!allowed.has(e.resource.resourceType)) {
+      error(`entry[${i + 1}]`, `${e.resource.resourceType} is not part of ${profile.document}`);
+    }
+  });
+
+  // Referencias da Composition precisam resolver dentro do Bundle
+  const fullUrls = new Set(entry.map((e) => e.fullUrl).filter(Boolean));
+  const references = [
+    composition.encounter?.reference,
+    ...(composition.section ?? []).flatMap((s) => (s.entry ?? []).map((r) => r.reference)),
+  ].filter((r): r is string => Boolean(r));
+  for (const reference of references) {
+    if (!fullUrls.has(reference)) {
+      error('entry[0].section', `Unresolved reference ${reference}`);
+    }
+  }
+  rest.forEach((e, i) => {
+    if (!e.fullUrl || !references.includes(e.fullUrl)) {
+      issues.push({
+        severity: 'warning',
+        path: `entry[${i + 1}]`,
+        message: `${e.resource.resourceType} is not referenced by the Composition`,
+      });
+    }
+  });
+
+  return {
+    valid: !issues.some((i) => i.severity === 'error'),
+    document: profile.document,
+    issues,
+  };
+}
+
+/**
+ * CNS: 15 digitos, soma ponderada (15..1) multipla de 11
+ * Vale para definitivos (1, 2) e provisorios (7, 8, 9)
+ */
+export function isValidCns(cns: string): boolean {
+  if (!/^[12789]\d{14}$/.test(cns)) return false;
+  const sum = [...cns].reduce((acc, digit, i) => acc + Number(digit) * (15 - i), 0);
+  return sum % 11 === 0;
+}
+
+export function isValidCnes(cnes: string): boolean {
+  return /^\d{7}$/.test(cnes);
+}
+
+function checkIdentifier(
+  issues: RndsValidationIssue[],
+  path: string,
+  reference: unknown,
+  system: string,
+  isValid: (value: string) => boolean,
+  label: string
+): void {
+  const identifier = identifierOf(reference);
+  if (identifier?.system !== system || !identifier.value) {
+    issues.push({ severity: 'error', path, message: `Missing ${label}` });
+  } else if (!isValid(identifier.value)) {
+    issues.push({ severity: 'error', path, message: `Invalid ${label}: ${identifier.value}` });
+  }
+}
+
+function identifierOf(reference: unknown): { system?: string; value?: string } | undefined {
+  return (reference as { identifier?: { system?: string; value?: string } } | undefined)?.identifier;
+}
+
+/**
+ * Valores em um caminho com pontos, percorrendo arrays
+ */
+function valuesAt(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+  for (const key of path.split('.')) {
+    current = current
+      .flatMap((v) => (Array.isArray(v) ? v : [v]))
+      .map((v) => (v && typeof v === 'object' ? (v as Record<string, unknown>)[key] : undefined))
+      .flatMap((v) => (Array.isArray(v) ? v : [v]))
+      .filter((v) => v !== undefined && v !== null && v !== '');
+  }
+  return current;
+}
+
+// =============================================================================
+// TRANSPORTES
+// =============================================================================
+
+/**
+ * Envio para o servidor da RNDS
+ * O token vem do servico de autenticacao (certificado do estabelecimento) - fora daqui
+ */
+export class HttpRndsTransport implements RndsTransport {
+  constructor(
+    private readonly options: {
+      endpoint: string;
+      getToken: () => Promise<string>;
+      fetcher?: typeof fetch;
+    }
+  ) {}
+
+  async submit(bundle: FhirBundle, context: RndsContext): Promise<RndsTransportResult> {
+    const fetcher = this.options.fetcher ?? fetch;
+    const response = await fetcher(`${this.options.endpoint.replace(/\/$/, '')}/Bundle`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/fhir+json',
+        'X-Authorization-Server': `Bearer ${await this.options.getToken()}`,
+        Authorization: context.professionalCns,
+      },
+      body: JSON.stringify(bundle),
+    });
+
+    if (response.ok) {
+      const location = response.headers.get('Location') ?? '';
+      return { status: 'accepted', protocol: location.split('/').filter(Boolean).pop() ?? bundle.id ?? '' };
+    }
+
+    // 4xx (exceto autenticacao e limite) e recusa definitiva; o resto entra em retry
+    if (response.status >= 400 && response.status < 500 && ![401, 403, 408, 429].includes(response.status)) {
+      return { status: 'rejected', reason: await operationOutcomeText(response) };
+    }
+    throw new Error(`RNDS responded ${response.status}`);
+  }
+}
+
+/**
+ * Transporte local - valida como o servidor faria e guarda em memoria
+ */
+export class LocalRndsTransport implements RndsTransport {
+  readonly submitted: Array<{ protocol: string; bundle: FhirBundle; context: RndsContext }> = [];
+
+  async submit(bundle: FhirBundle, context: RndsContext): Promise<RndsTransportResult> {
+    const validation = validateRndsBundle(bundle);
+    if (!validation.valid) {
+      const first = validation.issues.find((i) => i.severity === 'error');
+      return { status: 'rejected', reason: `${first?.path}: ${first?.message}` };
+    }
+
+    const protocol = `local-${crypto.randomUUID()}`;
+    this.submitted.push({ protocol, bundle, context });
+    return { status: 'accepted', protocol };
+  }
+}
+
+async function operationOutcomeText(response: Response): Promise<string> {
+  try {
+    const outcome = (await response.json()) as { issue?: Array<{ diagnostics?: string; details?: { text?: string } }> };
+    const messages = (outcome.issue ?? []).map((i) => i.diagnostics ?? i.details?.text).filter(Boolean);
+    if (messages.length > 0) return messages.join('; ');
+  } catch {
+    // Corpo fora do formato OperationOutcome
+  }
+  return `RNDS responded ${response.status}`;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function narrative(text: string): string {
+  const body = escapeXml(text.trim()).split('\n').join('<br/>');
+  return `<div xmlns="http://www.w3.org/1999/xhtml">${body}</div>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
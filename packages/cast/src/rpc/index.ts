@@ -0,0 +1,172 @@
+/**
+ * HealthOS Actor RPC (cliente e despacho)
+ *
+ * Os Actors expoem um unico metodo RPC - rpc({ method, args }) - que:
+ *
+ * 1. Aceita so metodos do contrato (@healthos/shared: PatientActorRpc, ...)
+ * 2. Valida os argumentos com o schema do contrato antes de chamar o metodo
+ * 3. Devolve { ok: true, result } ou { ok: false, error: { code, message } }
+ *
+ * Do outro lado, createActorClient monta um objeto com os mesmos metodos do
+ * Actor: valida os argumentos, chama o stub, valida o resultado e converte o
+ * erro de volta em ActorRpcError. Cast e Actors usam o cliente - nunca o stub.
+ */
+
+import { ZodError } from 'zod';
+import type { AnyZodTuple } from 'zod';
+import { ActorRpcError, ActorRpcRequestSchema } from '@healthos/shared';
+import type {
+  ActorId,
+  ActorRpcContract,
+  ActorRpcErrorPayload,
+  ActorRpcRequest,
+  ActorRpcResponse,
+  PatientActorRpc,
+  EntityActorRpc,
+  ServiceActorRpc,
+  ScriptExecutionsRpc,
+} from '@healthos/shared';
+import type { PatientActor } from '../actors/patient';
+import type { EntityActor, ServiceActor } from '../actors/entity-service';
+import type { ScriptExecutions } from '../actors/script-executions';
+
+export { ActorRpcError };
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** O que o cliente precisa do stub do Durable Object */
+export interface ActorRpcStub {
+  rpc(request: ActorRpcRequest): Promise<ActorRpcResponse>;
+}
+
+type AsyncMethod<F> = F extends (...args: infer A) => infer R
+  ? (...args: A) => Promise<Awaited<R>>
+  : never;
+
+/**
+ * Metodos do contrato com as assinaturas do Actor (sempre assincronas)
+ */
+export type ActorClient<TActor, C extends ActorRpcContract> = {
+  [K in keyof C & keyof TActor]: AsyncMethod<TActor[K]>;
+};
+
+export type PatientActorClient = ActorClient<PatientActor, typeof PatientActorRpc>;
+export type EntityActorClient = ActorClient<EntityActor, typeof EntityActorRpc>;
+export type ServiceActorClient = ActorClient<ServiceActor, typeof ServiceActorRpc>;
+export type ScriptExecutionsClient = ActorClient<ScriptExecutions, typeof ScriptExecutionsRpc>;
+
+// =============================================================================
+// ERROS
+// =============================================================================
+
+/**
+ * Converte qualquer erro no payload do envelope
+ */
+export function toRpcError(error: unknown): ActorRpcErrorPayload {
+  if (error instanceof ActorRpcError) {
+    return { code: error.code, message: error.message, details: error.details };
+  }
+  if (error instanceof ZodError) {
+    return { code: 'invalid_request', message: 'Invalid arguments', details: error.issues };
+  }
+  return { code: 'internal', message: error instanceof Error ? error.message : String(error) };
+}
+
+// =============================================================================
+// DESPACHO (lado do Actor)
+// =============================================================================
+
+/**
+ * Executa uma chamada recebida sobre o Actor
+ * Nunca lanca - erros viram { ok: false }
+ */
+export async function dispatchActorRpc(
+  target: object,
+  contract: ActorRpcContract,
+  request: unknown
+): Promise<ActorRpcResponse> {
+  try {
+    const { method, args } = ActorRpcRequestSchema.parse(request);
+    const spec = Object.hasOwn(contract, method) ? contract[method] : undefined;
+    const handler = (target as Record<string, unknown>)[method];
+    if (!spec || typeof handler !== 'function') {
+      return { ok: false, error: { code: 'unknown_method', message: `Unknown method: ${method}` } };
+    }
+
+    const parsedArgs = spec.args.parse(padArgs(args, spec.args)) as unknown[];
+    const result = await handler.apply(target, parsedArgs);
+    return { ok: true, result };
+  } catch (error) {
+    return { ok: false, error: toRpcError(error) };
+  }
+}
+
+// =============================================================================
+// CLIENTE
+// =============================================================================
+
+/**
+ * Cliente tipado para um Actor a partir do stub e do contrato
+ */
+export function createActorClient<TActor, C extends ActorRpcContract>(
+  stub: ActorRpcStub,
+  contract: C
+): ActorClient<TActor, C> {
+  const client: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+
+  for (const [method, spec] of Object.entries(contract)) {
+    client[method] = async (...args: unknown[]) => {
+      const parsedArgs = spec.args.safeParse(padArgs(args, spec.args));
+      if (!parsedArgs.success) {
+        throw new ActorRpcError(
+          'invalid_request',
+          `Invalid arguments for ${method}`, parsedArgs.error.issues
+        );
+      }
+
+      const response = await stub.rpc({ method, args: parsedArgs.data as unknown[] });
+      if (!response.ok) {
+        throw new ActorRpcError(response.error.code, response.error.message, response.error.details);
+      }
+
+      const parsedResult = spec.result.safeParse(response.result);
+      if (!parsedResult.success) {
+        throw new ActorRpcError(
+          'invalid_response',
+          `Invalid response from ${method}`,
+          parsedResult.error.issues
+        );
+      }
+      return parsedResult.data;
+    };
+  }
+
+  return client as unknown as ActorClient<TActor, C>;
+}
+
+/**
+ * Cliente do Actor enderecado por idFromName(actorId) no namespace
+ */
+export function connectActor<TActor, C extends ActorRpcContract>(
+  namespace: DurableObjectNamespace,
+  actorId: ActorId,
+  contract: C
+): ActorClient<TActor, C> {
+  const stub = namespace.get(namespace.idFromName(actorId)) as unknown as ActorRpcStub;
+  return createActorClient<TActor, C>(stub, contract);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Completa com undefined os argumentos opcionais omitidos no fim
+ * (z.tuple exige o comprimento exato)
+ */
+function padArgs(args: unknown[], schema: AnyZodTuple): unknown[] {
+  const length = schema.items.length;
+  return args.length >= length ? args : [...args, ...new Array(length - args.length).fill(undefined)];
+}
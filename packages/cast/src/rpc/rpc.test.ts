@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import type { ActorRpcContract } from '@healthos/shared';
+import { ActorRpcError, createActorClient, dispatchActorRpc } from '.';
+import type { ActorRpcStub } from '.';
+
+const Contract = {
+  greet: { args: z.tuple([z.string(), z.number().int().optional()]), result: z.string() },
+  fail: { args: z.tuple([]), result: z.undefined() },
+  broken: { args: z.tuple([]), result: z.undefined() },
+  count: { args: z.tuple([]), result: z.number() },
+} satisfies ActorRpcContract;
+
+class Target {
+  greet(name: string, times = 1): string {
+    return `ola ${name}`.repeat(times);
+  }
+
+  fail(): void {
+    throw new ActorRpcError('forbidden', 'Not allowed', { reason: 'teste' });
+  }
+
+  broken(): void {
+    throw new Error('boom');
+  }
+
+  count(): string {
+    return 'nao e numero';
+  }
+
+  /** Fora do contrato - nao pode ser chamado por RPC */
+  secret(): string {
+    return 'segredo';
+  }
+}
+
+/** Stub que despacha direto no alvo (o que o Durable Object faz em rpc()) */
+const stubFor = (target: object): ActorRpcStub => ({
+  rpc: (request) => dispatchActorRpc(target, Contract, request),
+});
+
+describe('dispatchActorRpc', () => {
+  it('calls the method with validated arguments', async () => {
+    expect(await dispatchActorRpc(new Target(), Contract, { method: 'greet', args: ['ana', 2] })).toEqual({
+      ok: true,
+      result: 'ola anaola ana',
+    });
+    // Argumentos opcionais omitidos no fim da lista
+    expect(await dispatchActorRpc(new Target(), Contract, { method: 'greet', args: ['ana'] })).toEqual({
+      ok: true,
+      result: 'ola ana',
+    });
+  });
+
+  it('rejects methods outside the contract', async () => {
+    for (const method of ['secret', 'constructor', 'toString', 'missing']) {
+      const response = await dispatchActorRpc(new Target(), Contract, { method, args: [] });
+      expect(response).toMatchObject({ ok: false, error: { code: 'unknown_method' } });
+    }
+  });
+
+  it('turns invalid requests and arguments into invalid_request', async () => {
+    const invalidArgs = await dispatchActorRpc(new Target(), Contract, { method: 'greet', args: [42] });
+    expect(invalidArgs).toMatchObject({ ok: false, error: { code: 'invalid_request' } });
+
+    const invalidEnvelope = await dispatchActorRpc(new Target(), Contract, { args: [] });
+    expect(invalidEnvelope).toMatchObject({ ok: false, error: { code: 'invalid_request' } });
+  });
+
+  it('keeps ActorRpcError codes and hides other errors behind internal', async () => {
+    expect(await dispatchActorRpc(new Target(), Contract, { method: 'fail', args: [] })).toEqual({
+      ok: false,
+      error: { code: 'forbidden', message: 'Not allowed', details: { reason: 'teste' } },
+    });
+    expect(await dispatchActorRpc(new Target(), Contract, { method: 'broken', args: [] })).toEqual({
+      ok: false,
+      error: { code: 'internal', message: 'boom' },
+    });
+  });
+});
+
+describe('createActorClient', () => {
+  it('round-trips calls and rethrows errors as ActorRpcError', async () => {
+    const client = createActorClient<Target, typeof Contract>(stubFor(new Target()), Contract);
+
+    expect(await client.greet('bia')).toBe('ola bia');
+    const error = await client.fail().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ActorRpcError);
+    expect(error).toMatchObject({ code: 'forbidden', message: 'Not allowed', details: { reason: 'teste' } });
+  });
+
+  it('validates arguments before calling the stub', async () => {
+    let calls = 0;
+    const client = createActorClient<Target, typeof Contract>(
+      { rpc: async () => (calls++, { ok: true, result: 'x' }) },
+      Contract
+    );
+
+    await expect(client.greet(1 as unknown as string)).rejects.toMatchObject({ code: 'invalid_request' });
+    expect(calls).toBe(0);
+  });
+
+  it('rejects results that do not match the contract', async () => {
+    const client = createActorClient<Target, typeof Contract>(stubFor(new Target()), Contract);
+
+    await expect(client.count()).rejects.toMatchObject({ code: 'invalid_response' });
+  });
+});
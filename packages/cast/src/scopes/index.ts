@@ -0,0 +1,180 @@
+/**
+ * HealthOS Access Scopes
+ *
+ * Regras de escopo fino (por registro e por campo) aplicadas pelo PatientActor:
+ *
+ * 1. scope.dataTypes continua definindo quais compartimentos (DEKs) o grant recebe
+ * 2. scope.recordFilters restringe, dentro de um compartimento, quais registros
+ *    e quais campos sao entregues
+ * 3. A DEK do compartimento vai inteira no grant - a restricao e garantida pelo
+ *    PatientActor nao entregar o ciphertext fora do filtro
+ */
+
+import type { AccessScope, DataType, PatientRecord, RecordFilter } from '@healthos/shared';
+import { COMPARTMENTS } from '../crypto';
+import type { CompartmentType } from '../crypto';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** O que foi entregue de um registro (vai para a auditoria) */
+export interface ReleasedRecord {
+  recordId: string;
+  fields: string[];
+}
+
+// =============================================================================
+// ESCOPO
+// =============================================================================
+
+/**
+ * Verifica se o escopo cobre o compartimento
+ */
+export function scopeCoversDataType(scope: AccessScope, dataType: DataType): boolean {
+  return scope.dataTypes.includes(dataType) || scope.dataTypes.includes('all');
+}
+
+/**
+ * Filtros do escopo para um compartimento (vazio = compartimento inteiro)
+ */
+export function recordFiltersFor(scope: AccessScope, compartment: CompartmentType): RecordFilter[] {
+  return (scope.recordFilters ?? []).filter((f) => f.dataType === compartment);
+}
+
+/**
+ * Verifica se um registro passa em um filtro
+ */
+export function recordMatchesFilter(record: PatientRecord, filter: RecordFilter): boolean {
+  if (filter.recordIds && !filter.recordIds.includes(record.id)) return false;
+  if (filter.excludeRecordIds?.includes(record.id)) return false;
+
+  const recordedAt = new Date(record.recordedAt).getTime();
+  if (filter.from && recordedAt < new Date(filter.from).getTime()) return false;
+  if (filter.to && recordedAt > new Date(filter.to).getTime()) return false;
+
+  if (filter.tags && !filter.tags.some((t) => record.tags.includes(t))) return false;
+  if (filter.excludeTags?.some((t) => record.tags.includes(t))) return false;
+
+  return true;
+}
+
+/**
+ * Aplica os filtros do escopo aos registros de um compartimento
+ * Retorna os registros com apenas os campos liberados
+ */
+export function applyRecordFilters(
+  records: PatientRecord[],
+  scope: AccessScope,
+  compartment: CompartmentType
+): PatientRecord[] {
+  const filters = recordFiltersFor(scope, compartment);
+  if (filters.length === 0) {
+    return records;
+  }
+
+  const released: PatientRecord[] = [];
+  for (const record of records) {
+    const matching = filters.filter((f) => recordMatchesFilter(record, f));
+    if (matching.length === 0) continue;
+
+    // Um filtro sem mascara libera todos os campos; senao, uniao das mascaras
+    const fields = matching.some((f) => !f.fields)
+      ? undefined
+      : new Set(matching.flatMap((f) => f.fields!));
+
+    released.push(fields ? maskRecord(record, fields) : record);
+  }
+
+  return released;
+}
+
+/**
+ * Verifica se um registro novo pode ser gravado sob o escopo
+ * (o grant nao pode criar registros que ele mesmo nao enxergaria)
+ */
+export function scopeAllowsRecord(
+  scope: AccessScope,
+  compartment: CompartmentType,
+  record: PatientRecord
+): boolean {
+  const filters = recordFiltersFor(scope, compartment);
+  if (filters.length === 0) {
+    return true;
+  }
+
+  const fieldNames = Object.keys(record.fields);
+  return filters.some(
+    (f) => recordMatchesFilter(record, f) && (!f.fields || fieldNames.every((n) => f.fields!.includes(n)))
+  );
+}
+
+/**
+ * Verifica se um escopo e igual ou mais restrito que outro
+ * Usado para estreitar um grant ativo sem ampliar nada
+ */
+export function isScopeWithin(candidate: AccessScope, current: AccessScope): boolean {
+  if (!candidate.dataTypes.every((t) => scopeCoversDataType(current, t))) return false;
+  if (!candidate.actions.every((a) => current.actions.includes(a))) return false;
+  if (candidate.durationSeconds > current.durationSeconds) return false;
+  if (Boolean(candidate.breakGlass) !== Boolean(current.breakGlass)) return false;
+
+  for (const compartment of resolveCandidateCompartments(candidate)) {
+    const currentFilters = recordFiltersFor(current, compartment);
+    if (currentFilters.length === 0) continue;
+
+    // Compartimento filtrado so continua filtrado - e cada filtro novo cabe em um atual
+    const candidateFilters = recordFiltersFor(candidate, compartment);
+    if (candidateFilters.length === 0) return false;
+    if (!candidateFilters.every((f) => currentFilters.some((c) => isFilterWithin(f, c)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Resumo do que foi entregue - registrado na auditoria
+ */
+export function describeReleasedRecords(records: PatientRecord[]): ReleasedRecord[] {
+  return records.map((r) => ({ recordId: r.id, fields: Object.keys(r.fields) }));
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function resolveCandidateCompartments(scope: AccessScope): CompartmentType[] {
+  return scope.dataTypes.includes('all')
+    ? COMPARTMENTS
+    : (scope.dataTypes.filter((t) => t !== 'all') as CompartmentType[]);
+}
+
+function isFilterWithin(candidate: RecordFilter, current: RecordFilter): boolean {
+  const subset = (a: string[] | undefined, b: string[] | undefined) =>
+    b === undefined || (a !== undefined && a.every((x) => b.includes(x)));
+  const superset = (a: string[] | undefined, b: string[] | undefined) =>
+    (b ?? []).every((x) => (a ?? []).includes(x));
+  const time = (d: Date | undefined) => (d === undefined ? undefined : new Date(d).getTime());
+
+  const [candidateFrom, currentFrom] = [time(candidate.from), time(current.from)];
+  const [candidateTo, currentTo] = [time(candidate.to), time(current.to)];
+
+  return (
+    subset(candidate.recordIds, current.recordIds) &&
+    superset(candidate.excludeRecordIds, current.excludeRecordIds) &&
+    subset(candidate.tags, current.tags) &&
+    superset(candidate.excludeTags, current.excludeTags) &&
+    subset(candidate.fields, current.fields) &&
+    (currentFrom === undefined || (candidateFrom !== undefined && candidateFrom >= currentFrom)) &&
+    (currentTo === undefined || (candidateTo !== undefined && candidateTo <= currentTo))
+  );
+}
+
+function maskRecord(record: PatientRecord, fields: Set<string>): PatientRecord {
+  return {
+    ...record,
+    fields: Object.fromEntries(Object.entries(record.fields).filter(([name]) => fields.has(name))),
+  };
+}
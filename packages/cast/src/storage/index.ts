@@ -0,0 +1,239 @@
+/**
+ * HealthOS Actor Storage
+ *
+ * Persistencia do estado dos Actors no storage do Durable Object:
+ *
+ * 1. Cada campo de primeiro nivel do estado e gravado em chaves proprias
+ *    (state:<campo>:<pedaco>) - campos grandes, como o log de auditoria,
+ *    sao divididos para caber no limite de valor do storage
+ * 2. Datas e Maps sao gravados com marcadores e revividos na carga
+ * 3. persistActorState grava so os pedacos que mudaram desde a ultima gravacao,
+ *    numa unica transacao - o estado nunca fica meio gravado. Acrescentar ao
+ *    fim de um campo (o log de auditoria) regrava so o ultimo pedaco
+ * 4. O estado carrega sua schemaVersion; migracoes pendentes rodam em ordem na
+ *    carga, e campos novos recebem o valor padrao de initializeState
+ */
+
+import { ActorRpcError } from '@healthos/shared';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Migracao do formato do estado
+ * Recebe o estado gravado (ja revivido) e devolve o estado na versao `version`
+ */
+export interface StateMigration {
+  version: number;
+  description: string;
+  migrate(state: Record<string, unknown>): Record<string, unknown>;
+}
+
+/** Indice gravado em STATE_META_KEY */
+interface StoredStateMeta {
+  schemaVersion: number;
+  /** Quantidade de pedacos de cada campo */
+  fields: Record<string, number>;
+}
+
+/** O que esta no storage agora (pedacos de cada campo) - base para gravar so a diferenca */
+export interface StateSnapshot {
+  schemaVersion: number;
+  fields: Record<string, string[]>;
+}
+
+export interface LoadedActorState<TState> {
+  state: TState;
+  snapshot: StateSnapshot;
+  /** Versao gravada, se migracoes foram aplicadas */
+  migratedFrom?: number;
+}
+
+// =============================================================================
+// CONSTANTES
+// =============================================================================
+
+export const STATE_META_KEY = 'state:meta';
+
+/** Caracteres por pedaco (o storage limita cada valor a 128 KiB) */
+export const STATE_CHUNK_SIZE = 32 * 1024;
+
+/** Chaves por chamada de get/delete em lote */
+const STORAGE_BATCH_LIMIT = 128;
+
+// =============================================================================
+// CARGA E GRAVACAO
+// =============================================================================
+
+/**
+ * Versao do estado produzida pelas migracoes (1 sem migracoes)
+ */
+export function currentSchemaVersion(migrations: StateMigration[]): number {
+  return Math.max(1, ...migrations.map((m) => m.version));
+}
+
+/**
+ * Carrega o estado gravado, aplica migracoes e completa campos novos com os padroes
+ * Sem nada gravado, devolve os padroes (a primeira mutacao grava tudo)
+ */
+export async function loadActorState<TState extends object>(
+  storage: DurableObjectStorage,
+  defaults: TState,
+  migrations: StateMigration[]
+): Promise<LoadedActorState<TState>> {
+  const meta = await storage.get<StoredStateMeta>(STATE_META_KEY);
+  if (!meta) {
+    return { state: defaults, snapshot: { schemaVersion: currentSchemaVersion(migrations), fields: {} } };
+  }
+
+  const keys = Object.entries(meta.fields).flatMap(([field, chunks]) => chunkKeys(field, chunks));
+  const values = new Map<string, unknown>();
+  for (let i = 0; i < keys.length; i += STORAGE_BATCH_LIMIT) {
+    const batch = await storage.get<string>(keys.slice(i, i + STORAGE_BATCH_LIMIT));
+    batch.forEach((value, key) => values.set(key, value));
+  }
+
+  const snapshot: StateSnapshot = { schemaVersion: meta.schemaVersion, fields: {} };
+  let stored: Record<string, unknown> = {};
+  for (const [field, chunks] of Object.entries(meta.fields)) {
+    const parts = chunkKeys(field, chunks).map((key) => values.get(key));
+    if (parts.some((part) => typeof part !== 'string')) {
+      throw new ActorRpcError('internal', `Stored state field ${field} is incomplete`);
+    }
+    snapshot.fields[field] = parts as string[];
+    stored[field] = deserializeValue(parts.join(''));
+  }
+
+  const pending = migrations
+    .filter((m) => m.version > meta.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    stored = migration.migrate(stored);
+  }
+
+  return {
+    state: { ...defaults, ...stored } as TState,
+    snapshot,
+    migratedFrom: pending.length > 0 ? meta.schemaVersion : undefined,
+  };
+}
+
+/**
+ * Grava os pedacos alterados (e remove os campos que sairam do estado) numa transacao
+ * Retorna false se nada mudou
+ */
+export async function persistActorState(
+  storage: DurableObjectStorage,
+  state: object,
+  snapshot: StateSnapshot,
+  schemaVersion: number
+): Promise<boolean> {
+  const current = state as Record<string, unknown>;
+  const changed = new Map<string, string[]>();
+  for (const [field, value] of Object.entries(current)) {
+    if (value === undefined) continue;
+    const chunks = splitChunks(serializeValue(value));
+    const previous = snapshot.fields[field];
+    if (!previous || previous.length !== chunks.length || chunks.some((c, i) => c !== previous[i])) {
+      changed.set(field, chunks);
+    }
+  }
+  const removed = Object.keys(snapshot.fields).filter((field) => current[field] === undefined);
+
+  if (changed.size === 0 && removed.length === 0 && snapshot.schemaVersion === schemaVersion) {
+    return false;
+  }
+
+  const nextFields: StateSnapshot['fields'] = { ...snapshot.fields };
+  for (const field of removed) {
+    delete nextFields[field];
+  }
+
+  await storage.transaction(async (txn) => {
+    const stale: string[] = removed.flatMap((field) => chunkKeys(field, snapshot.fields[field].length));
+
+    for (const [field, chunks] of changed) {
+      // Pedacos iguais aos gravados ficam como estao
+      const previous = snapshot.fields[field] ?? [];
+      for (let i = 0; i < chunks.length; i++) {
+        if (chunks[i] !== previous[i]) {
+          await txn.put(`state:${field}:${i}`, chunks[i]);
+        }
+      }
+      // Pedacos que sobraram de uma versao maior do campo
+      stale.push(...chunkKeys(field, previous.length).slice(chunks.length));
+      nextFields[field] = chunks;
+    }
+
+    for (let i = 0; i < stale.length; i += STORAGE_BATCH_LIMIT) {
+      await txn.delete(stale.slice(i, i + STORAGE_BATCH_LIMIT));
+    }
+
+    const meta: StoredStateMeta = {
+      schemaVersion,
+      fields: Object.fromEntries(Object.entries(nextFields).map(([field, f]) => [field, f.length])),
+    };
+    await txn.put(STATE_META_KEY, meta);
+  });
+
+  // So atualiza a base depois que a transacao confirmou
+  snapshot.schemaVersion = schemaVersion;
+  snapshot.fields = nextFields;
+  return true;
+}
+
+// =============================================================================
+// SERIALIZACAO
+// =============================================================================
+
+/**
+ * JSON com marcadores para Date e Map
+ */
+export function serializeValue(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, val) {
+    // Date ja chega como string (toJSON) - o original esta no objeto pai
+    const raw = this[key];
+    if (raw instanceof Date) {
+      return { $date: Number.isNaN(raw.getTime()) ? null : raw.toISOString() };
+    }
+    if (raw instanceof Map) {
+      return { $map: Array.from(raw.entries()) };
+    }
+    return val;
+  });
+}
+
+export function deserializeValue(serialized: string): unknown {
+  return JSON.parse(serialized, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      const keys = Object.keys(val);
+      if (keys.length === 1 && keys[0] === '$date') {
+        return new Date(val.$date ?? NaN);
+      }
+      if (keys.length === 1 && keys[0] === '$map' && Array.isArray(val.$map)) {
+        return new Map(val.$map);
+      }
+    }
+    return val;
+  });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function chunkKeys(field: string, chunks: number): string[] {
+  return Array.from({ length: chunks }, (_, i) => `state:${field}:${i}`);
+}
+
+/**
+ * Divide um valor serializado em pedacos de STATE_CHUNK_SIZE caracteres
+ */
+export function splitChunks(serialized: string): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < serialized.length; i += STATE_CHUNK_SIZE) {
+    chunks.push(serialized.slice(i, i + STATE_CHUNK_SIZE));
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
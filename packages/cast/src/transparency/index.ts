@@ -0,0 +1,508 @@
+/**
+ * HealthOS Transparency Report
+ *
+ * Relatorio de acessos para o paciente (e para requisicoes do titular - LGPD art. 18):
+ *
+ * 1. Entradas de auditoria sao agrupadas por grant - cada grant vira um acesso
+ * 2. IDs de Entity, Service e Stage sao trocados pelos nomes
+ * 3. Acessos de emergencia (break-glass) e fora do horario sao destacados
+ * 4. O relatorio pode ser exportado em JSON ou PDF
+ */
+
+import type {
+  ActorId,
+  StageId,
+  DataType,
+  AuditEntry,
+  EntityRole,
+  ServiceType,
+} from '@healthos/shared';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AccessReportOptions {
+  from?: Date;
+  to?: Date;
+  /** Fuso usado para horario comercial e datas do texto */
+  timeZone?: string;
+  businessHours?: BusinessHours;
+}
+
+export interface BusinessHours {
+  /** Hora inicial (inclusiva, 0-23) */
+  start: number;
+  /** Hora final (exclusiva, 1-24) */
+  end: number;
+  /** Dias da semana (0 = domingo) */
+  weekdays: number[];
+}
+
+/** Nomes resolvidos para os IDs que aparecem no log */
+export interface AccessReportDirectory {
+  entities: Record<string, { name: string; role?: EntityRole }>;
+  services: Record<string, { name: string; serviceType?: ServiceType }>;
+  stages: Record<string, { name: string }>;
+}
+
+export interface AccessReportItem {
+  grantId: string;
+  entity: { id: ActorId; name: string; role?: EntityRole };
+  service: { id: ActorId; name: string; serviceType?: ServiceType };
+  stage?: { id: StageId; name: string };
+  dataTypesRead: DataType[];
+  dataTypesWritten: DataType[];
+  grantedAt: Date;
+  /** Primeira e ultima operacao sobre os dados (ou a concessao, se nao houve) */
+  startedAt: Date;
+  endedAt: Date;
+  durationMinutes: number;
+  revoked: boolean;
+  emergency: boolean;
+  outOfHours: boolean;
+  flaggedForReview: boolean;
+  /** Frase legivel para o paciente */
+  summary: string;
+  auditEntryIds: string[];
+}
+
+export interface AccessReport {
+  patientActorId: ActorId;
+  generatedAt: Date;
+  period: { from?: Date; to?: Date };
+  accesses: AccessReportItem[];
+  /** Solicitacoes negadas pelo paciente no periodo */
+  deniedRequests: number;
+  highlights: {
+    emergency: number;
+    outOfHours: number;
+    pendingReview: number;
+  };
+}
+
+export type AccessReportFormat = 'json' | 'pdf';
+
+export interface AccessReportExport {
+  filename: string;
+  contentType: string;
+  body: string | Uint8Array;
+}
+
+// =============================================================================
+// CONSTANTES
+// =============================================================================
+
+export const DEFAULT_REPORT_TIME_ZONE = 'America/Sao_Paulo';
+
+/** Segunda a sexta, 07h-19h */
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  start: 7,
+  end: 19,
+  weekdays: [1, 2, 3, 4, 5],
+};
+
+/** Acoes de auditoria que fazem parte da historia de um grant */
+const GRANT_ACTIONS = new Set([
+  'access_granted',
+  'access_request_approved',
+  'access_auto_approved',
+  'break_glass_access',
+  'data_read',
+  'data_write',
+  'access_renewed',
+  'access_narrowed',
+  'access_revoked',
+]);
+
+/** Acoes em que o actorId e o profissional do grant (nas demais pode ser paciente, representante ou Service) */
+const GRANTEE_ACTIONS = new Set([
+  'access_granted',
+  'break_glass_access',
+  'data_read',
+  'data_write',
+  'access_renewed',
+]);
+
+const ROLE_LABELS: Record<EntityRole, string> = {
+  physician: 'medicina',
+  nurse: 'enfermagem',
+  psychologist: 'psicologia',
+  admin: 'administração',
+  regulator: 'regulação',
+  pharmacist: 'farmácia',
+  lab_technician: 'laboratório',
+};
+
+const DATA_TYPE_LABELS: Record<DataType, string> = {
+  demographics: 'seus dados cadastrais',
+  medical_history: 'seu histórico médico',
+  consultations: 'suas consultas',
+  prescriptions: 'suas prescrições',
+  exams: 'seus exames',
+  mental_health: 'seus registros de saúde mental',
+  all: 'todos os seus dados',
+};
+
+// =============================================================================
+// RELATORIO
+// =============================================================================
+
+/**
+ * IDs que precisam ser resolvidos para montar o relatorio
+ */
+export function collectReportParties(
+  patientActorId: ActorId,
+  entries: AuditEntry[]
+): {
+  entityIds: ActorId[];
+  serviceIds: ActorId[];
+  stageIds: StageId[];
+} {
+  const entityIds = new Set<ActorId>();
+  const serviceIds = new Set<ActorId>();
+  const stageIds = new Set<StageId>();
+
+  for (const entry of entries) {
+    if (!GRANT_ACTIONS.has(entry.action)) continue;
+    if (GRANTEE_ACTIONS.has(entry.action) && entry.actorId !== patientActorId) {
+      entityIds.add(entry.actorId);
+    }
+    if (entry.serviceActorId) serviceIds.add(entry.serviceActorId);
+    if (entry.stageId) stageIds.add(entry.stageId);
+  }
+
+  return {
+    entityIds: [...entityIds],
+    serviceIds: [...serviceIds],
+    stageIds: [...stageIds],
+  };
+}
+
+/**
+ * Agrupa as entradas de auditoria em acessos legiveis
+ */
+export function buildAccessReport(
+  patientActorId: ActorId,
+  entries: AuditEntry[],
+  directory: AccessReportDirectory,
+  options: AccessReportOptions = {}
+): AccessReport {
+  const timeZone = options.timeZone ?? DEFAULT_REPORT_TIME_ZONE;
+  const businessHours = options.businessHours ?? DEFAULT_BUSINESS_HOURS;
+
+  const byGrant = new Map<string, AuditEntry[]>();
+  let deniedRequests = 0;
+
+  for (const entry of entries) {
+    if (entry.action === 'access_request_denied' || entry.action === 'access_auto_denied') {
+      deniedRequests++;
+      continue;
+    }
+
+    const grantId = entry.metadata.grantId as string | undefined;
+    if (!grantId || !GRANT_ACTIONS.has(entry.action)) continue;
+
+    const group = byGrant.get(grantId) ?? [];
+    group.push(entry);
+    byGrant.set(grantId, group);
+  }
+
+  const accesses = [...byGrant.entries()]
+    .map(([grantId, group]) =>
+      buildAccessItem(patientActorId, grantId, group, directory, timeZone, businessHours)
+    )
+    .filter((item): item is AccessReportItem => item !== undefined)
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  return {
+    patientActorId,
+    generatedAt: new Date(),
+    period: { from: options.from, to: options.to },
+    accesses,
+    deniedRequests,
+    highlights: {
+      emergency: accesses.filter((a) => a.emergency).length,
+      outOfHours: accesses.filter((a) => a.outOfHours).length,
+      pendingReview: accesses.filter((a) => a.flaggedForReview).length,
+    },
+  };
+}
+
+/**
+ * Exporta o relatorio no formato pedido
+ */
+export function exportAccessReport(
+  report: AccessReport,
+  format: AccessReportFormat,
+  timeZone: string = DEFAULT_REPORT_TIME_ZONE
+): AccessReportExport {
+  const date = report.generatedAt.toISOString().slice(0, 10);
+  const filename = `relatorio-acessos-${report.patientActorId}-${date}.${format}`;
+
+  if (format === 'pdf') {
+    return {
+      filename,
+      contentType: 'application/pdf',
+      body: renderPdf(reportLines(report, timeZone)),
+    };
+  }
+
+  return {
+    filename,
+    contentType: 'application/json',
+    body: JSON.stringify(report, null, 2),
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function buildAccessItem(
+  patientActorId: ActorId,
+  grantId: string,
+  group: AuditEntry[],
+  directory: AccessReportDirectory,
+  timeZone: string,
+  businessHours: BusinessHours
+): AccessReportItem | undefined {
+  const entityEntry = group.find(
+    (e) => GRANTEE_ACTIONS.has(e.action) && e.actorId !== patientActorId
+  );
+  if (!entityEntry) return undefined;
+
+  const entityId = entityEntry.actorId;
+  const serviceId = group.find((e) => e.serviceActorId)?.serviceActorId ?? entityEntry.serviceActorId;
+  const stageId = group.find((e) => e.stageId)?.stageId;
+
+  const read = new Set<DataType>();
+  const written = new Set<DataType>();
+  const activity: Date[] = [];
+
+  for (const entry of group) {
+    if (entry.action === 'data_read') {
+      for (const dataType of (entry.metadata.dataTypes as DataType[] | undefined) ?? []) {
+        read.add(dataType);
+      }
+      activity.push(new Date(entry.timestamp));
+    }
+    if (entry.action === 'data_write') {
+      written.add(entry.metadata.dataType as DataType);
+      activity.push(new Date(entry.timestamp));
+    }
+  }
+
+  const grantEntry = group.find((e) => e.action === 'access_granted') ?? group[0];
+  const grantedAt = new Date(grantEntry.timestamp);
+  const times = activity.length > 0 ? activity : [grantedAt];
+  const startedAt = new Date(Math.min(...times.map((t) => t.getTime())));
+  const endedAt = new Date(Math.max(...times.map((t) => t.getTime())));
+
+  const entity = { id: entityId, ...(directory.entities[entityId] ?? { name: entityId }) };
+  const service = { id: serviceId, ...(directory.services[serviceId] ?? { name: serviceId }) };
+  const stage = stageId
+    ? { id: stageId, ...(directory.stages[stageId] ?? { name: stageId }) }
+    : undefined;
+
+  const item: AccessReportItem = {
+    grantId,
+    entity,
+    service,
+    stage,
+    dataTypesRead: [...read],
+    dataTypesWritten: [...written],
+    grantedAt,
+    startedAt,
+    endedAt,
+    durationMinutes: Math.round((endedAt.getTime() - startedAt.getTime()) / 60000),
+    revoked: group.some((e) => e.action === 'access_revoked'),
+    emergency: group.some((e) => e.action === 'break_glass_access' || e.scope.breakGlass === true),
+    outOfHours: [grantedAt, ...activity].some((t) => isOutOfHours(t, businessHours, timeZone)),
+    flaggedForReview: group.some((e) => e.flaggedForReview === true),
+    summary: '',
+    auditEntryIds: group.map((e) => e.id),
+  };
+
+  const scopeTypes = grantEntry.scope.dataTypes;
+  item.summary = describeAccess(item, scopeTypes);
+  return item;
+}
+
+/**
+ * "Maria Souza (medicina), em Clinica Y, leu suas prescricoes por 12 minutos via MedScribe"
+ */
+function describeAccess(item: AccessReportItem, scopeTypes: DataType[]): string {
+  const who = item.entity.role
+    ? `${item.entity.name} (${ROLE_LABELS[item.entity.role]})`
+    : item.entity.name;
+
+  const touched = [...new Set([...item.dataTypesRead, ...item.dataTypesWritten])];
+  const data = joinList((touched.length > 0 ? touched : scopeTypes).map((t) => DATA_TYPE_LABELS[t]));
+
+  let action: string;
+  if (item.dataTypesRead.length > 0 && item.dataTypesWritten.length > 0) {
+    action = `leu e registrou ${data} por ${formatDuration(item.durationMinutes)}`;
+  } else if (item.dataTypesRead.length > 0) {
+    action = `leu ${data} por ${formatDuration(item.durationMinutes)}`;
+  } else if (item.dataTypesWritten.length > 0) {
+    action = `registrou ${data}`;
+  } else {
+    action = `recebeu acesso a ${data}, sem leitura registrada`;
+  }
+
+  const via = item.stage ? ` via ${item.stage.name}` : '';
+  const emergency = item.emergency ? ' [acesso de emergência]' : '';
+  return `${who}, em ${item.service.name}, ${action}${via}${emergency}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 1) return 'menos de 1 minuto';
+  if (minutes < 60) return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? '';
+  return `${items.slice(0, -1).join(', ')} e ${items[items.length - 1]}`;
+}
+
+function isOutOfHours(date: Date, hours: BusinessHours, timeZone: string): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(
+    parts.find((p) => p.type === 'weekday')?.value ?? ''
+  );
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value);
+
+  return !hours.weekdays.includes(weekday) || hour < hours.start || hour >= hours.end;
+}
+
+function formatDateTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    dateStyle: 'short',
+    timeStyle: 'short',
+  }).format(date);
+}
+
+/**
+ * Linhas de texto do relatorio (usadas no PDF)
+ */
+function reportLines(report: AccessReport, timeZone: string): string[] {
+  const period = [
+    report.period.from ? `de ${formatDateTime(report.period.from, timeZone)}` : 'desde o início',
+    report.period.to ? `até ${formatDateTime(report.period.to, timeZone)}` : 'até hoje',
+  ].join(' ');
+
+  const lines = [
+    'Relatório de acessos aos seus dados de saúde',
+    '',
+    `Paciente: ${report.patientActorId}`,
+    `Período: ${period}`,
+    `Gerado em: ${formatDateTime(report.generatedAt, timeZone)}`,
+    '',
+    `Acessos: ${report.accesses.length}`,
+    `Acessos de emergência: ${report.highlights.emergency}`,
+    `Acessos fora do horário comercial: ${report.highlights.outOfHours}`,
+    `Acessos aguardando revisão: ${report.highlights.pendingReview}`,
+    `Solicitações negadas: ${report.deniedRequests}`,
+    '',
+  ];
+
+  for (const access of report.accesses) {
+    const flags = [
+      access.emergency && 'EMERGÊNCIA',
+      access.outOfHours && 'FORA DO HORÁRIO',
+      access.flaggedForReview && 'EM REVISÃO',
+      access.revoked && 'REVOGADO',
+    ].filter(Boolean);
+
+    lines.push(
+      `${formatDateTime(access.startedAt, timeZone)}${flags.length > 0 ? `  [${flags.join(', ')}]` : ''}`
+    );
+    lines.push(...wrapText(access.summary, 90).map((line) => `  ${line}`));
+    lines.push('');
+  }
+
+  return lines;
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * PDF minimo (texto, Helvetica, WinAnsi) - sem dependencias externas
+ */
+function renderPdf(lines: string[]): Uint8Array {
+  const linesPerPage = 52;
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // 1: catalogo, 2: arvore de paginas, 3: fonte, depois pagina + conteudo
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, i) => {
+    const text = pageLines
+      .map((line, j) => `${j === 0 ? '' : 'T* '}(${escapePdfText(line)}) Tj`)
+      .join('\n');
+    const stream = `BT\n/F1 10 Tf\n14 TL\n50 792 Td\n${text}\nET`;
+
+    objects[pageIds[i]] =
+      '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ' +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // Conteudo ja esta restrito a Latin-1: um byte por caractere
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
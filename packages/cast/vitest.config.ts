@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Os Actors carregam fora do Workers com o mesmo shim do runtime local
+      'cloudflare:workers': fileURLToPath(new URL('./src/local/workers-shim.ts', import.meta.url)),
+      // Pacotes do workspace direto do fonte - os testes nao dependem do build
+      '@healthos/shared': fileURLToPath(new URL('../shared/src/index.ts', import.meta.url)),
+      '@healthos/stage': fileURLToPath(new URL('../stage/src/index.ts', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -0,0 +1,69 @@
+/**
+ * Execucoes de Script - regras comuns
+ *
+ * Usadas pelo Stage (que executa e grava) e pelo armazenamento das execucoes
+ * (store em memoria do Stage, Durable Object do Cast): backoff entre
+ * tentativas, quando uma execucao terminou, filtro de listagem, cancelamento e
+ * o cabecalho (o que o armazenamento guarda em claro).
+ */
+
+import type { ActionBackoff, ScriptExecutionFilter, ScriptExecutionHeader, ScriptExecutionStatus } from '../types';
+
+export const DEFAULT_ACTION_BACKOFF: ActionBackoff = {
+  initialMs: 1000,
+  maxMs: 5 * 60 * 1000,
+};
+
+/** Espera antes da nova tentativa apos `attempts` falhas (dobra a cada falha) */
+export function retryDelayMs(attempts: number, backoff: ActionBackoff = DEFAULT_ACTION_BACKOFF): number {
+  return Math.min(backoff.initialMs * 2 ** Math.max(0, attempts - 1), backoff.maxMs);
+}
+
+export function isExecutionFinished(status: ScriptExecutionStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+export function matchesExecutionFilter(execution: ScriptExecutionHeader, filter: ScriptExecutionFilter = {}): boolean {
+  return (
+    (!filter.status || filter.status.includes(execution.status)) &&
+    (!filter.sessionId || execution.sessionId === filter.sessionId) &&
+    (!filter.scriptId || execution.scriptId === filter.scriptId) &&
+    (!filter.entityActorId || execution.entityActorId === filter.entityActorId)
+  );
+}
+
+/**
+ * So os campos do cabecalho de um registro de execucao
+ */
+export function executionHeader(execution: ScriptExecutionHeader): ScriptExecutionHeader {
+  return {
+    id: execution.id,
+    idempotencyKey: execution.idempotencyKey,
+    stageId: execution.stageId,
+    scriptId: execution.scriptId,
+    sessionId: execution.sessionId,
+    entityActorId: execution.entityActorId,
+    status: execution.status,
+    attempts: execution.attempts,
+    nextAttemptAt: execution.nextAttemptAt,
+    error: execution.error,
+    createdAt: execution.createdAt,
+    updatedAt: execution.updatedAt,
+    finishedAt: execution.finishedAt,
+  };
+}
+
+/**
+ * Marca a execucao como cancelada
+ * Falhas podem ser canceladas (descartadas); concluidas e canceladas nao
+ */
+export function cancelExecution<T extends ScriptExecutionHeader>(execution: T, now = new Date()): T {
+  if (execution.status === 'completed' || execution.status === 'cancelled') {
+    throw new Error(`Execution already ${execution.status}`);
+  }
+  execution.status = 'cancelled';
+  execution.nextAttemptAt = undefined;
+  execution.updatedAt = now;
+  execution.finishedAt = now;
+  return execution;
+}
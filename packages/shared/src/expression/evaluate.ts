@@ -0,0 +1,94 @@
+/**
+ * Expressoes - avaliacao da AST
+ *
+ * Avaliacao total: nunca lanca. Caminho ausente e undefined, comparacao entre
+ * tipos diferentes e falsa.
+ */
+
+import type { ComparisonOperator, ExpressionNode } from './parser';
+import { EXPRESSION_FUNCTIONS, contains, isRecord } from './functions';
+
+export function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return readProperty(scope, node.name);
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name].call(...node.args.map((arg) => evaluateNode(arg, scope)));
+
+    case 'array':
+      return node.items.map((item) => evaluateNode(item, scope));
+
+    case 'not':
+      return !evaluateNode(node.operand, scope);
+
+    case 'negate': {
+      const value = evaluateNode(node.operand, scope);
+      return typeof value === 'number' ? -value : undefined;
+    }
+
+    case 'logical': {
+      const left = Boolean(evaluateNode(node.left, scope));
+      if (node.operator === '&&') return left && Boolean(evaluateNode(node.right, scope));
+      return left || Boolean(evaluateNode(node.right, scope));
+    }
+
+    case 'comparison':
+      return compare(node.operator, evaluateNode(node.left, scope), evaluateNode(node.right, scope));
+  }
+}
+
+/**
+ * Propriedade propria de objeto ou indice de lista - o resto e undefined
+ */
+function readProperty(target: unknown, key: unknown): unknown {
+  if (Array.isArray(target)) {
+    return typeof key === 'number' && Number.isInteger(key) ? target[key] : undefined;
+  }
+  if (isRecord(target) && typeof key === 'string' && Object.hasOwn(target, key)) {
+    return target[key];
+  }
+  return undefined;
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return equals(left, right);
+    case '!=':
+      return !equals(left, right);
+    case 'in':
+      return contains(right, left);
+    case 'not in':
+      return !contains(right, left);
+  }
+
+  const a = left instanceof Date ? left.getTime() : left;
+  const b = right instanceof Date ? right.getTime() : right;
+  if (!((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string'))) {
+    return false;
+  }
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/** Estrita; datas pelo instante; null e undefined sao iguais (campo ausente) */
+function equals(left: unknown, right: unknown): boolean {
+  if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+  if ((left === null || left === undefined) && (right === null || right === undefined)) return true;
+  return left === right;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, compileTemplate, validateExpression, validateTemplate } from '.';
+
+const evaluate = (source: string, scope: Record<string, unknown> = {}) =>
+  compileExpression(source).evaluate(scope);
+
+describe('compileExpression', () => {
+  const scope = {
+    analysis: { needsReferral: true, score: 7, tags: ['febre', 'tosse'] },
+    results: { end: { success: false } },
+    priority: 'urgent',
+    items: [{ name: 'dipirona' }],
+  };
+
+  it('reads paths with dots, brackets and indexes', () => {
+    expect(evaluate('analysis.needsReferral', scope)).toBe(true);
+    expect(evaluate("results['end'].success", scope)).toBe(false);
+    expect(evaluate('items[0].name', scope)).toBe('dipirona');
+    expect(evaluate('analysis.missing.deep', scope)).toBeUndefined();
+  });
+
+  it('compares and combines conditions', () => {
+    expect(compileExpression('analysis.score >= 7 && !results.end.success').test(scope)).toBe(true);
+    expect(compileExpression('analysis.score > 7 or priority == "urgent"').test(scope)).toBe(true);
+    expect(compileExpression('analysis.score === 7 and not (priority !== "urgent")').test(scope)).toBe(true);
+    expect(compileExpression('analysis.score < "8"').test(scope)).toBe(false);
+  });
+
+  it('checks membership with in and not in', () => {
+    expect(evaluate("priority in ['urgent', 'high']", scope)).toBe(true);
+    expect(evaluate("'febre' in analysis.tags", scope)).toBe(true);
+    expect(evaluate("'dor' not in analysis.tags", scope)).toBe(true);
+  });
+
+  it('calls the helper functions', () => {
+    expect(evaluate('len(analysis.tags)', scope)).toBe(2);
+    expect(evaluate("upper(priority) == 'URGENT'", scope)).toBe(true);
+    expect(evaluate("contains(lower('Febre Alta'), 'febre')", scope)).toBe(true);
+    expect(evaluate("startsWith(priority, 'urg') && endsWith(priority, 'ent')", scope)).toBe(true);
+    expect(evaluate('exists(analysis.score) && !exists(analysis.other)', scope)).toBe(true);
+  });
+
+  it('does not reach prototypes or globals', () => {
+    expect(evaluate('analysis.constructor', scope)).toBeUndefined();
+    expect(evaluate('analysis.__proto__', scope)).toBeUndefined();
+    expect(evaluate('process', scope)).toBeUndefined();
+  });
+
+  it('rejects invalid syntax at compile time', () => {
+    expect(() => compileExpression('analysis.score >')).toThrow();
+    expect(() => compileExpression('alert(1)')).toThrow();
+    expect(() => compileExpression('a = 1')).toThrow();
+    expect(validateExpression('(a && b')).toBeTypeOf('string');
+    expect(validateExpression('a && b')).toBeUndefined();
+  });
+});
+
+describe('compileTemplate', () => {
+  const scope = { steps: { start: { outputs: { resumo: 'ok', dados: { id: 1 } } } }, nome: 'Ana' };
+
+  it('returns the raw value for a single placeholder and interpolates mixed text', () => {
+    expect(compileTemplate('{{ steps.start.outputs.dados }}').render(scope)).toEqual({ id: 1 });
+    const template = compileTemplate('Ola {{ nome }}: {{ steps.start.outputs.resumo }}');
+    expect(template.render(scope)).toBe('Ola Ana: ok');
+  });
+
+  it('walks objects and lists', () => {
+    const template = compileTemplate({
+      to: ['{{ nome }}'],
+      body: { text: 'resumo {{ steps.start.outputs.resumo }}' },
+    });
+    expect(template.render(scope)).toEqual({ to: ['Ana'], body: { text: 'resumo ok' } });
+  });
+
+  it('reports invalid placeholders', () => {
+    expect(validateTemplate({ text: '{{ nome ==  }}' })).toBeTypeOf('string');
+    expect(validateTemplate('{{ nome }}')).toBeUndefined();
+  });
+});
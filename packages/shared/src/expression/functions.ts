@@ -0,0 +1,63 @@
+/**
+ * Expressoes - funcoes auxiliares
+ *
+ * Funcoes puras e totais: tipo inesperado devolve undefined/false em vez de
+ * lancar (a condicao apenas nao casa).
+ */
+
+export interface ExpressionFunction {
+  arity: number;
+  call(...args: unknown[]): unknown;
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  /** Tamanho de texto ou lista; chaves de um objeto */
+  len: {
+    arity: 1,
+    call: (value) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (isRecord(value)) return Object.keys(value).length;
+      return undefined;
+    },
+  },
+  lower: {
+    arity: 1,
+    call: (value) => (typeof value === 'string' ? value.toLowerCase() : undefined),
+  },
+  upper: {
+    arity: 1,
+    call: (value) => (typeof value === 'string' ? value.toUpperCase() : undefined),
+  },
+  /** Mesmo que `item in collection` */
+  contains: {
+    arity: 2,
+    call: (collection, item) => contains(collection, item),
+  },
+  startsWith: {
+    arity: 2,
+    call: (value, prefix) => typeof value === 'string' && typeof prefix === 'string' && value.startsWith(prefix),
+  },
+  endsWith: {
+    arity: 2,
+    call: (value, suffix) => typeof value === 'string' && typeof suffix === 'string' && value.endsWith(suffix),
+  },
+  /** Valor presente (nem null nem undefined) */
+  exists: {
+    arity: 1,
+    call: (value) => value !== undefined && value !== null,
+  },
+};
+
+/**
+ * Lista: elemento igual; texto: trecho; objeto: chave propria
+ */
+export function contains(collection: unknown, item: unknown): boolean {
+  if (Array.isArray(collection)) return collection.some((element) => element === item);
+  if (typeof collection === 'string') return typeof item === 'string' && collection.includes(item);
+  if (isRecord(collection)) return typeof item === 'string' && Object.hasOwn(collection, item);
+  return false;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
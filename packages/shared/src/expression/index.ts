@@ -0,0 +1,61 @@
+/**
+ * HealthOS Expressions
+ *
+ * Linguagem de condicoes dos manifests (Scripts e triggers de Persona) -
+ * avaliada sem eval/new Function, que os Workers nem permitem:
+ *
+ * 1. Caminhos: `analysis.needsReferral`, `results['end'].success`, `items[0]`
+ * 2. Comparacoes: == != < <= > >= (=== e !== sao aceitos como == e !=)
+ * 3. Logica: && || ! (ou and, or, not) e parenteses
+ * 4. Pertinencia: `priority in ['urgent', 'high']`, `'febre' not in sintomas`
+ * 5. Funcoes: len, lower, upper, contains, startsWith, endsWith, exists
+ *
+ * Templates (`{{ steps.start.outputs.resumo }}`) usam a mesma linguagem nos
+ * placeholders - ver template.ts.
+ *
+ * compileExpression valida a sintaxe no carregamento do manifest; a avaliacao
+ * nunca lanca - caminho ausente e undefined e comparacao entre tipos
+ * diferentes e falsa. Leitura so de propriedades proprias (sem __proto__,
+ * constructor etc.).
+ */
+
+import { parseExpression } from './parser';
+import { evaluateNode } from './evaluate';
+
+export type { ComparisonOperator, ExpressionNode } from './parser';
+export { EXPRESSION_FUNCTIONS } from './functions';
+export type { ExpressionFunction } from './functions';
+export { compileTemplate, validateTemplate } from './template';
+export type { Template } from './template';
+
+export interface Expression {
+  readonly source: string;
+  /** Valor da expressao */
+  evaluate(scope: Record<string, unknown>): unknown;
+  /** Valor como condicao (truthy) */
+  test(scope: Record<string, unknown>): boolean;
+}
+
+/**
+ * Compila uma expressao (lanca Error com a posicao se for invalida)
+ */
+export function compileExpression(source: string): Expression {
+  const ast = parseExpression(source);
+  return {
+    source,
+    evaluate: (scope) => evaluateNode(ast, scope),
+    test: (scope) => Boolean(evaluateNode(ast, scope)),
+  };
+}
+
+/**
+ * Mensagem de erro da expressao, ou undefined se for valida
+ */
+export function validateExpression(source: string): string | undefined {
+  try {
+    parseExpression(source);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Expressoes - lexer e parser
+ *
+ * Gramatica (precedencia crescente):
+ *
+ *   or         := and (('||' | 'or') and)*
+ *   and        := not (('&&' | 'and') not)*
+ *   not        := ('!' | 'not') not | comparison
+ *   comparison := unary (('==' | '!=' | '===' | '!==' | '<' | '<=' | '>' | '>=' | 'in' | 'not in') unary)?
+ *   unary      := '-' unary | postfix
+ *   postfix    := primary ('.' ident | '[' or ']')*
+ *   primary    := number | string | true | false | null | ident | ident '(' args ')'
+ *               | '(' or ')' | '[' items ']'
+ *
+ * Nao ha atribuicao, aritmetica nem chamada de metodo - so leitura de dados.
+ */
+
+import { EXPRESSION_FUNCTIONS } from './functions';
+
+// =============================================================================
+// AST
+// =============================================================================
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'array'; items: ExpressionNode[] }
+  | { kind: 'not'; operand: ExpressionNode }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode };
+
+/** Limites contra manifests abusivos */
+const MAX_SOURCE_LENGTH = 2000;
+const MAX_DEPTH = 32;
+
+// =============================================================================
+// LEXER
+// =============================================================================
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', '.', ',', '-'];
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          const escaped = ESCAPES[source[i + 1]];
+          if (escaped === undefined) {
+            throw new Error(`Invalid escape sequence at position ${i}`);
+          }
+          value += escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new Error(`Unterminated string starting at position ${start}`);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      const hint = char === '=' ? ' (use == to compare)' : '';
+      throw new Error(`Unexpected character '${char}' at position ${i}${hint}`);
+    }
+    tokens.push({ type: 'operator', value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Texto -> AST
+ * Erros de sintaxe, funcoes desconhecidas e aridade errada falham aqui,
+ * antes de qualquer avaliacao
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new Error(`Expression longer than ${MAX_SOURCE_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new Error('Empty expression');
+  }
+
+  const parser = new Parser(tokenize(source));
+  const node = parser.parseOr();
+  parser.expectEnd();
+  return node;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseOr(): ExpressionNode {
+    return this.nested(() => {
+      let left = this.parseAnd();
+      while (this.matchOperator('||') || this.matchKeyword('or')) {
+        left = { kind: 'logical', operator: '||', left, right: this.parseAnd() };
+      }
+      return left;
+    });
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new Error(`Unexpected '${token.value}' at position ${token.position}`);
+    }
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&') || this.matchKeyword('and')) {
+      left = { kind: 'logical', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchOperator('!') || this.matchKeyword('not')) {
+      return this.nested(() => ({ kind: 'not', operand: this.parseNot() }));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseUnary();
+
+    const operator = this.matchComparison();
+    if (!operator) return left;
+
+    const right = this.parseUnary();
+    if (this.peekComparison()) {
+      const token = this.peek();
+      throw new Error(`Chained comparison at position ${token.position} (use && or parentheses)`);
+    }
+    return { kind: 'comparison', operator, left, right };
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return this.nested(() => ({ kind: 'negate', operand: this.parseUnary() }));
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          throw new Error(`Expected property name at position ${token.position}`);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value } };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseOr();
+        this.expectOperator(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        if (this.matchOperator('(')) {
+          return this.parseCall(token.value, token.position);
+        }
+        return { kind: 'identifier', name: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { kind: 'array', items: this.parseList(']') };
+        }
+        break;
+    }
+
+    const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+    throw new Error(`Unexpected ${found} at position ${token.position}`);
+  }
+
+  private parseCall(name: string, position: number): ExpressionNode {
+    const fn = Object.hasOwn(EXPRESSION_FUNCTIONS, name) ? EXPRESSION_FUNCTIONS[name] : undefined;
+    if (!fn) {
+      throw new Error(`Unknown function '${name}' at position ${position}`);
+    }
+    const args = this.parseList(')');
+    if (args.length !== fn.arity) {
+      throw new Error(`Function '${name}' expects ${fn.arity} argument(s), got ${args.length}`);
+    }
+    return { kind: 'call', name, args };
+  }
+
+  private parseList(close: ')' | ']'): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchOperator(close)) return items;
+    do {
+      items.push(this.parseOr());
+    } while (this.matchOperator(','));
+    this.expectOperator(close);
+    return items;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tokens
+  // ---------------------------------------------------------------------------
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      throw new Error(`Expression nested deeper than ${MAX_DEPTH} levels`);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchKeyword(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      const token = this.peek();
+      const found = token.type === 'end' ? 'end of expression' : `'${token.value}'`;
+      throw new Error(`Expected '${value}' but found ${found} at position ${token.position}`);
+    }
+  }
+
+  private peekComparison(): boolean {
+    const token = this.peek();
+    if (token.type === 'operator') return ['===', '!==', '==', '!=', '<', '<=', '>', '>='].includes(token.value);
+    return token.type === 'identifier' && (token.value === 'in' || (token.value === 'not' && this.peek(1).value === 'in'));
+  }
+
+  /** === e !== valem como == e != (a comparacao ja e estrita) */
+  private matchComparison(): ComparisonOperator | undefined {
+    if (!this.peekComparison()) return undefined;
+    const token = this.next();
+    if (token.value === 'not') {
+      this.next();
+      return 'not in';
+    }
+    if (token.value === '===') return '==';
+    if (token.value === '!==') return '!=';
+    return token.value as ComparisonOperator;
+  }
+}
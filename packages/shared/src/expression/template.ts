@@ -0,0 +1,112 @@
+/**
+ * Expressoes - templates
+ *
+ * Textos com `{{ expressao }}` dentro de valores de manifest (params de acao,
+ * input de step). Texto que e so um placeholder devolve o valor cru (objeto,
+ * numero...); misturado com texto, o valor e interpolado. Objetos e listas
+ * sao percorridos - so as strings sao templates.
+ */
+
+import { parseExpression } from './parser';
+import type { ExpressionNode } from './parser';
+import { evaluateNode } from './evaluate';
+
+export interface Template {
+  /** Valor com os placeholders resolvidos */
+  render(scope: Record<string, unknown>): unknown;
+}
+
+type Part = string | ExpressionNode;
+
+const OPEN = '{{';
+const CLOSE = '}}';
+
+/**
+ * Compila um valor com placeholders (lanca Error se algum for invalido)
+ */
+export function compileTemplate(value: unknown): Template {
+  const render = compileValue(value, '$');
+  return { render };
+}
+
+/**
+ * Mensagem de erro do template, ou undefined se for valido
+ */
+export function validateTemplate(value: unknown): string | undefined {
+  try {
+    compileValue(value, '$');
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function compileValue(value: unknown, path: string): (scope: Record<string, unknown>) => unknown {
+  if (typeof value === 'string') {
+    return compileString(value, path);
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => compileValue(item, `${path}[${index}]`));
+    return (scope) => items.map((item) => item(scope));
+  }
+
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    const entries = Object.entries(value).map(([key, item]) => [key, compileValue(item, `${path}.${key}`)] as const);
+    return (scope) => Object.fromEntries(entries.map(([key, item]) => [key, item(scope)]));
+  }
+
+  return () => value;
+}
+
+function compileString(source: string, path: string): (scope: Record<string, unknown>) => unknown {
+  if (!source.includes(OPEN)) {
+    return () => source;
+  }
+
+  const parts = splitPlaceholders(source, path);
+  if (parts.length === 1 && typeof parts[0] !== 'string') {
+    const node = parts[0];
+    return (scope) => evaluateNode(node, scope);
+  }
+
+  return (scope) =>
+    parts.map((part) => (typeof part === 'string' ? part : stringify(evaluateNode(part, scope)))).join('');
+}
+
+function splitPlaceholders(source: string, path: string): Part[] {
+  const parts: Part[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf(OPEN, index);
+    if (open === -1) {
+      parts.push(source.slice(index));
+      break;
+    }
+    if (open > index) {
+      parts.push(source.slice(index, open));
+    }
+
+    const close = source.indexOf(CLOSE, open + OPEN.length);
+    if (close === -1) {
+      throw new Error(`Unclosed placeholder at ${path} (position ${open})`);
+    }
+    try {
+      parts.push(parseExpression(source.slice(open + OPEN.length, close)));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid placeholder at ${path}: ${reason}`);
+    }
+    index = close + CLOSE.length;
+  }
+
+  return parts;
+}
+
+/** Interpolacao: ausente vira texto vazio, objeto vira JSON */
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object' && !(value instanceof Date)) return JSON.stringify(value);
+  return String(value);
+}
@@ -6,3 +6,8 @@
 
 export * from './types';
 export * from './schemas';
+export * from './rpc';
+export * from './llm';
+export * from './expression';
+export * from './execution';
+export * from './validation';
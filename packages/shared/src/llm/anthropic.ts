@@ -0,0 +1,212 @@
+/**
+ * Provedor Anthropic (Messages API)
+ */
+
+import type {
+  LLMContentBlock,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStopReason,
+} from './types';
+import type { LLMStreamEvent } from './stream';
+import { readErrorResponse, readServerSentEvents } from './http';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  /** Troca o endpoint (AI Gateway) */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic' as const;
+
+  constructor(private readonly options: AnthropicProviderOptions) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.send(request, false);
+    return toLLMResponse((await response.json()) as AnthropicMessage);
+  }
+
+  /**
+   * Messages API com stream: true
+   * Os blocos sao remontados pelo index para gerar a mesma resposta do complete()
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.send(request, true);
+    const message: AnthropicMessage = {
+      model: request.model,
+      content: [],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 0, output_tokens: 0 },
+    };
+    const partialJson = new Map<number, string>();
+
+    for await (const { data } of readServerSentEvents(response)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+      switch (event.type) {
+        case 'message_start':
+          message.model = event.message.model;
+          message.usage = { ...message.usage, ...event.message.usage };
+          break;
+        case 'content_block_start':
+          message.content[event.index] = { ...event.content_block };
+          if (event.content_block.type === 'tool_use') {
+            partialJson.set(event.index, '');
+            yield { type: 'tool_use_start', id: event.content_block.id!, name: event.content_block.name! };
+          }
+          break;
+        case 'content_block_delta': {
+          const block = message.content[event.index];
+          if (event.delta.type === 'text_delta') {
+            block.text = (block.text ?? '') + event.delta.text;
+            yield { type: 'text_delta', text: event.delta.text! };
+          } else if (event.delta.type === 'thinking_delta') {
+            block.thinking = (block.thinking ?? '') + event.delta.thinking;
+            yield { type: 'thinking_delta', text: event.delta.thinking! };
+          } else if (event.delta.type === 'input_json_delta') {
+            partialJson.set(event.index, (partialJson.get(event.index) ?? '') + event.delta.partial_json);
+          }
+          break;
+        }
+        case 'content_block_stop':
+          if (partialJson.has(event.index)) {
+            message.content[event.index].input = JSON.parse(partialJson.get(event.index) || '{}');
+          }
+          break;
+        case 'message_delta':
+          message.stop_reason = event.delta.stop_reason ?? message.stop_reason;
+          message.usage = { ...message.usage, ...event.usage };
+          break;
+        case 'error':
+          throw new Error(`LLM stream failed (anthropic): ${event.error.message}`);
+      }
+    }
+
+    yield { type: 'done', response: toLLMResponse(message) };
+  }
+
+  private async send(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.options.baseUrl ?? ANTHROPIC_BASE_URL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        ...this.options.headers,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages.map((message) => ({
+          role: message.role,
+          content: typeof message.content === 'string' ? message.content : message.content.map(toAnthropicBlock),
+        })),
+        tools: request.tools?.length
+          ? request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema,
+            }))
+          : undefined,
+        stream: stream || undefined,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed (anthropic ${response.status}): ${await readErrorResponse(response)}`);
+    }
+    return response;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Formato da API
+// -----------------------------------------------------------------------------
+
+interface AnthropicMessage {
+  model: string;
+  content: Array<{
+    type: string;
+    text?: string;
+    thinking?: string;
+    id?: string;
+    name?: string;
+    input?: Record<string, unknown>;
+  }>;
+  stop_reason: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_input_tokens?: number | null;
+    cache_creation_input_tokens?: number | null;
+  };
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { model: string; usage: AnthropicMessage['usage'] } }
+  | { type: 'content_block_start'; index: number; content_block: AnthropicMessage['content'][number] }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: string; text?: string; thinking?: string; partial_json?: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason?: string }; usage?: Partial<AnthropicMessage['usage']> }
+  | { type: 'message_stop' | 'ping' }
+  | { type: 'error'; error: { message: string } };
+
+const STOP_REASONS: Record<string, LLMStopReason> = {
+  end_turn: 'end_turn',
+  tool_use: 'tool_use',
+  max_tokens: 'max_tokens',
+  stop_sequence: 'stop_sequence',
+};
+
+function toLLMResponse(data: AnthropicMessage): LLMResponse {
+  return {
+    content: data.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join(''),
+    toolCalls: data.content
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id!, name: block.name!, input: block.input ?? {} })),
+    thinking:
+      data.content
+        .filter((block) => block.type === 'thinking')
+        .map((block) => block.thinking)
+        .join('\n') || undefined,
+    stopReason: STOP_REASONS[data.stop_reason] ?? 'end_turn',
+    usage: {
+      inputTokens: data.usage.input_tokens,
+      outputTokens: data.usage.output_tokens,
+      cacheReadTokens: data.usage.cache_read_input_tokens ?? undefined,
+      cacheWriteTokens: data.usage.cache_creation_input_tokens ?? undefined,
+    },
+    model: data.model,
+  };
+}
+
+function toAnthropicBlock(block: LLMContentBlock): Record<string, unknown> {
+  switch (block.type) {
+    case 'text':
+      return block;
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: block.toolUseId,
+        content: block.content,
+        is_error: block.isError,
+      };
+  }
+}
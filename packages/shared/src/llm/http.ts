@@ -0,0 +1,55 @@
+/**
+ * Helpers HTTP dos provedores
+ */
+
+/** Quanto do corpo de erro entra na mensagem */
+const ERROR_BODY_LIMIT = 500;
+
+/**
+ * Mensagem de erro do provedor (error.message do JSON ou o texto cru)
+ */
+export async function readErrorResponse(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const data = JSON.parse(text) as { error?: { message?: string } | string };
+    const message = typeof data.error === 'string' ? data.error : data.error?.message;
+    if (message) return message;
+  } catch {
+    // corpo nao e JSON
+  }
+  return text.slice(0, ERROR_BODY_LIMIT) || response.statusText;
+}
+
+/**
+ * Eventos de uma resposta text/event-stream (campos event e data)
+ */
+export async function* readServerSentEvents(
+  response: Response
+): AsyncGenerator<{ event?: string; data: string }> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer = (buffer + (value ?? '')).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1 || (done && buffer.trim())) {
+      const raw = boundary === -1 ? buffer : buffer.slice(0, boundary);
+      buffer = boundary === -1 ? '' : buffer.slice(boundary + 2);
+
+      let event: string | undefined;
+      const data: string[] = [];
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      }
+      if (data.length) yield { event, data: data.join('\n') };
+
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) return;
+  }
+}
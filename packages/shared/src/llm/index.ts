@@ -0,0 +1,207 @@
+/**
+ * HealthOS LLM
+ *
+ * Camada de provedores usada pelo Agent (Personas) e pelo orquestrador do Cast:
+ *
+ * 1. AgentConfig.model escolhe o provedor - pelo catalogo ('claude-haiku',
+ *    'gpt-4o', ...) ou pelo prefixo ('ollama:llama3.1', 'mock:medscribe')
+ * 2. createLLMProviders(env) registra os provedores com credencial no Env;
+ *    com AI_GATEWAY, Anthropic e OpenAI passam pelo gateway
+ * 3. LLM_PROVIDER forca um provedor para todos os modelos (ex.: mock offline)
+ *
+ * Nenhum provedor le process.env - tudo vem do Env do Worker.
+ */
+
+import type { LLMModel, LLMProviderId, TokenUsage } from '../types';
+import type { AIGatewayConfig, LLMEnv, LLMProvider, LLMRequest, LLMResponse, LLMUsage } from './types';
+import type { LLMStreamEvent } from './stream';
+import { streamFrom } from './stream';
+import { estimateCost } from './usage';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai';
+
+export type * from './types';
+export { streamFrom, drainStream } from './stream';
+export type { LLMStreamEvent } from './stream';
+export {
+  MODEL_PRICING,
+  estimateCost,
+  emptyTokenUsage,
+  addTokenUsage,
+  totalTokens,
+  emptyTokenUsageBreakdown,
+  recordTokenUsage,
+} from './usage';
+export type { ModelPricing } from './usage';
+export { AnthropicProvider } from './anthropic';
+export type { AnthropicProviderOptions } from './anthropic';
+export { OpenAICompatibleProvider } from './openai';
+export type { OpenAICompatibleProviderOptions } from './openai';
+export { ScriptedLLMProvider } from './mock';
+export type { LLMFixture } from './mock';
+
+// =============================================================================
+// CATALOGO
+// =============================================================================
+
+/**
+ * Modelos do catalogo -> provedor e nome na API
+ */
+const MODEL_CATALOG: Record<string, { provider: LLMProviderId; model: string }> = {
+  'claude-sonnet-4-20250514': { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+  'claude-haiku': { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+  'claude-opus': { provider: 'anthropic', model: 'claude-opus-4-20250514' },
+  'gpt-4o': { provider: 'openai', model: 'gpt-4o' },
+  'gpt-4o-mini': { provider: 'openai', model: 'gpt-4o-mini' },
+  'gemini-pro': { provider: 'gemini', model: 'gemini-1.5-pro' },
+};
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/openai';
+const AI_GATEWAY_BASE_URL = 'https://gateway.ai.cloudflare.com/v1';
+
+const PROVIDER_IDS: LLMProviderId[] = ['anthropic', 'openai', 'gemini', 'ollama', 'mock'];
+
+/**
+ * Provedor e nome na API de um LLMModel
+ */
+export function resolveModel(model: LLMModel): { provider: LLMProviderId; model: string } {
+  const separator = model.indexOf(':');
+  if (separator > 0) {
+    const provider = model.slice(0, separator) as LLMProviderId;
+    if (!PROVIDER_IDS.includes(provider)) {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+    return { provider, model: model.slice(separator + 1) };
+  }
+
+  const entry = MODEL_CATALOG[model];
+  if (!entry) {
+    throw new Error(`Unknown LLM model: ${model}`);
+  }
+  return entry;
+}
+
+// =============================================================================
+// REGISTRO
+// =============================================================================
+
+/**
+ * Provedores disponiveis para um Stage ou para o Cast
+ */
+export class LLMProviderRegistry {
+  private readonly providers = new Map<LLMProviderId, LLMProvider>();
+
+  /**
+   * @param override provedor que atende todos os modelos (LLM_PROVIDER)
+   */
+  constructor(private readonly override?: LLMProviderId) {}
+
+  register(provider: LLMProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  has(id: LLMProviderId): boolean {
+    return this.providers.has(id);
+  }
+
+  /**
+   * Provedor que atende o modelo e o nome do modelo na API dele
+   * Com override, o modelo segue com o nome do catalogo ou do prefixo
+   */
+  resolve(model: LLMModel): { provider: LLMProvider; model: string } {
+    const resolved = resolveModel(model);
+    const providerId = this.override ?? resolved.provider;
+    const provider = this.providers.get(providerId);
+    if (!provider) {
+      throw new Error(`LLM provider not configured: ${providerId} (model ${model})`);
+    }
+    const apiModel = this.override && !model.includes(':') ? model : resolved.model;
+    return { provider, model: apiModel };
+  }
+
+  async complete(model: LLMModel, request: Omit<LLMRequest, 'model'>): Promise<LLMResponse> {
+    const resolved = this.resolve(model);
+    return resolved.provider.complete({ ...request, model: resolved.model });
+  }
+
+  stream(model: LLMModel, request: Omit<LLMRequest, 'model'>): AsyncGenerator<LLMStreamEvent> {
+    const resolved = this.resolve(model);
+    return streamFrom(resolved.provider, { ...request, model: resolved.model });
+  }
+
+  /**
+   * Tokens e custo de uma resposta, pelo provedor que de fato atendeu o modelo
+   * (com LLM_PROVIDER=mock, nada e cobrado)
+   */
+  tokenUsage(model: LLMModel, usage: LLMUsage): TokenUsage {
+    const resolved = this.resolve(model);
+    return {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens ?? 0,
+      cacheWriteTokens: usage.cacheWriteTokens ?? 0,
+      costUsd: estimateCost(resolved.provider.id, resolved.model, usage),
+      requests: 1,
+    };
+  }
+}
+
+/**
+ * Registra os provedores configurados no Env
+ * O mock nao entra aqui - quem testa registra um ScriptedLLMProvider com as fixtures
+ */
+export function createLLMProviders(env: LLMEnv): LLMProviderRegistry {
+  const registry = new LLMProviderRegistry(env.LLM_PROVIDER);
+  const gateway = env.AI_GATEWAY ? aiGatewayEndpoint(env.AI_GATEWAY) : undefined;
+
+  if (env.ANTHROPIC_API_KEY) {
+    registry.register(
+      new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        baseUrl: gateway && `${gateway.url}/anthropic`,
+        headers: gateway?.headers,
+      })
+    );
+  }
+
+  // OPENAI_BASE_URL aponta para outro servidor compativel - nesse caso sem gateway
+  if (env.OPENAI_API_KEY) {
+    registry.register(
+      new OpenAICompatibleProvider({
+        id: 'openai',
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL ?? (gateway ? `${gateway.url}/openai` : OPENAI_BASE_URL),
+        headers: env.OPENAI_BASE_URL ? undefined : gateway?.headers,
+      })
+    );
+  }
+
+  if (env.GEMINI_API_KEY) {
+    registry.register(
+      new OpenAICompatibleProvider({ id: 'gemini', apiKey: env.GEMINI_API_KEY, baseUrl: GEMINI_BASE_URL })
+    );
+  }
+
+  if (env.OLLAMA_BASE_URL) {
+    registry.register(
+      new OpenAICompatibleProvider({ id: 'ollama', baseUrl: `${env.OLLAMA_BASE_URL.replace(/\/$/, '')}/v1` })
+    );
+  }
+
+  return registry;
+}
+
+/**
+ * URL base e headers do AI Gateway
+ */
+function aiGatewayEndpoint(config: AIGatewayConfig): { url: string; headers?: Record<string, string> } {
+  if (typeof config === 'string') {
+    return { url: config.replace(/\/$/, '') };
+  }
+  return {
+    url: `${AI_GATEWAY_BASE_URL}/${config.accountId}/${config.gatewayId}`,
+    headers: config.token ? { 'cf-aig-authorization': `Bearer ${config.token}` } : undefined,
+  };
+}
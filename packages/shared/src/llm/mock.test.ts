@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { LLMProviderRegistry } from '.';
+import { ScriptedLLMProvider } from './mock';
+
+const ask = (content: string) => ({ messages: [{ role: 'user' as const, content }], maxTokens: 256 });
+
+describe('ScriptedLLMProvider', () => {
+  it('replays fixtures in order and uses each one once', async () => {
+    const provider = new ScriptedLLMProvider([
+      { response: { content: 'primeira' } },
+      { response: { content: 'segunda' } },
+    ]);
+
+    expect((await provider.complete({ model: 'm', ...ask('a') })).content).toBe('primeira');
+    expect((await provider.complete({ model: 'm', ...ask('b') })).content).toBe('segunda');
+    await expect(provider.complete({ model: 'm', ...ask('c') })).rejects.toThrow(/No LLM fixture/);
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.pending()).toEqual([]);
+  });
+
+  it('matches by model, substring and /regex/', async () => {
+    const provider = new ScriptedLLMProvider([
+      { model: 'orchestrator', response: { content: 'stage' } },
+      { match: '/febre|tosse/i', repeat: true, response: { content: 'sintoma' } },
+      { match: 'receita', response: { content: 'prescricao' } },
+    ]);
+
+    const prescription = await provider.complete({ model: 'persona', ...ask('Preciso da receita') });
+    expect(prescription.content).toBe('prescricao');
+    expect((await provider.complete({ model: 'persona', ...ask('FEBRE alta') })).content).toBe('sintoma');
+    expect((await provider.complete({ model: 'persona', ...ask('tosse seca') })).content).toBe('sintoma');
+    expect((await provider.complete({ model: 'orchestrator', ...ask('qualquer') })).content).toBe('stage');
+    expect(provider.pending()).toEqual([]);
+  });
+
+  it('derives stop reason and usage when the fixture omits them', async () => {
+    const provider = new ScriptedLLMProvider([
+      { response: { toolCalls: [{ id: 't1', name: 'buscar', input: { q: 'x' } }] } },
+    ]);
+
+    const response = await provider.complete({ model: 'm', system: 'sistema', ...ask('pergunta') });
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.model).toBe('mock:m');
+    expect(response.usage.inputTokens).toBeGreaterThan(0);
+    expect(response.usage.outputTokens).toBeGreaterThan(0);
+  });
+
+  it('streams the content word by word and ends with the full response', async () => {
+    const provider = new ScriptedLLMProvider([{ response: { content: 'ola mundo', thinking: 'pensando' } }]);
+
+    const events = [];
+    for await (const event of provider.stream({ model: 'm', ...ask('oi') })) {
+      events.push(event);
+    }
+    expect(events.map((e) => e.type)).toEqual(['thinking_delta', 'text_delta', 'text_delta', 'done']);
+    expect(events.filter((e) => e.type === 'text_delta').map((e) => e.text).join('')).toBe('ola mundo');
+  });
+
+  it('answers every model through the registry when it is the override', async () => {
+    const provider = new ScriptedLLMProvider([{ model: 'claude-haiku', response: { content: 'offline' } }]);
+    const registry = new LLMProviderRegistry('mock').register(provider);
+
+    const response = await registry.complete('claude-haiku', ask('oi'));
+    expect(response.content).toBe('offline');
+    expect(provider.requests[0].model).toBe('claude-haiku');
+    expect(registry.tokenUsage('claude-haiku', response.usage).costUsd).toBe(0);
+  });
+});
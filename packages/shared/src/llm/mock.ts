@@ -0,0 +1,123 @@
+/**
+ * Provedor roteirizado (mock)
+ *
+ * Devolve respostas gravadas em fixtures, sem rede - para testar Personas e o
+ * orquestrador offline. Cada requisicao consome a primeira fixture que casa:
+ *
+ * 1. `model` (opcional) - nome depois de 'mock:' (ou o modelo original com LLM_PROVIDER=mock)
+ * 2. `match` (opcional) - trecho ou /regex/ da ultima mensagem
+ * 3. Fixtures sao usadas uma vez, na ordem, salvo `repeat: true`
+ *
+ * Sem fixture que case, a chamada falha - o roteiro nao inventa respostas.
+ * No stream, o texto sai palavra a palavra (deltas deterministicos).
+ */
+
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStopReason,
+  LLMToolCall,
+  LLMUsage,
+} from './types';
+import type { LLMStreamEvent } from './stream';
+
+export interface LLMFixture {
+  model?: string;
+  match?: string;
+  repeat?: boolean;
+  response: {
+    content?: string;
+    toolCalls?: LLMToolCall[];
+    thinking?: string;
+    stopReason?: LLMStopReason;
+    usage?: LLMUsage;
+  };
+}
+
+/** Estimativa de tokens quando a fixture nao informa usage */
+const CHARS_PER_TOKEN = 4;
+
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+
+  /** Requisicoes recebidas, na ordem (para asserts) */
+  readonly requests: LLMRequest[] = [];
+
+  private readonly used = new Set<number>();
+
+  constructor(private readonly fixtures: LLMFixture[]) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    const lastMessage = request.messages.length ? messageText(request.messages[request.messages.length - 1]) : '';
+
+    const index = this.fixtures.findIndex(
+      (fixture, i) =>
+        (fixture.repeat || !this.used.has(i)) &&
+        (fixture.model === undefined || fixture.model === request.model) &&
+        (fixture.match === undefined || matches(fixture.match, lastMessage))
+    );
+    if (index === -1) {
+      throw new Error(`No LLM fixture matches request (model ${request.model}): ${lastMessage.slice(0, 100)}`);
+    }
+    this.used.add(index);
+
+    const { response } = this.fixtures[index];
+    const toolCalls = response.toolCalls ?? [];
+    const content = response.content ?? '';
+    return {
+      content,
+      toolCalls,
+      thinking: response.thinking,
+      stopReason: response.stopReason ?? (toolCalls.length ? 'tool_use' : 'end_turn'),
+      usage: response.usage ?? {
+        inputTokens: estimateTokens(
+          (request.system ?? '') + request.messages.map(messageText).join('')
+        ),
+        outputTokens: estimateTokens(content + JSON.stringify(toolCalls)),
+      },
+      model: `mock:${request.model}`,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.complete(request);
+    if (response.thinking) {
+      yield { type: 'thinking_delta', text: response.thinking };
+    }
+    for (const text of response.content.match(/\S+\s*|\s+/g) ?? []) {
+      yield { type: 'text_delta', text };
+    }
+    for (const call of response.toolCalls) {
+      yield { type: 'tool_use_start', id: call.id, name: call.name };
+    }
+    yield { type: 'done', response };
+  }
+
+  /** Fixtures ainda nao usadas (repeat nao conta) */
+  pending(): LLMFixture[] {
+    return this.fixtures.filter((fixture, i) => !fixture.repeat && !this.used.has(i));
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function messageText(message: LLMMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((block) => (block.type === 'text' ? block.text : block.type === 'tool_result' ? block.content : ''))
+    .join('\n');
+}
+
+function matches(pattern: string, text: string): boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return regex ? new RegExp(regex[1], regex[2]).test(text) : text.includes(pattern);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
@@ -0,0 +1,249 @@
+/**
+ * Provedor compativel com OpenAI (Chat Completions)
+ *
+ * O mesmo formato atende OpenAI, Gemini (endpoint OpenAI do Google) e
+ * servidores locais como Ollama - muda so a URL base e a chave.
+ */
+
+import type { LLMProviderId } from '../types';
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStopReason,
+  LLMUsage,
+} from './types';
+import type { LLMStreamEvent } from './stream';
+import { readErrorResponse, readServerSentEvents } from './http';
+
+export interface OpenAICompatibleProviderOptions {
+  id: LLMProviderId;
+  /** URL ate /v1 (ex.: https://api.openai.com/v1) */
+  baseUrl: string;
+  /** Opcional - servidores locais nao pedem chave */
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderId;
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {
+    this.id = options.id;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.send(request, false);
+    return this.toLLMResponse((await response.json()) as OpenAICompletion, request.model);
+  }
+
+  /**
+   * Chat Completions com stream: true
+   * Deltas de tool_calls chegam por index e sao remontados numa unica completion
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.send(request, true);
+    let model: string | undefined;
+    let content = '';
+    let finishReason = 'stop';
+    let usage: OpenAICompletion['usage'];
+    const toolCalls: Array<{ id: string; function: { name: string; arguments: string } }> = [];
+
+    for await (const { data } of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data) as OpenAIChunk;
+      model = chunk.model ?? model;
+      usage = chunk.usage ?? usage;
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      finishReason = choice.finish_reason ?? finishReason;
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        yield { type: 'text_delta', text: choice.delta.content };
+      }
+      for (const delta of choice.delta.tool_calls ?? []) {
+        const call = (toolCalls[delta.index] ??= { id: '', function: { name: '', arguments: '' } });
+        call.id ||= delta.id ?? '';
+        call.function.name += delta.function?.name ?? '';
+        call.function.arguments += delta.function?.arguments ?? '';
+        if (delta.id) {
+          yield { type: 'tool_use_start', id: delta.id, name: call.function.name };
+        }
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: this.toLLMResponse(
+        {
+          model,
+          choices: [
+            {
+              message: { content, tool_calls: toolCalls.filter(Boolean) },
+              finish_reason: finishReason,
+            },
+          ],
+          usage,
+        },
+        request.model
+      ),
+    };
+  }
+
+  private async send(request: LLMRequest, stream: boolean): Promise<Response> {
+    const messages: OpenAIMessage[] = request.system ? [{ role: 'system', content: request.system }] : [];
+    for (const message of request.messages) {
+      messages.push(...toOpenAIMessages(message));
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        ...this.options.headers,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages,
+        tools: request.tools?.length
+          ? request.tools.map((tool) => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+            }))
+          : undefined,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed (${this.id} ${response.status}): ${await readErrorResponse(response)}`);
+    }
+    return response;
+  }
+
+  private toLLMResponse(data: OpenAICompletion, requestedModel: string): LLMResponse {
+    const choice = data.choices[0];
+    if (!choice) {
+      throw new Error(`LLM response from ${this.id} has no choices`);
+    }
+
+    return {
+      content: choice.message.content ?? '',
+      toolCalls: (choice.message.tool_calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        input: parseArguments(call.function.arguments),
+      })),
+      stopReason: STOP_REASONS[choice.finish_reason] ?? 'end_turn',
+      usage: toLLMUsage(data.usage),
+      model: data.model ?? requestedModel,
+    };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Formato da API
+// -----------------------------------------------------------------------------
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAICompletion {
+  model?: string;
+  choices: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+    };
+    finish_reason: string;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChunk {
+  model?: string;
+  choices?: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+const STOP_REASONS: Record<string, LLMStopReason> = {
+  stop: 'end_turn',
+  tool_calls: 'tool_use',
+  length: 'max_tokens',
+};
+
+/**
+ * Blocos neutros -> mensagens OpenAI
+ * tool_use vira tool_calls do assistant; cada tool_result vira uma mensagem role 'tool'
+ */
+function toOpenAIMessages(message: LLMMessage): OpenAIMessage[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  const text = message.content
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+
+  if (message.role === 'assistant') {
+    const toolCalls = message.content.flatMap((block) =>
+      block.type === 'tool_use'
+        ? [{ id: block.id, type: 'function' as const, function: { name: block.name, arguments: JSON.stringify(block.input) } }]
+        : []
+    );
+    return [{ role: 'assistant', content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) }];
+  }
+
+  const results: OpenAIMessage[] = message.content.flatMap((block) =>
+    block.type === 'tool_result' ? [{ role: 'tool' as const, tool_call_id: block.toolUseId, content: block.content }] : []
+  );
+  return text ? [...results, { role: 'user', content: text }] : results;
+}
+
+/**
+ * prompt_tokens inclui os tokens do cache - aqui eles saem de inputTokens
+ * (o cache da OpenAI e automatico; nao ha custo de gravacao)
+ */
+function toLLMUsage(usage: OpenAIUsage | undefined): LLMUsage {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: (usage?.prompt_tokens ?? 0) - cached,
+    outputTokens: usage?.completion_tokens ?? 0,
+    cacheReadTokens: cached || undefined,
+  };
+}
+
+function parseArguments(value: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(value || '{}');
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    throw new Error(`Malformed tool arguments from LLM: ${value.slice(0, 200)}`);
+  }
+}
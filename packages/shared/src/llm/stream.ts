@@ -0,0 +1,45 @@
+/**
+ * Streaming de respostas
+ *
+ * Provedores com stream() emitem deltas de texto e de raciocinio e o inicio de
+ * cada tool_use; o ultimo evento e sempre 'done' com a resposta completa (a
+ * mesma que complete() devolveria).
+ */
+
+import type { LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export type LLMStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string }
+  | { type: 'done'; response: LLMResponse };
+
+/**
+ * Stream do provedor ou, sem suporte, a resposta inteira como um unico delta
+ */
+export async function* streamFrom(provider: LLMProvider, request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+  if (provider.stream) {
+    yield* provider.stream(request);
+    return;
+  }
+
+  const response = await provider.complete(request);
+  if (response.thinking) yield { type: 'thinking_delta', text: response.thinking };
+  if (response.content) yield { type: 'text_delta', text: response.content };
+  for (const call of response.toolCalls) {
+    yield { type: 'tool_use_start', id: call.id, name: call.name };
+  }
+  yield { type: 'done', response };
+}
+
+/**
+ * Consome um gerador e devolve o valor de retorno
+ * (as versoes sem streaming de Agent, Persona, Stage e Cast sao o stream drenado)
+ */
+export async function drainStream<R>(stream: AsyncGenerator<unknown, R>): Promise<R> {
+  let next = await stream.next();
+  while (!next.done) {
+    next = await stream.next();
+  }
+  return next.value;
+}
@@ -0,0 +1,114 @@
+/**
+ * HealthOS LLM - tipos
+ *
+ * Formato neutro de mensagens, tools e respostas. Cada provedor converte de/para
+ * a API dele; Agent e orquestrador so conhecem estes tipos.
+ */
+
+import type { LLMProviderId } from '../types';
+import type { LLMStreamEvent } from './stream';
+
+// =============================================================================
+// REQUISICAO
+// =============================================================================
+
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema dos argumentos */
+  inputSchema: unknown;
+}
+
+export interface LLMRequest {
+  /** Modelo ja traduzido para o nome da API do provedor */
+  model: string;
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  maxTokens: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+// =============================================================================
+// RESPOSTA
+// =============================================================================
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type LLMStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence';
+
+/**
+ * Tokens informados pelo provedor
+ * inputTokens nao inclui os tokens lidos ou gravados no cache de prompt
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+export interface LLMResponse {
+  /** Texto da resposta (blocos de texto concatenados) */
+  content: string;
+  toolCalls: LLMToolCall[];
+  thinking?: string;
+  stopReason: LLMStopReason;
+  usage: LLMUsage;
+  /** Modelo informado pelo provedor */
+  model: string;
+}
+
+// =============================================================================
+// PROVEDOR
+// =============================================================================
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /** Opcional - sem ele, o registro entrega a resposta inteira como um unico delta */
+  stream?(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+}
+
+/**
+ * AI Gateway do Cloudflare: URL base do gateway ou conta + gateway
+ */
+export type AIGatewayConfig =
+  | string
+  | {
+      accountId: string;
+      gatewayId: string;
+      /** Token do gateway autenticado (cf-aig-authorization) */
+      token?: string;
+    };
+
+/**
+ * Variaveis do Env lidas por createLLMProviders
+ */
+export interface LLMEnv {
+  ANTHROPIC_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  /** Endpoint compativel com OpenAI (padrao: api.openai.com) */
+  OPENAI_BASE_URL?: string;
+  GEMINI_API_KEY?: string;
+  /** Servidor compativel com Ollama - sem ele o provedor 'ollama' nao e registrado */
+  OLLAMA_BASE_URL?: string;
+  AI_GATEWAY?: AIGatewayConfig;
+  /** Encaminha todos os modelos para um provedor (ex.: 'mock' em testes offline) */
+  LLM_PROVIDER?: LLMProviderId;
+}
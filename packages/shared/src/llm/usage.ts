@@ -0,0 +1,91 @@
+/**
+ * Tokens e custo
+ *
+ * Precos em USD por milhao de tokens, pelo nome do modelo na API do provedor
+ * (vale para o catalogo e para '<provedor>:<modelo>'). Provedores locais
+ * (ollama, mock) nao tem custo; modelo pago fora da tabela sai com custo 0.
+ */
+
+import type { ActorId, LLMProviderId, PersonaId, TokenUsage, TokenUsageBreakdown } from '../types';
+import type { LLMUsage } from './types';
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Leitura do cache de prompt (padrao: preco de entrada) */
+  cacheRead?: number;
+  /** Gravacao no cache de prompt (padrao: preco de entrada) */
+  cacheWrite?: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-opus-4-20250514': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+};
+
+const FREE_PROVIDERS: LLMProviderId[] = ['ollama', 'mock'];
+
+/**
+ * Custo em USD de uma resposta
+ */
+export function estimateCost(provider: LLMProviderId, apiModel: string, usage: LLMUsage): number {
+  const pricing = FREE_PROVIDERS.includes(provider) ? undefined : MODEL_PRICING[apiModel];
+  if (!pricing) return 0;
+
+  const cost =
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+    (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input);
+  return cost / 1_000_000;
+}
+
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, requests: 0 };
+}
+
+/**
+ * Soma usage em target (e devolve target)
+ */
+export function addTokenUsage(target: TokenUsage, usage: TokenUsage): TokenUsage {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheReadTokens += usage.cacheReadTokens;
+  target.cacheWriteTokens += usage.cacheWriteTokens;
+  target.costUsd += usage.costUsd;
+  target.requests += usage.requests;
+  return target;
+}
+
+/** Entrada, saida e cache */
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+export function emptyTokenUsageBreakdown(): TokenUsageBreakdown {
+  return { total: emptyTokenUsage(), byPersona: {}, byEntity: {}, byService: {} };
+}
+
+/**
+ * Soma usage no total e em cada chave informada
+ */
+export function recordTokenUsage(
+  breakdown: TokenUsageBreakdown,
+  usage: TokenUsage,
+  keys: { personaId?: PersonaId; entityActorId?: ActorId; serviceActorId?: ActorId }
+): void {
+  addTokenUsage(breakdown.total, usage);
+  if (keys.personaId) {
+    addTokenUsage((breakdown.byPersona[keys.personaId] ??= emptyTokenUsage()), usage);
+  }
+  if (keys.entityActorId) {
+    addTokenUsage((breakdown.byEntity[keys.entityActorId] ??= emptyTokenUsage()), usage);
+  }
+  if (keys.serviceActorId) {
+    addTokenUsage((breakdown.byService[keys.serviceActorId] ??= emptyTokenUsage()), usage);
+  }
+}
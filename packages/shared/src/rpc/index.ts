@@ -0,0 +1,589 @@
+/**
+ * HealthOS Actor RPC
+ *
+ * Contrato das chamadas entre Cast e os Actors (Durable Objects):
+ *
+ * 1. Cada metodo exposto tem schema dos argumentos (tupla) e do resultado
+ * 2. O cliente valida argumentos antes de enviar e o resultado ao receber;
+ *    o Actor valida os argumentos de novo ao receber
+ * 3. Erros voltam como { ok: false, error: { code, message } } - codigos fixos,
+ *    lancados na origem como ActorRpcError
+ *
+ * Datas usam z.coerce.date() - o contrato vale com structured clone ou JSON.
+ * Resultados com tipos proprios dos Actors usam .passthrough() (checa o
+ * essencial sem descartar campos).
+ */
+
+import { z } from 'zod';
+import {
+  ActorIdSchema,
+  StageIdSchema,
+  ScriptIdSchema,
+  SessionIdSchema,
+  DataTypeSchema,
+  AccessActionSchema,
+  AccessScopeSchema,
+  AccessGrantSchema,
+  EncryptedDataSchema,
+  PatientRecordSchema,
+  ClinicalRecordTypeSchema,
+  EntityRoleSchema,
+  ServiceTypeSchema,
+  LLMBudgetSchema,
+  TokenUsageSchema,
+} from '../schemas';
+
+// =============================================================================
+// ENVELOPE
+// =============================================================================
+
+export const ActorRpcErrorCodeSchema = z.enum([
+  'invalid_request',   // Argumentos fora do contrato
+  'invalid_response',  // Resultado fora do contrato (detectado pelo cliente)
+  'unknown_method',    // Metodo nao exposto pelo Actor
+  'unauthorized',      // Senha ou credencial invalida
+  'forbidden',         // Fora do escopo, da politica ou do papel
+  'not_found',
+  'conflict',          // Estado nao permite (ja inicializado, versao divergente)
+  'expired',           // Grant, solicitacao ou delegacao vencida
+  'precondition_failed', // Falta algo antes (sessao sem grant, nada pendente)
+  'internal',
+]);
+
+export const ActorRpcErrorSchema = z.object({
+  code: ActorRpcErrorCodeSchema,
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+export const ActorRpcRequestSchema = z.object({
+  method: z.string().min(1),
+  args: z.array(z.unknown()).default([]),
+});
+
+export const ActorRpcResponseSchema = z.discriminatedUnion('ok', [
+  z.object({ ok: z.literal(true), result: z.unknown() }),
+  z.object({ ok: z.literal(false), error: ActorRpcErrorSchema }),
+]);
+
+/**
+ * Erro com codigo do contrato - o mesmo dos dois lados da chamada
+ * Os Actors (e os modulos que eles chamam) lancam com o codigo na origem;
+ * qualquer outro erro chega como 'internal'
+ */
+export class ActorRpcError extends Error {
+  constructor(
+    readonly code: ActorRpcErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ActorRpcError';
+  }
+}
+
+export interface ActorRpcMethod {
+  /** Tupla dos argumentos posicionais */
+  args: z.AnyZodTuple;
+  result: z.ZodTypeAny;
+}
+
+export type ActorRpcContract = Record<string, ActorRpcMethod>;
+
+function rpcMethod<TArgs extends z.AnyZodTuple, TResult extends z.ZodTypeAny>(
+  args: TArgs,
+  result: TResult
+): { args: TArgs; result: TResult } {
+  return { args, result };
+}
+
+// =============================================================================
+// SCHEMAS DOS ARGUMENTOS E RESULTADOS
+// =============================================================================
+
+const CompartmentSchema = DataTypeSchema.exclude(['all']);
+const VoidSchema = z.undefined();
+
+export const EmergencyContactSchema = z.object({
+  name: z.string(),
+  phone: z.string(),
+  relationship: z.string(),
+});
+
+export const AccessSessionRefSchema = z.object({
+  sessionId: SessionIdSchema,
+  stageId: StageIdSchema,
+});
+
+export const StoredGrantSchema = AccessGrantSchema.omit({ sessionKey: true }).passthrough();
+
+export const AccessRequestSchema = z.object({
+  id: z.string(),
+  entityActorId: ActorIdSchema,
+  serviceActorId: ActorIdSchema,
+  scope: AccessScopeSchema,
+  status: z.enum(['pending', 'approved', 'denied', 'expired']),
+  requestedAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+}).passthrough();
+
+export const AccessRequestResultSchema = z.discriminatedUnion('status', [
+  z.object({
+    requestId: z.string(),
+    status: z.literal('auto_approved'),
+    grant: AccessGrantSchema,
+    explanation: z.string().optional(),
+  }),
+  z.object({ requestId: z.string(), status: z.literal('denied'), reason: z.string() }),
+  z.object({ requestId: z.string(), status: z.literal('pending') }),
+]);
+
+export const AccessReportOptionsSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  timeZone: z.string().optional(),
+  businessHours: z.object({
+    start: z.number().int().min(0).max(23),
+    end: z.number().int().min(1).max(24),
+    weekdays: z.array(z.number().int().min(0).max(6)),
+  }).optional(),
+});
+
+export const ConsentPolicyInputSchema = z.object({
+  name: z.string().min(1),
+  effect: z.enum(['allow', 'deny', 'prompt']),
+  match: z.object({
+    entityActorIds: z.array(ActorIdSchema).optional(),
+    serviceActorIds: z.array(ActorIdSchema).optional(),
+    entityRoles: z.array(EntityRoleSchema).optional(),
+    serviceTypes: z.array(ServiceTypeSchema).optional(),
+    favoriteProviders: z.boolean().optional(),
+  }),
+  dataTypes: z.array(DataTypeSchema),
+  actions: z.array(AccessActionSchema),
+  maxDurationSeconds: z.number().int().positive().optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export const ConsentPolicySchema = ConsentPolicyInputSchema.extend({
+  id: z.string(),
+  createdAt: z.coerce.date(),
+}).passthrough();
+
+export const ProxyPowerSchema = z.enum(['approve_access', 'read_summaries', 'receive_notifications']);
+
+export const ProxyDelegationInputSchema = z.object({
+  proxyActorId: ActorIdSchema,
+  relationship: z.enum(['guardian', 'caregiver', 'legal_representative']),
+  powers: z.array(ProxyPowerSchema),
+  dataTypes: z.array(DataTypeSchema),
+  contact: z.object({
+    name: z.string(),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+  }),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+  endsAtMajority: z.boolean(),
+});
+
+export const ProxyDelegationSchema = z.object({
+  id: z.string(),
+  proxyActorId: ActorIdSchema,
+  status: z.enum(['active', 'revoked', 'ended']),
+  startsAt: z.coerce.date(),
+}).passthrough();
+
+export const ConsentPolicyEvaluationSchema = z.object({
+  outcome: z.enum(['auto_approve', 'auto_deny', 'prompt']),
+  policyId: z.string().optional(),
+  policyName: z.string().optional(),
+  explanation: z.string(),
+});
+
+export const RecordAmendmentSchema = z.object({
+  expectedVersion: z.number().int().min(1),
+  reason: z.string(),
+  fields: z.record(EncryptedDataSchema),
+  recordedAt: z.coerce.date().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export const CompartmentKeySchema = z.object({
+  keyId: z.string(),
+  wrappedKey: z.string(),
+  createdAt: z.coerce.date(),
+});
+
+export const AuditChainVerificationSchema = z.object({
+  valid: z.boolean(),
+  verifiedEntries: z.number().int(),
+  brokenLink: z.object({
+    sequence: z.number().int(),
+    entryId: z.string().optional(),
+    reason: z.string(),
+    location: z.enum(['log', 'archive', 'checkpoint']),
+  }).optional(),
+});
+
+export const AccessReportSchema = z.object({
+  patientActorId: ActorIdSchema,
+  generatedAt: z.coerce.date(),
+  accesses: z.array(z.object({ grantId: z.string() }).passthrough()),
+  deniedRequests: z.number(),
+}).passthrough();
+
+export const ProxySummarySchema = z.object({
+  pendingRequests: z.array(AccessRequestSchema),
+  activeGrants: z.array(z.object({ id: z.string() }).passthrough()),
+  accessReport: AccessReportSchema,
+});
+
+export const BreakGlassReviewSchema = z.object({
+  id: z.string(),
+  grantId: z.string(),
+  status: z.enum(['pending', 'justified', 'unjustified']),
+}).passthrough();
+
+export const AccessReportExportSchema = z.object({
+  filename: z.string(),
+  contentType: z.string(),
+  body: z.union([z.string(), z.instanceof(Uint8Array)]),
+});
+
+/** Credencial como o EntityActor guarda (o conselho vem do onboarding sem normalizar) */
+const ActorCredentialSchema = z.object({
+  type: z.string().min(1),
+  number: z.string(),
+  state: z.string(),
+  specialty: z.string().optional(),
+  validUntil: z.coerce.date().optional(),
+  /** Credenciais declaradas no onboarding chegam sem verificacao */
+  verified: z.boolean().default(false),
+});
+
+export const PrivacyOfficerSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  actorId: ActorIdSchema.optional(),
+});
+
+export const ServiceSetupSchema = z.object({
+  name: z.string().min(1),
+  serviceType: ServiceTypeSchema,
+  cnes: z.string().optional(),
+  location: z.object({
+    address: z.string(),
+    city: z.string(),
+    state: z.string(),
+    country: z.string(),
+    coordinates: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  }),
+  privacyOfficer: PrivacyOfficerSchema.optional(),
+});
+
+export const ServiceSessionSchema = z.object({
+  id: SessionIdSchema,
+  entityActorId: ActorIdSchema,
+  patientActorId: ActorIdSchema.optional(),
+  stageId: StageIdSchema,
+  startedAt: z.coerce.date(),
+  accessGrant: AccessGrantSchema.optional(),
+}).passthrough();
+
+export const LLMBudgetStatusSchema = z.object({
+  budget: LLMBudgetSchema.optional(),
+  periodStart: z.coerce.date(),
+  usage: TokenUsageSchema,
+  exceeded: z.boolean(),
+});
+
+/** Registro em claro - o ServiceActor sela com o grant da sessao */
+export const PatientRecordDraftSchema = z.object({
+  recordType: ClinicalRecordTypeSchema,
+  values: z.record(z.unknown()),
+  recordedAt: z.coerce.date().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export const ScriptExecutionStatusSchema = z.enum(['running', 'retrying', 'completed', 'failed', 'cancelled']);
+
+/** Cabecalho de uma execucao de Script - o que o armazenamento enxerga e lista */
+export const ScriptExecutionHeaderSchema = z.object({
+  id: z.string().min(1),
+  idempotencyKey: z.string().min(1),
+  stageId: StageIdSchema,
+  scriptId: ScriptIdSchema,
+  sessionId: SessionIdSchema,
+  entityActorId: ActorIdSchema,
+  status: ScriptExecutionStatusSchema,
+  attempts: z.number().int().min(0),
+  nextAttemptAt: z.coerce.date().optional(),
+  error: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  finishedAt: z.coerce.date().optional(),
+});
+
+/** Execucao completa - steps, variaveis e evento vao como estao (passthrough) */
+export const ScriptExecutionRecordSchema = ScriptExecutionHeaderSchema.passthrough();
+
+export const ScriptExecutionFilterSchema = z.object({
+  status: z.array(ScriptExecutionStatusSchema).optional(),
+  sessionId: SessionIdSchema.optional(),
+  scriptId: ScriptIdSchema.optional(),
+  entityActorId: ActorIdSchema.optional(),
+  limit: z.number().int().positive().max(500).optional(),
+});
+
+export const PendingActionStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+/** Acao aguardando validacao - rascunho e versao final vao como estao */
+export const PendingActionSchema = z.object({
+  id: z.string().min(1),
+  stageId: StageIdSchema,
+  sessionId: SessionIdSchema,
+  entityActorId: ActorIdSchema,
+  serviceActorId: ActorIdSchema,
+  patientActorId: ActorIdSchema.optional(),
+  action: z.string().min(1),
+  level: z.enum(['require_validation', 'require_signature']),
+  source: z.enum(['automation', 'script', 'persona']),
+  executionId: z.string().optional(),
+  stepId: z.string().optional(),
+  draft: z.unknown(),
+  status: PendingActionStatusSchema,
+  createdAt: z.coerce.date(),
+  decidedAt: z.coerce.date().optional(),
+  decidedBy: ActorIdSchema.optional(),
+}).passthrough();
+
+export const PendingActionDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  decidedBy: ActorIdSchema,
+  final: z.unknown().optional(),
+  signature: z.string().min(1).optional(),
+  reason: z.string().optional(),
+});
+
+export const PatientAccessResultSchema = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('granted'), grant: AccessGrantSchema }),
+  z.object({ status: z.literal('pending'), requestId: z.string() }),
+  z.object({ status: z.literal('denied'), requestId: z.string(), reason: z.string().optional() }),
+]);
+
+// =============================================================================
+// CONTRATOS
+// =============================================================================
+
+export const PatientActorRpc = {
+  setup: rpcMethod(
+    z.tuple([
+      z.string(),
+      EncryptedDataSchema,
+      z.object({
+        emergencyContact: EmergencyContactSchema.optional(),
+        birthDate: z.coerce.date().optional(),
+      }).optional(),
+    ]),
+    VoidSchema
+  ),
+  authenticate: rpcMethod(z.tuple([z.string()]), VoidSchema),
+
+  // Conta (app do paciente)
+  changePassword: rpcMethod(z.tuple([z.string(), z.string()]), VoidSchema),
+  rotateKeyPair: rpcMethod(z.tuple([z.string()]), z.string()),
+  setEmergencyContact: rpcMethod(z.tuple([EmergencyContactSchema.optional()]), VoidSchema),
+  setFavoriteProviders: rpcMethod(z.tuple([z.array(ActorIdSchema), z.string()]), VoidSchema),
+  getCompartmentKeys: rpcMethod(z.tuple([]), z.record(CompartmentSchema, CompartmentKeySchema)),
+
+  // Acesso
+  requestAccess: rpcMethod(
+    z.tuple([ActorIdSchema, ActorIdSchema, AccessScopeSchema, AccessSessionRefSchema.optional()]),
+    AccessRequestResultSchema
+  ),
+  getRequestDecision: rpcMethod(
+    z.tuple([z.string(), ActorIdSchema]),
+    z.object({
+      status: z.enum(['pending', 'approved', 'denied', 'expired']),
+      grantId: z.string().optional(),
+      denialReason: z.string().optional(),
+    })
+  ),
+  renewGrant: rpcMethod(z.tuple([z.string(), ActorIdSchema, z.number().int().positive()]), StoredGrantSchema),
+  narrowGrant: rpcMethod(z.tuple([z.string(), AccessScopeSchema, ActorIdSchema.optional()]), StoredGrantSchema),
+  revokeAccess: rpcMethod(
+    z.tuple([
+      z.string(),
+      z.object({ revokedBy: ActorIdSchema.optional(), reason: z.string().optional() }).optional(),
+    ]),
+    VoidSchema
+  ),
+
+  // Consentimento
+  listPendingRequests: rpcMethod(z.tuple([]), z.array(AccessRequestSchema)),
+  approveRequest: rpcMethod(z.tuple([z.string(), z.string()]), AccessRequestSchema),
+  denyRequest: rpcMethod(z.tuple([z.string(), z.string(), z.string().optional()]), AccessRequestSchema),
+  approveRequestAsProxy: rpcMethod(z.tuple([z.string(), ActorIdSchema, z.string()]), AccessRequestSchema),
+  denyRequestAsProxy: rpcMethod(
+    z.tuple([z.string(), ActorIdSchema, z.string(), z.string().optional()]),
+    AccessRequestSchema
+  ),
+  listConsentPolicies: rpcMethod(z.tuple([]), z.array(ConsentPolicySchema)),
+  addConsentPolicy: rpcMethod(z.tuple([ConsentPolicyInputSchema, z.string()]), ConsentPolicySchema),
+  addConsentPolicyAsProxy: rpcMethod(
+    z.tuple([ConsentPolicyInputSchema, ActorIdSchema, z.string()]),
+    ConsentPolicySchema
+  ),
+  removeConsentPolicy: rpcMethod(z.tuple([z.string(), z.string()]), VoidSchema),
+  removeConsentPolicyAsProxy: rpcMethod(z.tuple([z.string(), ActorIdSchema, z.string()]), VoidSchema),
+  previewConsentDecision: rpcMethod(
+    z.tuple([ActorIdSchema, ActorIdSchema, AccessScopeSchema]),
+    ConsentPolicyEvaluationSchema
+  ),
+
+  // Representantes
+  listProxies: rpcMethod(z.tuple([]), z.array(ProxyDelegationSchema)),
+  assertProxyPower: rpcMethod(
+    z.tuple([ActorIdSchema, ProxyPowerSchema, z.array(DataTypeSchema).optional()]),
+    VoidSchema
+  ),
+  nominateProxy: rpcMethod(z.tuple([ProxyDelegationInputSchema, z.string()]), ProxyDelegationSchema),
+  registerCourtOrderProxy: rpcMethod(
+    z.tuple([
+      ProxyDelegationInputSchema,
+      z.object({ reference: z.string().min(1), serviceActorId: ActorIdSchema, registeredBy: ActorIdSchema }),
+    ]),
+    ProxyDelegationSchema
+  ),
+  revokeProxy: rpcMethod(z.tuple([z.string(), ActorIdSchema, z.string().optional()]), VoidSchema),
+  getProxySummary: rpcMethod(
+    z.tuple([ActorIdSchema, z.string(), AccessReportOptionsSchema.optional()]),
+    ProxySummarySchema
+  ),
+
+  // Break-glass e transparencia
+  listBreakGlassReviews: rpcMethod(
+    z.tuple([z.enum(['pending', 'justified', 'unjustified']).optional(), ActorIdSchema.optional()]),
+    z.array(BreakGlassReviewSchema)
+  ),
+  reviewBreakGlass: rpcMethod(
+    z.tuple([z.string(), ActorIdSchema, z.enum(['justified', 'unjustified']), z.string().optional()]),
+    BreakGlassReviewSchema
+  ),
+  getAccessReport: rpcMethod(z.tuple([AccessReportOptionsSchema.optional()]), AccessReportSchema),
+  exportAccessReport: rpcMethod(
+    z.tuple([z.enum(['json', 'pdf']), ActorIdSchema, AccessReportOptionsSchema.optional()]),
+    AccessReportExportSchema
+  ),
+  verifyAuditChain: rpcMethod(
+    z.tuple([z.object({ includeArchives: z.boolean().optional() }).optional()]),
+    AuditChainVerificationSchema
+  ),
+
+  // Dados (ciphertext - abertos pelo grantee)
+  readData: rpcMethod(z.tuple([z.string(), z.array(DataTypeSchema)]), z.record(EncryptedDataSchema)),
+  readRecords: rpcMethod(
+    z.tuple([z.string(), z.array(DataTypeSchema)]),
+    z.record(z.array(PatientRecordSchema))
+  ),
+  appendRecord: rpcMethod(
+    z.tuple([
+      z.string(),
+      CompartmentSchema,
+      z.object({
+        id: z.string().uuid(),
+        recordType: ClinicalRecordTypeSchema,
+        recordedAt: z.coerce.date(),
+        tags: z.array(z.string()).optional(),
+        fields: z.record(EncryptedDataSchema),
+      }),
+    ]),
+    PatientRecordSchema
+  ),
+  amendRecord: rpcMethod(
+    z.tuple([z.string(), CompartmentSchema, z.string(), RecordAmendmentSchema]),
+    PatientRecordSchema
+  ),
+  getRecordHistory: rpcMethod(z.tuple([z.string(), CompartmentSchema, z.string()]), z.array(PatientRecordSchema)),
+} satisfies ActorRpcContract;
+
+export const EntityActorRpc = {
+  setName: rpcMethod(z.tuple([z.string()]), VoidSchema),
+  setRole: rpcMethod(z.tuple([EntityRoleSchema]), VoidSchema),
+  setCredentials: rpcMethod(z.tuple([z.array(ActorCredentialSchema)]), VoidSchema),
+  getRole: rpcMethod(z.tuple([]), EntityRoleSchema),
+  getProfile: rpcMethod(z.tuple([]), z.object({ name: z.string(), role: EntityRoleSchema })),
+  linkToService: rpcMethod(z.tuple([ActorIdSchema]), VoidSchema),
+  isLinkedToService: rpcMethod(z.tuple([ActorIdSchema]), z.boolean()),
+
+  // Inbox de validacao (o Stage deposita, o profissional decide)
+  submitPendingAction: rpcMethod(z.tuple([PendingActionSchema]), PendingActionSchema),
+  listPendingActions: rpcMethod(z.tuple([PendingActionStatusSchema.optional()]), z.array(PendingActionSchema)),
+  getPendingAction: rpcMethod(z.tuple([z.string()]), PendingActionSchema.optional()),
+  decidePendingAction: rpcMethod(
+    z.tuple([z.string(), PendingActionDecisionSchema, z.unknown().optional()]),
+    PendingActionSchema
+  ),
+} satisfies ActorRpcContract;
+
+export const ServiceActorRpc = {
+  setup: rpcMethod(z.tuple([ServiceSetupSchema]), VoidSchema),
+  getProfile: rpcMethod(
+    z.tuple([]),
+    z.object({
+      name: z.string(),
+      serviceType: ServiceTypeSchema,
+      cnes: z.string().optional(),
+      privacyOfficer: PrivacyOfficerSchema.optional(),
+    })
+  ),
+  linkEntity: rpcMethod(z.tuple([ActorIdSchema]), VoidSchema),
+  isEntityLinked: rpcMethod(z.tuple([ActorIdSchema]), z.boolean()),
+  enableStage: rpcMethod(z.tuple([StageIdSchema]), VoidSchema),
+
+  // Sessoes e acesso a pacientes (o ServiceActor chama o PatientActor)
+  startSession: rpcMethod(z.tuple([ActorIdSchema, StageIdSchema, SessionIdSchema.optional()]), ServiceSessionSchema),
+  getSession: rpcMethod(z.tuple([SessionIdSchema]), ServiceSessionSchema.optional()),
+  endSession: rpcMethod(z.tuple([SessionIdSchema]), VoidSchema),
+  requestPatientAccess: rpcMethod(
+    z.tuple([SessionIdSchema, ActorIdSchema, AccessScopeSchema]),
+    PatientAccessResultSchema
+  ),
+  completePatientAccess: rpcMethod(z.tuple([SessionIdSchema]), PatientAccessResultSchema),
+  // Grant de uma solicitacao aprovada, entregue pelo PatientActor (uma vez)
+  deliverGrant: rpcMethod(z.tuple([z.string(), AccessGrantSchema]), VoidSchema),
+  renewPatientAccess: rpcMethod(z.tuple([SessionIdSchema, z.number().int().positive()]), AccessGrantSchema),
+  narrowPatientAccess: rpcMethod(z.tuple([SessionIdSchema, AccessScopeSchema]), AccessGrantSchema),
+  appendPatientRecord: rpcMethod(
+    z.tuple([SessionIdSchema, CompartmentSchema, PatientRecordDraftSchema]),
+    PatientRecordSchema
+  ),
+  // Decisao da inbox de validacao de um Entity vinculado (auditoria)
+  recordActionDecision: rpcMethod(z.tuple([PendingActionSchema]), VoidSchema),
+
+  // Orcamento de LLM (o Cast consulta antes e registra depois de cada requisicao)
+  setLLMBudget: rpcMethod(z.tuple([LLMBudgetSchema.optional()]), VoidSchema),
+  getLLMBudgetStatus: rpcMethod(z.tuple([]), LLMBudgetStatusSchema),
+  recordLLMUsage: rpcMethod(z.tuple([TokenUsageSchema]), LLMBudgetStatusSchema),
+} satisfies ActorRpcContract;
+
+/** Execucoes de Script de um Stage (um Durable Object por Stage) */
+export const ScriptExecutionsRpc = {
+  saveExecution: rpcMethod(z.tuple([ScriptExecutionRecordSchema]), z.boolean()),
+  getExecution: rpcMethod(z.tuple([z.string()]), ScriptExecutionRecordSchema.optional()),
+  findExecution: rpcMethod(z.tuple([z.string()]), ScriptExecutionRecordSchema.optional()),
+  listExecutions: rpcMethod(z.tuple([ScriptExecutionFilterSchema.optional()]), z.array(ScriptExecutionHeaderSchema)),
+  cancelExecution: rpcMethod(z.tuple([z.string()]), ScriptExecutionRecordSchema),
+} satisfies ActorRpcContract;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ActorRpcErrorCode = z.infer<typeof ActorRpcErrorCodeSchema>;
+export type ActorRpcErrorPayload = z.infer<typeof ActorRpcErrorSchema>;
+export type ActorRpcRequest = z.infer<typeof ActorRpcRequestSchema>;
+export type ActorRpcResponse = z.infer<typeof ActorRpcResponseSchema>;
+export type PatientRecordDraft = z.infer<typeof PatientRecordDraftSchema>;
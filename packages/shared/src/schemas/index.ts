@@ -6,6 +6,9 @@
  */
 
 import { z } from 'zod';
+import { validateExpression, validateTemplate } from '../expression';
+
+export { checkJsonSchema } from './json-schema';
 
 // =============================================================================
 // IDENTIFICADORES
@@ -97,24 +100,48 @@ export const GuardrailTypeSchema = z.enum([
   'custom',
 ]);
 
-export const LLMModelSchema = z.enum([
-  'claude-sonnet-4-20250514',
-  'claude-haiku',
-  'claude-opus',
-  'gpt-4o',
-  'gpt-4o-mini',
-  'gemini-pro',
+export const LLMProviderIdSchema = z.enum(['anthropic', 'openai', 'gemini', 'ollama', 'mock']);
+
+export const LLMModelSchema = z.union([
+  z.enum([
+    'claude-sonnet-4-20250514',
+    'claude-haiku',
+    'claude-opus',
+    'gpt-4o',
+    'gpt-4o-mini',
+    'gemini-pro',
+  ]),
+  z.custom<`${z.infer<typeof LLMProviderIdSchema>}:${string}`>(
+    (value) =>
+      typeof value === 'string' &&
+      LLMProviderIdSchema.options.some((provider) => value.startsWith(`${provider}:`) && value.length > provider.length + 1),
+    { message: 'Expected <provider>:<model>' }
+  ),
 ]);
 
 // =============================================================================
 // SEGURANCA E ACESSO
 // =============================================================================
 
+export const RecordFilterSchema = z.object({
+  dataType: DataTypeSchema.exclude(['all']),
+  recordIds: z.array(z.string()).optional(),
+  excludeRecordIds: z.array(z.string()).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  tags: z.array(z.string()).optional(),
+  excludeTags: z.array(z.string()).optional(),
+  fields: z.array(z.string()).optional(),
+});
+
 export const AccessScopeSchema = z.object({
   dataTypes: z.array(DataTypeSchema),
   actions: z.array(AccessActionSchema),
   durationSeconds: z.number().min(60).max(86400), // 1 min to 24 hours
   reason: z.string().min(10).max(500),
+  breakGlass: z.boolean().optional(),
+  justification: z.string().max(2000).optional(),
+  recordFilters: z.array(RecordFilterSchema).optional(),
 });
 
 export const AccessGrantSchema = z.object({
@@ -126,6 +153,10 @@ export const AccessGrantSchema = z.object({
   grantedAt: z.coerce.date(),
   expiresAt: z.coerce.date(),
   sessionKey: z.string(),
+  wrappedKeys: z.record(DataTypeSchema, z.object({
+    keyId: z.string(),
+    wrappedKey: z.string(),
+  })).default({}),
   revokedAt: z.coerce.date().optional(),
   revokedReason: z.string().optional(),
 });
@@ -143,21 +174,100 @@ export const AuditEntrySchema = z.object({
   sessionId: SessionIdSchema.optional(),
   ipAddress: z.string().ip().optional(),
   userAgent: z.string().optional(),
+  flaggedForReview: z.boolean().optional(),
   metadata: z.record(z.unknown()),
+  sequence: z.number().int().nonnegative(),
+  previousHash: z.string(),
+  hash: z.string(),
 });
 
 // =============================================================================
 // CRIPTOGRAFIA
 // =============================================================================
 
+export const KeyDerivationParamsSchema = z.object({
+  algorithm: z.literal('PBKDF2-SHA256'),
+  salt: z.string(),
+  iterations: z.number().int().min(100000),
+});
+
 export const EncryptedDataSchema = z.object({
   ciphertext: z.string(),
   iv: z.string(),
   algorithm: z.literal('AES-GCM-256'),
   keyId: z.string(),
+  kdf: KeyDerivationParamsSchema.optional(),
   version: z.number().default(1),
 });
 
+export const ClinicalRecordTypeSchema = z.enum([
+  'consultation',
+  'prescription',
+  'exam_result',
+  'diagnosis',
+  'clinical_note',
+]);
+
+export const PatientRecordSchema = z.object({
+  id: z.string(),
+  dataType: DataTypeSchema.exclude(['all']),
+  recordType: ClinicalRecordTypeSchema,
+  recordedAt: z.coerce.date(),
+  tags: z.array(z.string()).default([]),
+  fields: z.record(EncryptedDataSchema),
+  version: z.number().int().min(1),
+  createdAt: z.coerce.date(),
+  createdBy: ActorIdSchema,
+  amendedAt: z.coerce.date().optional(),
+  amendedBy: ActorIdSchema.optional(),
+  amendmentReason: z.string().optional(),
+});
+
+// Campos em claro de cada tipo de registro (antes de selar / depois de abrir)
+export const ConsultationFieldsSchema = z.object({
+  summary: z.string(),
+  chiefComplaint: z.string().optional(),
+  assessment: z.string().optional(),
+  plan: z.string().optional(),
+});
+
+export const PrescriptionFieldsSchema = z.object({
+  medications: z.array(
+    z.object({
+      name: z.string(),
+      dosage: z.string(),
+      frequency: z.string(),
+      duration: z.string().optional(),
+    })
+  ),
+  instructions: z.string().optional(),
+});
+
+export const ExamResultFieldsSchema = z.object({
+  exam: z.string(),
+  result: z.string(),
+  unit: z.string().optional(),
+  referenceRange: z.string().optional(),
+});
+
+export const DiagnosisFieldsSchema = z.object({
+  code: z.string(),
+  description: z.string(),
+  status: z.enum(['active', 'resolved', 'suspected']).optional(),
+});
+
+export const ClinicalNoteFieldsSchema = z.object({
+  text: z.string(),
+});
+
+export const ClinicalRecordFieldsSchemas = {
+  consultation: ConsultationFieldsSchema,
+  prescription: PrescriptionFieldsSchema,
+  exam_result: ExamResultFieldsSchema,
+  diagnosis: DiagnosisFieldsSchema,
+  clinical_note: ClinicalNoteFieldsSchema,
+} as const;
+
 export const KeyPairSchema = z.object({
   publicKey: z.string(),
   privateKeyEncrypted: EncryptedDataSchema,
@@ -301,17 +411,58 @@ export const AgentConfigSchema = z.object({
   tools: z.array(ToolIdSchema),
   guardrails: z.array(GuardrailConfigSchema),
   context: z.record(z.unknown()).optional(),
+  maxIterations: z.number().int().min(1).max(50).optional(),
   thinkingEnabled: z.boolean().default(false),
   streamingEnabled: z.boolean().default(true),
 });
 
+export const TokenUsageSchema = z.object({
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  cacheReadTokens: z.number().int().min(0),
+  cacheWriteTokens: z.number().int().min(0),
+  costUsd: z.number().min(0),
+  requests: z.number().int().min(0),
+});
+
+export const LLMBudgetSchema = z.object({
+  period: z.enum(['day', 'month']),
+  limitUsd: z.number().positive(),
+  onExceeded: z.enum(['block', 'downgrade']),
+  downgradeModel: LLMModelSchema.optional(),
+}).refine(
+  (budget) => budget.onExceeded !== 'downgrade' || budget.downgradeModel !== undefined,
+  { message: 'downgradeModel is required when onExceeded is downgrade', path: ['downgradeModel'] }
+);
+
+/** Condicao na linguagem de expressoes (sintaxe validada no parse) */
+export const ExpressionSchema = z.string().superRefine((source, ctx) => {
+  const error = validateExpression(source);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid expression: ${error}` });
+  }
+});
+
+/** Valor com placeholders `{{ expressao }}` (validados no parse) */
+function templated<T extends z.ZodTypeAny>(schema: T) {
+  return schema.superRefine((value, ctx) => {
+    const error = validateTemplate(value);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid template: ${error}` });
+    }
+  });
+}
+
 export const TriggerSchema = z.object({
   type: TriggerTypeSchema,
   event: z.string().optional(),
   schedule: z.string().optional(), // Cron expression
-  condition: z.string().optional(),
+  condition: ExpressionSchema.optional(),
   priority: z.number().min(0).max(100).default(50),
-});
+}).refine(
+  (trigger) => trigger.type !== 'condition' || trigger.condition !== undefined,
+  { message: 'condition is required when type is condition', path: ['condition'] }
+);
 
 // =============================================================================
 // EVENTOS
@@ -357,13 +508,18 @@ export const AutomationRuleSchema = z.object({
 export const ScriptActionSchema = z.object({
   type: z.enum(['generate', 'save_to', 'notify', 'queue', 'request', 'validate', 'emit', 'custom']),
   target: z.string().optional(),
-  params: z.record(z.unknown()).optional(),
+  params: templated(z.record(z.unknown())).optional(),
+  output: z.string().optional(),
   timeout: z.number().optional(),
-  retries: z.number().default(0),
+  retries: z.number().int().min(0).max(10).default(0),
+  backoff: z.object({
+    initialMs: z.number().int().positive().default(1000),
+    maxMs: z.number().int().positive().default(5 * 60 * 1000),
+  }).optional(),
 });
 
 export const ScriptConditionSchema = z.object({
-  if: z.string(),
+  if: ExpressionSchema,
   then: z.array(ScriptActionSchema),
   else: z.array(ScriptActionSchema).optional(),
 });
@@ -371,8 +527,15 @@ export const ScriptConditionSchema = z.object({
 export const ScriptStepSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
-  trigger: z.string(),
+  // Nome de evento ou '$<expressao>'
+  trigger: z.string().superRefine((trigger, ctx) => {
+    const error = trigger.startsWith('$') ? validateExpression(trigger.slice(1)) : undefined;
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid expression: ${error}` });
+    }
+  }),
   activate: PersonaIdSchema.optional(),
+  input: templated(z.union([z.string(), z.record(z.unknown())])).optional(),
   actions: z.array(ScriptActionSchema),
   conditions: z.array(ScriptConditionSchema).optional(),
   onError: z.enum(['continue', 'stop', 'retry']).default('stop'),
@@ -409,6 +572,7 @@ export const McpToolDefinitionSchema = z.object({
   description: z.string(),
   inputSchema: JsonSchemaSchema,
   outputSchema: JsonSchemaSchema.optional(),
+  readOnly: z.boolean().optional(),
 });
 
 export const McpResourceDefinitionSchema = z.object({
@@ -499,6 +663,7 @@ export const CastResponseSchema = z.object({
   errorCode: z.string().optional(),
   stageId: StageIdSchema.optional(),
   sessionId: SessionIdSchema.optional(),
+  consentRequestId: z.string().optional(),
   personaId: PersonaIdSchema.optional(),
   output: z.unknown().optional(),
   actions: z.array(z.object({
@@ -512,6 +677,8 @@ export const CastResponseSchema = z.object({
   })).optional(),
   durationMs: z.number(),
   tokensUsed: z.number().optional(),
+  usage: TokenUsageSchema.optional(),
+  model: LLMModelSchema.optional(),
 });
 
 // =============================================================================
@@ -544,6 +711,205 @@ export const ServiceOnboardingSchema = z.object({
   adminEntities: z.array(ActorIdSchema).optional(),
 });
 
+// =============================================================================
+// FHIR R4 (subconjunto usado na troca com prontuarios hospitalares)
+// =============================================================================
+
+// Recursos aceitam campos extras (.passthrough) - EHRs mandam bem mais do que usamos
+
+export const FhirCodingSchema = z.object({
+  system: z.string().optional(),
+  code: z.string().optional(),
+  display: z.string().optional(),
+}).passthrough();
+
+export const FhirCodeableConceptSchema = z.object({
+  coding: z.array(FhirCodingSchema).optional(),
+  text: z.string().optional(),
+}).passthrough();
+
+export const FhirIdentifierSchema = z.object({
+  system: z.string().optional(),
+  value: z.string().optional(),
+}).passthrough();
+
+export const FhirReferenceSchema = z.object({
+  reference: z.string().optional(),
+  display: z.string().optional(),
+}).passthrough();
+
+export const FhirQuantitySchema = z.object({
+  value: z.number().optional(),
+  unit: z.string().optional(),
+}).passthrough();
+
+export const FhirMetaSchema = z.object({
+  versionId: z.string().optional(),
+  lastUpdated: z.string().optional(),
+  profile: z.array(z.string()).optional(),
+  tag: z.array(FhirCodingSchema).optional(),
+}).passthrough();
+
+const fhirResourceBase = {
+  id: z.string().optional(),
+  meta: FhirMetaSchema.optional(),
+  identifier: z.array(FhirIdentifierSchema).optional(),
+};
+
+export const FhirPatientSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Patient'),
+  name: z.array(z.object({
+    text: z.string().optional(),
+    family: z.string().optional(),
+    given: z.array(z.string()).optional(),
+  }).passthrough()).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  birthDate: z.string().optional(),
+  telecom: z.array(z.object({
+    system: z.string().optional(),
+    value: z.string().optional(),
+  }).passthrough()).optional(),
+  address: z.array(z.object({
+    line: z.array(z.string()).optional(),
+    district: z.string().optional(),
+    city: z.string().optional(),
+    state: z.string().optional(),
+    postalCode: z.string().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirEncounterSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Encounter'),
+  status: z.string(),
+  class: FhirCodingSchema,
+  subject: FhirReferenceSchema.optional(),
+  period: z.object({ start: z.string().optional(), end: z.string().optional() }).optional(),
+  reasonCode: z.array(FhirCodeableConceptSchema).optional(),
+}).passthrough();
+
+export const FhirConditionSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Condition'),
+  clinicalStatus: FhirCodeableConceptSchema.optional(),
+  verificationStatus: FhirCodeableConceptSchema.optional(),
+  code: FhirCodeableConceptSchema.optional(),
+  subject: FhirReferenceSchema,
+  encounter: FhirReferenceSchema.optional(),
+  recordedDate: z.string().optional(),
+  note: z.array(z.object({ text: z.string() }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirMedicationRequestSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('MedicationRequest'),
+  status: z.string(),
+  intent: z.string(),
+  medicationCodeableConcept: FhirCodeableConceptSchema.optional(),
+  subject: FhirReferenceSchema,
+  encounter: FhirReferenceSchema.optional(),
+  authoredOn: z.string().optional(),
+  groupIdentifier: FhirIdentifierSchema.optional(),
+  dosageInstruction: z.array(z.object({
+    text: z.string().optional(),
+    timing: z.object({ code: FhirCodeableConceptSchema.optional() }).passthrough().optional(),
+    additionalInstruction: z.array(FhirCodeableConceptSchema).optional(),
+    patientInstruction: z.string().optional(),
+  }).passthrough()).optional(),
+  note: z.array(z.object({ text: z.string() }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirObservationSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Observation'),
+  status: z.string(),
+  code: FhirCodeableConceptSchema,
+  subject: FhirReferenceSchema.optional(),
+  effectiveDateTime: z.string().optional(),
+  valueQuantity: FhirQuantitySchema.optional(),
+  valueString: z.string().optional(),
+  referenceRange: z.array(z.object({ text: z.string().optional() }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirDocumentReferenceSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('DocumentReference'),
+  status: z.string(),
+  type: FhirCodeableConceptSchema.optional(),
+  subject: FhirReferenceSchema.optional(),
+  date: z.string().optional(),
+  description: z.string().optional(),
+  content: z.array(z.object({
+    attachment: z.object({
+      contentType: z.string().optional(),
+      data: z.string().optional(),
+      title: z.string().optional(),
+    }).passthrough(),
+  }).passthrough()).min(1),
+  context: z.object({
+    encounter: z.array(FhirReferenceSchema).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+// Composition e Immunization so aparecem nos documentos RNDS (fora da importacao)
+
+export const FhirCompositionSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Composition'),
+  status: z.string(),
+  type: FhirCodeableConceptSchema,
+  subject: FhirReferenceSchema.optional(),
+  encounter: FhirReferenceSchema.optional(),
+  date: z.string(),
+  author: z.array(FhirReferenceSchema).min(1),
+  title: z.string(),
+  section: z.array(z.object({
+    title: z.string().optional(),
+    code: FhirCodeableConceptSchema.optional(),
+    text: z.object({ status: z.string(), div: z.string() }).passthrough().optional(),
+    entry: z.array(FhirReferenceSchema).optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirImmunizationSchema = z.object({
+  ...fhirResourceBase,
+  resourceType: z.literal('Immunization'),
+  status: z.string(),
+  vaccineCode: FhirCodeableConceptSchema,
+  patient: FhirReferenceSchema,
+  occurrenceDateTime: z.string().optional(),
+  lotNumber: z.string().optional(),
+  manufacturer: FhirReferenceSchema.optional(),
+  performer: z.array(z.object({ actor: FhirReferenceSchema }).passthrough()).optional(),
+  protocolApplied: z.array(z.object({
+    doseNumberString: z.string().optional(),
+    doseNumberPositiveInt: z.number().optional(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export const FhirResourceSchema = z.discriminatedUnion('resourceType', [
+  FhirPatientSchema,
+  FhirEncounterSchema,
+  FhirConditionSchema,
+  FhirMedicationRequestSchema,
+  FhirObservationSchema,
+  FhirDocumentReferenceSchema,
+]);
+
+export const FhirBundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id: z.string().optional(),
+  meta: FhirMetaSchema.optional(),
+  type: z.enum(['document', 'message', 'transaction', 'batch', 'collection', 'searchset']),
+  timestamp: z.string().optional(),
+  entry: z.array(z.object({
+    fullUrl: z.string().optional(),
+    // Recursos fora do subconjunto sao aceitos e ignorados na importacao
+    resource: z.object({ resourceType: z.string() }).passthrough(),
+  }).passthrough()).default([]),
+}).passthrough();
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -590,3 +956,15 @@ export type CastResponse = z.infer<typeof CastResponseSchema>;
 export type PatientOnboarding = z.infer<typeof PatientOnboardingSchema>;
 export type EntityOnboarding = z.infer<typeof EntityOnboardingSchema>;
 export type ServiceOnboarding = z.infer<typeof ServiceOnboardingSchema>;
+
+export type FhirResource = z.infer<typeof FhirResourceSchema>;
+export type FhirBundle = z.infer<typeof FhirBundleSchema>;
+export type FhirCoding = z.infer<typeof FhirCodingSchema>;
+export type FhirPatient = z.infer<typeof FhirPatientSchema>;
+export type FhirEncounter = z.infer<typeof FhirEncounterSchema>;
+export type FhirCondition = z.infer<typeof FhirConditionSchema>;
+export type FhirMedicationRequest = z.infer<typeof FhirMedicationRequestSchema>;
+export type FhirObservation = z.infer<typeof FhirObservationSchema>;
+export type FhirDocumentReference = z.infer<typeof FhirDocumentReferenceSchema>;
+export type FhirComposition = z.infer<typeof FhirCompositionSchema>;
+export type FhirImmunization = z.infer<typeof FhirImmunizationSchema>;
@@ -0,0 +1,71 @@
+/**
+ * Validacao de valores contra JsonSchema (outputSchema dos tools MCP)
+ *
+ * Cobre o subconjunto usado nos manifests: type, properties, required, items
+ * e enum. Propriedades extras sao aceitas.
+ */
+
+import type { JsonSchema } from '../types';
+
+/**
+ * Erros do valor contra o schema (lista vazia = valido)
+ */
+export function checkJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path}: expected ${schema.type}, got ${describeType(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: expected one of ${schema.enum.join(', ')}`);
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        errors.push(...checkJsonSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    for (const [index, item] of (value as unknown[]).entries()) {
+      errors.push(...checkJsonSchema(item, schema.items, `${path}[${index}]`));
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      // Tipo fora do subconjunto: nao restringe
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -81,6 +81,33 @@ export interface AccessScope {
   durationSeconds: number;
   /** Motivo do acesso (auditoria) */
   reason: string;
+  /** Acesso de emergência (break-glass) - dispensa consentimento, exige revisão posterior */
+  breakGlass?: boolean;
+  /** Justificativa clínica do break-glass (obrigatória quando breakGlass) */
+  justification?: string;
+  /** Restrições por registro/campo dentro dos compartimentos (ausente = compartimento inteiro) */
+  recordFilters?: RecordFilter[];
+}
+
+/**
+ * Filtro de registros de um compartimento
+ * Vários filtros do mesmo compartimento se somam (basta um casar)
+ */
+export interface RecordFilter {
+  dataType: Exclude<DataType, 'all'>;
+  /** Somente estes registros */
+  recordIds?: string[];
+  /** Nunca estes registros (ex.: um episódio específico) */
+  excludeRecordIds?: string[];
+  /** Intervalo de data clínica (recordedAt) */
+  from?: Date;
+  to?: Date;
+  /** Somente registros com alguma destas tags */
+  tags?: string[];
+  /** Nunca registros com alguma destas tags (ex.: 'therapy_notes') */
+  excludeTags?: string[];
+  /** Campos liberados (ausente = todos) */
+  fields?: string[];
 }
 
 export type DataType = 
@@ -106,7 +133,15 @@ export interface AccessGrant {
   scope: AccessScope;
   grantedAt: Date;
   expiresAt: Date;
-  sessionKey: string; // Chave de sessão derivada
+  /** Chave de sessão AES-KW (base64) - entregue somente ao grantee */
+  sessionKey: string;
+  /** DEKs dos compartimentos do escopo, embrulhadas com a sessionKey */
+  wrappedKeys: Partial<Record<DataType, GrantKey>>;
+}
+
+export interface GrantKey {
+  keyId: string;
+  wrappedKey: string;
 }
 
 export interface AuditEntry {
@@ -119,7 +154,45 @@ export interface AuditEntry {
   serviceActorId: ActorId;
   stageId: StageId;
   personaId?: PersonaId;
+  /** Entrada que exige revisão posterior (ex.: acesso break-glass) */
+  flaggedForReview?: boolean;
   metadata: Record<string, unknown>;
+  /** Posição na cadeia de auditoria do Actor (começa em 0) */
+  sequence: number;
+  /** Hash da entrada anterior (cadeia à prova de adulteração) */
+  previousHash: string;
+  /** SHA-256 do conteúdo canônico desta entrada */
+  hash: string;
+}
+
+/** Tipos de registro clínico */
+export type ClinicalRecordType =
+  | 'consultation'
+  | 'prescription'
+  | 'exam_result'
+  | 'diagnosis'
+  | 'clinical_note';
+
+/**
+ * Registro de um compartimento
+ * Metadados em claro (para aplicar filtros), campos criptografados um a um com a DEK
+ */
+export interface PatientRecord {
+  id: string;
+  dataType: Exclude<DataType, 'all'>;
+  recordType: ClinicalRecordType;
+  /** Data clínica do registro */
+  recordedAt: Date;
+  tags: string[];
+  fields: Record<string, EncryptedData>;
+  /** Versão atual (1 = original; cada retificação incrementa) */
+  version: number;
+  createdAt: Date;
+  createdBy: ActorId;
+  /** Última retificação - versões anteriores ficam no histórico */
+  amendedAt?: Date;
+  amendedBy?: ActorId;
+  amendmentReason?: string;
 }
 
 // =============================================================================
@@ -131,6 +204,16 @@ export interface EncryptedData {
   iv: string;
   algorithm: 'AES-GCM-256';
   keyId: string;
+  /** Parâmetros de derivação quando a chave vem de uma senha */
+  kdf?: KeyDerivationParams;
+  /** 2 quando o ciphertext está amarrado a um contexto (additionalData) */
+  version?: number;
+}
+
+export interface KeyDerivationParams {
+  algorithm: 'PBKDF2-SHA256';
+  salt: string;
+  iterations: number;
 }
 
 export interface KeyPair {
@@ -148,11 +231,20 @@ export interface SessionKey {
 // LLM E AGENTS
 // =============================================================================
 
-export type LLMModel = 
+/** Provedores de LLM (implementacoes em @healthos/shared/llm) */
+export type LLMProviderId = 'anthropic' | 'openai' | 'gemini' | 'ollama' | 'mock';
+
+/**
+ * Modelo do catalogo ou `<provedor>:<modelo>` (ex.: 'ollama:llama3.1', 'mock:medscribe')
+ */
+export type LLMModel =
   | 'claude-sonnet-4-20250514'
   | 'claude-haiku'
+  | 'claude-opus'
   | 'gpt-4o'
-  | 'gemini-pro';
+  | 'gpt-4o-mini'
+  | 'gemini-pro'
+  | `${LLMProviderId}:${string}`;
 
 export interface LLMConfig {
   model: LLMModel;
@@ -168,6 +260,50 @@ export interface AgentConfig extends LLMConfig {
   guardrails: GuardrailConfig[];
   /** Contexto adicional */
   context?: Record<string, unknown>;
+  /** Máximo de chamadas ao LLM por mensagem (loop de tools) */
+  maxIterations?: number;
+}
+
+/**
+ * Tokens e custo acumulados (uma resposta, sessao, Persona, Entity ou Service)
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Custo estimado em USD pela tabela de precos do modelo */
+  costUsd: number;
+  /** Chamadas ao LLM */
+  requests: number;
+}
+
+/** Uso de tokens agregado nas metricas do Stage e do Cast */
+export interface TokenUsageBreakdown {
+  total: TokenUsage;
+  byPersona: Record<PersonaId, TokenUsage>;
+  byEntity: Record<ActorId, TokenUsage>;
+  byService: Record<ActorId, TokenUsage>;
+}
+
+/**
+ * Orcamento de LLM de um Service, por periodo
+ * Estourado, bloqueia as requisicoes ou troca o modelo das Personas
+ */
+export interface LLMBudget {
+  period: 'day' | 'month';
+  limitUsd: number;
+  onExceeded: 'block' | 'downgrade';
+  /** Modelo usado no lugar do da Persona (onExceeded 'downgrade') */
+  downgradeModel?: LLMModel;
+}
+
+export interface LLMBudgetStatus {
+  budget?: LLMBudget;
+  /** Inicio do periodo corrente (UTC) */
+  periodStart: Date;
+  usage: TokenUsage;
+  exceeded: boolean;
 }
 
 export interface GuardrailConfig {
@@ -239,6 +375,64 @@ export interface AutomationRule {
   conditions?: string[];
 }
 
+/**
+ * Ação aguardando decisão humana (inbox de validação do EntityActor)
+ * O rascunho é o que seria executado; a versão aprovada pode ser editada
+ */
+export interface PendingAction {
+  id: string;
+  stageId: StageId;
+  sessionId: SessionId;
+  /** Quem decide (dono da inbox) */
+  entityActorId: ActorId;
+  serviceActorId: ActorId;
+  patientActorId?: ActorId;
+  action: string;
+  level: ValidationLevel;
+  source: PendingActionSource;
+  /** Execução de Script e step que geraram a ação (source 'script') */
+  executionId?: string;
+  stepId?: string;
+  /** Rascunho: parâmetros (automação) ou saída gerada (Script/Persona) */
+  draft: unknown;
+  status: PendingActionStatus;
+  createdAt: Date;
+  decidedAt?: Date;
+  decidedBy?: ActorId;
+  /** Versão aprovada (o rascunho, se não houve edição) */
+  final?: unknown;
+  /** Diferenças entre rascunho e versão aprovada */
+  changes?: ValueChange[];
+  /** Assinatura digital (nível require_signature) */
+  signature?: string;
+  rejectionReason?: string;
+  /** Resultado da execução da versão aprovada */
+  result?: unknown;
+}
+
+export type ValidationLevel = Extract<AutomationLevel, 'require_validation' | 'require_signature'>;
+
+/** automation: executeAutomatedAction; script: ação de Script; persona: tool chamado pela Persona */
+export type PendingActionSource = 'automation' | 'script' | 'persona';
+
+export type PendingActionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PendingActionDecision {
+  decision: 'approve' | 'reject';
+  decidedBy: ActorId;
+  /** Versão editada (approve) - sem ela, o rascunho é aprovado como está */
+  final?: unknown;
+  signature?: string;
+  reason?: string;
+}
+
+/** Valor alterado; path '' é o valor inteiro */
+export interface ValueChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
 // =============================================================================
 // RESULTADOS E RESPOSTAS
 // =============================================================================
@@ -260,10 +454,47 @@ export interface PersonaResponse {
   thinking: string;
   actions: ActionResult[];
   output: unknown;
+  /** Total de tokens (entrada, saida e cache) */
   tokensUsed: number;
+  usage: TokenUsage;
+  /** Modelo usado (o da Persona ou o imposto pelo orcamento) */
+  model?: LLMModel;
   durationMs: number;
 }
 
+/**
+ * Eventos do processamento em streaming de uma Persona
+ * (a PersonaResponse completa vem no fim do stream)
+ */
+export type PersonaStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; text: string }
+  | {
+      type: 'tool_call_started';
+      callId: string;
+      toolId: ToolId;
+      method: string;
+      params: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_call_finished';
+      callId: string;
+      toolId: ToolId;
+      method: string;
+      success: boolean;
+      result?: unknown;
+      error?: string;
+    }
+  | {
+      type: 'guardrail';
+      /** input: antes do Agent; output: sobre a resposta final */
+      phase: 'input' | 'output';
+      guardrailId: string;
+      allowed: boolean;
+      reason?: string;
+      suggestion?: string;
+    };
+
 // =============================================================================
 // CONFIGURAÇÕES DECLARATIVAS
 // =============================================================================
@@ -316,6 +547,8 @@ export interface McpToolDefinition {
   description: string;
   inputSchema: JsonSchema;
   outputSchema?: JsonSchema;
+  /** Sem efeitos colaterais - o Agent pode executar em paralelo */
+  readOnly?: boolean;
 }
 
 export interface McpResourceDefinition {
@@ -365,6 +598,8 @@ export interface ScriptStep {
   id: string;
   trigger: string;
   activate?: PersonaId;
+  /** Input da Persona (template; padrão: payload do evento em JSON) */
+  input?: string | Record<string, unknown>;
   actions: ScriptAction[];
   conditions?: ScriptCondition[];
 }
@@ -372,7 +607,51 @@ export interface ScriptStep {
 export interface ScriptAction {
   type: 'generate' | 'save_to' | 'notify' | 'queue' | 'request' | 'validate' | 'custom';
   target?: string;
+  /** Valores aceitam templates `{{ expressão }}` */
   params?: Record<string, unknown>;
+  /** Nome em steps.<id>.outputs (padrão: target) */
+  output?: string;
+  /** Novas tentativas se a ação falhar (padrão: 0) */
+  retries?: number;
+  /** Espera antes de cada nova tentativa - dobra a cada falha, até maxMs */
+  backoff?: ActionBackoff;
+}
+
+export interface ActionBackoff {
+  initialMs: number;
+  maxMs: number;
+}
+
+export type ScriptExecutionStatus = 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Campos de uma execução de Script que o armazenamento enxerga
+ * (o registro completo - steps, variáveis, evento - é do Stage)
+ */
+export interface ScriptExecutionHeader {
+  id: string;
+  idempotencyKey: string;
+  stageId: StageId;
+  scriptId: ScriptId;
+  sessionId: SessionId;
+  /** Profissional da sessão que disparou - só ele consulta ou cancela pela API */
+  entityActorId: ActorId;
+  status: ScriptExecutionStatus;
+  /** Falhas da unidade em andamento */
+  attempts: number;
+  nextAttemptAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface ScriptExecutionFilter {
+  status?: ScriptExecutionStatus[];
+  sessionId?: SessionId;
+  scriptId?: ScriptId;
+  entityActorId?: ActorId;
+  limit?: number;
 }
 
 export interface ScriptCondition {
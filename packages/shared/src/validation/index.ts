@@ -0,0 +1,87 @@
+/**
+ * Validacao humana de acoes - regras comuns
+ *
+ * Usadas pelo Stage (que executa a versao aprovada) e pelas inboxes que
+ * guardam as acoes pendentes (memoria do Stage, EntityActor): quem pode ser
+ * decidido, o que a decisao grava e a diferenca entre rascunho e versao final.
+ */
+
+import { ActorRpcError } from '../rpc';
+import type { PendingAction, PendingActionDecision, ValueChange } from '../types';
+
+/**
+ * Falha se a acao nao pode receber a decisao
+ * (ja decidida, ou aprovacao sem assinatura no nivel require_signature)
+ */
+export function checkPendingActionDecision(action: PendingAction, decision: PendingActionDecision): void {
+  if (action.status !== 'pending') {
+    throw new ActorRpcError('conflict', `Pending action already ${action.status}`);
+  }
+  if (decision.decision === 'approve' && action.level === 'require_signature' && !decision.signature) {
+    throw new ActorRpcError('invalid_request', 'Signature required to approve this action');
+  }
+}
+
+/**
+ * Grava a decisao na acao; na aprovacao, a versao final (editada ou o
+ * proprio rascunho) e as diferencas para o rascunho
+ */
+export function decidePendingAction<T extends PendingAction>(
+  action: T,
+  decision: PendingActionDecision,
+  result?: unknown,
+  now = new Date()
+): T {
+  checkPendingActionDecision(action, decision);
+  action.decidedBy = decision.decidedBy;
+  action.decidedAt = now;
+
+  if (decision.decision === 'reject') {
+    action.status = 'rejected';
+    action.rejectionReason = decision.reason;
+    return action;
+  }
+
+  const final = approvedVersion(action, decision);
+  action.status = 'approved';
+  action.final = final;
+  action.changes = diffValues(action.draft, final);
+  action.signature = decision.signature;
+  action.result = result;
+  return action;
+}
+
+/** Versao que a aprovacao executa: a editada, ou o rascunho como esta */
+export function approvedVersion(action: PendingAction, decision: PendingActionDecision): unknown {
+  return decision.final === undefined ? action.draft : decision.final;
+}
+
+/**
+ * Diferencas entre dois valores, campo a campo nos objetos
+ * Listas e valores simples sao comparados inteiros; path usa pontos
+ * ('plan.medications'), '' e o valor inteiro
+ */
+export function diffValues(before: unknown, after: unknown, path = ''): ValueChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  if (sameValue(before, after)) {
+    return [];
+  }
+  return [{ path, before, after }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => diffValues(item, b[i]).length === 0);
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return Object.is(a, b);
+}
@@ -0,0 +1,117 @@
+/**
+ * Execucoes de Script
+ *
+ * Cada execucao (um evento que casa com steps de um Script) vira um registro
+ * gravado a cada unidade concluida - Persona do step ou acao:
+ *
+ * 1. O cursor diz qual step esta em andamento e quantas unidades dele ja
+ *    concluiram; resultados, variaveis e dados da sessao vao junto, entao
+ *    outro Worker retoma de onde o anterior parou
+ * 2. Acao que falha com `retries` sobrando deixa a execucao em 'retrying'
+ *    ate nextAttemptAt (backoff exponencial) - quem hospeda o Stage retoma
+ * 3. A chave de idempotencia (Script + evento) faz o mesmo evento devolver a
+ *    execucao existente em vez de rodar de novo
+ * 4. Execucao cancelada nao e mais gravada - quem estava rodando para na
+ *    proxima unidade
+ * 5. Acao que pede validacao humana fica em pendingValidations e vai para a
+ *    inbox de validacao do Stage
+ *
+ * O Stage grava em memoria por padrao; o Cast injeta o Durable Object
+ * SCRIPT_EXECUTIONS (setExecutionStore).
+ */
+
+import type { ScriptExecutionFilter, ScriptExecutionHeader, StageEvent } from '@healthos/shared';
+import { cancelExecution, matchesExecutionFilter } from '@healthos/shared';
+import type { StepResult } from './script';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ScriptExecutionRecord extends ScriptExecutionHeader {
+  /** Evento que disparou (sem o accessGrant - a chave da sessao nao e gravada) */
+  event: StageEvent;
+  /** Steps que responderam ao evento, na ordem */
+  stepIds: string[];
+  /** Step em andamento (indice em stepIds) e unidades dele ja concluidas */
+  cursor: { step: number; unit: number };
+  /** Resultados dos steps desta execucao (inclusive o em andamento) */
+  stepResults: StepResult[];
+  /** Resultados de eventos anteriores na sessao (steps.<id> nos templates) */
+  previousResults: StepResult[];
+  variables: Record<string, unknown>;
+  /** Dados da sessao (save_to 'session.<campo>') */
+  sessionData: Record<string, unknown>;
+  /** Acoes concluidas que aguardam validacao humana */
+  pendingValidations: PendingValidation[];
+}
+
+export interface PendingValidation {
+  /** Estavel entre retomadas - vira a id da acao na inbox de validacao */
+  id: string;
+  stepId: string;
+  action: string;
+  output?: unknown;
+  requestedAt: Date;
+}
+
+/**
+ * Onde as execucoes ficam gravadas
+ */
+export interface ScriptExecutionStore {
+  /** Grava o registro; false (sem gravar) se a execucao foi cancelada */
+  save(record: ScriptExecutionRecord): Promise<boolean>;
+  get(executionId: string): Promise<ScriptExecutionRecord | undefined>;
+  findByIdempotencyKey(idempotencyKey: string): Promise<ScriptExecutionRecord | undefined>;
+  /** Mais recentes primeiro - so cabecalhos (o registro completo vem de get) */
+  list(filter?: ScriptExecutionFilter): Promise<ScriptExecutionHeader[]>;
+  cancel(executionId: string): Promise<ScriptExecutionRecord>;
+}
+
+// =============================================================================
+// STORE EM MEMORIA
+// =============================================================================
+
+/**
+ * Padrao do Stage - some com o processo, mas cobre retries e cancelamento
+ */
+export class InMemoryScriptExecutionStore implements ScriptExecutionStore {
+  private records = new Map<string, ScriptExecutionRecord>();
+
+  async save(record: ScriptExecutionRecord): Promise<boolean> {
+    if (this.records.get(record.id)?.status === 'cancelled') {
+      return false;
+    }
+    this.records.set(record.id, structuredClone(record));
+    return true;
+  }
+
+  async get(executionId: string): Promise<ScriptExecutionRecord | undefined> {
+    const record = this.records.get(executionId);
+    return record && structuredClone(record);
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<ScriptExecutionRecord | undefined> {
+    for (const record of this.records.values()) {
+      if (record.idempotencyKey === idempotencyKey) {
+        return structuredClone(record);
+      }
+    }
+    return undefined;
+  }
+
+  async list(filter: ScriptExecutionFilter = {}): Promise<ScriptExecutionRecord[]> {
+    const records = [...this.records.values()]
+      .filter((record) => matchesExecutionFilter(record, filter))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return structuredClone(records.slice(0, filter.limit));
+  }
+
+  async cancel(executionId: string): Promise<ScriptExecutionRecord> {
+    const record = this.records.get(executionId);
+    if (!record) {
+      throw new Error('Execution not found');
+    }
+    return structuredClone(cancelExecution(record));
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { ActorId, ScriptId, ScriptManifest, SessionId, StageEvent, StageId } from '@healthos/shared';
+import type { AgentContext } from '../persona/persona';
+import { InMemoryScriptExecutionStore } from './execution';
+import { Script } from './script';
+import type { ScriptRuntime } from './script';
+
+const STAGE = 'clinica' as StageId;
+const SESSION = 'sessao-1' as SessionId;
+
+const manifest: ScriptManifest = {
+  id: 'pos-consulta' as ScriptId,
+  name: 'Pos-consulta',
+  description: 'Resumo, registro, aviso e fila',
+  steps: [
+    {
+      id: 'fechar',
+      trigger: 'consultation_ended',
+      actions: [
+        { type: 'generate', target: 'summarize', params: { texto: '{{ event.transcricao }}' } },
+        {
+          type: 'save_to',
+          target: 'session.resumo',
+          params: { value: '{{ steps.fechar.outputs.summarize }}' },
+        },
+        {
+          type: 'save_to',
+          target: 'patient_actor.consultations',
+          params: { summary: '{{ session.resumo }}' },
+        },
+        { type: 'notify', target: 'entity_actor', params: { message: 'Resumo pronto' } },
+        { type: 'queue', target: 'faturamento', params: { sessao: '{{ event.sessao }}' }, retries: 1 },
+      ],
+    },
+  ],
+};
+
+function event(id = 'evento-1'): StageEvent {
+  return {
+    id,
+    type: 'consultation_ended',
+    timestamp: new Date(),
+    stageId: STAGE,
+    actorId: 'entity-joao' as ActorId,
+    sessionId: SESSION,
+    payload: { transcricao: 'Paciente com febre ha dois dias', sessao: SESSION },
+    context: { previousEvents: [], metadata: {} },
+  };
+}
+
+function agentContext(): AgentContext {
+  return {
+    sessionId: SESSION,
+    stageId: STAGE,
+    actorId: 'entity-joao' as ActorId,
+    messageHistory: [],
+    data: {},
+  };
+}
+
+/** Runtime que grava cada efeito externo - a fila pode falhar nas primeiras chamadas */
+function recordingRuntime(options: { queueFailures?: number } = {}) {
+  const calls: Array<{ effect: string; target: string; params: Record<string, unknown>; key?: string }> = [];
+  let queueFailures = options.queueFailures ?? 0;
+  const runtime: ScriptRuntime = {
+    callTool: async (method, params, context) => {
+      calls.push({ effect: 'callTool', target: method, params, key: context.idempotencyKey });
+      return `resumo: ${params.texto}`;
+    },
+    saveTo: async (target, data, context) => {
+      calls.push({ effect: 'saveTo', target, params: data, key: context.idempotencyKey });
+      return { recordId: 'registro-1' };
+    },
+    notify: async (target, params, context) => {
+      calls.push({ effect: 'notify', target, params, key: context.idempotencyKey });
+      return { sent: true };
+    },
+    queue: async (target, payload, context) => {
+      calls.push({ effect: 'queue', target, params: payload, key: context.idempotencyKey });
+      if (queueFailures-- > 0) throw new Error('Fila indisponivel');
+      return { queued: true };
+    },
+    requestValidation: async () => {},
+  };
+  return { runtime, calls };
+}
+
+describe('Script actions', () => {
+  it('sends each action through the runtime with rendered params', async () => {
+    const { runtime, calls } = recordingRuntime();
+    const context = agentContext();
+
+    const result = await new Script(manifest).execute(event(), new Map(), context, { runtime });
+
+    expect(result.status).toBe('completed');
+    expect(calls.map((c) => [c.effect, c.target])).toEqual([
+      ['callTool', 'summarize'],
+      ['saveTo', 'patient_actor.consultations'],
+      ['notify', 'entity_actor'],
+      ['queue', 'faturamento'],
+    ]);
+    expect(calls[0].params).toEqual({ texto: 'Paciente com febre ha dois dias' });
+    expect(calls[1].params).toEqual({ summary: 'resumo: Paciente com febre ha dois dias' });
+    expect(calls[3].params).toEqual({ sessao: SESSION });
+    expect(context.data.resumo).toBe('resumo: Paciente com febre ha dois dias');
+    expect(result.stepResults[0].outputs).toMatchObject({
+      summarize: 'resumo: Paciente com febre ha dois dias',
+      'patient_actor.consultations': { recordId: 'registro-1' },
+    });
+  });
+
+  it('fails actions with external effects when no runtime is configured', async () => {
+    const result = await new Script(manifest).execute(event(), new Map(), agentContext());
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/Script runtime not configured: generate summarize/);
+  });
+
+  it('retries a failed action without repeating the completed ones', async () => {
+    const { runtime, calls } = recordingRuntime({ queueFailures: 1 });
+    const store = new InMemoryScriptExecutionStore();
+    const script = new Script(manifest);
+
+    const first = await script.execute(event(), new Map(), agentContext(), { runtime, store });
+    expect(first.status).toBe('retrying');
+    expect(first.nextAttemptAt).toBeInstanceOf(Date);
+
+    const record = (await store.get(first.executionId!))!;
+    const resumed = await script.resume(record, new Map(), agentContext(), { runtime, store });
+    expect(resumed.status).toBe('completed');
+
+    // So a fila rodou de novo, com a mesma chave de idempotencia
+    const queued = calls.filter((c) => c.effect === 'queue');
+    expect(calls.filter((c) => c.effect === 'callTool')).toHaveLength(1);
+    expect(queued).toHaveLength(2);
+    expect(queued[0].key).toBe(queued[1].key);
+
+    // O mesmo evento devolve a execucao existente, sem efeitos novos
+    const before = calls.length;
+    const again = await script.execute(event(), new Map(), agentContext(), { runtime, store });
+    expect(again.executionId).toBe(first.executionId);
+    expect(calls).toHaveLength(before);
+  });
+});
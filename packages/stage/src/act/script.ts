@@ -26,8 +26,14 @@ import type {
   ActorId,
   StageEvent,
   ActionResult,
+  ScriptExecutionStatus,
+  Expression,
+  JsonSchema,
+  Template,
 } from '@healthos/shared';
+import { checkJsonSchema, compileExpression, compileTemplate, isExecutionFinished, retryDelayMs } from '@healthos/shared';
 import { Persona, AgentContext } from '../persona/persona';
+import type { PendingValidation, ScriptExecutionRecord, ScriptExecutionStore } from './execution';
 
 // =============================================================================
 // SCRIPT RUNTIME
@@ -40,17 +46,56 @@ export interface ScriptContext {
   /** ID da sessão */
   sessionId: SessionId;
   
+  /** Execução em andamento (ScriptExecutionRecord.id) */
+  executionId: string;
+  
+  /** Chave da ação em andamento - a mesma em todas as tentativas dela */
+  idempotencyKey?: string;
+  
   /** Evento que disparou o script */
   event: StageEvent;
   
-  /** Resultados de steps anteriores */
+  /** Resultados de steps anteriores (inclusive de eventos anteriores na sessão) */
   stepResults: Map<string, StepResult>;
   
+  /** outputSchema dos métodos MCP dos Tools, pelo nome do método */
+  outputSchemas: Map<string, JsonSchema>;
+  
   /** Variáveis acumuladas durante execução */
   variables: Record<string, unknown>;
   
   /** Personas disponíveis */
   personas: Map<PersonaId, Persona>;
+  
+  /** Contexto da sessão (save_to 'session.<campo>' grava em data) */
+  agentContext: AgentContext;
+  
+  /** Efeitos externos das ações */
+  runtime: ScriptRuntime;
+}
+
+/**
+ * Efeitos externos das ações de Script
+ * 
+ * O Stage monta o padrão (Tools do Stage, EVENTS_QUEUE, NOTIFICATIONS_QUEUE)
+ * e o Cast injeta save_to para o PatientActor. Testes substituem qualquer um
+ * via Stage.setScriptRuntime.
+ */
+export interface ScriptRuntime {
+  /** generate: chama o método MCP `method` do Tool que o expõe */
+  callTool(method: string, params: Record<string, unknown>, context: ScriptContext): Promise<unknown>;
+  
+  /** save_to fora da sessão (ex.: 'patient_actor.consultations') */
+  saveTo(target: string, data: Record<string, unknown>, context: ScriptContext): Promise<unknown>;
+  
+  /** notify: envia notificação ao destinatário (ex.: 'entity_actor') */
+  notify(target: string, params: Record<string, unknown>, context: ScriptContext): Promise<unknown>;
+  
+  /** queue: enfileira para processamento posterior */
+  queue(target: string, payload: Record<string, unknown>, context: ScriptContext): Promise<unknown>;
+  
+  /** Ação concluída que pede validação humana (a mesma id pode chegar de novo na retomada) */
+  requestValidation(validation: PendingValidation, context: ScriptContext): Promise<void>;
 }
 
 export interface StepResult {
@@ -58,6 +103,8 @@ export interface StepResult {
   success: boolean;
   personaResponse?: unknown;
   actionResults: ActionResult[];
+  /** Saídas nomeadas (steps.<id>.outputs.<nome> nos templates e condições) */
+  outputs: Record<string, unknown>;
   error?: string;
   timestamp: Date;
 }
@@ -65,12 +112,59 @@ export interface StepResult {
 export interface ScriptResult {
   scriptId: ScriptId;
   sessionId: SessionId;
+  /** Ausente se nenhum step respondeu ao evento */
+  executionId?: string;
+  status: ScriptExecutionStatus;
   success: boolean;
   stepResults: StepResult[];
   finalOutput?: unknown;
+  error?: string;
+  /** Próxima tentativa (status 'retrying') */
+  nextAttemptAt?: Date;
   durationMs: number;
 }
 
+export interface ScriptExecutionOptions {
+  /** Resultados de execuções anteriores na sessão, por step (resume usa os do registro) */
+  previousResults?: Map<string, StepResult>;
+  
+  /** outputSchema dos métodos MCP dos Tools, pelo nome do método */
+  outputSchemas?: Map<string, JsonSchema>;
+  
+  /** Efeitos externos (sem runtime, toda ação com efeito externo falha) */
+  runtime?: ScriptRuntime;
+  
+  /** Onde a execução é gravada a cada unidade concluída (sem store, não é gravada) */
+  store?: ScriptExecutionStore;
+  
+  /** Chave de idempotência da execução (padrão: `<scriptId>:<eventId>`) */
+  idempotencyKey?: string;
+}
+
+/** Unidade de um step - o cursor da execução conta unidades concluídas */
+type StepUnit =
+  | { kind: 'persona' }
+  | { kind: 'action'; action: ScriptAction; required: boolean };
+
+/** Runtime de quem executa o Script fora de um Stage - efeitos externos falham */
+const UNCONFIGURED_RUNTIME: ScriptRuntime = {
+  callTool: async (method) => {
+    throw new Error(`Script runtime not configured: generate ${method}`);
+  },
+  saveTo: async (target) => {
+    throw new Error(`Script runtime not configured: save_to ${target}`);
+  },
+  notify: async (target) => {
+    throw new Error(`Script runtime not configured: notify ${target}`);
+  },
+  queue: async (target) => {
+    throw new Error(`Script runtime not configured: queue ${target}`);
+  },
+  requestValidation: async (validation) => {
+    throw new Error(`Script runtime not configured: validation of ${validation.action}`);
+  },
+};
+
 /**
  * Script - Executor de fluxos declarativos
  */
@@ -81,128 +175,277 @@ export class Script {
   
   private steps: ScriptStep[];
   
+  /** Condições compiladas (ifs e triggers '$...'), pelo texto */
+  private expressions: Map<string, Expression>;
+  
+  /** Templates compilados (input do step e params das ações), pelo objeto do manifest */
+  private templates: Map<ScriptStep | ScriptAction, Template>;
+  
   constructor(manifest: ScriptManifest) {
     this.id = manifest.id;
     this.name = manifest.name;
     this.description = manifest.description;
     this.steps = manifest.steps;
+    this.expressions = new Map();
+    this.templates = new Map();
+    
+    // Compila condições e templates agora - erro falha o registro do Stage
+    for (const step of this.steps) {
+      if (step.trigger.startsWith('$')) {
+        this.compileCondition(step.trigger.slice(1), step.id);
+      }
+      if (step.input !== undefined) {
+        this.compileTemplate(step, step.input, step.id);
+      }
+      
+      const actions = [
+        ...step.actions,
+        ...(step.conditions ?? []).flatMap(condition => [...condition.then, ...(condition.else ?? [])]),
+      ];
+      for (const action of actions) {
+        if (action.params) {
+          this.compileTemplate(action, action.params, step.id);
+        }
+      }
+      
+      for (const condition of step.conditions ?? []) {
+        this.compileCondition(condition.if, step.id);
+      }
+    }
   }
 
   /**
    * Executa o script a partir de um evento
+   * 
+   * Sem steps que respondam ao evento, nada é gravado. Com store, o evento
+   * já executado (mesma chave de idempotência) devolve a execução existente.
    */
   async execute(
     event: StageEvent,
     personas: Map<PersonaId, Persona>,
-    agentContext: AgentContext
+    agentContext: AgentContext,
+    options: ScriptExecutionOptions = {}
   ): Promise<ScriptResult> {
     const startTime = Date.now();
+    const executionId = crypto.randomUUID();
     
     const context: ScriptContext = {
       stageId: event.stageId,
       sessionId: event.sessionId,
+      executionId,
       event,
-      stepResults: new Map(),
+      stepResults: new Map(options.previousResults),
+      outputSchemas: options.outputSchemas ?? new Map(),
       variables: { ...event.payload },
       personas,
+      agentContext,
+      runtime: options.runtime ?? UNCONFIGURED_RUNTIME,
     };
     
-    const stepResults: StepResult[] = [];
-    let success = true;
-    
     // Encontra steps que respondem ao trigger do evento
     const matchingSteps = this.steps.filter(step => 
       this.matchesTrigger(step.trigger, event.type, context)
     );
+    if (matchingSteps.length === 0) {
+      return {
+        scriptId: this.id,
+        sessionId: event.sessionId,
+        status: 'completed',
+        success: true,
+        stepResults: [],
+        finalOutput: context.variables,
+        durationMs: Date.now() - startTime,
+      };
+    }
+    
+    const idempotencyKey = options.idempotencyKey ?? `${this.id}:${event.id}`;
+    const existing = await options.store?.findByIdempotencyKey(idempotencyKey);
+    if (existing) {
+      return this.toResult(existing, startTime);
+    }
+    
+    // A chave da sessão não vai para o registro
+    const { accessGrant, ...eventContext } = event.context;
+    const now = new Date();
+    const record: ScriptExecutionRecord = {
+      id: executionId,
+      idempotencyKey,
+      stageId: event.stageId,
+      scriptId: this.id,
+      sessionId: event.sessionId,
+      entityActorId: event.actorId,
+      status: 'running',
+      event: { ...event, context: eventContext },
+      stepIds: matchingSteps.map(step => step.id),
+      cursor: { step: 0, unit: 0 },
+      stepResults: [],
+      previousResults: [...context.stepResults.values()],
+      variables: context.variables,
+      sessionData: agentContext.data,
+      pendingValidations: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    return this.run(record, context, options.store, startTime);
+  }
+
+  /**
+   * Retoma uma execução gravada (retry vencido ou Worker que parou no meio)
+   * 
+   * Unidades já concluídas não rodam de novo; a unidade em andamento roda
+   * outra vez. agentContext é o da sessão viva ou um montado do registro.
+   */
+  async resume(
+    record: ScriptExecutionRecord,
+    personas: Map<PersonaId, Persona>,
+    agentContext: AgentContext,
+    options: ScriptExecutionOptions = {}
+  ): Promise<ScriptResult> {
+    const startTime = Date.now();
+    if (isExecutionFinished(record.status)) {
+      throw new Error(`Execution already ${record.status}`);
+    }
     
-    // Executa cada step matching
-    for (const step of matchingSteps) {
-      const result = await this.executeStep(step, context, agentContext);
-      stepResults.push(result);
-      context.stepResults.set(step.id, result);
+    const context: ScriptContext = {
+      stageId: record.stageId,
+      sessionId: record.sessionId,
+      executionId: record.id,
+      event: record.event,
+      stepResults: new Map([...record.previousResults, ...record.stepResults].map(result => [result.stepId, result])),
+      outputSchemas: options.outputSchemas ?? new Map(),
+      variables: record.variables,
+      personas,
+      agentContext,
+      runtime: options.runtime ?? UNCONFIGURED_RUNTIME,
+    };
+    
+    record.status = 'running';
+    record.nextAttemptAt = undefined;
+    record.sessionData = agentContext.data;
+    
+    return this.run(record, context, options.store, startTime);
+  }
+
+  /**
+   * Executa os steps do registro a partir do cursor, gravando a cada unidade
+   */
+  private async run(
+    record: ScriptExecutionRecord,
+    context: ScriptContext,
+    store: ScriptExecutionStore | undefined,
+    startTime: number
+  ): Promise<ScriptResult> {
+    if (!(await this.checkpoint(record, store))) {
+      return this.toResult(record, startTime);
+    }
+    
+    while (record.cursor.step < record.stepIds.length) {
+      const stepId = record.stepIds[record.cursor.step];
+      const step = this.steps.find(s => s.id === stepId);
+      if (!step) {
+        // Manifest mudou entre a gravação e a retomada
+        record.status = 'failed';
+        record.error = `Step not found: ${stepId}`;
+        break;
+      }
+      
+      const result = await this.executeStep(step, record, context, store);
+      if (!result) {
+        // Aguardando nova tentativa ou cancelada
+        return this.toResult(record, startTime);
+      }
       
       if (!result.success) {
-        success = false;
-        // Dependendo da config, pode parar ou continuar
+        record.status = 'failed';
+        record.error = result.error;
         break;
       }
+      
+      record.cursor = { step: record.cursor.step + 1, unit: 0 };
+      if (!(await this.checkpoint(record, store))) {
+        return this.toResult(record, startTime);
+      }
     }
     
-    return {
-      scriptId: this.id,
-      sessionId: event.sessionId,
-      success,
-      stepResults,
-      finalOutput: context.variables,
-      durationMs: Date.now() - startTime,
-    };
+    if (record.status === 'running') {
+      record.status = 'completed';
+    }
+    record.finishedAt = new Date();
+    await this.checkpoint(record, store);
+    
+    return this.toResult(record, startTime);
   }
 
   /**
-   * Executa um step individual
+   * Executa um step: Persona (se houver), ações e ações das condições
+   * 
+   * Devolve undefined se a execução foi suspensa - ação aguardando nova
+   * tentativa ou execução cancelada no meio.
    */
   private async executeStep(
     step: ScriptStep,
+    record: ScriptExecutionRecord,
     context: ScriptContext,
-    agentContext: AgentContext
-  ): Promise<StepResult> {
-    const result: StepResult = {
-      stepId: step.id,
-      success: true,
-      actionResults: [],
-      timestamp: new Date(),
-    };
+    store: ScriptExecutionStore | undefined
+  ): Promise<StepResult | undefined> {
+    // Retomada: o resultado parcial do step já está no registro
+    let result = record.stepResults[record.cursor.step];
+    if (!result) {
+      result = {
+        stepId: step.id,
+        success: true,
+        actionResults: [],
+        outputs: {},
+        timestamp: new Date(),
+      };
+      record.stepResults.push(result);
+    }
+    
+    // Visível já durante o step - ações seguintes leem as saídas das anteriores
+    context.stepResults.set(step.id, result);
     
     try {
-      // 1. Ativa Persona se especificada
-      if (step.activate) {
-        const persona = context.personas.get(step.activate);
-        if (!persona) {
-          throw new Error(`Persona not found: ${step.activate}`);
+      let unit = 0;
+      for (const next of this.stepUnits(step, context)) {
+        // Concluída antes da retomada
+        if (unit < record.cursor.unit) {
+          unit++;
+          continue;
         }
         
-        // Processa com a Persona
-        const personaResponse = await persona.process(
-          JSON.stringify(context.event.payload),
-          agentContext
-        );
-        
-        result.personaResponse = personaResponse;
-        result.actionResults.push(...personaResponse.actions);
-        
-        // Armazena output nas variáveis
-        context.variables.personaOutput = personaResponse.output;
-      }
-      
-      // 2. Executa ações
-      for (const action of step.actions) {
-        const actionResult = await this.executeAction(action, context);
-        result.actionResults.push(actionResult);
-        
-        if (!actionResult.success) {
-          result.success = false;
-          result.error = actionResult.error;
-          break;
-        }
-      }
-      
-      // 3. Avalia condições
-      if (step.conditions && result.success) {
-        for (const condition of step.conditions) {
-          if (this.evaluateCondition(condition.if, context)) {
-            for (const action of condition.then) {
-              const actionResult = await this.executeAction(action, context);
-              result.actionResults.push(actionResult);
-            }
-          } else if (condition.else) {
-            for (const action of condition.else) {
-              const actionResult = await this.executeAction(action, context);
-              result.actionResults.push(actionResult);
-            }
+        if (next.kind === 'persona') {
+          await this.activatePersona(step, result, record, context);
+        } else {
+          // Mesma chave em todas as tentativas da ação
+          context.idempotencyKey = `${record.id}:${step.id}:${unit}`;
+          const actionResult = await this.runAction(next.action, result, context);
+          
+          if (!actionResult.success && this.scheduleRetry(next.action, actionResult, record)) {
+            await this.checkpoint(record, store);
+            return undefined;
+          }
+          
+          result.actionResults.push(actionResult);
+          await this.trackValidation(step, actionResult, record, context);
+          
+          // Falha em ação do step encerra o step; nas das condições, segue
+          if (!actionResult.success && next.required) {
+            result.success = false;
+            result.error = actionResult.error;
+            break;
           }
         }
+        
+        unit++;
+        record.cursor.unit = unit;
+        record.attempts = 0;
+        record.error = undefined;
+        if (!(await this.checkpoint(record, store))) {
+          return undefined;
+        }
       }
-      
     } catch (error) {
       result.success = false;
       result.error = error instanceof Error ? error.message : 'Unknown error';
@@ -211,6 +454,164 @@ export class Script {
     return result;
   }
 
+  /**
+   * Unidades do step, na ordem - as condições são avaliadas quando chega a vez
+   * delas (depois das ações anteriores)
+   */
+  private *stepUnits(step: ScriptStep, context: ScriptContext): Generator<StepUnit> {
+    if (step.activate) {
+      yield { kind: 'persona' };
+    }
+    
+    for (const action of step.actions) {
+      yield { kind: 'action', action, required: true };
+    }
+    
+    for (const condition of step.conditions ?? []) {
+      const branch = this.evaluateCondition(condition.if, context) ? condition.then : condition.else ?? [];
+      for (const action of branch) {
+        yield { kind: 'action', action, required: false };
+      }
+    }
+  }
+
+  /**
+   * Ativa a Persona do step com o input do step (ou o payload do evento)
+   */
+  private async activatePersona(
+    step: ScriptStep,
+    result: StepResult,
+    record: ScriptExecutionRecord,
+    context: ScriptContext
+  ): Promise<void> {
+    const persona = context.personas.get(step.activate!);
+    if (!persona) {
+      throw new Error(`Persona not found: ${step.activate}`);
+    }
+    
+    const personaResponse = await persona.process(
+      this.personaInput(step, context),
+      context.agentContext
+    );
+    
+    result.personaResponse = personaResponse;
+    result.actionResults.push(...personaResponse.actions);
+    
+    // Saídas dos tools chamados pela Persona, pelo nome do método
+    for (const action of personaResponse.actions) {
+      await this.trackValidation(step, action, record, context);
+      if (!action.success || action.output === undefined) continue;
+      const error = this.recordOutput(result, action.action, action.output, context);
+      if (error) {
+        throw new Error(error);
+      }
+    }
+    
+    // Armazena output nas variáveis
+    context.variables.personaOutput = personaResponse.output;
+  }
+
+  /**
+   * Agenda nova tentativa da ação que falhou, se ainda houver retries
+   */
+  private scheduleRetry(
+    action: ScriptAction,
+    actionResult: ActionResult,
+    record: ScriptExecutionRecord
+  ): boolean {
+    record.attempts += 1;
+    if (record.attempts > (action.retries ?? 0)) {
+      return false;
+    }
+    
+    record.status = 'retrying';
+    record.error = actionResult.error;
+    record.nextAttemptAt = new Date(Date.now() + retryDelayMs(record.attempts, action.backoff));
+    return true;
+  }
+
+  /**
+   * Ação concluída que pede validação humana fica pendente no registro e
+   * vai para a inbox (a id pelo índice se repete se a unidade rodar de novo)
+   */
+  private async trackValidation(
+    step: ScriptStep,
+    actionResult: ActionResult,
+    record: ScriptExecutionRecord,
+    context: ScriptContext
+  ): Promise<void> {
+    if (!actionResult.success || !actionResult.requiresValidation) return;
+    const validation: PendingValidation = {
+      id: `${record.id}:${record.pendingValidations.length}`,
+      stepId: step.id,
+      action: actionResult.action,
+      output: actionResult.output,
+      requestedAt: new Date(),
+    };
+    record.pendingValidations.push(validation);
+    await context.runtime.requestValidation(validation, context);
+  }
+
+  /**
+   * Grava o registro; false se a execução foi cancelada (para de rodar)
+   */
+  private async checkpoint(
+    record: ScriptExecutionRecord,
+    store: ScriptExecutionStore | undefined
+  ): Promise<boolean> {
+    record.updatedAt = new Date();
+    if (!store || (await store.save(record))) {
+      return true;
+    }
+    
+    record.status = 'cancelled';
+    record.nextAttemptAt = undefined;
+    return false;
+  }
+
+  private toResult(record: ScriptExecutionRecord, startTime: number): ScriptResult {
+    return {
+      scriptId: this.id,
+      sessionId: record.sessionId,
+      executionId: record.id,
+      status: record.status,
+      success: record.status === 'completed',
+      stepResults: record.stepResults,
+      finalOutput: record.variables,
+      error: record.error,
+      nextAttemptAt: record.nextAttemptAt,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Executa uma ação do step: resolve os templates dos params e guarda a
+   * saída em steps.<id>.outputs (nome: action.output ou target)
+   */
+  private async runAction(
+    action: ScriptAction,
+    result: StepResult,
+    context: ScriptContext
+  ): Promise<ActionResult> {
+    const template = this.templates.get(action);
+    const rendered = template
+      ? { ...action, params: template.render(this.buildScope(context)) as Record<string, unknown> }
+      : action;
+    
+    const actionResult = await this.executeAction(rendered, context);
+    
+    const name = action.output ?? action.target;
+    if (actionResult.success && name && actionResult.output !== undefined) {
+      const error = this.recordOutput(result, name, actionResult.output, context);
+      if (error) {
+        actionResult.success = false;
+        actionResult.error = error;
+      }
+    }
+    
+    return actionResult;
+  }
+
   /**
    * Executa uma ação individual
    */
@@ -267,21 +668,20 @@ export class Script {
     action: ScriptAction,
     context: ScriptContext
   ): Promise<ActionResult> {
-    // Gera algo (documento, análise, etc.)
-    const target = action.target || 'output';
-    
-    // Em produção, chamaria o Tool apropriado
-    context.variables[target] = {
-      generated: true,
-      type: action.params?.type || 'generic',
-      timestamp: new Date(),
-    };
+    // Gera algo (documento, análise, etc.) com o Tool cujo método MCP é o target
+    if (!action.target) {
+      throw new Error('generate action requires a target (MCP method)');
+    }
+    const { requiresValidation, ...params } = action.params ?? {};
+    
+    const output = await context.runtime.callTool(action.target, params, context);
+    context.variables[action.target] = output;
     
     return {
       success: true,
-      action: `generate:${target}`,
-      output: context.variables[target],
-      requiresValidation: action.params?.requiresValidation === true,
+      action: `generate:${action.target}`,
+      output,
+      requiresValidation: requiresValidation === true,
     };
   }
 
@@ -289,15 +689,30 @@ export class Script {
     action: ScriptAction,
     context: ScriptContext
   ): Promise<ActionResult> {
-    // Salva dados em um Actor
+    // Salva dados na sessão ('session.<campo>') ou fora dela, via runtime
     const target = action.target || '';
-    const [actorType, field] = target.split('.');
+    const [destination, field] = target.split('.');
+    
+    if (destination === 'session') {
+      if (!field) {
+        throw new Error('save_to session requires a field (session.<field>)');
+      }
+      const value = action.params && 'value' in action.params ? action.params.value : action.params;
+      context.agentContext.data[field] = value;
+      
+      return {
+        success: true,
+        action: `save_to:${target}`,
+        output: { saved: true },
+        requiresValidation: false,
+      };
+    }
     
-    // Em produção, chamaria o Actor apropriado via RPC
+    const output = await context.runtime.saveTo(target, action.params ?? {}, context);
     return {
       success: true,
       action: `save_to:${target}`,
-      output: { saved: true },
+      output,
       requiresValidation: false,
     };
   }
@@ -308,12 +723,12 @@ export class Script {
   ): Promise<ActionResult> {
     // Notifica um Actor
     const target = action.target || '';
+    const output = await context.runtime.notify(target, action.params ?? {}, context);
     
-    // Em produção, enviaria notificação via Worker de notificações
     return {
       success: true,
       action: `notify:${target}`,
-      output: { notified: true },
+      output,
       requiresValidation: false,
     };
   }
@@ -324,12 +739,12 @@ export class Script {
   ): Promise<ActionResult> {
     // Enfileira para processamento posterior
     const target = action.target || 'default_queue';
+    const output = await context.runtime.queue(target, action.params ?? {}, context);
     
-    // Em produção, usaria Cloudflare Queue
     return {
       success: true,
       action: `queue:${target}`,
-      output: { queued: true, queueId: crypto.randomUUID() },
+      output,
       requiresValidation: false,
     };
   }
@@ -416,33 +831,98 @@ export class Script {
   }
 
   /**
-   * Avalia uma condição
+   * Input da Persona: template do step (objeto vira JSON) ou o payload do evento
    */
-  private evaluateCondition(condition: string, context: ScriptContext): boolean {
-    try {
-      // Condições simples baseadas em variáveis
-      // Ex: "needs_referral", "priority === 'urgent'", etc.
-      
-      const { variables, event, stepResults } = context;
-      
-      // Cria contexto de avaliação
-      const evalContext = {
-        ...variables,
-        event: event.payload,
-        results: Object.fromEntries(stepResults),
+  private personaInput(step: ScriptStep, context: ScriptContext): string {
+    const template = this.templates.get(step);
+    const input = template ? template.render(this.buildScope(context)) : context.event.payload;
+    return typeof input === 'string' ? input : JSON.stringify(input);
+  }
+
+  /**
+   * Guarda uma saída do step, validada contra o outputSchema do Tool de mesmo nome
+   * Devolve o erro de validação (a saída inválida não é guardada)
+   */
+  private recordOutput(
+    result: StepResult,
+    name: string,
+    value: unknown,
+    context: ScriptContext
+  ): string | undefined {
+    const schema = context.outputSchemas.get(name);
+    if (schema) {
+      const errors = checkJsonSchema(value, schema);
+      if (errors.length > 0) {
+        return `Output ${name} does not match tool outputSchema: ${errors.join('; ')}`;
+      }
+    }
+    
+    result.outputs[name] = value;
+    return undefined;
+  }
+
+  /**
+   * Escopo de condições e templates
+   * 
+   * Variáveis do script (payload do evento + saídas), `event` (payload),
+   * `session` (dados gravados com save_to 'session.<campo>'), `results`
+   * (StepResult por id) e `steps.<id>` com success, error, response (texto
+   * da Persona) e outputs.
+   */
+  private buildScope(context: ScriptContext): Record<string, unknown> {
+    const { variables, event, stepResults } = context;
+    const steps: Record<string, unknown> = {};
+    for (const [stepId, result] of stepResults) {
+      steps[stepId] = {
+        success: result.success,
+        error: result.error,
+        response: (result.personaResponse as { output?: unknown } | undefined)?.output,
+        outputs: result.outputs,
       };
-      
-      // Avalia (em produção, usaria um parser seguro)
-      const fn = new Function(
-        ...Object.keys(evalContext),
-        `return ${condition}`
-      );
-      
-      return fn(...Object.values(evalContext));
-    } catch {
-      return false;
+    }
+    
+    return {
+      ...variables,
+      event: event.payload,
+      session: context.agentContext.data,
+      results: Object.fromEntries(stepResults),
+      steps,
+    };
+  }
+
+  /**
+   * Compila um template do manifest (input de step ou params de ação)
+   */
+  private compileTemplate(owner: ScriptStep | ScriptAction, value: unknown, stepId: string): void {
+    try {
+      this.templates.set(owner, compileTemplate(value));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid template in script ${this.id}, step ${stepId}: ${reason}`);
+    }
+  }
+
+  /**
+   * Compila uma condição do manifest (uma vez por texto)
+   */
+  private compileCondition(condition: string, stepId: string): void {
+    if (this.expressions.has(condition)) return;
+    try {
+      this.expressions.set(condition, compileExpression(condition));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid condition in script ${this.id}, step ${stepId}: "${condition}" - ${reason}`);
     }
   }
+
+  /**
+   * Avalia uma condição (escopo em buildScope)
+   * Ex.: "needs_referral", "steps.end.outputs.analysis.priority in ['urgent', 'high']"
+   */
+  private evaluateCondition(condition: string, context: ScriptContext): boolean {
+    const expression = this.expressions.get(condition) ?? compileExpression(condition);
+    return expression.test(this.buildScope(context));
+  }
 }
 
 // =============================================================================
@@ -523,6 +1003,14 @@ export class StepBuilder {
     return this;
   }
 
+  /**
+   * Define o input da Persona (template)
+   */
+  input(input: string | Record<string, unknown>): this {
+    this.step.input = input;
+    return this;
+  }
+
   /**
    * Adiciona uma ação
    */
@@ -565,42 +1053,39 @@ export const ConsultationScript = new ScriptBuilder('consultation-flow', 'Fluxo
   .step('start')
     .on('consultation_start')
     .activate('ambient-listener' as PersonaId)
-    .action('generate', 'session_context')
+    .action('notify', 'entity_actor', { message: 'Escuta clínica iniciada' })
     .end()
   
   .step('during')
     .on('speech_detected')
     .activate('ambient-listener' as PersonaId)
-    .action('generate', 'transcription_segment')
-    .action('save_to', 'session.transcription')
+    .action('generate', 'transcribe_stream', { streamId: '{{ streamId }}' })
+    .action('save_to', 'session.transcription', { value: '{{ steps.during.outputs.transcribe_stream }}' })
     .end()
   
   .step('end')
     .on('consultation_end')
     .activate('documenter' as PersonaId)
-    .action('generate', 'soap_note')
-    .action('generate', 'summary')
+    .action('generate', 'generate_soap_note', { transcription: '{{ session.transcription }}' })
+    .action('generate', 'generate_summary', { soapNote: '{{ steps.end.outputs.generate_soap_note }}' })
     .when(
       'needs_referral === true',
-      [{ type: 'generate', target: 'referral_form' }]
+      [{ type: 'request', target: 'referral_form' }]
     )
     .when(
       'needs_prescription === true',
-      [{ type: 'generate', target: 'prescription_draft', params: { requiresValidation: true } }]
+      [{ type: 'request', target: 'prescription_draft' }]
     )
     .end()
   
   .step('validate')
     .on('professional_validates')
     .action('validate', 'soap_note')
-    .action('save_to', 'patient_actor.medical_records')
+    .action('save_to', 'patient_actor.consultations', {
+      recordType: 'consultation',
+      values: { summary: '{{ steps.end.outputs.generate_summary }}' },
+    })
     .action('notify', 'patient_actor')
     .end()
   
   .build();
-
-// =============================================================================
-// EXPORTS
-// =============================================================================
-
-export { Script, ScriptBuilder, StepBuilder };
@@ -24,11 +24,17 @@ export type {
 // Act (Workflow + Orquestração)
 // Script é exportado como Act para alinhar com a nomenclatura da arquitetura
 export { Script as Act, ScriptBuilder, StepBuilder } from './act/script';
-export type { ScriptResult, ScriptContext, StepResult } from './act/script';
+export type { ScriptResult, ScriptContext, ScriptExecutionOptions, ScriptRuntime, StepResult } from './act/script';
+export { InMemoryScriptExecutionStore } from './act/execution';
+export type { ScriptExecutionRecord, ScriptExecutionStore, PendingValidation } from './act/execution';
+
+// Validacao humana
+export { InMemoryValidationInbox } from './validation/inbox';
+export type { ValidationInbox } from './validation/inbox';
 
 // Persona
 export { Persona } from './persona/persona';
-export type { AgentContext } from './persona/persona';
+export type { AgentContext, AgentMessage, AgentResult, AgentRunOptions } from './persona/persona';
 
 // Re-export types
 export * from '@healthos/shared';
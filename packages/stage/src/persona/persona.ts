@@ -27,13 +27,38 @@ import type {
   PersonaResponse,
   ActionResult,
   AccessGrant,
+  LLMContentBlock,
+  LLMMessage,
+  LLMProviderRegistry,
+  LLMResponse,
+  LLMToolDefinition,
+  PersonaStreamEvent,
+  TokenUsage,
+  Expression,
+} from '@healthos/shared';
+import {
+  addTokenUsage,
+  compileExpression,
+  drainStream,
+  emptyTokenUsage,
+  totalTokens,
 } from '@healthos/shared';
 
 // Interface para Tools (implementação em @healthos/cast)
+// Props expõem tool_<método>; Tools de Stage expõem call(método, params)
 interface BasePropActor {
   call(method: string, params: unknown): Promise<unknown>;
+  getToolDefinitions(): Array<{
+    name: string;
+    description: string;
+    inputSchema: unknown;
+    readOnly?: boolean;
+  }>;
 }
 
+/** Chamadas ao LLM por mensagem quando AgentConfig.maxIterations não é informado */
+const DEFAULT_MAX_ITERATIONS = 8;
+
 // =============================================================================
 // AGENT
 // =============================================================================
@@ -54,7 +79,7 @@ export interface AgentContext {
   /** Grant de acesso (se aplicável) */
   accessGrant?: AccessGrant;
   
-  /** Histórico de mensagens da sessão */
+  /** Histórico de mensagens da sessão (o Agent acrescenta cada troca completa) */
   messageHistory: AgentMessage[];
   
   /** Dados adicionais de contexto */
@@ -65,7 +90,9 @@ export interface AgentMessage {
   role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: Date;
+  /** Chamadas pedidas pelo LLM (role 'assistant') */
   toolCalls?: ToolCall[];
+  /** Resultados devolvidos ao LLM (role 'tool') */
   toolResults?: ToolResult[];
 }
 
@@ -83,6 +110,28 @@ export interface ToolResult {
   error?: string;
 }
 
+export interface AgentResult {
+  response: string;
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+  thinking: string;
+  /** Chamadas ao LLM feitas nesta mensagem */
+  iterations: number;
+  /** O loop parou no limite de iterações com tools ainda pendentes */
+  iterationLimitReached: boolean;
+  /** Tokens e custo somados de todas as chamadas ao LLM */
+  usage: TokenUsage;
+  /** Modelo usado nas chamadas */
+  model: LLMModel;
+}
+
+export interface AgentRunOptions {
+  /** Repassa os deltas de texto do LLM (padrão: true no stream) */
+  tokens?: boolean;
+  /** Substitui AgentConfig.model nesta mensagem (ex.: orçamento do Service estourado) */
+  model?: LLMModel;
+}
+
 /**
  * Agent - O "cérebro" que raciocina
  * 
@@ -91,14 +140,18 @@ export interface ToolResult {
  * 2. Decidir quais tools usar
  * 3. Executar tools via MCP
  * 4. Formular resposta
+ * 
+ * O loop repete 2-3 até o LLM responder sem pedir tools (ou até maxIterations).
  */
 export class Agent {
   private config: AgentConfig;
   private tools: Map<ToolId, BasePropActor>;
+  private providers: LLMProviderRegistry;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, providers: LLMProviderRegistry) {
     this.config = config;
     this.tools = new Map();
+    this.providers = providers;
   }
 
   /**
@@ -110,178 +163,272 @@ export class Agent {
 
   /**
    * Processa uma mensagem e retorna resposta
+   * 
+   * Input, pedidos de tools, resultados e resposta final entram em
+   * context.messageHistory - a próxima mensagem continua a mesma conversa.
    */
-  async process(
+  async process(input: string, context: AgentContext, options: AgentRunOptions = {}): Promise<AgentResult> {
+    return drainStream(this.stream(input, context, { ...options, tokens: false }));
+  }
+
+  /**
+   * Processa uma mensagem emitindo eventos (texto, raciocínio, tools)
+   * Com tokens = false o LLM é chamado sem streaming - só os eventos de tools saem
+   */
+  async *stream(
     input: string,
-    context: AgentContext
-  ): Promise<{
-    response: string;
-    toolCalls: ToolCall[];
-    toolResults: ToolResult[];
-    thinking: string;
-  }> {
-    // 1. Prepara mensagens para o LLM
-    const messages = this.buildMessages(input, context);
-    
-    // 2. Prepara definição de tools disponíveis
-    const toolDefinitions = this.buildToolDefinitions();
-    
-    // 3. Chama LLM (via AI Gateway em produção)
-    const llmResponse = await this.callLLM(messages, toolDefinitions);
+    context: AgentContext,
+    options: AgentRunOptions = {}
+  ): AsyncGenerator<PersonaStreamEvent, AgentResult> {
+    const history = context.messageHistory;
+    const maxIterations = this.config.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const model = options.model ?? this.config.model;
+    const tokens = options.tokens ?? true;
+    const { definitions, readOnly } = this.buildToolDefinitions();
     
-    // 4. Processa tool calls se houver
     const toolCalls: ToolCall[] = [];
     const toolResults: ToolResult[] = [];
+    const thinking: string[] = [];
+    const usage = emptyTokenUsage();
     
-    if (llmResponse.toolCalls) {
-      for (const call of llmResponse.toolCalls) {
-        toolCalls.push(call);
-        
-        // Executa tool
-        const result = await this.executeTool(call);
-        toolResults.push(result);
+    history.push({ role: 'user', content: input, timestamp: new Date() });
+    
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      // 1. Chama LLM (provedor escolhido por config.model) com a conversa inteira
+      const llmResponse = yield* this.callLLM(model, history, definitions, tokens);
+      addTokenUsage(usage, llmResponse.usage);
+      if (llmResponse.thinking) {
+        thinking.push(llmResponse.thinking);
       }
       
-      // Se teve tool calls, faz nova chamada ao LLM com resultados
-      if (toolResults.length > 0) {
-        const finalResponse = await this.callLLMWithToolResults(
-          messages,
-          toolCalls,
-          toolResults
-        );
-        
+      history.push({
+        role: 'assistant',
+        content: llmResponse.content,
+        timestamp: new Date(),
+        toolCalls: llmResponse.toolCalls.length > 0 ? llmResponse.toolCalls : undefined,
+      });
+      
+      // 2. Sem pedidos de tools: resposta final
+      if (llmResponse.toolCalls.length === 0) {
         return {
-          response: finalResponse.content,
+          response: llmResponse.content,
           toolCalls,
           toolResults,
-          thinking: llmResponse.thinking || '',
+          thinking: thinking.join('\n'),
+          iterations: iteration,
+          iterationLimitReached: false,
+          usage,
+          model,
         };
       }
+      
+      // 3. Executa os tools e devolve os resultados na próxima chamada
+      const results: ToolResult[] = [];
+      for (const batch of this.planToolBatches(llmResponse.toolCalls, readOnly)) {
+        for (const call of batch) {
+          yield {
+            type: 'tool_call_started',
+            callId: call.id,
+            toolId: call.toolId,
+            method: call.method,
+            params: call.params,
+          };
+        }
+        const batchResults = await Promise.all(batch.map(call => this.executeTool(call)));
+        for (const [index, result] of batchResults.entries()) {
+          const call = batch[index];
+          yield {
+            type: 'tool_call_finished',
+            callId: call.id,
+            toolId: call.toolId,
+            method: call.method,
+            success: result.success,
+            result: result.result,
+            error: result.error,
+          };
+        }
+        results.push(...batchResults);
+      }
+      toolCalls.push(...llmResponse.toolCalls);
+      toolResults.push(...results);
+      
+      history.push({
+        role: 'tool',
+        content: results.map(toolResultContent).join('\n'),
+        timestamp: new Date(),
+        toolResults: results,
+      });
     }
     
+    // Limite atingido: a última resposta ainda pedia tools
+    const lastAssistant = [...history].reverse().find(m => m.role === 'assistant');
     return {
-      response: llmResponse.content,
+      response: lastAssistant?.content ?? '',
       toolCalls,
       toolResults,
-      thinking: llmResponse.thinking || '',
+      thinking: thinking.join('\n'),
+      iterations: maxIterations,
+      iterationLimitReached: true,
+      usage,
+      model,
     };
   }
 
   /**
-   * Constrói mensagens para o LLM
+   * Histórico -> mensagens do LLM
+   * 
+   * - system fica de fora (vai como system prompt)
+   * - assistant com toolCalls vira blocos text + tool_use
+   * - tool vira mensagem do usuário com um bloco tool_result por chamada
+   * - mensagens seguidas do mesmo papel são unidas (ex.: tool_result + novo input
+   *   depois de um loop interrompido no limite)
    */
-  private buildMessages(input: string, context: AgentContext): AgentMessage[] {
-    const messages: AgentMessage[] = [];
+  private buildMessages(history: AgentMessage[]): LLMMessage[] {
+    const messages: LLMMessage[] = [];
     
-    // System prompt
-    messages.push({
-      role: 'system',
-      content: this.config.systemPrompt,
-      timestamp: new Date(),
-    });
-    
-    // Histórico
-    messages.push(...context.messageHistory);
-    
-    // Input atual
-    messages.push({
-      role: 'user',
-      content: input,
-      timestamp: new Date(),
-    });
+    for (const message of history) {
+      if (message.role === 'system') continue;
+      
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        const blocks: LLMContentBlock[] = message.content ? [{ type: 'text', text: message.content }] : [];
+        for (const call of message.toolCalls) {
+          blocks.push({
+            type: 'tool_use',
+            id: call.id,
+            name: `${call.toolId}__${call.method}`,
+            input: call.params,
+          });
+        }
+        appendMessage(messages, { role: 'assistant', content: blocks });
+      } else if (message.role === 'tool') {
+        appendMessage(messages, {
+          role: 'user',
+          content: (message.toolResults ?? []).map(result => ({
+            type: 'tool_result' as const,
+            toolUseId: result.callId,
+            content: toolResultContent(result),
+            isError: !result.success || undefined,
+          })),
+        });
+      } else {
+        appendMessage(messages, { role: message.role, content: message.content });
+      }
+    }
     
     return messages;
   }
 
   /**
    * Constrói definições de tools para o LLM
+   * Também devolve os nomes dos métodos sem efeitos colaterais (readOnly)
    */
-  private buildToolDefinitions(): Array<{
-    name: string;
-    description: string;
-    inputSchema: unknown;
-  }> {
-    const definitions: Array<{
-      name: string;
-      description: string;
-      inputSchema: unknown;
-    }> = [];
+  private buildToolDefinitions(): { definitions: LLMToolDefinition[]; readOnly: Set<string> } {
+    const definitions: LLMToolDefinition[] = [];
+    const readOnly = new Set<string>();
     
     for (const [toolId, tool] of this.tools) {
       const toolDefs = tool.getToolDefinitions();
       for (const def of toolDefs) {
+        const name = `${toolId}__${def.name}`;
         definitions.push({
-          name: `${toolId}__${def.name}`,
+          name,
           description: def.description,
           inputSchema: def.inputSchema,
         });
+        if (def.readOnly) {
+          readOnly.add(name);
+        }
       }
     }
     
-    return definitions;
+    return { definitions, readOnly };
   }
 
   /**
-   * Chama o LLM
+   * Chama o LLM (com tokens, repassa os deltas do provedor)
    */
-  private async callLLM(
-    messages: AgentMessage[],
-    tools: Array<{ name: string; description: string; inputSchema: unknown }>
-  ): Promise<{
+  private async *callLLM(
+    model: LLMModel,
+    history: AgentMessage[],
+    tools: LLMToolDefinition[],
+    tokens: boolean
+  ): AsyncGenerator<PersonaStreamEvent, {
     content: string;
-    toolCalls?: ToolCall[];
+    toolCalls: ToolCall[];
     thinking?: string;
+    usage: TokenUsage;
   }> {
-    // Em produção, chamaria AI Gateway → Claude/GPT
-    // Placeholder para estrutura
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': process.env.ANTHROPIC_API_KEY || '',
-        'anthropic-version': '2024-01-01',
-      },
-      body: JSON.stringify({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens || 4096,
-        temperature: this.config.temperature,
-        system: this.config.systemPrompt,
-        messages: messages.map(m => ({
-          role: m.role === 'system' ? 'user' : m.role,
-          content: m.content,
-        })),
-        tools: tools.map(t => ({
-          name: t.name,
-          description: t.description,
-          input_schema: t.inputSchema,
-        })),
-      }),
-    });
+    const request = {
+      system: this.config.systemPrompt,
+      maxTokens: this.config.maxTokens || 4096,
+      temperature: this.config.temperature,
+      messages: this.buildMessages(history),
+      tools,
+    };
     
-    const data = await response.json() as any;
+    let response: LLMResponse | undefined;
+    if (tokens) {
+      for await (const event of this.providers.stream(model, request)) {
+        if (event.type === 'text_delta' || event.type === 'thinking_delta') {
+          yield event;
+        } else if (event.type === 'done') {
+          response = event.response;
+        }
+      }
+      if (!response) {
+        throw new Error('LLM stream ended without a response');
+      }
+    } else {
+      response = await this.providers.complete(model, request);
+    }
     
-    // Processa resposta
-    const content = data.content?.[0]?.text || '';
-    const toolCalls = data.content
-      ?.filter((c: any) => c.type === 'tool_use')
-      ?.map((c: any) => {
-        const [toolId, method] = c.name.split('__');
-        return {
-          id: c.id,
-          toolId: toolId as ToolId,
-          method,
-          params: c.input,
-        };
-      });
+    // Nome do tool no LLM: <toolId>__<método>
+    const toolCalls = response.toolCalls.map(c => {
+      const [toolId, method] = c.name.split('__');
+      return {
+        id: c.id,
+        toolId: toolId as ToolId,
+        method,
+        params: c.input,
+      };
+    });
     
     return {
-      content,
+      content: response.content,
       toolCalls,
-      thinking: data.thinking,
+      thinking: response.thinking,
+      usage: this.providers.tokenUsage(model, response.usage),
     };
   }
 
+  /**
+   * Agrupa os tool calls de uma resposta em lotes executados um após o outro
+   * 
+   * Chamadas readOnly seguidas formam um lote (rodam em paralelo); as demais
+   * ficam sozinhas, na ordem pedida pelo LLM.
+   */
+  private planToolBatches(calls: ToolCall[], readOnly: Set<string>): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let parallel: ToolCall[] = [];
+    
+    for (const call of calls) {
+      if (readOnly.has(`${call.toolId}__${call.method}`)) {
+        parallel.push(call);
+        continue;
+      }
+      if (parallel.length > 0) {
+        batches.push(parallel);
+        parallel = [];
+      }
+      batches.push([call]);
+    }
+    if (parallel.length > 0) {
+      batches.push(parallel);
+    }
+    
+    return batches;
+  }
+
   /**
    * Executa um tool call
    */
@@ -295,20 +442,21 @@ export class Agent {
       };
     }
     
+    const known = tool.getToolDefinitions().some(def => def.name === call.method);
+    if (!known) {
+      return {
+        callId: call.id,
+        success: false,
+        error: `Method not found: ${call.method}`,
+      };
+    }
+    
     try {
-      // Chama o método do tool
-      const methodName = `tool_${call.method}`;
-      const method = (tool as any)[methodName];
-      
-      if (typeof method !== 'function') {
-        return {
-          callId: call.id,
-          success: false,
-          error: `Method not found: ${call.method}`,
-        };
-      }
-      
-      const result = await method.call(tool, call.params);
+      // Props (tool_<método>) ou Tools de Stage (call)
+      const method: unknown = Reflect.get(tool, `tool_${call.method}`);
+      const result = isToolMethod(method)
+        ? await method.call(tool, call.params)
+        : await tool.call(call.method, call.params);
       
       return {
         callId: call.id,
@@ -323,31 +471,39 @@ export class Agent {
       };
     }
   }
+}
 
-  /**
-   * Chama LLM novamente com resultados dos tools
-   */
-  private async callLLMWithToolResults(
-    messages: AgentMessage[],
-    toolCalls: ToolCall[],
-    toolResults: ToolResult[]
-  ): Promise<{ content: string }> {
-    // Adiciona tool results às mensagens
-    const updatedMessages = [...messages];
-    
-    for (const result of toolResults) {
-      updatedMessages.push({
-        role: 'tool',
-        content: JSON.stringify(result.result || result.error),
-        timestamp: new Date(),
-      });
-    }
-    
-    // Chama LLM sem tools (para resposta final)
-    const response = await this.callLLM(updatedMessages, []);
-    
-    return { content: response.content };
+/**
+ * Método tool_<nome> de um Prop (recebe os params da chamada)
+ */
+function isToolMethod(value: unknown): value is (params: unknown) => Promise<unknown> {
+  return typeof value === 'function';
+}
+
+/**
+ * Acrescenta a mensagem, unindo com a anterior se o papel for o mesmo
+ */
+function appendMessage(messages: LLMMessage[], message: LLMMessage): void {
+  const previous = messages[messages.length - 1];
+  if (previous?.role !== message.role) {
+    messages.push(message);
+    return;
   }
+  previous.content = [...toBlocks(previous.content), ...toBlocks(message.content)];
+}
+
+function toBlocks(content: string | LLMContentBlock[]): LLMContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Conteúdo de um resultado como texto para o LLM
+ */
+function toolResultContent(result: ToolResult): string {
+  if (!result.success) {
+    return `Error: ${result.error ?? 'Unknown error'}`;
+  }
+  return typeof result.result === 'string' ? result.result : JSON.stringify(result.result ?? null);
 }
 
 // =============================================================================
@@ -464,6 +620,21 @@ export class TimeoutGuardrail implements Guardrail {
   }
 }
 
+function guardrailEvent(
+  phase: 'input' | 'output',
+  guardrail: Guardrail,
+  result: GuardrailResult
+): PersonaStreamEvent {
+  return {
+    type: 'guardrail',
+    phase,
+    guardrailId: guardrail.id,
+    allowed: result.allowed,
+    reason: result.reason,
+    suggestion: result.suggestion,
+  };
+}
+
 // =============================================================================
 // PERSONA
 // =============================================================================
@@ -482,15 +653,33 @@ export class Persona {
   private agent: Agent;
   private guardrails: Guardrail[];
   private context: Record<string, unknown>;
+  private triggerCondition?: Expression;
   
-  constructor(manifest: PersonaManifest, tools: Map<ToolId, BasePropActor>) {
+  constructor(
+    manifest: PersonaManifest,
+    tools: Map<ToolId, BasePropActor>,
+    providers: LLMProviderRegistry
+  ) {
     this.id = manifest.id;
     this.name = manifest.name;
     this.description = manifest.description;
     this.trigger = manifest.trigger;
     
+    // Trigger por condição: compila agora - expressão inválida falha o registro do Stage
+    if (manifest.trigger.type === 'condition') {
+      if (!manifest.trigger.condition) {
+        throw new Error(`Persona ${manifest.id} has a condition trigger without condition`);
+      }
+      try {
+        this.triggerCondition = compileExpression(manifest.trigger.condition);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid trigger condition in persona ${manifest.id}: ${reason}`);
+      }
+    }
+    
     // Cria Agent com config do manifest
-    this.agent = new Agent(manifest.agent);
+    this.agent = new Agent(manifest.agent, providers);
     
     // Registra tools no Agent
     for (const toolId of manifest.tools) {
@@ -512,13 +701,27 @@ export class Persona {
    */
   async process(
     input: string,
-    agentContext: AgentContext
+    agentContext: AgentContext,
+    options: AgentRunOptions = {}
   ): Promise<PersonaResponse> {
+    return drainStream(this.stream(input, agentContext, { ...options, tokens: false }));
+  }
+
+  /**
+   * Processa input emitindo eventos: veredito de cada guardrail, deltas do
+   * Agent e início/fim de cada tool. A resposta completa é o retorno do stream.
+   */
+  async *stream(
+    input: string,
+    agentContext: AgentContext,
+    options: AgentRunOptions = {}
+  ): AsyncGenerator<PersonaStreamEvent, PersonaResponse> {
     const startTime = Date.now();
     
     // 1. Verifica guardrails antes de processar
     for (const guardrail of this.guardrails) {
       const result = await guardrail.check(input, agentContext);
+      yield guardrailEvent('input', guardrail, result);
       if (!result.allowed) {
         return {
           personaId: this.id,
@@ -537,6 +740,7 @@ export class Persona {
             suggestion: result.suggestion,
           },
           tokensUsed: 0,
+          usage: emptyTokenUsage(),
           durationMs: Date.now() - startTime,
         };
       }
@@ -548,7 +752,7 @@ export class Persona {
     }
     
     // 2. Processa com Agent
-    const agentResponse = await this.agent.process(input, agentContext);
+    const agentResponse = yield* this.agent.stream(input, agentContext, options);
     
     // 3. Converte tool results em actions
     const actions: ActionResult[] = agentResponse.toolResults.map(result => ({
@@ -559,9 +763,19 @@ export class Persona {
       requiresValidation: this.requiresValidation(result),
     }));
     
+    if (agentResponse.iterationLimitReached) {
+      actions.push({
+        success: false,
+        action: 'iteration_limit_reached',
+        error: `Tool loop stopped after ${agentResponse.iterations} LLM calls`,
+        requiresValidation: false,
+      });
+    }
+    
     // 4. Verifica guardrails pós-processamento
     for (const guardrail of this.guardrails) {
       const result = await guardrail.check(agentResponse.response, agentContext);
+      yield guardrailEvent('output', guardrail, result);
       if (!result.allowed) {
         actions.push({
           success: false,
@@ -579,7 +793,9 @@ export class Persona {
       thinking: agentResponse.thinking,
       actions,
       output: agentResponse.response,
-      tokensUsed: 0, // Calculado pelo AI Gateway em produção
+      tokensUsed: totalTokens(agentResponse.usage),
+      usage: agentResponse.usage,
+      model: agentResponse.model,
       durationMs: Date.now() - startTime,
     };
   }
@@ -596,7 +812,7 @@ export class Persona {
       case 'event':
         return this.trigger.event === event;
       case 'condition':
-        return this.evaluateCondition(this.trigger.condition || '', context);
+        return this.evaluateCondition(context);
       default:
         return false;
     }
@@ -643,29 +859,9 @@ export class Persona {
 
   /**
    * Avalia condição para trigger
+   * Os campos do contexto ficam no escopo direto e também em `context.<campo>`
    */
-  private evaluateCondition(condition: string, context: Record<string, unknown>): boolean {
-    // Implementação simplificada - em produção usaria um parser
-    try {
-      const fn = new Function('context', `return ${condition}`);
-      return fn(context);
-    } catch {
-      return false;
-    }
+  private evaluateCondition(context: Record<string, unknown>): boolean {
+    return this.triggerCondition?.test({ ...context, context }) ?? false;
   }
 }
-
-// =============================================================================
-// EXPORTS
-// =============================================================================
-
-export {
-  Agent,
-  AgentContext,
-  AgentMessage,
-  Guardrail,
-  GuardrailResult,
-  NeverPrescribeGuardrail,
-  RequireValidationGuardrail,
-  TimeoutGuardrail,
-};
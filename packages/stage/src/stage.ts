@@ -31,12 +31,37 @@ import type {
   AccessGrant,
   AutomationRule,
   PersonaResponse,
+  PersonaStreamEvent,
+  TokenUsage,
+  TokenUsageBreakdown,
   ToolManifest,
   PersonaManifest,
   ScriptManifest,
+  JsonSchema,
+  LLMEnv,
+  ScriptExecutionFilter,
+  ScriptExecutionHeader,
+  PendingAction,
+  PendingActionDecision,
+  PendingActionStatus,
 } from '@healthos/shared';
-import { Persona, AgentContext } from './persona/persona';
-import { Script, ScriptResult } from './act/script';
+import {
+  addTokenUsage,
+  approvedVersion,
+  checkPendingActionDecision,
+  createLLMProviders,
+  drainStream,
+  emptyTokenUsage,
+  emptyTokenUsageBreakdown,
+  recordTokenUsage,
+} from '@healthos/shared';
+import type { LLMProviderRegistry } from '@healthos/shared';
+import { Persona, AgentContext, AgentRunOptions } from './persona/persona';
+import { Script, ScriptContext, ScriptResult, ScriptRuntime, StepResult } from './act/script';
+import { InMemoryScriptExecutionStore } from './act/execution';
+import type { ScriptExecutionRecord, ScriptExecutionStore } from './act/execution';
+import { InMemoryValidationInbox } from './validation/inbox';
+import type { ValidationInbox } from './validation/inbox';
 
 // =============================================================================
 // TYPES
@@ -56,6 +81,8 @@ export interface ToolDefinition {
   description: string;
   inputSchema: unknown;
   outputSchema?: unknown;
+  /** Pode rodar em paralelo com outras chamadas (sem efeitos colaterais) */
+  readOnly?: boolean;
 }
 
 /** Factory para criar Tools */
@@ -64,11 +91,13 @@ export interface ToolFactory {
 }
 
 /** Env do Cloudflare Worker */
-export interface Env {
-  ANTHROPIC_API_KEY?: string;
-  AI_GATEWAY?: any;
+export interface Env extends LLMEnv {
   DOCUMENTS?: R2Bucket;
   AUDIO_FILES?: R2Bucket;
+  /** Acao 'queue' dos Scripts */
+  EVENTS_QUEUE?: Queue;
+  /** Acao 'notify' dos Scripts */
+  NOTIFICATIONS_QUEUE?: Queue;
   [key: string]: unknown;
 }
 
@@ -122,6 +151,10 @@ export interface StageSession {
   context: AgentContext;
   eventHistory: string[];
   metadata: Record<string, unknown>;
+  /** Tokens e custo das Personas nesta sessao */
+  usage: TokenUsage;
+  /** Ultimo resultado de cada step, por Script (steps.<id> nos eventos seguintes) */
+  scriptResults: Map<ScriptId, Map<string, StepResult>>;
 }
 
 export interface StageMetrics {
@@ -131,6 +164,7 @@ export interface StageMetrics {
   averageSessionDurationMs: number;
   personaUsage: Map<PersonaId, number>;
   toolUsage: Map<ToolId, number>;
+  tokenUsage: TokenUsageBreakdown;
 }
 
 // =============================================================================
@@ -151,6 +185,10 @@ export class Stage {
   private state: StageState;
   private env: Env;
   private toolFactory?: ToolFactory;
+  private llmProviders?: LLMProviderRegistry;
+  private scriptRuntime: Partial<ScriptRuntime> = {};
+  private executionStore: ScriptExecutionStore = new InMemoryScriptExecutionStore();
+  private validationInbox: ValidationInbox = new InMemoryValidationInbox();
   private eventListeners: Map<string, Array<(event: StageEvent) => Promise<void>>>;
 
   constructor(manifest: StageManifest, env: Env) {
@@ -176,6 +214,7 @@ export class Stage {
         averageSessionDurationMs: 0,
         personaUsage: new Map(),
         toolUsage: new Map(),
+        tokenUsage: emptyTokenUsageBreakdown(),
       },
     };
   }
@@ -191,6 +230,38 @@ export class Stage {
     this.toolFactory = factory;
   }
 
+  /**
+   * Define os provedores de LLM das Personas (padrao: os configurados no Env)
+   */
+  setLLMProviders(providers: LLMProviderRegistry): void {
+    this.llmProviders = providers;
+  }
+
+  /**
+   * Substitui efeitos das acoes de Script (somados aos ja injetados)
+   * O padrao chama os Tools do Stage e as filas do Env; save_to fora da
+   * sessao so funciona se alguem (o Cast) injetar
+   */
+  setScriptRuntime(runtime: Partial<ScriptRuntime>): void {
+    this.scriptRuntime = { ...this.scriptRuntime, ...runtime };
+  }
+
+  /**
+   * Onde as execucoes de Script sao gravadas (padrao: memoria do processo)
+   * Com um store duravel, execucoes interrompidas ou aguardando retry sao
+   * retomadas por resumeExecution
+   */
+  setExecutionStore(store: ScriptExecutionStore): void {
+    this.executionStore = store;
+  }
+
+  /**
+   * Onde ficam as acoes aguardando validacao humana (padrao: memoria do processo)
+   */
+  setValidationInbox(inbox: ValidationInbox): void {
+    this.validationInbox = inbox;
+  }
+
   /**
    * Inicializa o Stage com Tools, Personas e Scripts
    */
@@ -203,8 +274,9 @@ export class Stage {
     }
 
     // 2. Cria Personas (com referencia aos Tools)
+    const llmProviders = this.llmProviders ?? createLLMProviders(this.env);
     for (const personaManifest of manifest.personas) {
-      const persona = new Persona(personaManifest, this.state.tools, this.env);
+      const persona = new Persona(personaManifest, this.state.tools, llmProviders);
       this.state.personas.set(personaManifest.id, persona);
       this.state.metrics.personaUsage.set(personaManifest.id, 0);
     }
@@ -266,6 +338,8 @@ export class Stage {
       },
       eventHistory: [],
       metadata: {},
+      usage: emptyTokenUsage(),
+      scriptResults: new Map(),
     };
 
     this.state.activeSessions.set(session.id, session);
@@ -474,6 +548,20 @@ export class Stage {
    * Processa input atraves da persona ativa
    */
   async processWithPersona(sessionId: SessionId, input: string): Promise<PersonaResponse> {
+    return drainStream(this.streamWithPersona(sessionId, input, { tokens: false }));
+  }
+
+  /**
+   * Processa input atraves da persona ativa, emitindo tokens, tool calls e
+   * vereditos de guardrail conforme acontecem
+   * Com tokens = false, o LLM e chamado sem stream (so eventos de tool e guardrail);
+   * options.model troca o modelo da Persona (orcamento do Service)
+   */
+  async *streamWithPersona(
+    sessionId: SessionId,
+    input: string,
+    options: AgentRunOptions = {}
+  ): AsyncGenerator<PersonaStreamEvent, PersonaResponse> {
     const session = this.state.activeSessions.get(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -484,25 +572,28 @@ export class Stage {
       throw new Error(`Active persona not found: ${session.activePersonaId}`);
     }
 
-    // Atualiza historico
-    session.context.messageHistory.push({
-      role: 'user',
-      content: input,
-      timestamp: new Date(),
-    });
-
-    // Processa com a persona
-    const response = await persona.process(input, session.context);
-
-    // Atualiza historico com resposta
-    session.context.messageHistory.push({
-      role: 'assistant',
-      content: typeof response.output === 'string' ? response.output : JSON.stringify(response.output),
-      timestamp: new Date(),
-    });
+    // Processa com a persona (o Agent grava a troca no historico da sessao)
+    const response = yield* persona.stream(input, session.context, options);
+
+    // Tools cujo resultado pede validacao vao para a inbox do profissional
+    for (const action of response.actions) {
+      if (action.success && action.requiresValidation) {
+        await this.submitPendingAction(session.id, session, {
+          action: action.action,
+          source: 'persona',
+          draft: action.output,
+        });
+      }
+    }
 
     session.lastActivityAt = new Date();
     this.state.metrics.totalProcessedRequests++;
+    addTokenUsage(session.usage, response.usage);
+    recordTokenUsage(this.state.metrics.tokenUsage, response.usage, {
+      personaId: session.activePersonaId,
+      entityActorId: session.entityActorId,
+      serviceActorId: session.serviceActorId,
+    });
 
     // Emite evento de processamento
     await this.emit({
@@ -517,6 +608,8 @@ export class Stage {
         inputLength: input.length,
         actionsCount: response.actions.length,
         tokensUsed: response.tokensUsed,
+        costUsd: response.usage.costUsd,
+        model: response.model,
         durationMs: response.durationMs,
       },
       context: {
@@ -607,11 +700,19 @@ export class Stage {
     }
 
     // Encontra scripts que respondem a este evento
-    for (const [, script] of this.state.scripts) {
+    const outputSchemas = this.toolOutputSchemas();
+    const runtime = this.createScriptRuntime();
+    for (const [scriptId, script] of this.state.scripts) {
       if (!session) continue;
 
       try {
-        const result = await script.execute(event, this.state.personas, session.context);
+        const result = await script.execute(event, this.state.personas, session.context, {
+          previousResults: session.scriptResults.get(scriptId),
+          outputSchemas,
+          runtime,
+          store: this.executionStore,
+        });
+        this.mergeScriptResults(session, scriptId, result);
         results.push(result);
       } catch (error) {
         console.error(`Script execution error:`, error);
@@ -662,6 +763,206 @@ export class Stage {
     });
   }
 
+  /**
+   * Guarda o ultimo resultado de cada step na sessao (steps.<id> nos eventos seguintes)
+   */
+  private mergeScriptResults(session: StageSession, scriptId: ScriptId, result: ScriptResult): void {
+    const previousResults = session.scriptResults.get(scriptId) ?? new Map<string, StepResult>();
+    for (const stepResult of result.stepResults) {
+      previousResults.set(stepResult.stepId, stepResult);
+    }
+    session.scriptResults.set(scriptId, previousResults);
+  }
+
+  /**
+   * outputSchema dos metodos MCP dos Tools, pelo nome do metodo
+   * (saidas dos Scripts com esse nome sao validadas contra ele)
+   */
+  private toolOutputSchemas(): Map<string, JsonSchema> {
+    const schemas = new Map<string, JsonSchema>();
+    for (const [, tool] of this.state.tools) {
+      for (const definition of tool.getToolDefinitions()) {
+        if (definition.outputSchema) {
+          schemas.set(definition.name, definition.outputSchema as JsonSchema);
+        }
+      }
+    }
+    return schemas;
+  }
+
+  /**
+   * Runtime das acoes de Script: padrao do Stage + o que foi injetado
+   */
+  private createScriptRuntime(): ScriptRuntime {
+    return {
+      callTool: async (method, params) => {
+        const toolId = this.findToolByMethod(method);
+        if (!toolId) {
+          throw new Error(`No tool exposes method: ${method}`);
+        }
+        return this.callTool(toolId, method, params);
+      },
+      saveTo: async (target) => {
+        throw new Error(`No save_to handler for target: ${target}`);
+      },
+      notify: (target, params, context) => this.sendScriptNotification(target, params, context),
+      queue: (target, payload, context) => this.enqueueScriptMessage(target, payload, context),
+      requestValidation: async (validation, context) => {
+        await this.submitPendingAction(context.sessionId, context.event.context, {
+          id: validation.id,
+          action: validation.action,
+          source: 'script',
+          draft: validation.output,
+          executionId: context.executionId,
+          stepId: validation.stepId,
+        });
+      },
+      ...this.scriptRuntime,
+    };
+  }
+
+  /**
+   * notify dos Scripts via NOTIFICATIONS_QUEUE
+   * entity_actor, service_actor e patient_actor viram os Actors da sessao
+   */
+  private async sendScriptNotification(
+    target: string,
+    params: Record<string, unknown>,
+    context: ScriptContext
+  ): Promise<unknown> {
+    const queue = this.env.NOTIFICATIONS_QUEUE;
+    if (!queue) {
+      throw new Error('NOTIFICATIONS_QUEUE binding not configured');
+    }
+
+    const sessionActors: Record<string, ActorId | undefined> = {
+      entity_actor: context.event.context.entityActorId,
+      service_actor: context.event.context.serviceActorId,
+      patient_actor: context.event.context.patientActorId,
+    };
+    if (target in sessionActors && !sessionActors[target]) {
+      throw new Error(`Session has no ${target} to notify`);
+    }
+
+    await queue.send({
+      type: 'script_notification',
+      recipients: [{ kind: target, actorId: sessionActors[target] }],
+      payload: {
+        stageId: this.state.id,
+        sessionId: context.sessionId,
+        eventId: context.event.id,
+        idempotencyKey: context.idempotencyKey,
+        ...params,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return { notified: true, target };
+  }
+
+  /**
+   * queue dos Scripts via EVENTS_QUEUE (o consumidor roteia por payload.queue)
+   */
+  private async enqueueScriptMessage(
+    target: string,
+    payload: Record<string, unknown>,
+    context: ScriptContext
+  ): Promise<unknown> {
+    const queue = this.env.EVENTS_QUEUE;
+    if (!queue) {
+      throw new Error('EVENTS_QUEUE binding not configured');
+    }
+
+    await queue.send({
+      type: 'script_queued',
+      payload: {
+        queue: target,
+        stageId: this.state.id,
+        sessionId: context.sessionId,
+        eventId: context.event.id,
+        idempotencyKey: context.idempotencyKey,
+        data: payload,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return { queued: true, queue: target };
+  }
+
+  // ---------------------------------------------------------------------------
+  // EXECUCOES DE SCRIPT
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Execucoes gravadas, mais recentes primeiro
+   */
+  async listExecutions(filter?: ScriptExecutionFilter): Promise<ScriptExecutionHeader[]> {
+    return this.executionStore.list(filter);
+  }
+
+  async getExecution(executionId: string): Promise<ScriptExecutionRecord | undefined> {
+    return this.executionStore.get(executionId);
+  }
+
+  /**
+   * Cancela uma execucao em andamento, aguardando retry ou que falhou
+   * Se estiver rodando agora, para ao concluir a unidade atual
+   */
+  async cancelExecution(executionId: string): Promise<ScriptExecutionRecord> {
+    return this.executionStore.cancel(executionId);
+  }
+
+  /**
+   * Retoma uma execucao gravada do ponto onde parou
+   * Sem a sessao viva (outro Worker), o contexto vem do registro - Personas
+   * retomam sem o historico de mensagens e sem o grant da sessao
+   */
+  async resumeExecution(executionId: string): Promise<ScriptResult> {
+    const record = await this.executionStore.get(executionId);
+    if (!record) {
+      throw new Error('Execution not found');
+    }
+    const script = this.state.scripts.get(record.scriptId);
+    if (!script) {
+      throw new Error(`Script not found: ${record.scriptId}`);
+    }
+
+    const session = this.state.activeSessions.get(record.sessionId);
+    const agentContext: AgentContext = session?.context ?? {
+      sessionId: record.sessionId,
+      stageId: record.stageId,
+      actorId: record.event.actorId,
+      patientActorId: record.event.context.patientActorId,
+      messageHistory: [],
+      data: record.sessionData,
+    };
+
+    const result = await script.resume(record, this.state.personas, agentContext, {
+      outputSchemas: this.toolOutputSchemas(),
+      runtime: this.createScriptRuntime(),
+      store: this.executionStore,
+    });
+    if (session) {
+      this.mergeScriptResults(session, record.scriptId, result);
+    }
+    return result;
+  }
+
+  /**
+   * Retoma as execucoes com retry vencido
+   * (com o store em memoria, quem hospeda o Stage chama periodicamente)
+   */
+  async resumeDueExecutions(now: Date = new Date()): Promise<ScriptResult[]> {
+    const results: ScriptResult[] = [];
+    for (const record of await this.executionStore.list({ status: ['retrying'] })) {
+      if (record.nextAttemptAt && record.nextAttemptAt > now) continue;
+      try {
+        results.push(await this.resumeExecution(record.id));
+      } catch (error) {
+        console.error(`Script execution resume error (${record.id}):`, error);
+      }
+    }
+    return results;
+  }
+
   // ---------------------------------------------------------------------------
   // AUTOMACAO
   // ---------------------------------------------------------------------------
@@ -683,7 +984,7 @@ export class Stage {
     sessionId: SessionId,
     action: string,
     params: Record<string, unknown>
-  ): Promise<{ executed: boolean; result?: unknown; reason?: string }> {
+  ): Promise<{ executed: boolean; result?: unknown; reason?: string; pendingActionId?: string }> {
     const session = this.state.activeSessions.get(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -706,72 +1007,54 @@ export class Stage {
       }
 
       case 'require_validation':
-        return { executed: false, reason: 'Requer validacao humana' };
-
-      case 'require_signature':
-        return { executed: false, reason: 'Requer assinatura digital' };
-    }
-  }
-
-  /**
-   * Valida uma acao pendente
-   */
-  async validateAction(
-    sessionId: SessionId,
-    actionId: string,
-    validatedBy: ActorId
-  ): Promise<{ success: boolean; result?: unknown }> {
-    const session = this.state.activeSessions.get(sessionId);
-    if (!session) {
-      throw new Error('Session not found');
+      case 'require_signature': {
+        // Fica na inbox do profissional com os params como rascunho
+        const pending = await this.submitPendingAction(sessionId, session, {
+          action,
+          source: 'automation',
+          draft: params,
+        });
+        const reason = level === 'require_signature' ? 'Requer assinatura digital' : 'Requer validacao humana';
+        return { executed: false, reason, pendingActionId: pending.id };
+      }
     }
-
-    // Em producao, recuperaria a acao pendente do storage
-    // e executaria apos validacao
-
-    await this.emit({
-      id: crypto.randomUUID(),
-      type: 'action_validated',
-      timestamp: new Date(),
-      stageId: this.state.id,
-      actorId: validatedBy,
-      sessionId,
-      payload: { actionId, validatedBy },
-      context: {
-        entityActorId: session.entityActorId,
-        serviceActorId: session.serviceActorId,
-        patientActorId: session.patientActorId,
-        accessGrant: session.accessGrant,
-        previousEvents: session.eventHistory,
-        metadata: session.metadata,
-      },
-    });
-
-    return { success: true };
   }
 
   private async executeAction(
     action: string,
     params: Record<string, unknown>,
-    session: StageSession
+    session?: StageSession
   ): Promise<unknown> {
     // Encontra o tool apropriado para a acao
-    for (const [toolId, tool] of this.state.tools) {
-      const definitions = tool.getToolDefinitions();
-      const matchingDef = definitions.find((d) => d.name === action);
-      if (matchingDef) {
-        // Atualiza metricas
-        const usage = this.state.metrics.toolUsage.get(toolId) || 0;
-        this.state.metrics.toolUsage.set(toolId, usage + 1);
-
-        return tool.call(action, params);
-      }
+    const toolId = this.findToolByMethod(action);
+    if (toolId) {
+      return this.callTool(toolId, action, params);
     }
 
     // Acao generica
     return { action, params, executed: true, timestamp: new Date() };
   }
 
+  /**
+   * Tool que expoe o metodo MCP
+   */
+  private findToolByMethod(method: string): ToolId | undefined {
+    for (const [toolId, tool] of this.state.tools) {
+      if (tool.getToolDefinitions().some((d) => d.name === method)) {
+        return toolId;
+      }
+    }
+    return undefined;
+  }
+
+  private async callTool(toolId: ToolId, method: string, params: unknown): Promise<unknown> {
+    // Atualiza metricas
+    const usage = this.state.metrics.toolUsage.get(toolId) || 0;
+    this.state.metrics.toolUsage.set(toolId, usage + 1);
+
+    return this.state.tools.get(toolId)!.call(method, params);
+  }
+
   private async notifyAction(
     session: StageSession,
     action: string,
@@ -796,6 +1079,144 @@ export class Stage {
     });
   }
 
+  // ---------------------------------------------------------------------------
+  // VALIDACAO HUMANA
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Inbox de validacao do profissional, mais antigas primeiro
+   * (a do EntityActor, injetada pelo Cast, traz as de todos os Stages)
+   */
+  async listPendingActions(entityActorId: ActorId, status?: PendingActionStatus): Promise<PendingAction[]> {
+    return this.validationInbox.list(entityActorId, status);
+  }
+
+  async getPendingAction(entityActorId: ActorId, actionId: string): Promise<PendingAction | undefined> {
+    return this.validationInbox.get(entityActorId, actionId);
+  }
+
+  /**
+   * Aprova (com ou sem edicao) ou rejeita uma acao pendente
+   * A versao aprovada e executada antes de a decisao ser gravada - se falhar,
+   * a acao continua pendente
+   */
+  async decidePendingAction(
+    entityActorId: ActorId,
+    actionId: string,
+    decision: PendingActionDecision
+  ): Promise<PendingAction> {
+    const pending = await this.validationInbox.get(entityActorId, actionId);
+    if (!pending || pending.stageId !== this.state.id) {
+      throw new Error('Pending action not found');
+    }
+    checkPendingActionDecision(pending, decision);
+
+    let result: unknown;
+    if (decision.decision === 'approve') {
+      result = await this.executeApprovedAction(pending, approvedVersion(pending, decision), decision.decidedBy);
+    } else {
+      await this.emitActionDecision('action_rejected', pending, decision.decidedBy, {
+        reason: decision.reason,
+      });
+    }
+
+    return this.validationInbox.decide(entityActorId, actionId, decision, result);
+  }
+
+  /**
+   * Deposita na inbox do profissional da sessao uma acao aguardando validacao
+   * O nivel vem das regras de automacao da acao
+   */
+  private async submitPendingAction(
+    sessionId: SessionId,
+    actors: { entityActorId?: ActorId; serviceActorId?: ActorId; patientActorId?: ActorId },
+    pending: Pick<PendingAction, 'action' | 'source' | 'draft'> &
+      Partial<Pick<PendingAction, 'id' | 'executionId' | 'stepId'>>
+  ): Promise<PendingAction> {
+    if (!actors.entityActorId || !actors.serviceActorId) {
+      throw new Error('Pending action requires entity and service actors');
+    }
+
+    const level = this.getAutomationLevel(pending.action);
+    return this.validationInbox.submit({
+      id: crypto.randomUUID(),
+      ...pending,
+      stageId: this.state.id,
+      sessionId,
+      entityActorId: actors.entityActorId,
+      serviceActorId: actors.serviceActorId,
+      patientActorId: actors.patientActorId,
+      level: level === 'require_signature' ? 'require_signature' : 'require_validation',
+      status: 'pending',
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Executa a versao aprovada
+   * Automacao: a acao roda com a versao final como params
+   * Script/Persona: a saida ja foi gerada - o evento 'action_validated' leva a
+   * versao final para os Scripts (que so rodam com a sessao ativa)
+   */
+  private async executeApprovedAction(
+    pending: PendingAction,
+    final: unknown,
+    validatedBy: ActorId
+  ): Promise<unknown> {
+    if (pending.source === 'automation') {
+      const result = await this.executeAction(
+        pending.action,
+        final as Record<string, unknown>,
+        this.state.activeSessions.get(pending.sessionId)
+      );
+      await this.emitActionDecision('action_validated', pending, validatedBy, { output: final, result });
+      return result;
+    }
+
+    const results = await this.emitActionDecision('action_validated', pending, validatedBy, { output: final });
+    return {
+      executions: results.flatMap((r) => (r.executionId ? [{ executionId: r.executionId, status: r.status }] : [])),
+    };
+  }
+
+  /**
+   * Emite a decisao como evento da sessao da acao
+   * A id vem da acao - decidir de novo (apos falha ao gravar) nao repete Scripts
+   */
+  private async emitActionDecision(
+    type: 'action_validated' | 'action_rejected',
+    pending: PendingAction,
+    decidedBy: ActorId,
+    payload: Record<string, unknown>
+  ): Promise<ScriptResult[]> {
+    const session = this.state.activeSessions.get(pending.sessionId);
+    return this.emit({
+      id: `${pending.id}:${type}`,
+      type,
+      timestamp: new Date(),
+      stageId: this.state.id,
+      actorId: decidedBy,
+      sessionId: pending.sessionId,
+      payload: {
+        actionId: pending.id,
+        action: pending.action,
+        source: pending.source,
+        executionId: pending.executionId,
+        stepId: pending.stepId,
+        decidedBy,
+        ...payload,
+      },
+      context: {
+        entityActorId: pending.entityActorId,
+        serviceActorId: pending.serviceActorId,
+        patientActorId: pending.patientActorId,
+        accessGrant: session?.accessGrant,
+        previousEvents: session?.eventHistory ?? [],
+        metadata: session?.metadata ?? {},
+      },
+    });
+  }
+
   // ---------------------------------------------------------------------------
   // METRICAS
   // ---------------------------------------------------------------------------
@@ -815,6 +1236,7 @@ export class Stage {
       ...this.state.metrics,
       personaUsage: new Map(this.state.metrics.personaUsage),
       toolUsage: new Map(this.state.metrics.toolUsage),
+      tokenUsage: structuredClone(this.state.metrics.tokenUsage),
     };
   }
 
@@ -882,11 +1304,13 @@ class DefaultTool implements ITool {
   }
 
   getToolDefinitions(): ToolDefinition[] {
-    return this.manifest.mcpTools.map((t) => ({
+    // Referencias a tools compartilhados (mcp://cast/...) chegam sem mcpTools
+    return (this.manifest.mcpTools ?? []).map((t) => ({
       name: t.name,
       description: t.description,
       inputSchema: t.inputSchema,
       outputSchema: t.outputSchema,
+      readOnly: t.readOnly,
     }));
   }
 
@@ -913,6 +1337,8 @@ class DefaultTool implements ITool {
 export class StageFactory {
   private env: Env;
   private toolFactory?: ToolFactory;
+  private llmProviders?: LLMProviderRegistry;
+  private scriptRuntime?: Partial<ScriptRuntime>;
 
   constructor(env: Env) {
     this.env = env;
@@ -925,6 +1351,20 @@ export class StageFactory {
     this.toolFactory = factory;
   }
 
+  /**
+   * Define os provedores de LLM de todos os Stages criados
+   */
+  setLLMProviders(providers: LLMProviderRegistry): void {
+    this.llmProviders = providers;
+  }
+
+  /**
+   * Define efeitos das acoes de Script de todos os Stages criados
+   */
+  setScriptRuntime(runtime: Partial<ScriptRuntime>): void {
+    this.scriptRuntime = runtime;
+  }
+
   /**
    * Cria Stage a partir de manifest
    */
@@ -933,6 +1373,12 @@ export class StageFactory {
     if (this.toolFactory) {
       stage.setToolFactory(this.toolFactory);
     }
+    if (this.llmProviders) {
+      stage.setLLMProviders(this.llmProviders);
+    }
+    if (this.scriptRuntime) {
+      stage.setScriptRuntime(this.scriptRuntime);
+    }
     await stage.initialize(manifest);
     return stage;
   }
@@ -974,5 +1420,4 @@ export class StageFactory {
 // EXPORTS
 // =============================================================================
 
-export { Stage, StageFactory, DefaultTool };
-export type { ITool, ToolDefinition, ToolFactory };
+export { DefaultTool };
@@ -0,0 +1,84 @@
+/**
+ * Inbox de validacao
+ *
+ * Acoes que pedem decisao humana ficam aqui ate o profissional decidir:
+ *
+ * 1. Entram pela automacao (nivel require_validation/require_signature), por
+ *    acoes de Script e por tools da Persona com requiresValidation
+ * 2. Cada uma fica na inbox do EntityActor da sessao, com o rascunho
+ * 3. Aprovar (com ou sem edicao) executa a versao final; rejeitar so registra
+ *
+ * O Stage guarda em memoria por padrao; o Cast injeta a do EntityActor
+ * (setValidationInbox), que tambem audita a decisao no ServiceActor.
+ */
+
+import type {
+  ActorId,
+  PendingAction,
+  PendingActionDecision,
+  PendingActionStatus,
+} from '@healthos/shared';
+import { decidePendingAction } from '@healthos/shared';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ValidationInbox {
+  /** Deposita a acao; a mesma id de novo devolve a existente (sem duplicar) */
+  submit(action: PendingAction): Promise<PendingAction>;
+  /** Mais antigas primeiro */
+  list(entityActorId: ActorId, status?: PendingActionStatus): Promise<PendingAction[]>;
+  get(entityActorId: ActorId, actionId: string): Promise<PendingAction | undefined>;
+  /** Grava a decisao (e o resultado da execucao da versao aprovada) */
+  decide(
+    entityActorId: ActorId,
+    actionId: string,
+    decision: PendingActionDecision,
+    result?: unknown
+  ): Promise<PendingAction>;
+}
+
+// =============================================================================
+// INBOX EM MEMORIA
+// =============================================================================
+
+/**
+ * Padrao do Stage - some com o processo e nao audita
+ */
+export class InMemoryValidationInbox implements ValidationInbox {
+  private actions = new Map<string, PendingAction>();
+
+  async submit(action: PendingAction): Promise<PendingAction> {
+    const existing = this.actions.get(action.id);
+    if (!existing) {
+      this.actions.set(action.id, structuredClone(action));
+    }
+    return structuredClone(existing ?? action);
+  }
+
+  async list(entityActorId: ActorId, status?: PendingActionStatus): Promise<PendingAction[]> {
+    const actions = [...this.actions.values()]
+      .filter((action) => action.entityActorId === entityActorId && (!status || action.status === status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return structuredClone(actions);
+  }
+
+  async get(entityActorId: ActorId, actionId: string): Promise<PendingAction | undefined> {
+    const action = this.actions.get(actionId);
+    return action?.entityActorId === entityActorId ? structuredClone(action) : undefined;
+  }
+
+  async decide(
+    entityActorId: ActorId,
+    actionId: string,
+    decision: PendingActionDecision,
+    result?: unknown
+  ): Promise<PendingAction> {
+    const action = this.actions.get(actionId);
+    if (!action || action.entityActorId !== entityActorId) {
+      throw new Error('Pending action not found');
+    }
+    return structuredClone(decidePendingAction(action, decision, result));
+  }
+}